@@ -0,0 +1,19 @@
+import { createCache } from './memoryCache';
+
+/**
+ * Session Cache
+ *
+ * Backs GET /auth/session. Shared so that anything changing what the
+ * session returns (e.g. a new avatar) can evict the cached copy.
+ * - Uses memory cache for development (no setup required)
+ * - Automatically upgrades to Redis in production if available
+ */
+export const sessionCache = createCache();
+
+export const SESSION_CACHE_KEY_PREFIX = 'user_session:';
+
+/**
+ * Drop a user's cached session so the next request rebuilds it
+ */
+export const invalidateUserSession = (userId: string) =>
+  sessionCache.del(`${SESSION_CACHE_KEY_PREFIX}${userId}`);
@@ -37,6 +37,12 @@ export const USER_ROUTES = {
     OVERVIEW: "/stats/overview",
   },
   BULK_UPDATE: "/bulk-update",
+  ME: {
+    PACKAGES: "/me/packages",
+    WISHLIST: "/me/wishlist",
+    WISHLIST_ITEM: "/me/wishlist/:shalaId",
+    RECOMMENDATIONS: "/me/recommendations",
+  },
 } as const;
 
 // Shala Routes
@@ -45,6 +51,7 @@ export const SHALA_ROUTES = {
   BY_ID: "/:id",
   SEARCH: "/search",
   NEARBY: "/nearby",
+  REPORT: "/:id/report",
   BY_OWNER: "/by-owner",
   STATS: {
     OVERVIEW: "/stats/overview",
@@ -53,14 +60,29 @@ export const SHALA_ROUTES = {
     BASE: "/:id/classes",
     BY_CLASS_ID: "/:id/classes/:classId",
   },
+  DISCOUNTS: {
+    BASE: "/:id/discounts",
+    BY_DISCOUNT_ID: "/:id/discounts/:discountId",
+  },
   REVIEWS: {
     BASE: "/:id/reviews",
     BY_REVIEW_ID: "/:id/reviews/:reviewId",
+    REPLY: "/:id/reviews/:reviewId/reply",
   },
   IMAGES: {
     BASE: "/:id/images",
     UPLOAD: "/:id/images/upload",
     DELETE: "/:id/images/:imageId",
+    ORDER: "/:id/images/order",
+    COVER: "/:id/images/:imageId/cover",
+  },
+  EXCEPTIONS: {
+    BASE: "/:id/exceptions",
+    BY_EXCEPTION_ID: "/:id/exceptions/:exceptionId",
+  },
+  STAFF: {
+    BASE: "/:id/staff",
+    BY_USER_ID: "/:id/staff/:userId",
   },
 } as const;
 
@@ -69,14 +91,43 @@ export const BOOKING_ROUTES = {
   BASE: "/bookings",
   BY_ID: "/:id",
   MY_BOOKINGS: "/my-bookings",
+  QUOTE: "/quote",
   CANCEL: "/:id/cancel",
+  CANCELLATION_QUOTE: "/:id/cancellation-quote",
+  RESCHEDULE: "/:id/reschedule",
+  GUEST_CANCEL: "/:id/guests/:guestId/cancel",
+  GUEST_CHECKIN: "/:id/guests/:guestId/checkin",
   CHECKIN: "/:id/checkin",
+  CHECKIN_TOKEN: "/:id/checkin-token",
+  CHECKIN_SCAN: "/checkin",
   CHECKOUT: "/:id/checkout",
+  SERIES: {
+    BASE: "/series",
+    MINE: "/series/mine",
+    BY_SERIES_ID: "/series/:seriesId",
+    CANCEL: "/series/:seriesId/cancel",
+  },
+  WAITLIST: {
+    BASE: "/waitlist",
+    MINE: "/waitlist/mine",
+    BY_ENTRY_ID: "/waitlist/:entryId",
+    CLAIM: "/waitlist/:entryId/claim",
+  },
   STATS: {
     OVERVIEW: "/stats/overview",
   },
 } as const;
 
+// Payment Routes
+export const PAYMENT_ROUTES = {
+  BASE: "/payments",
+  WEBHOOK: "/webhook",
+  FAKE: {
+    COMPLETE: "/fake/:intentId/complete",
+    FAIL: "/fake/:intentId/fail",
+  },
+} as const;
+
 // Health Routes
 export const HEALTH_ROUTES = {
   BASE: "/health",
@@ -99,6 +150,18 @@ export const ADMIN_ROUTES = {
   SHALAS: "/shalas",
   BOOKINGS: "/bookings",
   ANALYTICS: "/analytics",
+  MODERATION: {
+    QUEUE: "/shalas/moderation",
+    APPROVE: "/shalas/:id/approve",
+    REJECT: "/shalas/:id/reject",
+  },
+  REPORTS: {
+    BASE: "/reports",
+    RESOLVE: "/reports/:id/resolve",
+  },
+  JOBS: {
+    RUNS: "/jobs/runs",
+  },
   SYSTEM: {
     BASE: "/system",
     LOGS: "/system/logs",
@@ -131,6 +194,10 @@ export const ROUTES = {
     BY_ID: (id: string) => `${API_PREFIX}${USER_ROUTES.BASE}/${id}`,
     STATS_OVERVIEW: `${API_PREFIX}${USER_ROUTES.BASE}${USER_ROUTES.STATS.OVERVIEW}`,
     BULK_UPDATE: `${API_PREFIX}${USER_ROUTES.BASE}${USER_ROUTES.BULK_UPDATE}`,
+    MY_PACKAGES: `${API_PREFIX}${USER_ROUTES.BASE}${USER_ROUTES.ME.PACKAGES}`,
+    MY_WISHLIST: `${API_PREFIX}${USER_ROUTES.BASE}${USER_ROUTES.ME.WISHLIST}`,
+    WISHLIST_ITEM: (shalaId: string) => `${API_PREFIX}${USER_ROUTES.BASE}/me/wishlist/${shalaId}`,
+    MY_RECOMMENDATIONS: `${API_PREFIX}${USER_ROUTES.BASE}${USER_ROUTES.ME.RECOMMENDATIONS}`,
   },
   
   // Shalas
@@ -143,11 +210,21 @@ export const ROUTES = {
     STATS_OVERVIEW: `${API_PREFIX}${SHALA_ROUTES.BASE}${SHALA_ROUTES.STATS.OVERVIEW}`,
     CLASSES: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/classes`,
     CLASS_BY_ID: (shalaId: string, classId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/classes/${classId}`,
+    DISCOUNTS: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/discounts`,
+    DISCOUNT_BY_ID: (shalaId: string, discountId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/discounts/${discountId}`,
     REVIEWS: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/reviews`,
     REVIEW_BY_ID: (shalaId: string, reviewId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/reviews/${reviewId}`,
+    REVIEW_REPLY: (shalaId: string, reviewId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/reviews/${reviewId}/reply`,
+    REPORT: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/report`,
     IMAGES: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/images`,
     UPLOAD_IMAGES: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/images/upload`,
     DELETE_IMAGE: (shalaId: string, imageId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/images/${imageId}`,
+    IMAGE_ORDER: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/images/order`,
+    IMAGE_COVER: (shalaId: string, imageId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/images/${imageId}/cover`,
+    EXCEPTIONS: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/exceptions`,
+    EXCEPTION_BY_ID: (shalaId: string, exceptionId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/exceptions/${exceptionId}`,
+    STAFF: (shalaId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/staff`,
+    STAFF_MEMBER: (shalaId: string, userId: string) => `${API_PREFIX}${SHALA_ROUTES.BASE}/${shalaId}/staff/${userId}`,
   },
   
   // Bookings
@@ -155,12 +232,32 @@ export const ROUTES = {
     BASE: `${API_PREFIX}${BOOKING_ROUTES.BASE}`,
     BY_ID: (id: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}`,
     MY_BOOKINGS: `${API_PREFIX}${BOOKING_ROUTES.BASE}${BOOKING_ROUTES.MY_BOOKINGS}`,
+    QUOTE: `${API_PREFIX}${BOOKING_ROUTES.BASE}${BOOKING_ROUTES.QUOTE}`,
     CANCEL: (id: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}/cancel`,
+    CANCELLATION_QUOTE: (id: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}/cancellation-quote`,
+    RESCHEDULE: (id: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}/reschedule`,
+    GUEST_CANCEL: (id: string, guestId: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}/guests/${guestId}/cancel`,
+    GUEST_CHECKIN: (id: string, guestId: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}/guests/${guestId}/checkin`,
     CHECKIN: (id: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}/checkin`,
+    CHECKIN_TOKEN: (id: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}/checkin-token`,
+    CHECKIN_SCAN: `${API_PREFIX}${BOOKING_ROUTES.BASE}${BOOKING_ROUTES.CHECKIN_SCAN}`,
     CHECKOUT: (id: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/${id}/checkout`,
+    SERIES: `${API_PREFIX}${BOOKING_ROUTES.BASE}${BOOKING_ROUTES.SERIES.BASE}`,
+    SERIES_MINE: `${API_PREFIX}${BOOKING_ROUTES.BASE}${BOOKING_ROUTES.SERIES.MINE}`,
+    SERIES_BY_ID: (seriesId: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/series/${seriesId}`,
+    SERIES_CANCEL: (seriesId: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/series/${seriesId}/cancel`,
+    WAITLIST: `${API_PREFIX}${BOOKING_ROUTES.BASE}${BOOKING_ROUTES.WAITLIST.BASE}`,
+    WAITLIST_MINE: `${API_PREFIX}${BOOKING_ROUTES.BASE}${BOOKING_ROUTES.WAITLIST.MINE}`,
+    WAITLIST_ENTRY: (entryId: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/waitlist/${entryId}`,
+    WAITLIST_CLAIM: (entryId: string) => `${API_PREFIX}${BOOKING_ROUTES.BASE}/waitlist/${entryId}/claim`,
     STATS_OVERVIEW: `${API_PREFIX}${BOOKING_ROUTES.BASE}${BOOKING_ROUTES.STATS.OVERVIEW}`,
   },
   
+  // Payments
+  PAYMENTS: {
+    WEBHOOK: `${API_PREFIX}${PAYMENT_ROUTES.BASE}${PAYMENT_ROUTES.WEBHOOK}`,
+  },
+  
   // Health
   HEALTH: {
     BASE: `${API_PREFIX}${HEALTH_ROUTES.BASE}`,
@@ -183,6 +280,12 @@ export const ROUTES = {
     SHALAS: `${API_PREFIX}${ADMIN_ROUTES.BASE}${ADMIN_ROUTES.SHALAS}`,
     BOOKINGS: `${API_PREFIX}${ADMIN_ROUTES.BASE}${ADMIN_ROUTES.BOOKINGS}`,
     ANALYTICS: `${API_PREFIX}${ADMIN_ROUTES.BASE}${ADMIN_ROUTES.ANALYTICS}`,
+    MODERATION_QUEUE: `${API_PREFIX}${ADMIN_ROUTES.BASE}${ADMIN_ROUTES.MODERATION.QUEUE}`,
+    APPROVE_SHALA: (shalaId: string) => `${API_PREFIX}${ADMIN_ROUTES.BASE}/shalas/${shalaId}/approve`,
+    REJECT_SHALA: (shalaId: string) => `${API_PREFIX}${ADMIN_ROUTES.BASE}/shalas/${shalaId}/reject`,
+    REPORTS: `${API_PREFIX}${ADMIN_ROUTES.BASE}${ADMIN_ROUTES.REPORTS.BASE}`,
+    RESOLVE_REPORT: (reportId: string) => `${API_PREFIX}${ADMIN_ROUTES.BASE}/reports/${reportId}/resolve`,
+    JOB_RUNS: `${API_PREFIX}${ADMIN_ROUTES.BASE}${ADMIN_ROUTES.JOBS.RUNS}`,
     SYSTEM_LOGS: `${API_PREFIX}${ADMIN_ROUTES.BASE}${ADMIN_ROUTES.SYSTEM.LOGS}`,
     SYSTEM_CLEANUP: `${API_PREFIX}${ADMIN_ROUTES.BASE}${ADMIN_ROUTES.SYSTEM.CLEANUP}`,
   },
@@ -194,6 +297,7 @@ export const ROUTE_SEGMENTS = {
   USERS: USER_ROUTES,
   SHALAS: SHALA_ROUTES,
   BOOKINGS: BOOKING_ROUTES,
+  PAYMENTS: PAYMENT_ROUTES,
   HEALTH: HEALTH_ROUTES,
   UPLOAD: UPLOAD_ROUTES,
   ADMIN: ADMIN_ROUTES,
@@ -214,6 +318,7 @@ export const ROUTE_TAGS = {
   USERS: "Users",
   SHALAS: "Shalas",
   BOOKINGS: "Bookings",
+  PAYMENTS: "Payments",
   HEALTH: "Health",
   UPLOAD: "Upload",
   ADMIN: "Admin",
@@ -0,0 +1,25 @@
+// Yoga styles a class can be tagged with and a user can prefer
+export const YOGA_STYLES = [
+  "hatha",
+  "vinyasa",
+  "ashtanga",
+  "iyengar",
+  "kundalini",
+  "bikram",
+  "hot_yoga",
+  "yin",
+  "restorative",
+  "meditation",
+] as const;
+
+export type YogaStyle = (typeof YOGA_STYLES)[number];
+
+// Experience a class is aimed at; "all_levels" suits everyone
+export const CLASS_LEVELS = [
+  "all_levels",
+  "beginner",
+  "intermediate",
+  "advanced",
+] as const;
+
+export type ClassLevel = (typeof CLASS_LEVELS)[number];
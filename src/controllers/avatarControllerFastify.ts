@@ -0,0 +1,84 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  AvatarFile,
+  AvatarResult,
+  AvatarService,
+} from "../services/user/avatarService";
+import { invalidateUserSession } from "../cache/sessionCache";
+
+export class AvatarControllerFastify {
+  // Upload or replace the authenticated user's avatar
+  static async uploadAvatar(request: FastifyRequest, reply: FastifyReply) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    if (!request.isMultipart()) {
+      return reply.status(400).send({
+        success: false,
+        code: AvatarService.ERROR_CODES.NO_FILE,
+        message: "Send the image as multipart/form-data",
+      });
+    }
+
+    let file: AvatarFile | undefined;
+    try {
+      const part = await request.file({
+        limits: { fileSize: AvatarService.MAX_FILE_SIZE, files: 1 },
+      });
+      if (part) {
+        file = {
+          filename: part.filename,
+          mimetype: part.mimetype,
+          buffer: await part.toBuffer(),
+        };
+      }
+    } catch (error: any) {
+      if (error?.code === "FST_REQ_FILE_TOO_LARGE") {
+        return reply.status(413).send({
+          success: false,
+          code: "UPLOAD_TOO_LARGE",
+          message: `Avatars can be up to ${AvatarService.MAX_FILE_SIZE / 1024 / 1024} MB`,
+        });
+      }
+      throw error;
+    }
+
+    const result = await AvatarService.uploadAvatar(userId, file);
+    if (result.success) await invalidateUserSession(userId);
+    AvatarControllerFastify.sendResult(reply, result);
+  }
+
+  // Remove the authenticated user's avatar
+  static async deleteAvatar(request: FastifyRequest, reply: FastifyReply) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await AvatarService.deleteAvatar(userId);
+    if (result.success) await invalidateUserSession(userId);
+    AvatarControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: AvatarResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -1,47 +1,73 @@
 import { FastifyRequest, FastifyReply } from "fastify";
 import Booking from "../models/Booking";
 import YogaShala from "../models/YogaShala";
-import { IBooking as BookingType } from "../models/Booking";
+import {
+  BookingService,
+  BookingResult,
+} from "../services/booking/bookingService";
+import { PricingService } from "../services/booking/pricingService";
+import { BookingGuestData } from "../services/booking/guestService";
 
 // Define request types
-interface CreateBookingRequest {
+export interface CreateBookingRequest {
   Body: {
     shalaId: string;
     classId: string;
-    date: string;
-    timeSlot: {
+    date?: string;
+    timeSlot?: {
       startTime: string;
       endTime: string;
     };
     paymentMethod: string;
-    amount: number;
+    amount?: number;
+    packageId?: string;
+    discountCode?: string;
+    guests?: BookingGuestData[];
   };
 }
 
-interface GetBookingRequest {
+export interface BookingQuoteRequest {
+  Querystring: {
+    shalaId: string;
+    classId: string;
+    paymentMethod: string;
+    packageId?: string;
+    discountCode?: string;
+    guests?: number;
+  };
+}
+
+export interface GetBookingRequest {
   Params: {
     id: string;
   };
 }
 
-interface UpdateBookingRequest {
+export interface UpdateBookingRequest {
   Params: {
     id: string;
   };
   Body: {
-    status?: string;
-    paymentStatus?: string;
-    notes?: string;
+    notes: string;
+  };
+}
+
+export interface CancelBookingRequest {
+  Params: {
+    id: string;
+  };
+  Body?: {
+    reason?: string;
   };
 }
 
-interface CancelBookingRequest {
+export interface CancellationQuoteRequest {
   Params: {
     id: string;
   };
 }
 
-interface ListBookingsRequest {
+export interface ListBookingsRequest {
   Querystring: {
     page?: string;
     limit?: string;
@@ -67,69 +93,19 @@ export class BookingControllerFastify {
         });
       }
 
-      const { shalaId, classId, date, timeSlot, paymentMethod, amount } =
-        request.body;
-
-      // Check if shala exists and is active
-      const shala = await YogaShala.findById(shalaId);
-      if (!shala || !shala.isActive) {
-        return reply.status(404).send({
-          success: false,
-          message: "Shala not found or inactive",
-        });
-      }
-
-      // Check if class exists in shala schedule
-      const classExists = shala.schedule.some(
-        (slot) =>
-          slot.startTime === timeSlot.startTime &&
-          slot.endTime === timeSlot.endTime
-      );
-
-      if (!classExists) {
-        return reply.status(400).send({
-          success: false,
-          message: "Class not found in shala schedule",
-        });
-      }
+      const result = await BookingService.createBooking(userId, request.body);
 
-      // Check if booking already exists for this user, class, and date
-      const existingBooking = await Booking.findOne({
-        user: userId,
-        shala: shalaId,
-        date,
-        status: { $in: ["confirmed", "pending"] },
-      });
-
-      if (existingBooking) {
-        return reply.status(400).send({
-          success: false,
-          message: "Booking already exists for this class and date",
-        });
+      if (!result.success) {
+        return BookingControllerFastify.sendFailure(reply, result);
       }
 
-      // Create new booking
-      const booking = new Booking({
-        user: userId,
-        shala: shalaId,
-        classId,
-        date,
-        timeSlot,
-        paymentMethod,
-        amount,
-        status: "pending",
-        paymentStatus: "pending",
-      }) as BookingType;
-
-      await booking.save();
-
-      // Populate shala details
-      await booking.populate("shala", "name address contact");
-
       reply.status(201).send({
         success: true,
-        message: "Booking created successfully",
-        booking,
+        message: result.message,
+        booking: result.booking,
+        quote: result.quote,
+        remainingSpots: result.remainingSpots,
+        payment: result.payment,
       });
     } catch (error) {
       request.log.error("Create booking error:", error);
@@ -199,7 +175,7 @@ export class BookingControllerFastify {
     try {
       const { id } = request.params;
       const userId = (request as any).user?.id;
-      const updateData = request.body;
+      const { notes } = request.body;
 
       if (!userId) {
         return reply.status(401).send({
@@ -233,10 +209,14 @@ export class BookingControllerFastify {
       }
 
       // Update booking
-      const updatedBooking = await Booking.findByIdAndUpdate(id, updateData, {
-        new: true,
-        runValidators: true,
-      })
+      const updatedBooking = await Booking.findByIdAndUpdate(
+        id,
+        { notes },
+        {
+          new: true,
+          runValidators: true,
+        }
+      )
         .populate("shala", "name address contact")
         .populate("user", "name email");
 
@@ -270,39 +250,20 @@ export class BookingControllerFastify {
         });
       }
 
-      const booking = await Booking.findById(id);
-
-      if (!booking) {
-        return reply.status(404).send({
-          success: false,
-          message: "Booking not found",
-        });
-      }
-
-      // Check if user owns this booking
-      if (booking.user.toString() !== userId) {
-        return reply.status(403).send({
-          success: false,
-          message: "Not authorized to cancel this booking",
-        });
-      }
+      const result = await BookingService.cancelBooking(
+        id,
+        userId,
+        request.body?.reason
+      );
 
-      // Check if booking can be cancelled
-      if (booking.status === "cancelled") {
-        return reply.status(400).send({
-          success: false,
-          message: "Booking is already cancelled",
-        });
+      if (!result.success) {
+        return BookingControllerFastify.sendFailure(reply, result);
       }
 
-      // Update booking status
-      booking.status = "cancelled";
-      booking.cancelledAt = new Date();
-      await booking.save();
-
       reply.send({
         success: true,
-        message: "Booking cancelled successfully",
+        message: result.message,
+        refund: result.refund,
       });
     } catch (error) {
       request.log.error("Cancel booking error:", error);
@@ -313,6 +274,68 @@ export class BookingControllerFastify {
     }
   }
 
+  // Preview the refund for cancelling a booking now
+  static async getCancellationQuote(
+    request: FastifyRequest<CancellationQuoteRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await BookingService.getCancellationQuote(
+      request.params.id,
+      userId
+    );
+
+    if (!result.success) {
+      return BookingControllerFastify.sendFailure(reply, result);
+    }
+
+    reply.send({
+      success: true,
+      message: result.message,
+      refund: result.refund,
+      cancellationPolicy: result.cancellationPolicy,
+    });
+  }
+
+  // Itemized price of a class for the current user
+  static async getQuote(
+    request: FastifyRequest<BookingQuoteRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await PricingService.quote(userId, request.query);
+
+    if (!result.success) {
+      return reply.status(result.statusCode || 500).send({
+        success: false,
+        code: result.code,
+        message: result.message,
+      });
+    }
+
+    reply.send({
+      success: true,
+      message: result.message,
+      quote: result.quote,
+    });
+  }
+
   // Get user's bookings
   static async getUserBookings(
     request: FastifyRequest<ListBookingsRequest>,
@@ -500,6 +523,20 @@ export class BookingControllerFastify {
     }
   }
 
+  // Send a failed service result with its status code and error code
+  private static sendFailure(reply: FastifyReply, result: BookingResult) {
+    return reply.status(result.statusCode || 500).send({
+      success: false,
+      code: result.code,
+      message: result.message,
+      ...(result.remainingSpots !== undefined && {
+        remainingSpots: result.remainingSpots,
+      }),
+      ...(result.quote && { quote: result.quote }),
+      ...(result.blockedUntil && { blockedUntil: result.blockedUntil }),
+    });
+  }
+
   // Helper method to check if user is shala owner
   private static async isShalaOwner(
     userId: string,
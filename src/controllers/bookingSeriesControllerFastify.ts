@@ -0,0 +1,119 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  BookingSeriesData,
+  BookingSeriesResult,
+  BookingSeriesService,
+} from "../services/booking/bookingSeriesService";
+
+// Define request types
+export interface CreateSeriesRequest {
+  Body: BookingSeriesData;
+}
+
+export interface SeriesByIdRequest {
+  Params: {
+    seriesId: string;
+  };
+}
+
+export interface CancelSeriesRequest {
+  Params: {
+    seriesId: string;
+  };
+  Body?: {
+    reason?: string;
+  };
+}
+
+export class BookingSeriesControllerFastify {
+  // Book a weekly class for several weeks
+  static async createSeries(
+    request: FastifyRequest<CreateSeriesRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await BookingSeriesService.createSeries(
+      userId,
+      request.body
+    );
+    BookingSeriesControllerFastify.sendResult(reply, result, 201);
+  }
+
+  // The user's recurring bookings
+  static async listMySeries(request: FastifyRequest, reply: FastifyReply) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await BookingSeriesService.listMySeries(userId);
+    BookingSeriesControllerFastify.sendResult(reply, result);
+  }
+
+  // A recurring booking and its classes
+  static async getSeries(
+    request: FastifyRequest<SeriesByIdRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await BookingSeriesService.getSeries(
+      userId,
+      request.params.seriesId
+    );
+    BookingSeriesControllerFastify.sendResult(reply, result);
+  }
+
+  // Cancel the remaining classes of a recurring booking
+  static async cancelSeries(
+    request: FastifyRequest<CancelSeriesRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await BookingSeriesService.cancelSeries(
+      userId,
+      request.params.seriesId,
+      request.body?.reason
+    );
+    BookingSeriesControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: BookingSeriesResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,164 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  CheckInResult,
+  CheckInService,
+} from "../services/booking/checkInService";
+import { StaffActor } from "../services/shala/staffService";
+
+// Define request types
+export interface CheckInBookingRequest {
+  Params: {
+    id: string;
+  };
+  Body?: {
+    token?: string;
+  };
+}
+
+export interface CheckInTokenRequest {
+  Params: {
+    id: string;
+  };
+  Querystring: {
+    guestId?: string;
+  };
+}
+
+export interface CheckInGuestRequest {
+  Params: {
+    id: string;
+    guestId: string;
+  };
+  Body?: {
+    token?: string;
+  };
+}
+
+export interface ScanCheckInRequest {
+  Body: {
+    token: string;
+  };
+}
+
+export class CheckInControllerFastify {
+  // Short-lived code the user, or one of their guests, shows at the front
+  // desk
+  static async getToken(
+    request: FastifyRequest<CheckInTokenRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = CheckInControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await CheckInService.issueToken(
+      actor.id,
+      request.params.id,
+      request.query.guestId
+    );
+    CheckInControllerFastify.sendResult(reply, result);
+  }
+
+  // Check a user in from a scanned code
+  static async scan(
+    request: FastifyRequest<ScanCheckInRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = CheckInControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await CheckInService.checkIn(actor, {
+      token: request.body.token,
+    });
+    CheckInControllerFastify.sendResult(reply, result);
+  }
+
+  // Check a user in by booking, e.g. from the class roster
+  static async checkIn(
+    request: FastifyRequest<CheckInBookingRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = CheckInControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await CheckInService.checkIn(actor, {
+      bookingId: request.params.id,
+      token: request.body?.token,
+    });
+    CheckInControllerFastify.sendResult(reply, result);
+  }
+
+  // Check in one guest of a group booking
+  static async checkInGuest(
+    request: FastifyRequest<CheckInGuestRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = CheckInControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await CheckInService.checkIn(actor, {
+      bookingId: request.params.id,
+      guestId: request.params.guestId,
+      token: request.body?.token,
+    });
+    CheckInControllerFastify.sendResult(reply, result);
+  }
+
+  // Record when a user left the class
+  static async checkOut(
+    request: FastifyRequest<CheckInBookingRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = CheckInControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await CheckInService.checkOut(actor, request.params.id);
+    CheckInControllerFastify.sendResult(reply, result);
+  }
+
+  private static getActor(request: FastifyRequest): StaffActor | null {
+    const user = (request as any).user;
+    return user?.id ? { id: user.id, role: user.role } : null;
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: CheckInResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,57 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  OccurrenceService,
+  OccurrenceResult,
+} from "../services/schedule/occurrenceService";
+
+// Define request types
+export interface ListClassesRequest {
+  Params: {
+    id: string;
+  };
+  Querystring: {
+    from?: string;
+    to?: string;
+  };
+}
+
+export interface GetClassRequest {
+  Params: {
+    id: string;
+    classId: string;
+  };
+}
+
+export class ClassControllerFastify {
+  // List a shala's dated classes in a date range
+  static async listClasses(
+    request: FastifyRequest<ListClassesRequest>,
+    reply: FastifyReply
+  ) {
+    const { from, to } = request.query;
+    const result = await OccurrenceService.listOccurrences(
+      request.params.id,
+      from,
+      to
+    );
+    ClassControllerFastify.sendResult(reply, result);
+  }
+
+  // Get a single class with its remaining spots
+  static async getClass(
+    request: FastifyRequest<GetClassRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await OccurrenceService.getOccurrence(
+      request.params.id,
+      request.params.classId
+    );
+    ClassControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(reply: FastifyReply, result: OccurrenceResult) {
+    const { statusCode, ...body } = result;
+    return reply.status(result.success ? 200 : statusCode || 500).send(body);
+  }
+}
@@ -0,0 +1,143 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  DiscountActor,
+  DiscountData,
+  DiscountResult,
+  DiscountService,
+} from "../services/discount/discountService";
+
+// Define request types
+export interface ListDiscountsRequest {
+  Params: {
+    id: string;
+  };
+}
+
+export interface CreateDiscountRequest {
+  Params: {
+    id: string;
+  };
+  Body: DiscountData;
+}
+
+export interface UpdateDiscountRequest {
+  Params: {
+    id: string;
+    discountId: string;
+  };
+  Body: DiscountData;
+}
+
+export interface DiscountByIdRequest {
+  Params: {
+    id: string;
+    discountId: string;
+  };
+}
+
+export class DiscountControllerFastify {
+  // List a shala's promo codes
+  static async listDiscounts(
+    request: FastifyRequest<ListDiscountsRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = DiscountControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await DiscountService.listDiscounts(
+      actor,
+      request.params.id
+    );
+    DiscountControllerFastify.sendResult(reply, result);
+  }
+
+  // Create a promo code for a shala
+  static async createDiscount(
+    request: FastifyRequest<CreateDiscountRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = DiscountControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await DiscountService.createDiscount(
+      actor,
+      request.params.id,
+      request.body
+    );
+    DiscountControllerFastify.sendResult(reply, result, 201);
+  }
+
+  // Update a promo code's terms
+  static async updateDiscount(
+    request: FastifyRequest<UpdateDiscountRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = DiscountControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await DiscountService.updateDiscount(
+      actor,
+      request.params.id,
+      request.params.discountId,
+      request.body
+    );
+    DiscountControllerFastify.sendResult(reply, result);
+  }
+
+  // Deactivate a promo code
+  static async deactivateDiscount(
+    request: FastifyRequest<DiscountByIdRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = DiscountControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await DiscountService.deactivateDiscount(
+      actor,
+      request.params.id,
+      request.params.discountId
+    );
+    DiscountControllerFastify.sendResult(reply, result);
+  }
+
+  private static getActor(request: FastifyRequest): DiscountActor | null {
+    const user = (request as any).user;
+    return user?.id ? { id: user.id, role: user.role } : null;
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: DiscountResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,50 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { GuestResult, GuestService } from "../services/booking/guestService";
+
+// Define request types
+export interface CancelGuestRequest {
+  Params: {
+    id: string;
+    guestId: string;
+  };
+  Body?: {
+    reason?: string;
+  };
+}
+
+export class GuestControllerFastify {
+  // Take one guest off a group booking
+  static async cancelGuest(
+    request: FastifyRequest<CancelGuestRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await GuestService.cancelGuest(
+      userId,
+      request.params.id,
+      request.params.guestId,
+      request.body?.reason
+    );
+    GuestControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: GuestResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -2,6 +2,8 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import jwt from 'jsonwebtoken';
 import User from '../models/User';
 import { IUser as UserType } from '../models/User';
+import { SESSION_CACHE_KEY_PREFIX } from '../cache/sessionCache';
+import { AvatarService } from '../services/user/avatarService';
 
 /**
  * Interface for authenticated requests
@@ -32,7 +34,7 @@ export class HybridAuthController {
   private cache: CacheInterface;
   
   // Cache configuration
-  private readonly CACHE_KEY_PREFIX = 'user_session:';
+  private readonly CACHE_KEY_PREFIX = SESSION_CACHE_KEY_PREFIX;
   private readonly CACHE_TTL_SECONDS = 1800; // 30 minutes
   private readonly REFRESH_BEFORE_EXPIRY_SECONDS = 300; // 5 minutes
 
@@ -159,7 +161,7 @@ export class HybridAuthController {
           id: (user as any)._id.toString(),
           email: user.email,
           name: user.name,
-          avatar: (user as any).avatar,
+          avatar: AvatarService.formatAvatar(user.avatar),
           role: user.role,
           isActive: user.isActive,
           isVerified: user.isVerified,
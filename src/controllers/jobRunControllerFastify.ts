@@ -0,0 +1,34 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  JobRunResult,
+  JobRunsQuery,
+  JobRunService,
+} from "../services/jobs/jobRunService";
+
+// Define request types
+export interface ListJobRunsRequest {
+  Querystring: JobRunsQuery;
+}
+
+export class JobRunControllerFastify {
+  // Recent background job runs
+  static async listRuns(
+    request: FastifyRequest<ListJobRunsRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await JobRunService.listRuns(request.query);
+    JobRunControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: JobRunResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,143 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  ModerationActor,
+  ModerationQueueQuery,
+  ModerationResult,
+  ModerationService,
+  ReportData,
+  ReportsQuery,
+  ResolveReportData,
+} from "../services/shala/moderationService";
+
+// Define request types
+export interface ReportShalaRequest {
+  Params: {
+    id: string;
+  };
+  Body: ReportData;
+}
+
+export interface ModerationQueueRequest {
+  Querystring: ModerationQueueQuery;
+}
+
+export interface ApproveShalaRequest {
+  Params: {
+    id: string;
+  };
+}
+
+export interface RejectShalaRequest {
+  Params: {
+    id: string;
+  };
+  Body: {
+    reason: string;
+    takedown?: boolean;
+  };
+}
+
+export interface ListReportsRequest {
+  Querystring: ReportsQuery;
+}
+
+export interface ResolveReportRequest {
+  Params: {
+    id: string;
+  };
+  Body: ResolveReportData;
+}
+
+export class ModerationControllerFastify {
+  // Report a listing
+  static async reportShala(
+    request: FastifyRequest<ReportShalaRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ModerationControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ModerationService.reportShala(
+      actor.id,
+      request.params.id,
+      request.body
+    );
+    ModerationControllerFastify.sendResult(reply, result, 201);
+  }
+
+  // Listings waiting for approval
+  static async listQueue(
+    request: FastifyRequest<ModerationQueueRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await ModerationService.listQueue(request.query);
+    ModerationControllerFastify.sendResult(reply, result);
+  }
+
+  static async approveShala(
+    request: FastifyRequest<ApproveShalaRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await ModerationService.approveShala(
+      ModerationControllerFastify.getActor(request)!,
+      request.params.id
+    );
+    ModerationControllerFastify.sendResult(reply, result);
+  }
+
+  static async rejectShala(
+    request: FastifyRequest<RejectShalaRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await ModerationService.rejectShala(
+      ModerationControllerFastify.getActor(request)!,
+      request.params.id,
+      request.body.reason,
+      request.body.takedown
+    );
+    ModerationControllerFastify.sendResult(reply, result);
+  }
+
+  static async listReports(
+    request: FastifyRequest<ListReportsRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await ModerationService.listReports(request.query);
+    ModerationControllerFastify.sendResult(reply, result);
+  }
+
+  static async resolveReport(
+    request: FastifyRequest<ResolveReportRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await ModerationService.resolveReport(
+      ModerationControllerFastify.getActor(request)!,
+      request.params.id,
+      request.body
+    );
+    ModerationControllerFastify.sendResult(reply, result);
+  }
+
+  private static getActor(request: FastifyRequest): ModerationActor | null {
+    const user = (request as any).user;
+    return user?.id ? { id: user.id, role: user.role } : null;
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: ModerationResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
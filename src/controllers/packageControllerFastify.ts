@@ -0,0 +1,70 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  PackageService,
+  PackageResult,
+  PurchasePackageData,
+} from "../services/package/packageService";
+
+// Define request types
+export interface PurchasePackageRequest {
+  Body: PurchasePackageData;
+}
+
+export interface ListPackagesRequest {
+  Querystring: {
+    includeInactive?: boolean;
+  };
+}
+
+export class PackageControllerFastify {
+  // Buy a class package from a shala
+  static async purchasePackage(
+    request: FastifyRequest<PurchasePackageRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await PackageService.purchasePackage(userId, request.body);
+    PackageControllerFastify.sendResult(reply, result, 201);
+  }
+
+  // Get the authenticated user's packages
+  static async getMyPackages(
+    request: FastifyRequest<ListPackagesRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await PackageService.getUserPackages(
+      userId,
+      request.query.includeInactive === true
+    );
+    PackageControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: PackageResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,88 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  PaymentService,
+  PaymentResult,
+} from "../services/payment/paymentService";
+import { getPaymentProvider } from "../services/payment/paymentProviderFactory";
+import { FakePaymentProvider } from "../services/payment/fakePaymentProvider";
+
+// Define request types
+export interface FakePaymentRequest {
+  Params: {
+    intentId: string;
+  };
+  Body?: {
+    reason?: string;
+  };
+}
+
+export class PaymentControllerFastify {
+  // Receive payment events from the gateway
+  static async handleWebhook(request: FastifyRequest, reply: FastifyReply) {
+    const provider = getPaymentProvider();
+    const signature = request.headers[provider.signatureHeader];
+
+    const result = await PaymentService.handleWebhook(
+      (request as any).rawBody || "",
+      typeof signature === "string" ? signature : ""
+    );
+    PaymentControllerFastify.sendResult(reply, result);
+  }
+
+  // Simulate the customer paying at the fake gateway (development only)
+  static async completeFakePayment(
+    request: FastifyRequest<FakePaymentRequest>,
+    reply: FastifyReply
+  ) {
+    const provider = getPaymentProvider() as FakePaymentProvider;
+
+    let webhook;
+    try {
+      webhook = provider.completePayment(request.params.intentId);
+    } catch (error) {
+      return reply.status(404).send({
+        success: false,
+        message: "Payment intent not found",
+      });
+    }
+
+    const result = await PaymentService.handleWebhook(
+      webhook.rawBody,
+      webhook.signature
+    );
+    PaymentControllerFastify.sendResult(reply, result);
+  }
+
+  // Simulate a declined payment at the fake gateway (development only)
+  static async failFakePayment(
+    request: FastifyRequest<FakePaymentRequest>,
+    reply: FastifyReply
+  ) {
+    const provider = getPaymentProvider() as FakePaymentProvider;
+
+    let webhook;
+    try {
+      webhook = provider.failPayment(
+        request.params.intentId,
+        request.body?.reason
+      );
+    } catch (error) {
+      return reply.status(404).send({
+        success: false,
+        message: "Payment intent not found",
+      });
+    }
+
+    const result = await PaymentService.handleWebhook(
+      webhook.rawBody,
+      webhook.signature
+    );
+    PaymentControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(reply: FastifyReply, result: PaymentResult) {
+    const { statusCode, ...body } = result;
+    return reply.status(result.success ? 200 : statusCode || 500).send(body);
+  }
+}
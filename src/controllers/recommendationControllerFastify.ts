@@ -0,0 +1,34 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  RecommendationQuery,
+  RecommendationService,
+} from "../services/recommendation/recommendationService";
+
+// Define request types
+export interface RecommendationsRequest {
+  Querystring: RecommendationQuery;
+}
+
+export class RecommendationControllerFastify {
+  // Upcoming classes ranked for the authenticated user
+  static async getRecommendations(
+    request: FastifyRequest<RecommendationsRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await RecommendationService.getRecommendations(
+      userId,
+      request.query
+    );
+    const { statusCode, ...body } = result;
+    reply.status(result.success ? 200 : statusCode || 500).send(body);
+  }
+}
@@ -0,0 +1,57 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  RescheduleData,
+  RescheduleResult,
+  RescheduleService,
+} from "../services/booking/rescheduleService";
+
+// Define request types
+export interface RescheduleBookingRequest {
+  Params: {
+    id: string;
+  };
+  Body: RescheduleData;
+}
+
+export class RescheduleControllerFastify {
+  // Move a booking to another class at the same shala
+  static async reschedule(
+    request: FastifyRequest<RescheduleBookingRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await RescheduleService.reschedule(
+      userId,
+      request.params.id,
+      request.body
+    );
+
+    // A move waiting for the price difference to be paid is accepted,
+    // not done yet
+    RescheduleControllerFastify.sendResult(
+      reply,
+      result,
+      result.payment ? 202 : 200
+    );
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: RescheduleResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,169 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  ListReviewsQuery,
+  ReviewActor,
+  ReviewData,
+  ReviewResult,
+  ReviewService,
+} from "../services/review/reviewService";
+
+// Define request types
+export interface ListReviewsRequest {
+  Params: {
+    id: string;
+  };
+  Querystring: ListReviewsQuery;
+}
+
+export interface CreateReviewRequest {
+  Params: {
+    id: string;
+  };
+  Body: ReviewData;
+}
+
+export interface UpdateReviewRequest {
+  Params: {
+    id: string;
+    reviewId: string;
+  };
+  Body: ReviewData;
+}
+
+export interface ReviewByIdRequest {
+  Params: {
+    id: string;
+    reviewId: string;
+  };
+}
+
+export interface ReplyToReviewRequest {
+  Params: {
+    id: string;
+    reviewId: string;
+  };
+  Body: {
+    text: string;
+  };
+}
+
+export class ReviewControllerFastify {
+  // List a shala's reviews
+  static async listReviews(
+    request: FastifyRequest<ListReviewsRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await ReviewService.listReviews(
+      request.params.id,
+      request.query
+    );
+    ReviewControllerFastify.sendResult(reply, result);
+  }
+
+  // Review a shala the user has completed a class at
+  static async createReview(
+    request: FastifyRequest<CreateReviewRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ReviewControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ReviewService.createReview(
+      actor.id,
+      request.params.id,
+      request.body
+    );
+    ReviewControllerFastify.sendResult(reply, result, 201);
+  }
+
+  // Edit the user's own review
+  static async updateReview(
+    request: FastifyRequest<UpdateReviewRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ReviewControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ReviewService.updateReview(
+      actor.id,
+      request.params.id,
+      request.params.reviewId,
+      request.body
+    );
+    ReviewControllerFastify.sendResult(reply, result);
+  }
+
+  // Delete a review (author or admin)
+  static async deleteReview(
+    request: FastifyRequest<ReviewByIdRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ReviewControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ReviewService.deleteReview(
+      actor,
+      request.params.id,
+      request.params.reviewId
+    );
+    ReviewControllerFastify.sendResult(reply, result);
+  }
+
+  // Owner reply to a review
+  static async replyToReview(
+    request: FastifyRequest<ReplyToReviewRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ReviewControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ReviewService.replyToReview(
+      actor,
+      request.params.id,
+      request.params.reviewId,
+      request.body.text
+    );
+    ReviewControllerFastify.sendResult(reply, result);
+  }
+
+  private static getActor(request: FastifyRequest): ReviewActor | null {
+    const user = (request as any).user;
+    return user?.id ? { id: user.id, role: user.role } : null;
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: ReviewResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,106 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  ExceptionActor,
+  ListExceptionsQuery,
+  ScheduleExceptionData,
+  ScheduleExceptionResult,
+  ScheduleExceptionService,
+} from "../services/schedule/scheduleExceptionService";
+
+// Define request types
+export interface ListExceptionsRequest {
+  Params: {
+    id: string;
+  };
+  Querystring: ListExceptionsQuery;
+}
+
+export interface CreateExceptionRequest {
+  Params: {
+    id: string;
+  };
+  Body: ScheduleExceptionData;
+}
+
+export interface ExceptionByIdRequest {
+  Params: {
+    id: string;
+    exceptionId: string;
+  };
+}
+
+export class ScheduleExceptionControllerFastify {
+  // List a shala's upcoming closures and class changes
+  static async listExceptions(
+    request: FastifyRequest<ListExceptionsRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await ScheduleExceptionService.listExceptions(
+      request.params.id,
+      ScheduleExceptionControllerFastify.getActor(request),
+      request.query
+    );
+    ScheduleExceptionControllerFastify.sendResult(reply, result);
+  }
+
+  // Add a closure, cancellation, time change or substitute
+  static async createException(
+    request: FastifyRequest<CreateExceptionRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ScheduleExceptionControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ScheduleExceptionService.createException(
+      actor,
+      request.params.id,
+      request.body
+    );
+    ScheduleExceptionControllerFastify.sendResult(reply, result, 201);
+  }
+
+  // Remove an exception and restore the regular schedule
+  static async deleteException(
+    request: FastifyRequest<ExceptionByIdRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ScheduleExceptionControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ScheduleExceptionService.deleteException(
+      actor,
+      request.params.id,
+      request.params.exceptionId
+    );
+    ScheduleExceptionControllerFastify.sendResult(reply, result);
+  }
+
+  private static getActor(request: FastifyRequest): ExceptionActor | null {
+    const user = (request as any).user;
+    return user?.id ? { id: user.id, role: user.role } : null;
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: ScheduleExceptionResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -1,30 +1,46 @@
 import { FastifyRequest, FastifyReply } from "fastify";
-import YogaShala from "../models/YogaShala";
-import { IYogaShala as ShalaType } from "../models/YogaShala";
+import YogaShala, {
+  getShalaTimezone,
+  isPublished,
+  PUBLISHED_SHALA_FILTER,
+} from "../models/YogaShala";
+import {
+  IYogaShala as ShalaType,
+  ICancellationPolicy,
+  IReschedulePolicy,
+  ITimeSlot,
+} from "../models/YogaShala";
+import { OccurrenceService } from "../services/schedule/occurrenceService";
+import {
+  ScheduleFieldError,
+  ScheduleValidationService,
+} from "../services/schedule/scheduleValidationService";
+import { ReviewService } from "../services/review/reviewService";
+import { ModerationService } from "../services/shala/moderationService";
+import { WishlistService } from "../services/user/wishlistService";
+import { isValidTimezone } from "../utils/timezone";
+import {
+  NearbyQuery,
+  ShalaSearchQuery,
+  ShalaSearchService,
+} from "../services/shala/shalaSearchService";
 
 // Define request types
-interface SearchShalasRequest {
-  Querystring: {
-    lat?: string;
-    lng?: string;
-    radius?: string;
-    city?: string;
-    search?: string;
-    minRating?: string;
-    amenities?: string;
-    sortBy?: string;
-    page?: string;
-    limit?: string;
-  };
+export interface SearchShalasRequest {
+  Querystring: ShalaSearchQuery;
+}
+
+export interface NearbyShalasRequest {
+  Querystring: NearbyQuery;
 }
 
-interface GetShalaRequest {
+export interface GetShalaRequest {
   Params: {
     id: string;
   };
 }
 
-interface CreateShalaRequest {
+export interface CreateShalaRequest {
   Body: {
     name: string;
     description: string;
@@ -45,34 +61,30 @@ interface CreateShalaRequest {
       website?: string;
     };
     amenities: string[];
-    schedule: Array<{
-      day: string;
-      timeSlots: Array<{
-        startTime: string;
-        endTime: string;
-        classType: string;
-        instructor: string;
-        capacity: number;
-        price: number;
-      }>;
-    }>;
+    schedule: ITimeSlot[];
     pricing: {
       singleClass: number;
       monthly: number;
       yearly: number;
     };
     images: string[];
+    // IANA timezone; defaults from address.country
+    timezone?: string;
+    dropInRate?: number;
+    trialRate?: number;
+    cancellationPolicy?: ICancellationPolicy;
+    reschedulePolicy?: IReschedulePolicy;
   };
 }
 
-interface UpdateShalaRequest {
+export interface UpdateShalaRequest {
   Params: {
     id: string;
   };
   Body: Partial<CreateShalaRequest["Body"]>;
 }
 
-interface DeleteShalaRequest {
+export interface DeleteShalaRequest {
   Params: {
     id: string;
   };
@@ -84,49 +96,65 @@ export class ShalaControllerFastify {
     request: FastifyRequest<SearchShalasRequest>,
     reply: FastifyReply
   ) {
-    try {
-      const {
-        lat,
-        lng,
-        radius = "10",
-        city,
-        search,
-        minRating = "0",
-        amenities,
-        sortBy = "distance",
-        page = "1",
-        limit = "10",
-      } = request.query;
-
-      const pageNum = parseInt(page);
-      const limitNum = parseInt(limit);
-      const skip = (pageNum - 1) * limitNum;
-
-      // Now that we know schema is the issue, restore normal functionality
-      const shalas = await YogaShala.find({ isActive: true })
-        .skip(skip)
-        .limit(limitNum)
-        .lean();
+    const params = ShalaSearchService.parseQuery(request.query);
+
+    if ("success" in params) {
+      return reply.status(params.statusCode || 400).send({
+        success: false,
+        code: params.code,
+        message: params.message,
+      });
+    }
 
-      const total = await YogaShala.countDocuments({ isActive: true });
+    const [result, wishlisted] = await Promise.all([
+      ShalaSearchService.search(params),
+      WishlistService.getWishlistedIds((request as any).user?.id),
+    ]);
 
-      reply.send({
-        success: true,
-        shalas,
-        pagination: {
-          current: pageNum,
-          pages: Math.ceil(total / limitNum),
-          total,
-          limit: limitNum,
-        },
+    if (!result.success) {
+      return reply.status(result.statusCode || 500).send({
+        success: false,
+        code: result.code,
+        message: result.message,
       });
-    } catch (error) {
-      request.log.error("Search shalas error:", error);
-      reply.status(500).send({
+    }
+
+    reply.send({
+      success: true,
+      shalas: WishlistService.markWishlisted(result.shalas || [], wishlisted),
+      pagination: result.pagination,
+      filters: result.filters,
+    });
+  }
+
+  // Shalas near a point (or the user's preferred location) with their
+  // upcoming classes and remaining spots
+  static async getNearbyShalas(
+    request: FastifyRequest<NearbyShalasRequest>,
+    reply: FastifyReply
+  ) {
+    const params = await ShalaSearchService.parseNearbyQuery(
+      request.query,
+      (request as any).user?.id
+    );
+
+    if ("success" in params) {
+      return reply.status(params.statusCode || 400).send({
         success: false,
-        message: "Server error while searching shalas",
+        code: params.code,
+        message: params.message,
       });
     }
+
+    const [result, wishlisted] = await Promise.all([
+      ShalaSearchService.findNearby(params),
+      WishlistService.getWishlistedIds((request as any).user?.id),
+    ]);
+    if (result.shalas) {
+      result.shalas = WishlistService.markWishlisted(result.shalas, wishlisted);
+    }
+    const { statusCode, ...body } = result;
+    reply.status(result.success ? 200 : statusCode || 500).send(body);
   }
 
   // Get shala by ID
@@ -137,20 +165,49 @@ export class ShalaControllerFastify {
     try {
       const { id } = request.params;
 
-      const shala = await YogaShala.findById(id)
-        .populate("owner", "name email phone")
-        .populate("reviews.user", "name");
+      const shala = await YogaShala.findById(id).populate(
+        "owner",
+        "name email phone"
+      );
 
-      if (!shala) {
+      // Unapproved listings are only visible to their owner and admins
+      const user = (request as any).user;
+      const canManage =
+        user?.role === "admin" ||
+        (!!user && (shala?.owner as any)?._id?.toString() === user.id);
+
+      if (!shala || (!isPublished(shala) && !canManage)) {
         return reply.status(404).send({
           success: false,
           message: "Shala not found",
         });
       }
 
+      const [reviews, wishlisted] = await Promise.all([
+        ReviewService.getRecentReviews(id),
+        WishlistService.getWishlistedIds(user?.id),
+      ]);
+      const isWishlisted = wishlisted.has(id);
+      const {
+        moderationStatus,
+        moderationNote,
+        pendingChanges,
+        changesSubmittedAt,
+        ...listing
+      } = shala.toObject();
+      const timezone = getShalaTimezone(shala);
+
       reply.send({
         success: true,
-        shala,
+        shala: canManage
+          ? { ...shala.toObject(), timezone, reviews, isWishlisted }
+          : {
+              ...listing,
+              timezone,
+              photos: listing.photos.filter((photo) => photo.approved),
+              reviews,
+              isWishlisted,
+            },
       });
     } catch (error) {
       request.log.error("Get shala by ID error:", error);
@@ -178,20 +235,33 @@ export class ShalaControllerFastify {
 
       const shalaData = request.body;
 
+      if (shalaData.timezone && !isValidTimezone(shalaData.timezone)) {
+        return ShalaControllerFastify.invalidTimezone(reply);
+      }
+
+      const scheduleErrors = ScheduleValidationService.validateSchedule(
+        shalaData.schedule
+      );
+      if (scheduleErrors.length > 0) {
+        return ShalaControllerFastify.invalidSchedule(reply, scheduleErrors);
+      }
+
       // Create new shala
       const shala = new YogaShala({
-        ...shalaData,
+        ...ModerationService.withoutProtectedFields(shalaData),
         owner: userId,
         rating: 0,
         reviewCount: 0,
         isActive: true,
+        moderationStatus: "pending",
       }) as ShalaType;
 
       await shala.save();
+      await ShalaControllerFastify.refreshOccurrences(request, shala);
 
       reply.status(201).send({
         success: true,
-        message: "Shala created successfully",
+        message: "Shala created and submitted for approval",
         shala,
       });
     } catch (error) {
@@ -220,6 +290,19 @@ export class ShalaControllerFastify {
         });
       }
 
+      if (updateData.timezone && !isValidTimezone(updateData.timezone)) {
+        return ShalaControllerFastify.invalidTimezone(reply);
+      }
+
+      if (updateData.schedule !== undefined) {
+        const scheduleErrors = ScheduleValidationService.validateSchedule(
+          updateData.schedule
+        );
+        if (scheduleErrors.length > 0) {
+          return ShalaControllerFastify.invalidSchedule(reply, scheduleErrors);
+        }
+      }
+
       // Check if shala exists and user owns it
       const shala = await YogaShala.findById(id);
 
@@ -237,15 +320,39 @@ export class ShalaControllerFastify {
         });
       }
 
-      // Update shala
-      const updatedShala = await YogaShala.findByIdAndUpdate(id, updateData, {
+      // Edited slots keep their IDs so their classes and bookings carry over
+      if (updateData.schedule) {
+        updateData.schedule = OccurrenceService.matchSlots(
+          shala.schedule,
+          updateData.schedule
+        );
+      }
+
+      // Listing content edits go through moderation
+      const { update, heldFields } = ModerationService.prepareUpdate(
+        shala,
+        updateData
+      );
+      const updatedShala = await YogaShala.findByIdAndUpdate(id, update, {
         new: true,
         runValidators: true,
       }).populate("owner", "name email phone");
 
+      const timezoneChanged =
+        !!updateData.timezone && updateData.timezone !== shala.timezone;
+      if (updatedShala && (updateData.schedule || timezoneChanged)) {
+        await ShalaControllerFastify.refreshOccurrences(
+          request,
+          updatedShala,
+          true
+        );
+      }
+
       reply.send({
         success: true,
-        message: "Shala updated successfully",
+        message: heldFields.length
+          ? `Shala updated; changes to ${heldFields.join(", ")} are waiting for approval`
+          : "Shala updated successfully",
         shala: updatedShala,
       });
     } catch (error) {
@@ -292,6 +399,7 @@ export class ShalaControllerFastify {
 
       // Soft delete by setting isActive to false
       await YogaShala.findByIdAndUpdate(id, { isActive: false });
+      await WishlistService.removeShalaFromWishlists(id);
 
       reply.send({
         success: true,
@@ -309,15 +417,17 @@ export class ShalaControllerFastify {
   // Get shala statistics
   static async getShalaStats(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const totalShalas = await YogaShala.countDocuments({ isActive: true });
+      const totalShalas = await YogaShala.countDocuments(
+        PUBLISHED_SHALA_FILTER
+      );
       const totalReviews = await YogaShala.aggregate([
-        { $match: { isActive: true } },
+        { $match: PUBLISHED_SHALA_FILTER },
         { $group: { _id: null, total: { $sum: "$reviewCount" } } },
       ]);
 
       // Get shalas by city
       const shalasByCity = await YogaShala.aggregate([
-        { $match: { isActive: true } },
+        { $match: PUBLISHED_SHALA_FILTER },
         { $group: { _id: "$address.city", count: { $sum: 1 } } },
         { $sort: { count: -1 } },
         { $limit: 10 },
@@ -325,7 +435,7 @@ export class ShalaControllerFastify {
 
       // Get average rating
       const avgRating = await YogaShala.aggregate([
-        { $match: { isActive: true, rating: { $gt: 0 } } },
+        { $match: { ...PUBLISHED_SHALA_FILTER, rating: { $gt: 0 } } },
         { $group: { _id: null, avg: { $avg: "$rating" } } },
       ]);
 
@@ -401,4 +511,41 @@ export class ShalaControllerFastify {
       });
     }
   }
+
+  // Regenerate dated classes after the weekly schedule changed. The periodic
+  // job catches up if this fails, so the request itself still succeeds.
+  private static async refreshOccurrences(
+    request: FastifyRequest,
+    shala: ShalaType,
+    syncBookings: boolean = false
+  ) {
+    try {
+      await OccurrenceService.materializeShala(shala);
+      if (syncBookings) {
+        await OccurrenceService.syncBookingTimes(shala);
+      }
+    } catch (error) {
+      request.log.error({ err: error }, "Class occurrence refresh failed");
+    }
+  }
+
+  private static invalidSchedule(
+    reply: FastifyReply,
+    errors: ScheduleFieldError[]
+  ) {
+    return reply.status(400).send({
+      success: false,
+      code: "INVALID_SCHEDULE",
+      message: `The schedule has ${errors.length} invalid field${errors.length === 1 ? "" : "s"}`,
+      errors,
+    });
+  }
+
+  private static invalidTimezone(reply: FastifyReply) {
+    return reply.status(400).send({
+      success: false,
+      code: "INVALID_TIMEZONE",
+      message: "timezone must be an IANA timezone, e.g. Asia/Kolkata",
+    });
+  }
 }
@@ -0,0 +1,195 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  ImageActor,
+  ShalaImageResult,
+  ShalaImageService,
+  UploadedImage,
+} from "../services/shala/shalaImageService";
+
+// Define request types
+export interface ListPhotosRequest {
+  Params: {
+    id: string;
+  };
+}
+
+export interface UploadPhotosRequest {
+  Params: {
+    id: string;
+  };
+}
+
+export interface ReorderPhotosRequest {
+  Params: {
+    id: string;
+  };
+  Body: {
+    photoIds: string[];
+  };
+}
+
+export interface PhotoByIdRequest {
+  Params: {
+    id: string;
+    imageId: string;
+  };
+}
+
+// Multipart limits hit while reading the upload
+const UPLOAD_LIMIT_ERRORS = [
+  "FST_REQ_FILE_TOO_LARGE",
+  "FST_FILES_LIMIT",
+  "FST_PARTS_LIMIT",
+];
+
+export class ShalaImageControllerFastify {
+  // List a shala's approved photos
+  static async listPhotos(
+    request: FastifyRequest<ListPhotosRequest>,
+    reply: FastifyReply
+  ) {
+    const result = await ShalaImageService.listPhotos(request.params.id);
+    ShalaImageControllerFastify.sendResult(reply, result);
+  }
+
+  // Upload photos as multipart files
+  static async uploadPhotos(
+    request: FastifyRequest<UploadPhotosRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ShalaImageControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    if (!request.isMultipart()) {
+      return reply.status(400).send({
+        success: false,
+        code: ShalaImageService.ERROR_CODES.NO_FILES,
+        message: "Send the images as multipart/form-data",
+      });
+    }
+
+    const files: UploadedImage[] = [];
+    try {
+      const parts = request.files({
+        limits: {
+          fileSize: ShalaImageService.MAX_FILE_SIZE,
+          files: ShalaImageService.MAX_FILES_PER_UPLOAD,
+        },
+      });
+      for await (const part of parts) {
+        files.push({
+          filename: part.filename,
+          mimetype: part.mimetype,
+          buffer: await part.toBuffer(),
+        });
+      }
+    } catch (error: any) {
+      if (UPLOAD_LIMIT_ERRORS.includes(error?.code)) {
+        return reply.status(413).send({
+          success: false,
+          code: "UPLOAD_TOO_LARGE",
+          message:
+            `Upload at most ${ShalaImageService.MAX_FILES_PER_UPLOAD} ` +
+            `images of up to ${ShalaImageService.MAX_FILE_SIZE / 1024 / 1024} MB each`,
+        });
+      }
+      throw error;
+    }
+
+    const result = await ShalaImageService.uploadPhotos(
+      actor,
+      request.params.id,
+      files
+    );
+    ShalaImageControllerFastify.sendResult(reply, result, 201);
+  }
+
+  // Set the photo order
+  static async reorderPhotos(
+    request: FastifyRequest<ReorderPhotosRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ShalaImageControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ShalaImageService.reorderPhotos(
+      actor,
+      request.params.id,
+      request.body.photoIds
+    );
+    ShalaImageControllerFastify.sendResult(reply, result);
+  }
+
+  // Make a photo the cover
+  static async setCover(
+    request: FastifyRequest<PhotoByIdRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ShalaImageControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ShalaImageService.setCover(
+      actor,
+      request.params.id,
+      request.params.imageId
+    );
+    ShalaImageControllerFastify.sendResult(reply, result);
+  }
+
+  // Delete a photo and its stored files
+  static async deletePhoto(
+    request: FastifyRequest<PhotoByIdRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = ShalaImageControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await ShalaImageService.deletePhoto(
+      actor,
+      request.params.id,
+      request.params.imageId
+    );
+    ShalaImageControllerFastify.sendResult(reply, result);
+  }
+
+  private static getActor(request: FastifyRequest): ImageActor | null {
+    const user = (request as any).user;
+    return user?.id ? { id: user.id, role: user.role } : null;
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: ShalaImageResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
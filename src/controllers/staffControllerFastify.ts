@@ -0,0 +1,110 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  StaffActor,
+  StaffResult,
+  StaffService,
+} from "../services/shala/staffService";
+
+// Define request types
+export interface ListStaffRequest {
+  Params: {
+    id: string;
+  };
+}
+
+export interface AddStaffRequest {
+  Params: {
+    id: string;
+  };
+  Body: {
+    email: string;
+  };
+}
+
+export interface StaffMemberRequest {
+  Params: {
+    id: string;
+    userId: string;
+  };
+}
+
+export class StaffControllerFastify {
+  // Users who can run the shala's front desk
+  static async listStaff(
+    request: FastifyRequest<ListStaffRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = StaffControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await StaffService.listStaff(actor, request.params.id);
+    StaffControllerFastify.sendResult(reply, result);
+  }
+
+  // Give a user front desk access
+  static async addStaff(
+    request: FastifyRequest<AddStaffRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = StaffControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await StaffService.addStaff(
+      actor,
+      request.params.id,
+      request.body.email
+    );
+    StaffControllerFastify.sendResult(reply, result);
+  }
+
+  // Revoke a user's front desk access
+  static async removeStaff(
+    request: FastifyRequest<StaffMemberRequest>,
+    reply: FastifyReply
+  ) {
+    const actor = StaffControllerFastify.getActor(request);
+
+    if (!actor) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await StaffService.removeStaff(
+      actor,
+      request.params.id,
+      request.params.userId
+    );
+    StaffControllerFastify.sendResult(reply, result);
+  }
+
+  private static getActor(request: FastifyRequest): StaffActor | null {
+    const user = (request as any).user;
+    return user?.id ? { id: user.id, role: user.role } : null;
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: StaffResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
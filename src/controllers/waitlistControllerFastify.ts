@@ -0,0 +1,127 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  WaitlistService,
+  WaitlistJoinData,
+  WaitlistResult,
+} from "../services/booking/waitlistService";
+
+// Define request types
+export interface JoinWaitlistRequest {
+  Body: WaitlistJoinData;
+}
+
+export interface WaitlistEntryRequest {
+  Params: {
+    entryId: string;
+  };
+}
+
+export class WaitlistControllerFastify {
+  // Join the waitlist of a full class
+  static async joinWaitlist(
+    request: FastifyRequest<JoinWaitlistRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await WaitlistService.joinWaitlist(userId, request.body);
+    WaitlistControllerFastify.sendResult(reply, result, 201);
+  }
+
+  // Get the authenticated user's waitlist entries
+  static async getMyEntries(request: FastifyRequest, reply: FastifyReply) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await WaitlistService.getUserEntries(userId);
+    WaitlistControllerFastify.sendResult(reply, result);
+  }
+
+  // Get a waitlist entry with the current position
+  static async getEntry(
+    request: FastifyRequest<WaitlistEntryRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await WaitlistService.getEntry(
+      request.params.entryId,
+      userId
+    );
+    WaitlistControllerFastify.sendResult(reply, result);
+  }
+
+  // Leave a waitlist (declines an offered spot)
+  static async leaveWaitlist(
+    request: FastifyRequest<WaitlistEntryRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await WaitlistService.leaveWaitlist(
+      request.params.entryId,
+      userId
+    );
+    WaitlistControllerFastify.sendResult(reply, result);
+  }
+
+  // Confirm a spot offered from the waitlist
+  static async claimOffer(
+    request: FastifyRequest<WaitlistEntryRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await WaitlistService.claimOffer(
+      request.params.entryId,
+      userId
+    );
+    WaitlistControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: WaitlistResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,89 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import {
+  WishlistResult,
+  WishlistService,
+} from "../services/user/wishlistService";
+
+// Define request types
+export interface AddToWishlistRequest {
+  Body: {
+    shalaId: string;
+  };
+}
+
+export interface WishlistItemRequest {
+  Params: {
+    shalaId: string;
+  };
+}
+
+export class WishlistControllerFastify {
+  // Get the authenticated user's saved shalas
+  static async getWishlist(request: FastifyRequest, reply: FastifyReply) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await WishlistService.listWishlist(userId);
+    WishlistControllerFastify.sendResult(reply, result);
+  }
+
+  // Save a shala to the wishlist
+  static async addToWishlist(
+    request: FastifyRequest<AddToWishlistRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await WishlistService.addToWishlist(
+      userId,
+      request.body.shalaId
+    );
+    WishlistControllerFastify.sendResult(reply, result);
+  }
+
+  // Remove a shala from the wishlist
+  static async removeFromWishlist(
+    request: FastifyRequest<WishlistItemRequest>,
+    reply: FastifyReply
+  ) {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await WishlistService.removeFromWishlist(
+      userId,
+      request.params.shalaId
+    );
+    WishlistControllerFastify.sendResult(reply, result);
+  }
+
+  // Map a service result onto the HTTP response
+  private static sendResult(
+    reply: FastifyReply,
+    result: WishlistResult,
+    successStatus: number = 200
+  ) {
+    const { statusCode, ...body } = result;
+    return reply
+      .status(result.success ? successStatus : statusCode || 500)
+      .send(body);
+  }
+}
@@ -0,0 +1,9 @@
+import { ScheduledJob } from "./scheduler";
+import { AttendanceService } from "../services/booking/attendanceService";
+
+// Settle bookings of ended classes as completed or no-shows
+export const attendanceJob: ScheduledJob = {
+  name: "attendance",
+  intervalMs: 10 * 60 * 1000,
+  run: () => AttendanceService.processEndedClasses(),
+};
@@ -0,0 +1,16 @@
+import { FastifyBaseLogger } from "fastify";
+import { ScheduledJob, startJobs } from "./scheduler";
+import { attendanceJob } from "./attendanceJob";
+import { occurrenceMaterializationJob } from "./occurrenceMaterializationJob";
+import { paymentExpiryJob } from "./paymentExpiryJob";
+import { waitlistExpiryJob } from "./waitlistExpiryJob";
+
+export const SCHEDULED_JOBS: ScheduledJob[] = [
+  occurrenceMaterializationJob,
+  waitlistExpiryJob,
+  paymentExpiryJob,
+  attendanceJob,
+];
+
+export const startScheduledJobs = (logger: FastifyBaseLogger) =>
+  startJobs(SCHEDULED_JOBS, logger);
@@ -0,0 +1,10 @@
+import { ScheduledJob } from "./scheduler";
+import { OccurrenceService } from "../services/schedule/occurrenceService";
+
+// Keep the rolling window of dated classes generated for every shala
+export const occurrenceMaterializationJob: ScheduledJob = {
+  name: "occurrence-materialization",
+  intervalMs: 6 * 60 * 60 * 1000,
+  runOnStart: true,
+  run: () => OccurrenceService.materializeAll(),
+};
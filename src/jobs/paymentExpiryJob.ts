@@ -0,0 +1,9 @@
+import { ScheduledJob } from "./scheduler";
+import { PaymentService } from "../services/payment/paymentService";
+
+// Give back spots held by bookings whose payment never completed
+export const paymentExpiryJob: ScheduledJob = {
+  name: "payment-expiry",
+  intervalMs: 5 * 60 * 1000,
+  run: async () => ({ expired: await PaymentService.expireStalePayments() }),
+};
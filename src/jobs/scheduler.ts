@@ -0,0 +1,59 @@
+import { FastifyBaseLogger } from "fastify";
+import { JobRunService } from "../services/jobs/jobRunService";
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+  // Also run once right after startup instead of waiting a full interval
+  runOnStart?: boolean;
+}
+
+// Run background jobs on a fixed interval inside the API process.
+// PM2 runs the app in cluster mode, so only the first instance schedules
+// jobs (INSTANCE_ID is set through `instance_var` in ecosystem.config.json).
+// Every run is logged as a JobRun.
+export const startJobs = (
+  jobs: ScheduledJob[],
+  logger: FastifyBaseLogger
+): NodeJS.Timeout[] => {
+  const instanceId = process.env.INSTANCE_ID;
+  if (
+    process.env.DISABLE_JOBS === "true" ||
+    (instanceId && instanceId !== "0")
+  ) {
+    logger.info("Background jobs disabled on this instance");
+    return [];
+  }
+
+  return jobs.map((job) => {
+    let running = false;
+
+    const tick = async () => {
+      // Skip a tick instead of overlapping a slow run
+      if (running) return;
+      running = true;
+
+      const startedAt = new Date();
+      try {
+        const result = await job.run();
+        logger.debug({ job: job.name, result }, "Job finished");
+        await JobRunService.record(job.name, startedAt, { result });
+      } catch (error) {
+        logger.error({ job: job.name, err: error }, "Job failed");
+        await JobRunService.record(job.name, startedAt, { error });
+      } finally {
+        running = false;
+      }
+    };
+
+    const timer = setInterval(tick, job.intervalMs);
+    timer.unref();
+
+    if (job.runOnStart) {
+      setImmediate(tick);
+    }
+    logger.info(`Scheduled job "${job.name}" every ${job.intervalMs / 1000}s`);
+    return timer;
+  });
+};
@@ -0,0 +1,9 @@
+import { ScheduledJob } from "./scheduler";
+import { WaitlistService } from "../services/booking/waitlistService";
+
+// Roll unclaimed waitlist offers over to the next person in line
+export const waitlistExpiryJob: ScheduledJob = {
+  name: "waitlist-expiry",
+  intervalMs: 60 * 1000,
+  run: async () => ({ expired: await WaitlistService.expireOffers() }),
+};
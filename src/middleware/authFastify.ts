@@ -96,3 +96,25 @@ export async function optionalAuthMiddleware(
     // Don't fail, just continue without user
   }
 }
+
+// Role check for routes behind authMiddleware
+export function requireRole(...roles: string[]) {
+  return async (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> => {
+    if (!request.user) {
+      return reply.status(401).send({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    if (!roles.includes(request.user.role)) {
+      return reply.status(403).send({
+        success: false,
+        message: "Insufficient permissions",
+      });
+    }
+  };
+}
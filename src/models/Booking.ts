@@ -5,27 +5,90 @@ export interface IPackageUsed {
   classesUsed: number;
 }
 
+export interface IBookingDiscount {
+  discountCode: mongoose.Types.ObjectId;
+  code: string;
+  amount: number;
+}
+
+// Person coming with the lead booker. Each active guest takes one spot.
+export interface IBookingGuest {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  email?: string;
+  // Guest's own account, when their email belongs to one
+  user?: mongoose.Types.ObjectId;
+  status: 'confirmed' | 'cancelled';
+  checkedIn: boolean;
+  checkInTime?: Date;
+  checkedInBy?: mongoose.Types.ObjectId;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  refundAmount: number;
+}
+
+// One move of the booking to another class
+export interface IBookingReschedule {
+  fromOccurrence?: mongoose.Types.ObjectId;
+  toOccurrence: mongoose.Types.ObjectId;
+  fromDate: Date;
+  fromStartTime: string;
+  toDate: Date;
+  toStartTime: string;
+  // Charged (positive) or credited (negative) for the move
+  priceDifference: number;
+  payment?: mongoose.Types.ObjectId;
+  reason?: string;
+  rescheduledAt: Date;
+}
+
+// Move waiting for the user to pay the price difference. A spot in the
+// new class is held meanwhile.
+export interface IPendingReschedule {
+  occurrence: mongoose.Types.ObjectId;
+  payment?: mongoose.Types.ObjectId;
+  priceDifference: number;
+  reason?: string;
+  requestedAt: Date;
+}
+
 export interface IBooking extends Document {
   user: mongoose.Types.ObjectId;
   shala: mongoose.Types.ObjectId;
+  occurrence?: mongoose.Types.ObjectId;
+  // Recurring series the booking was made as part of
+  series?: mongoose.Types.ObjectId;
   className: string;
   instructor: string;
   date: Date;
   startTime: string;
   endTime: string;
+  // Shala timezone the times above are in, and the class's UTC instants
+  timezone?: string;
+  startsAt?: Date;
+  endsAt?: Date;
   status: 'confirmed' | 'pending' | 'cancelled' | 'completed' | 'no_show';
   paymentMethod: 'package' | 'drop_in' | 'trial' | 'free';
   amountPaid: number;
   paymentStatus: 'pending' | 'completed' | 'failed' | 'refunded';
   transactionId?: string;
   packageUsed?: IPackageUsed;
+  discount?: IBookingDiscount;
   checkedIn: boolean;
   checkInTime?: Date;
+  // Owner or staff member who checked the user in
+  checkedInBy?: mongoose.Types.ObjectId;
+  checkOutTime?: Date;
   notes?: string;
   specialRequests?: string;
   cancellationReason?: string;
   cancelledAt?: Date;
   refundAmount: number;
+  guests: IBookingGuest[];
+  // Places taken in the class: the lead booker plus active guests
+  spots: number;
+  reschedules: IBookingReschedule[];
+  pendingReschedule?: IPendingReschedule;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -41,12 +104,23 @@ const BookingSchema = new Schema<IBooking>({
     ref: 'YogaShala', 
     required: true 
   },
+  occurrence: {
+    type: Schema.Types.ObjectId,
+    ref: 'ClassOccurrence'
+  },
+  series: {
+    type: Schema.Types.ObjectId,
+    ref: 'BookingSeries'
+  },
   
   className: { type: String, required: true },
   instructor: { type: String, required: true },
   date: { type: Date, required: true },
   startTime: { type: String, required: true },
   endTime: { type: String, required: true },
+  timezone: { type: String },
+  startsAt: { type: Date },
+  endsAt: { type: Date },
   
   status: {
     type: String,
@@ -71,9 +145,18 @@ const BookingSchema = new Schema<IBooking>({
     packageId: { type: Schema.Types.ObjectId },
     classesUsed: { type: Number, default: 1 }
   },
+
+  // Promo code applied to the price
+  discount: {
+    discountCode: { type: Schema.Types.ObjectId, ref: 'DiscountCode' },
+    code: { type: String },
+    amount: { type: Number }
+  },
   
   checkedIn: { type: Boolean, default: false },
   checkInTime: { type: Date },
+  checkedInBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  checkOutTime: { type: Date },
   
   notes: { type: String },
   specialRequests: { type: String },
@@ -81,6 +164,46 @@ const BookingSchema = new Schema<IBooking>({
   cancellationReason: { type: String },
   cancelledAt: { type: Date },
   refundAmount: { type: Number, default: 0 },
+
+  guests: [{
+    name: { type: String, required: true, trim: true },
+    email: { type: String, lowercase: true, trim: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User' },
+    status: {
+      type: String,
+      enum: ['confirmed', 'cancelled'],
+      default: 'confirmed'
+    },
+    checkedIn: { type: Boolean, default: false },
+    checkInTime: { type: Date },
+    checkedInBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    cancelledAt: { type: Date },
+    cancellationReason: { type: String },
+    refundAmount: { type: Number, default: 0 }
+  }],
+  spots: { type: Number, default: 1, min: 1 },
+
+  // Moves to other classes, oldest first
+  reschedules: [{
+    fromOccurrence: { type: Schema.Types.ObjectId, ref: 'ClassOccurrence' },
+    toOccurrence: { type: Schema.Types.ObjectId, ref: 'ClassOccurrence', required: true },
+    fromDate: { type: Date, required: true },
+    fromStartTime: { type: String, required: true },
+    toDate: { type: Date, required: true },
+    toStartTime: { type: String, required: true },
+    priceDifference: { type: Number, default: 0 },
+    payment: { type: Schema.Types.ObjectId, ref: 'Payment' },
+    reason: { type: String },
+    rescheduledAt: { type: Date, default: Date.now },
+    _id: false
+  }],
+  pendingReschedule: {
+    occurrence: { type: Schema.Types.ObjectId, ref: 'ClassOccurrence' },
+    payment: { type: Schema.Types.ObjectId, ref: 'Payment' },
+    priceDifference: { type: Number },
+    reason: { type: String },
+    requestedAt: { type: Date }
+  },
   
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now }
@@ -89,7 +212,11 @@ const BookingSchema = new Schema<IBooking>({
 // Indexes
 BookingSchema.index({ user: 1, date: -1 });
 BookingSchema.index({ shala: 1, date: 1, startTime: 1 });
+BookingSchema.index({ occurrence: 1, status: 1 });
 BookingSchema.index({ date: 1, status: 1 });
 BookingSchema.index({ status: 1 });
+BookingSchema.index({ status: 1, endsAt: 1 });
+BookingSchema.index({ series: 1, date: 1 });
+BookingSchema.index({ 'guests.user': 1 }, { sparse: true });
 
 export default mongoose.model<IBooking>('Booking', BookingSchema); 
\ No newline at end of file
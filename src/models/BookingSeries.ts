@@ -0,0 +1,121 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ITimeSlot } from "./YogaShala";
+
+export const SERIES_OCCURRENCE_STATUSES = [
+  "booked",
+  // The class is cancelled or the shala is closed that day
+  "skipped",
+  // Full, out of package classes, already booked...
+  "failed",
+] as const;
+export type SeriesOccurrenceStatus =
+  (typeof SERIES_OCCURRENCE_STATUSES)[number];
+
+// Outcome for one week of the series when it was created
+export interface ISeriesOccurrence {
+  date: Date;
+  occurrence?: mongoose.Types.ObjectId;
+  booking?: mongoose.Types.ObjectId;
+  status: SeriesOccurrenceStatus;
+  code?: string;
+  message?: string;
+}
+
+// A user's standing weekly booking of one schedule slot. Each week is an
+// ordinary Booking linked back through Booking.series.
+export interface IBookingSeries extends Document {
+  user: mongoose.Types.ObjectId;
+  shala: mongoose.Types.ObjectId;
+  // _id of the weekly ITimeSlot
+  slotId: mongoose.Types.ObjectId;
+  className: string;
+  instructor: string;
+  day: ITimeSlot["day"];
+  startTime: string;
+  endTime: string;
+  paymentMethod: "package" | "free";
+  // User's activePackages entry the classes are paid from
+  packageId?: mongoose.Types.ObjectId;
+  // Dates of the first and last week covered
+  startDate: Date;
+  endDate: Date;
+  occurrences: ISeriesOccurrence[];
+  status: "active" | "cancelled";
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SeriesOccurrenceSchema = new Schema<ISeriesOccurrence>(
+  {
+    date: { type: Date, required: true },
+    occurrence: { type: Schema.Types.ObjectId, ref: "ClassOccurrence" },
+    booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+    status: {
+      type: String,
+      enum: SERIES_OCCURRENCE_STATUSES,
+      required: true,
+    },
+    code: { type: String },
+    message: { type: String },
+  },
+  { _id: false }
+);
+
+const BookingSeriesSchema = new Schema<IBookingSeries>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  shala: {
+    type: Schema.Types.ObjectId,
+    ref: "YogaShala",
+    required: true,
+  },
+  slotId: { type: Schema.Types.ObjectId, required: true },
+  className: { type: String, required: true },
+  instructor: { type: String, required: true },
+  day: {
+    type: String,
+    enum: [
+      "monday",
+      "tuesday",
+      "wednesday",
+      "thursday",
+      "friday",
+      "saturday",
+      "sunday",
+    ],
+    required: true,
+  },
+  startTime: { type: String, required: true },
+  endTime: { type: String, required: true },
+  paymentMethod: {
+    type: String,
+    enum: ["package", "free"],
+    required: true,
+  },
+  packageId: { type: Schema.Types.ObjectId },
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, required: true },
+  occurrences: [SeriesOccurrenceSchema],
+  status: {
+    type: String,
+    enum: ["active", "cancelled"],
+    default: "active",
+  },
+  cancelledAt: { type: Date },
+
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+BookingSeriesSchema.index({ user: 1, createdAt: -1 });
+BookingSeriesSchema.index({ shala: 1, slotId: 1, status: 1 });
+
+export default mongoose.model<IBookingSeries>(
+  "BookingSeries",
+  BookingSeriesSchema
+);
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ITimeSlot } from "./YogaShala";
+import {
+  CLASS_LEVELS,
+  ClassLevel,
+  YOGA_STYLES,
+  YogaStyle,
+} from "../constants/yoga";
+
+// A dated class expanded from one of the shala's weekly schedule slots.
+// Its _id is the `classId` bookings and waitlist entries reference.
+export interface IClassOccurrence extends Document {
+  _id: mongoose.Types.ObjectId;
+  shala: mongoose.Types.ObjectId;
+  slotId: mongoose.Types.ObjectId;
+  date: Date;
+  day: ITimeSlot["day"];
+  // Wall-clock times in `timezone`
+  startTime: string;
+  endTime: string;
+  timezone?: string;
+  // Start and end instants, in UTC; set whenever the occurrence is
+  // materialized
+  startsAt?: Date;
+  endsAt?: Date;
+  className: string;
+  style?: YogaStyle;
+  level?: ClassLevel;
+  instructor: string;
+  substituteInstructor?: string;
+  price: number;
+  capacity: number;
+  bookedCount: number;
+  attendedCount: number;
+  status: "scheduled" | "cancelled";
+  cancellationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ClassOccurrenceSchema = new Schema<IClassOccurrence>({
+  shala: {
+    type: Schema.Types.ObjectId,
+    ref: "YogaShala",
+    required: true,
+  },
+  // _id of the weekly ITimeSlot this occurrence was generated from
+  slotId: { type: Schema.Types.ObjectId, required: true },
+
+  date: { type: Date, required: true },
+  day: {
+    type: String,
+    enum: [
+      "monday",
+      "tuesday",
+      "wednesday",
+      "thursday",
+      "friday",
+      "saturday",
+      "sunday",
+    ],
+    required: true,
+  },
+  startTime: { type: String, required: true },
+  endTime: { type: String, required: true },
+  timezone: { type: String },
+  startsAt: { type: Date },
+  endsAt: { type: Date },
+  className: { type: String, required: true },
+  style: { type: String, enum: YOGA_STYLES },
+  level: { type: String, enum: CLASS_LEVELS },
+  instructor: { type: String, required: true },
+  substituteInstructor: { type: String },
+  price: { type: Number, required: true },
+
+  capacity: { type: Number, required: true, min: 0 },
+  bookedCount: { type: Number, default: 0, min: 0 },
+  attendedCount: { type: Number, default: 0, min: 0 },
+
+  status: {
+    type: String,
+    enum: ["scheduled", "cancelled"],
+    default: "scheduled",
+  },
+  cancellationReason: { type: String },
+
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+ClassOccurrenceSchema.index({ shala: 1, slotId: 1, date: 1 }, { unique: true });
+ClassOccurrenceSchema.index({ shala: 1, date: 1, startTime: 1 });
+ClassOccurrenceSchema.index({ date: 1, status: 1 });
+ClassOccurrenceSchema.index({ shala: 1, startsAt: 1 });
+
+export default mongoose.model<IClassOccurrence>(
+  "ClassOccurrence",
+  ClassOccurrenceSchema
+);
@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type DiscountType = "percentage" | "flat" | "first_class_free";
+export type DiscountPurpose = "booking" | "package";
+
+// Promo code run by a shala owner, or platform-wide (no shala) by an admin
+export interface IDiscountCode extends Document {
+  _id: mongoose.Types.ObjectId;
+  code: string;
+  description?: string;
+  // Unset for platform-wide codes
+  shala?: mongoose.Types.ObjectId;
+  type: DiscountType;
+  // Percent off for "percentage", amount off for "flat"; unused otherwise
+  value: number;
+  appliesTo: DiscountPurpose[];
+  validFrom?: Date;
+  validUntil?: Date;
+  // Total redemptions allowed across all users; unlimited when unset
+  maxRedemptions?: number;
+  perUserLimit: number;
+  redemptionCount: number;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DiscountCodeSchema = new Schema<IDiscountCode>({
+  code: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+  },
+  description: { type: String },
+  shala: { type: Schema.Types.ObjectId, ref: "YogaShala" },
+
+  type: {
+    type: String,
+    enum: ["percentage", "flat", "first_class_free"],
+    required: true,
+  },
+  value: { type: Number, default: 0, min: 0 },
+  appliesTo: {
+    type: [{ type: String, enum: ["booking", "package"] }],
+    default: ["booking", "package"],
+  },
+
+  validFrom: { type: Date },
+  validUntil: { type: Date },
+
+  maxRedemptions: { type: Number, min: 1 },
+  perUserLimit: { type: Number, default: 1, min: 1 },
+  redemptionCount: { type: Number, default: 0 },
+
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+DiscountCodeSchema.index({ code: 1, shala: 1 }, { unique: true });
+DiscountCodeSchema.index({ shala: 1, createdAt: -1 });
+
+export default mongoose.model<IDiscountCode>(
+  "DiscountCode",
+  DiscountCodeSchema
+);
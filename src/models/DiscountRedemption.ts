@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// One use of a discount code. Released when the booking or purchase it was
+// applied to never gets paid, so it stops counting against the limits.
+export interface IDiscountRedemption extends Document {
+  _id: mongoose.Types.ObjectId;
+  discountCode: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  shala: mongoose.Types.ObjectId;
+  purpose: "booking" | "package";
+  booking?: mongoose.Types.ObjectId;
+  payment?: mongoose.Types.ObjectId;
+  amount: number;
+  status: "applied" | "released";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DiscountRedemptionSchema = new Schema<IDiscountRedemption>({
+  discountCode: {
+    type: Schema.Types.ObjectId,
+    ref: "DiscountCode",
+    required: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  shala: {
+    type: Schema.Types.ObjectId,
+    ref: "YogaShala",
+    required: true,
+  },
+  purpose: {
+    type: String,
+    enum: ["booking", "package"],
+    required: true,
+  },
+  booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+  payment: { type: Schema.Types.ObjectId, ref: "Payment" },
+
+  // Amount taken off the price
+  amount: { type: Number, required: true, min: 0 },
+  status: {
+    type: String,
+    enum: ["applied", "released"],
+    default: "applied",
+  },
+
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+DiscountRedemptionSchema.index({ discountCode: 1, user: 1, status: 1 });
+DiscountRedemptionSchema.index({ booking: 1 });
+DiscountRedemptionSchema.index({ payment: 1 });
+
+export default mongoose.model<IDiscountRedemption>(
+  "DiscountRedemption",
+  DiscountRedemptionSchema
+);
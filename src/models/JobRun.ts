@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const JOB_RUN_STATUSES = ["succeeded", "failed"] as const;
+export type JobRunStatus = (typeof JOB_RUN_STATUSES)[number];
+
+// How long run logs are kept before MongoDB removes them
+export const JOB_RUN_RETENTION_DAYS =
+  Number(process.env.JOB_RUN_RETENTION_DAYS) || 14;
+
+// One run of a scheduled background job, so operators can see when each
+// job last ran and what it did
+export interface IJobRun extends Document {
+  name: string;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  // What the job reported, e.g. { completed: 12, noShows: 2 }
+  result?: Record<string, unknown>;
+  error?: string;
+  // Server that ran the job
+  host?: string;
+}
+
+const JobRunSchema = new Schema<IJobRun>({
+  name: { type: String, required: true },
+  status: { type: String, enum: JOB_RUN_STATUSES, required: true },
+  startedAt: { type: Date, required: true },
+  finishedAt: { type: Date, required: true },
+  durationMs: { type: Number, required: true, min: 0 },
+  result: { type: Schema.Types.Mixed },
+  error: { type: String },
+  host: { type: String },
+});
+
+// Indexes
+JobRunSchema.index({ name: 1, startedAt: -1 });
+JobRunSchema.index({ status: 1, startedAt: -1 });
+JobRunSchema.index(
+  { startedAt: 1 },
+  { expireAfterSeconds: JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+export default mongoose.model<IJobRun>("JobRun", JobRunSchema);
@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type PaymentStatus =
+  | "created"
+  | "captured"
+  | "failed"
+  | "refunded"
+  | "partially_refunded"
+  | "expired";
+
+export interface IPaymentRefund {
+  refundId: string;
+  amount: number;
+  createdAt: Date;
+}
+
+// One checkout attempt with the payment gateway, for a booking, a package
+// purchase or the price difference of a rescheduled booking
+export interface IPayment extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  shala: mongoose.Types.ObjectId;
+  purpose: "booking" | "package" | "reschedule";
+  booking?: mongoose.Types.ObjectId;
+  // Shala package being bought (purpose "package")
+  packageId?: mongoose.Types.ObjectId;
+  provider: string;
+  providerIntentId: string;
+  providerPaymentId?: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  failureReason?: string;
+  refundedAmount: number;
+  refunds: IPaymentRefund[];
+  capturedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentSchema = new Schema<IPayment>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  shala: {
+    type: Schema.Types.ObjectId,
+    ref: "YogaShala",
+    required: true,
+  },
+  purpose: {
+    type: String,
+    enum: ["booking", "package", "reschedule"],
+    required: true,
+  },
+  booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+  packageId: { type: Schema.Types.ObjectId },
+
+  provider: { type: String, required: true },
+  providerIntentId: { type: String, required: true },
+  providerPaymentId: { type: String },
+
+  amount: { type: Number, required: true, min: 0 },
+  currency: { type: String, default: "INR" },
+  status: {
+    type: String,
+    enum: [
+      "created",
+      "captured",
+      "failed",
+      "refunded",
+      "partially_refunded",
+      "expired",
+    ],
+    default: "created",
+  },
+  failureReason: { type: String },
+
+  refundedAmount: { type: Number, default: 0 },
+  refunds: [
+    {
+      _id: false,
+      refundId: { type: String, required: true },
+      amount: { type: Number, required: true },
+      createdAt: { type: Date, default: Date.now },
+    },
+  ],
+
+  capturedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+PaymentSchema.index({ provider: 1, providerIntentId: 1 }, { unique: true });
+PaymentSchema.index({ booking: 1 });
+PaymentSchema.index({ status: 1, createdAt: 1 });
+PaymentSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<IPayment>("Payment", PaymentSchema);
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IReviewReply {
+  text: string;
+  repliedBy: mongoose.Types.ObjectId;
+  repliedAt: Date;
+}
+
+export interface IReview extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  shala: mongoose.Types.ObjectId;
+  // Completed booking that made the user eligible to review
+  booking: mongoose.Types.ObjectId;
+  rating: number;
+  comment?: string;
+  reply?: IReviewReply;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReviewSchema = new Schema<IReview>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  shala: {
+    type: Schema.Types.ObjectId,
+    ref: "YogaShala",
+    required: true,
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: "Booking",
+    required: true,
+  },
+
+  rating: { type: Number, required: true, min: 1, max: 5 },
+  comment: { type: String, trim: true, maxlength: 2000 },
+
+  // Public response from the shala owner
+  reply: {
+    text: { type: String, trim: true, maxlength: 2000 },
+    repliedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    repliedAt: { type: Date },
+  },
+
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+ReviewSchema.index({ shala: 1, createdAt: -1 });
+// One review per user per shala
+ReviewSchema.index({ user: 1, shala: 1 }, { unique: true });
+
+export default mongoose.model<IReview>("Review", ReviewSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const SCHEDULE_EXCEPTION_TYPES = [
+  "closure",
+  "cancellation",
+  "time_change",
+  "substitute",
+] as const;
+
+// closure: every class between startDate and endDate is cancelled.
+// The others change a single occurrence of one weekly slot.
+export type ScheduleExceptionType = (typeof SCHEDULE_EXCEPTION_TYPES)[number];
+
+export interface IScheduleException extends Document {
+  _id: mongoose.Types.ObjectId;
+  shala: mongoose.Types.ObjectId;
+  type: ScheduleExceptionType;
+  // First and last day affected, normalized to midnight UTC; the same day
+  // for everything but closures
+  startDate: Date;
+  endDate: Date;
+  // Weekly slot the exception applies to; not set for closures
+  slotId?: mongoose.Types.ObjectId;
+  // New times for a time_change
+  startTime?: string;
+  endTime?: string;
+  substituteInstructor?: string;
+  reason?: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const ScheduleExceptionSchema = new Schema<IScheduleException>({
+  shala: {
+    type: Schema.Types.ObjectId,
+    ref: "YogaShala",
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: SCHEDULE_EXCEPTION_TYPES,
+    required: true,
+  },
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, required: true },
+  slotId: { type: Schema.Types.ObjectId },
+  startTime: { type: String },
+  endTime: { type: String },
+  substituteInstructor: { type: String, trim: true },
+  reason: { type: String, trim: true, maxlength: 500 },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+ScheduleExceptionSchema.index({ shala: 1, endDate: 1, startDate: 1 });
+// One exception of each kind per class occurrence
+ScheduleExceptionSchema.index(
+  { shala: 1, slotId: 1, startDate: 1, type: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { slotId: { $exists: true } },
+  }
+);
+
+export default mongoose.model<IScheduleException>(
+  "ScheduleException",
+  ScheduleExceptionSchema
+);
@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const REPORT_REASONS = [
+  "fake_listing",
+  "offensive_content",
+  "inappropriate_images",
+  "wrong_information",
+  "spam",
+  "other",
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export type ReportStatus = "open" | "resolved" | "dismissed";
+
+export interface IShalaReport extends Document {
+  _id: mongoose.Types.ObjectId;
+  shala: mongoose.Types.ObjectId;
+  reporter: mongoose.Types.ObjectId;
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShalaReportSchema = new Schema<IShalaReport>({
+  shala: {
+    type: Schema.Types.ObjectId,
+    ref: "YogaShala",
+    required: true,
+  },
+  reporter: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+
+  reason: { type: String, enum: REPORT_REASONS, required: true },
+  details: { type: String, trim: true, maxlength: 1000 },
+
+  status: {
+    type: String,
+    enum: ["open", "resolved", "dismissed"],
+    default: "open",
+  },
+  resolvedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  resolvedAt: { type: Date },
+  resolutionNote: { type: String },
+
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+ShalaReportSchema.index({ status: 1, createdAt: 1 });
+ShalaReportSchema.index({ shala: 1, status: 1 });
+// A user can only have one open report per listing
+ShalaReportSchema.index(
+  { reporter: 1, shala: 1 },
+  { unique: true, partialFilterExpression: { status: "open" } }
+);
+
+export default mongoose.model<IShalaReport>("ShalaReport", ShalaReportSchema);
@@ -1,10 +1,16 @@
 import mongoose, { Document, Schema } from "mongoose";
 import bcrypt from "bcrypt";
+import { YOGA_STYLES, YogaStyle } from "../constants/yoga";
 
 export interface IActivePackage {
+  _id?: mongoose.Types.ObjectId;
   shala: mongoose.Types.ObjectId;
   packageId: mongoose.Types.ObjectId;
+  name: string;
+  totalClasses: number;
   classesRemaining: number;
+  amountPaid: number;
+  purchasedAt: Date;
   expiryDate: Date;
 }
 
@@ -13,15 +19,24 @@ export interface IPreferredLocation {
   coordinates: [number, number]; // [longitude, latitude]
 }
 
+// Square WebP renditions of the uploaded avatar
+export interface IUserAvatar {
+  small: string;
+  medium: string;
+  large: string;
+  keys: string[];
+  updatedAt: Date;
+}
+
 export interface IUser extends Document {
   name: string;
   email: string;
   password: string;
   phone?: string;
-  avatar?: string;
+  avatar?: IUserAvatar;
   dateOfBirth?: Date;
   experience: "beginner" | "intermediate" | "advanced";
-  preferredStyles: string[];
+  preferredStyles: YogaStyle[];
   preferredLocation?: IPreferredLocation;
   maxDistance: number;
   activePackages: IActivePackage[];
@@ -36,6 +51,8 @@ export interface IUser extends Document {
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
   wishlist: mongoose.Types.ObjectId[];
+  // Set after repeated no-shows; the user can't book until then
+  bookingBlockedUntil?: Date;
 }
 
 const UserSchema = new Schema<IUser>({
@@ -43,6 +60,19 @@ const UserSchema = new Schema<IUser>({
   email: { type: String, required: true, unique: true },
   password: { type: String, required: true },
   phone: { type: String },
+  avatar: {
+    type: new Schema(
+      {
+        small: { type: String, required: true },
+        medium: { type: String, required: true },
+        large: { type: String, required: true },
+        // Storage keys of the variants, removed on replace/delete
+        keys: [{ type: String }],
+        updatedAt: { type: Date, default: Date.now },
+      },
+      { _id: false }
+    ),
+  },
   experience: {
     type: String,
     enum: ["beginner", "intermediate", "advanced"],
@@ -51,18 +81,7 @@ const UserSchema = new Schema<IUser>({
   preferredStyles: [
     {
       type: String,
-      enum: [
-        "hatha",
-        "vinyasa",
-        "ashtanga",
-        "iyengar",
-        "kundalini",
-        "bikram",
-        "hot_yoga",
-        "yin",
-        "restorative",
-        "meditation",
-      ],
+      enum: YOGA_STYLES,
     },
   ],
 
@@ -94,12 +113,19 @@ const UserSchema = new Schema<IUser>({
   activePackages: [
     {
       shala: { type: Schema.Types.ObjectId, ref: "YogaShala" },
+      // _id of the package definition in YogaShala.packages
       packageId: { type: Schema.Types.ObjectId },
-      classesRemaining: { type: Number },
+      name: { type: String },
+      totalClasses: { type: Number },
+      classesRemaining: { type: Number, min: 0 },
+      amountPaid: { type: Number, default: 0 },
+      purchasedAt: { type: Date, default: Date.now },
       expiryDate: { type: Date },
     },
   ],
 
+  bookingBlockedUntil: { type: Date },
+
   emailNotifications: { type: Boolean, default: true },
   smsNotifications: { type: Boolean, default: false },
 
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type WaitlistStatus =
+  | "waiting"
+  | "offered"
+  | "claimed"
+  | "declined"
+  | "expired"
+  | "left"
+  // The class itself was cancelled
+  | "cancelled";
+
+export interface IWaitlistEntry extends Document {
+  user: mongoose.Types.ObjectId;
+  shala: mongoose.Types.ObjectId;
+  occurrence: mongoose.Types.ObjectId;
+  className: string;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  paymentMethod: "package" | "drop_in" | "trial" | "free";
+  amount: number;
+  status: WaitlistStatus;
+  booking?: mongoose.Types.ObjectId;
+  offeredAt?: Date;
+  claimExpiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  shala: {
+    type: Schema.Types.ObjectId,
+    ref: "YogaShala",
+    required: true,
+  },
+  occurrence: {
+    type: Schema.Types.ObjectId,
+    ref: "ClassOccurrence",
+    required: true,
+  },
+
+  // Denormalized from the occurrence for listings and emails
+  className: { type: String, required: true },
+  date: { type: Date, required: true },
+  startTime: { type: String, required: true },
+  endTime: { type: String, required: true },
+
+  paymentMethod: {
+    type: String,
+    enum: ["package", "drop_in", "trial", "free"],
+    required: true,
+  },
+  amount: { type: Number, default: 0 },
+
+  status: {
+    type: String,
+    enum: [
+      "waiting",
+      "offered",
+      "claimed",
+      "declined",
+      "expired",
+      "left",
+      "cancelled",
+    ],
+    default: "waiting",
+  },
+
+  // Pending booking created when the entry is promoted
+  booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+  offeredAt: { type: Date },
+  claimExpiresAt: { type: Date },
+
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+// Indexes
+WaitlistEntrySchema.index({ occurrence: 1, status: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ status: 1, claimExpiresAt: 1 });
+WaitlistEntrySchema.index({ user: 1, createdAt: -1 });
+// A user can only hold one live place per class
+WaitlistEntrySchema.index(
+  { user: 1, occurrence: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: { $in: ["waiting", "offered"] } },
+  }
+);
+
+export default mongoose.model<IWaitlistEntry>(
+  "WaitlistEntry",
+  WaitlistEntrySchema
+);
@@ -1,6 +1,14 @@
 import mongoose, { Document, Schema } from "mongoose";
+import {
+  CLASS_LEVELS,
+  ClassLevel,
+  YOGA_STYLES,
+  YogaStyle,
+} from "../constants/yoga";
+import { getDefaultTimezone, isValidTimezone } from "../utils/timezone";
 
 export interface ITimeSlot {
+  _id?: mongoose.Types.ObjectId;
   day:
     | "monday"
     | "tuesday"
@@ -12,6 +20,10 @@ export interface ITimeSlot {
   startTime: string;
   endTime: string;
   className: string;
+  // Style the class teaches; searches also match it in className
+  style?: YogaStyle;
+  // Experience the class is aimed at; all levels when not set
+  level?: ClassLevel;
   instructor: string;
   capacity: number;
   price: number;
@@ -31,29 +43,103 @@ export interface ILocation {
 }
 
 export interface IPackage {
+  _id?: mongoose.Types.ObjectId;
   name: string;
   classes: number;
   price: number;
   validityDays: number;
 }
 
+// Uploaded photo with its stored files. The listing's `images` holds the
+// approved photo URLs, cover first, followed by any linked image URLs.
+export interface IShalaPhoto {
+  _id: mongoose.Types.ObjectId;
+  url: string;
+  thumbnailUrl: string;
+  key: string;
+  thumbnailKey: string;
+  width: number;
+  height: number;
+  size: number;
+  isCover: boolean;
+  // Photos wait for admin approval like other listing content
+  approved: boolean;
+  uploadedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+// Refund `refundPercent` when cancelling at least `minHoursBefore` hours
+// before the class starts; the tier with the highest matching threshold wins
+export interface ICancellationTier {
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export interface ICancellationPolicy {
+  tiers: ICancellationTier[];
+}
+
+// How often and how late users can move a booking to another class
+export interface IReschedulePolicy {
+  // Moves allowed per booking; 0 turns rescheduling off
+  maxReschedules: number;
+  // Latest a booking can be moved, in hours before its class starts
+  minHoursBefore: number;
+}
+
+// New listings wait for an admin; listings created before moderation existed
+// have no status and count as approved
+export type ModerationStatus = "pending" | "approved" | "rejected";
+
+// Listing content an admin must approve before it goes live. Edits to these
+// on an approved listing are held in `pendingChanges`.
+export const MODERATED_FIELDS = [
+  "name",
+  "description",
+  "images",
+  "address",
+  "location",
+  "website",
+] as const;
+
+export type ModeratedField = (typeof MODERATED_FIELDS)[number];
+
 export interface IYogaShala extends Document {
   name: string;
   description: string;
   images: string[];
+  photos: IShalaPhoto[];
   address: IAddress;
   location: ILocation;
+  // IANA timezone class times are in, e.g. "Asia/Kolkata"
+  timezone: string;
   phone: string;
   email: string;
   website?: string;
   amenities: string[];
   schedule: ITimeSlot[];
   dropInRate?: number;
+  // Price of a first class at this shala; free when not set
+  trialRate?: number;
   packages: IPackage[];
+  cancellationPolicy?: ICancellationPolicy;
+  reschedulePolicy?: IReschedulePolicy;
   rating: number;
   reviewCount: number;
+  // Sum of all review ratings, kept so `rating` can be updated incrementally
+  ratingSum?: number;
   isActive: boolean;
+  moderationStatus?: ModerationStatus;
+  // Reason given with the last rejection
+  moderationNote?: string;
+  moderatedBy?: mongoose.Types.ObjectId;
+  moderatedAt?: Date;
+  pendingChanges?: Partial<Pick<IYogaShala, ModeratedField>>;
+  changesSubmittedAt?: Date;
   owner: mongoose.Types.ObjectId;
+  // Users besides the owner who run the front desk (check-ins)
+  staff: mongoose.Types.ObjectId[];
+  occurrencesGeneratedThrough?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -75,11 +161,27 @@ const TimeSlotSchema = new Schema<ITimeSlot>({
   startTime: { type: String, required: true },
   endTime: { type: String, required: true },
   className: { type: String, required: true },
+  style: { type: String, enum: YOGA_STYLES },
+  level: { type: String, enum: CLASS_LEVELS },
   instructor: { type: String, required: true },
   capacity: { type: Number, default: 20 },
   price: { type: Number, required: true },
 });
 
+const PhotoSchema = new Schema<IShalaPhoto>({
+  url: { type: String, required: true },
+  thumbnailUrl: { type: String, required: true },
+  key: { type: String, required: true },
+  thumbnailKey: { type: String, required: true },
+  width: { type: Number },
+  height: { type: Number },
+  size: { type: Number },
+  isCover: { type: Boolean, default: false },
+  approved: { type: Boolean, default: false },
+  uploadedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  createdAt: { type: Date, default: Date.now },
+});
+
 const LocationSchema = new Schema<ILocation>({
   type: {
     type: String,
@@ -96,6 +198,7 @@ const YogaShalaSchema = new Schema<IYogaShala>({
   name: { type: String, required: true },
   description: { type: String, required: true },
   images: [{ type: String }],
+  photos: [PhotoSchema],
 
   address: {
     street: { type: String, required: true },
@@ -108,6 +211,14 @@ const YogaShalaSchema = new Schema<IYogaShala>({
     type: LocationSchema,
     required: true,
   },
+  // Defaults from address.country, see the pre-validate hook
+  timezone: {
+    type: String,
+    validate: {
+      validator: isValidTimezone,
+      message: "timezone must be an IANA timezone, e.g. Asia/Kolkata",
+    },
+  },
 
   phone: { type: String, required: true },
   email: { type: String, required: true },
@@ -138,6 +249,7 @@ const YogaShalaSchema = new Schema<IYogaShala>({
 
   schedule: [TimeSlotSchema],
   dropInRate: { type: Number },
+  trialRate: { type: Number, min: 0 },
   packages: [
     {
       name: { type: String, required: true },
@@ -147,11 +259,42 @@ const YogaShalaSchema = new Schema<IYogaShala>({
     },
   ],
 
+  cancellationPolicy: {
+    tiers: [
+      {
+        _id: false,
+        minHoursBefore: { type: Number, required: true, min: 0 },
+        refundPercent: { type: Number, required: true, min: 0, max: 100 },
+      },
+    ],
+  },
+
+  reschedulePolicy: {
+    maxReschedules: { type: Number, min: 0 },
+    minHoursBefore: { type: Number, min: 0 },
+  },
+
   rating: { type: Number, default: 0, min: 0, max: 5 },
   reviewCount: { type: Number, default: 0 },
+  ratingSum: { type: Number, default: 0 },
 
   isActive: { type: Boolean, default: true },
+
+  moderationStatus: {
+    type: String,
+    enum: ["pending", "approved", "rejected"],
+  },
+  moderationNote: { type: String },
+  moderatedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  moderatedAt: { type: Date },
+  pendingChanges: { type: Schema.Types.Mixed },
+  changesSubmittedAt: { type: Date },
+
   owner: { type: Schema.Types.ObjectId, ref: "User" },
+  staff: [{ type: Schema.Types.ObjectId, ref: "User" }],
+
+  // Last date class occurrences have been materialized for
+  occurrencesGeneratedThrough: { type: Date },
 
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now },
@@ -162,5 +305,34 @@ YogaShalaSchema.index({ location: "2dsphere" });
 YogaShalaSchema.index({ "address.city": 1 });
 YogaShalaSchema.index({ rating: -1 });
 YogaShalaSchema.index({ name: "text", description: "text" });
+YogaShalaSchema.index({ moderationStatus: 1, updatedAt: 1 });
+YogaShalaSchema.index({ changesSubmittedAt: 1 });
+YogaShalaSchema.index({ staff: 1 });
+
+YogaShalaSchema.pre("validate", function (next) {
+  if (!this.timezone) {
+    this.timezone = getShalaTimezone(this);
+  }
+  next();
+});
+
+// Query filter for listings the public can see
+export const PUBLISHED_SHALA_FILTER = {
+  isActive: true,
+  moderationStatus: { $nin: ["pending", "rejected"] },
+};
+
+export const isPublished = (
+  shala: Pick<IYogaShala, "isActive" | "moderationStatus">
+): boolean =>
+  shala.isActive &&
+  shala.moderationStatus !== "pending" &&
+  shala.moderationStatus !== "rejected";
+
+// Timezone of the shala's class times; shalas saved before timezones were
+// tracked fall back to their country's default
+export const getShalaTimezone = (
+  shala: Partial<Pick<IYogaShala, "timezone" | "address">>
+): string => shala.timezone || getDefaultTimezone(shala.address?.country);
 
 export default mongoose.model<IYogaShala>("YogaShala", YogaShalaSchema);
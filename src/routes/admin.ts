@@ -1 +1,319 @@
- 
\ No newline at end of file
+import { FastifyInstance, FastifyPluginAsync } from "fastify";
+import {
+  ModerationControllerFastify,
+  ModerationQueueRequest,
+  ApproveShalaRequest,
+  RejectShalaRequest,
+  ListReportsRequest,
+  ResolveReportRequest,
+} from "../controllers/moderationControllerFastify";
+import {
+  JobRunControllerFastify,
+  ListJobRunsRequest,
+} from "../controllers/jobRunControllerFastify";
+import { SCHEDULED_JOBS } from "../jobs";
+import { JOB_RUN_STATUSES } from "../models/JobRun";
+import { authMiddleware, requireRole } from "../middleware/authFastify";
+
+const moderatedShalaSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    name: { type: "string" },
+    description: { type: "string" },
+    images: { type: "array", items: { type: "string" } },
+    address: { type: "object", additionalProperties: true },
+    location: { type: "object", additionalProperties: true },
+    website: { type: "string" },
+    owner: { description: "Owner ID, or their contact details in the queue" },
+    isActive: { type: "boolean" },
+    moderationStatus: { type: "string" },
+    moderationNote: { type: "string" },
+    moderatedAt: { type: "string" },
+    pendingChanges: { type: "object", additionalProperties: true },
+    changesSubmittedAt: { type: "string" },
+    createdAt: { type: "string" },
+    updatedAt: { type: "string" },
+  },
+};
+
+const reportSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    shala: { description: "Shala ID, or its name and status in listings" },
+    reporter: { description: "Reporter ID, or their name and email" },
+    reason: { type: "string" },
+    details: { type: "string" },
+    status: { type: "string" },
+    resolvedAt: { type: "string" },
+    resolutionNote: { type: "string" },
+    createdAt: { type: "string" },
+  },
+};
+
+const paginationSchema = {
+  type: "object",
+  properties: {
+    current: { type: "number" },
+    pages: { type: "number" },
+    total: { type: "number" },
+    limit: { type: "number" },
+  },
+};
+
+const jobRunSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    name: { type: "string" },
+    status: { type: "string" },
+    startedAt: { type: "string" },
+    finishedAt: { type: "string" },
+    durationMs: { type: "number" },
+    result: { type: "object", additionalProperties: true },
+    error: { type: "string" },
+    host: { type: "string" },
+  },
+};
+
+const moderationErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+const shalaDecisionResponse = {
+  200: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      message: { type: "string" },
+      shala: moderatedShalaSchema,
+    },
+  },
+  400: moderationErrorSchema,
+  404: moderationErrorSchema,
+  409: moderationErrorSchema,
+};
+
+// Admin-only endpoints, registered under /api/admin
+const adminRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  fastify.addHook("preHandler", authMiddleware);
+  fastify.addHook("preHandler", requireRole("admin"));
+
+  // Listings waiting for approval
+  fastify.get<ModerationQueueRequest>(
+    "/shalas/moderation",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Shala moderation queue",
+        description:
+          "New listings and edits to live listings waiting for approval, " +
+          "oldest first",
+        querystring: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["new", "changes", "all"],
+              default: "all",
+            },
+            page: { type: "string", default: "1" },
+            limit: { type: "string", default: "20" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              shalas: { type: "array", items: moderatedShalaSchema },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    ModerationControllerFastify.listQueue
+  );
+
+  // Approve a listing or its pending changes
+  fastify.post<ApproveShalaRequest>(
+    "/shalas/:id/approve",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Approve shala",
+        description:
+          "Publish a new or taken down listing, or apply the pending " +
+          "changes of a live one",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        response: shalaDecisionResponse,
+      },
+    },
+    ModerationControllerFastify.approveShala
+  );
+
+  // Reject a listing or its pending changes
+  fastify.post<RejectShalaRequest>(
+    "/shalas/:id/reject",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Reject shala",
+        description:
+          "Reject a new listing or the pending changes of a live one; the " +
+          "owner is emailed the reason. takedown unpublishes a live listing",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["reason"],
+          properties: {
+            reason: { type: "string", minLength: 1, maxLength: 1000 },
+            takedown: { type: "boolean", default: false },
+          },
+        },
+        response: shalaDecisionResponse,
+      },
+    },
+    ModerationControllerFastify.rejectShala
+  );
+
+  // Reported listings
+  fastify.get<ListReportsRequest>(
+    "/reports",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "List listing reports",
+        description: "Reports from users, open ones oldest first",
+        querystring: {
+          type: "object",
+          properties: {
+            status: {
+              type: "string",
+              enum: ["open", "resolved", "dismissed"],
+              default: "open",
+            },
+            page: { type: "string", default: "1" },
+            limit: { type: "string", default: "20" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              reports: { type: "array", items: reportSchema },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    ModerationControllerFastify.listReports
+  );
+
+  // Dismiss a report or take the listing down
+  fastify.post<ResolveReportRequest>(
+    "/reports/:id/resolve",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Resolve listing report",
+        description:
+          "dismiss closes this report; takedown unpublishes the listing and " +
+          "resolves every open report against it",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Report ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["action"],
+          properties: {
+            action: { type: "string", enum: ["dismiss", "takedown"] },
+            note: { type: "string", maxLength: 1000 },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              report: reportSchema,
+              shala: moderatedShalaSchema,
+            },
+          },
+          404: moderationErrorSchema,
+          409: moderationErrorSchema,
+        },
+      },
+    },
+    ModerationControllerFastify.resolveReport
+  );
+
+  // Background job run log
+  fastify.get<ListJobRunsRequest>(
+    "/jobs/runs",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "List background job runs",
+        description:
+          "When each scheduled job ran and what it did, newest first. Runs " +
+          "are kept for a limited time",
+        querystring: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              enum: SCHEDULED_JOBS.map((job) => job.name),
+            },
+            status: { type: "string", enum: [...JOB_RUN_STATUSES] },
+            page: { type: "string", default: "1" },
+            limit: { type: "string", default: "20" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              runs: { type: "array", items: jobRunSchema },
+              pagination: paginationSchema,
+            },
+          },
+          400: moderationErrorSchema,
+        },
+      },
+    },
+    JobRunControllerFastify.listRuns
+  );
+};
+
+export default adminRoutes;
@@ -1,32 +1,332 @@
 import { FastifyInstance, FastifyPluginAsync } from "fastify";
-import { BookingControllerFastify } from "../controllers/bookingControllerFastify";
+import {
+  BookingControllerFastify,
+  BookingQuoteRequest,
+  CancelBookingRequest,
+  CancellationQuoteRequest,
+  CreateBookingRequest,
+  GetBookingRequest,
+  ListBookingsRequest,
+  UpdateBookingRequest,
+} from "../controllers/bookingControllerFastify";
+import {
+  WaitlistControllerFastify,
+  JoinWaitlistRequest,
+  WaitlistEntryRequest,
+} from "../controllers/waitlistControllerFastify";
+import {
+  CheckInControllerFastify,
+  CheckInBookingRequest,
+  CheckInGuestRequest,
+  CheckInTokenRequest,
+  ScanCheckInRequest,
+} from "../controllers/checkInControllerFastify";
+import {
+  GuestControllerFastify,
+  CancelGuestRequest,
+} from "../controllers/guestControllerFastify";
+import {
+  BookingSeriesControllerFastify,
+  CreateSeriesRequest,
+  SeriesByIdRequest,
+  CancelSeriesRequest,
+} from "../controllers/bookingSeriesControllerFastify";
+import {
+  RescheduleControllerFastify,
+  RescheduleBookingRequest,
+} from "../controllers/rescheduleControllerFastify";
+import { authMiddleware } from "../middleware/authFastify";
+
+// Itemized class price, shared by the quote endpoint and booking responses
+const priceQuoteSchema = {
+  type: "object",
+  properties: {
+    paymentMethod: { type: "string" },
+    currency: { type: "string" },
+    lineItems: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string" },
+          label: { type: "string" },
+          amount: {
+            type: "number",
+            description: "Negative for reductions",
+          },
+        },
+      },
+    },
+    subtotal: { type: "number" },
+    discount: { type: "number" },
+    total: { type: "number" },
+    spots: { type: "number", description: "People priced, per head" },
+    activePackageId: { type: "string" },
+    discountCode: {
+      type: "object",
+      properties: {
+        code: { type: "string" },
+        amount: { type: "number" },
+      },
+    },
+  },
+};
+
+// Person booked along with the lead booker
+const bookingGuestSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    name: { type: "string" },
+    email: { type: "string" },
+    user: { type: "string", description: "Guest's account, if any" },
+    status: { type: "string", enum: ["confirmed", "cancelled"] },
+    checkedIn: { type: "boolean" },
+    checkInTime: { type: "string" },
+    cancelledAt: { type: "string" },
+    cancellationReason: { type: "string" },
+    refundAmount: { type: "number" },
+  },
+};
+
+const guestErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+const guestParams = {
+  type: "object",
+  required: ["id", "guestId"],
+  properties: {
+    id: { type: "string", description: "Booking ID" },
+    guestId: { type: "string", description: "Guest ID on the booking" },
+  },
+};
+
+// Booking as returned after a check-in, checkout or guest cancellation
+const checkedInBookingSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    user: {
+      type: "object",
+      properties: {
+        _id: { type: "string" },
+        name: { type: "string" },
+        email: { type: "string" },
+      },
+    },
+    shala: { type: "string" },
+    className: { type: "string" },
+    instructor: { type: "string" },
+    date: { type: "string" },
+    startTime: { type: "string" },
+    endTime: { type: "string" },
+    timezone: { type: "string" },
+    startsAt: { type: "string" },
+    endsAt: { type: "string" },
+    status: { type: "string" },
+    spots: { type: "number" },
+    guests: { type: "array", items: bookingGuestSchema },
+    checkedIn: { type: "boolean" },
+    checkInTime: { type: "string" },
+    checkedInBy: { type: "string" },
+    checkOutTime: { type: "string" },
+  },
+};
+
+const checkInWindowSchema = {
+  type: "object",
+  properties: {
+    opensAt: { type: "string" },
+    closesAt: { type: "string" },
+  },
+};
+
+const checkInResponseSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    message: { type: "string" },
+    booking: checkedInBookingSchema,
+  },
+};
+
+const checkInErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+    window: checkInWindowSchema,
+  },
+};
+
+// One move of a booking to another class
+const rescheduleEntrySchema = {
+  type: "object",
+  properties: {
+    fromOccurrence: { type: "string" },
+    toOccurrence: { type: "string" },
+    fromDate: { type: "string" },
+    fromStartTime: { type: "string" },
+    toDate: { type: "string" },
+    toStartTime: { type: "string" },
+    priceDifference: { type: "number" },
+    payment: { type: "string" },
+    reason: { type: "string" },
+    rescheduledAt: { type: "string" },
+  },
+};
+
+// Booking as returned after a move, or with a move waiting for payment
+const rescheduledBookingSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    shala: {
+      type: "object",
+      additionalProperties: true,
+    },
+    occurrence: { type: "string" },
+    className: { type: "string" },
+    instructor: { type: "string" },
+    date: { type: "string" },
+    startTime: { type: "string" },
+    endTime: { type: "string" },
+    timezone: { type: "string" },
+    startsAt: { type: "string" },
+    endsAt: { type: "string" },
+    status: { type: "string" },
+    paymentMethod: { type: "string" },
+    amountPaid: { type: "number" },
+    reschedules: { type: "array", items: rescheduleEntrySchema },
+    pendingReschedule: {
+      type: "object",
+      properties: {
+        occurrence: { type: "string" },
+        payment: { type: "string" },
+        priceDifference: { type: "number" },
+        requestedAt: { type: "string" },
+      },
+    },
+  },
+};
+
+const rescheduleErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+    remainingSpots: { type: "number" },
+  },
+};
+
+// Returned while a user is blocked from booking after repeated no-shows
+const bookingBlockedSchema = {
+  description: "Booking is paused after repeated no-shows",
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+    blockedUntil: { type: "string" },
+  },
+};
+
+// Outcome of one week of a recurring booking
+const seriesOccurrenceSchema = {
+  type: "object",
+  properties: {
+    date: { type: "string" },
+    occurrence: { type: "string" },
+    booking: { type: "string" },
+    status: { type: "string", enum: ["booked", "skipped", "failed"] },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+// Recurring booking with the outcome of each week
+const bookingSeriesSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    user: { type: "string" },
+    shala: {
+      description: "Shala ID, or its name and city in listings",
+    },
+    slotId: { type: "string" },
+    className: { type: "string" },
+    instructor: { type: "string" },
+    day: { type: "string" },
+    startTime: { type: "string" },
+    endTime: { type: "string" },
+    paymentMethod: { type: "string" },
+    packageId: { type: "string" },
+    startDate: { type: "string" },
+    endDate: { type: "string" },
+    occurrences: { type: "array", items: seriesOccurrenceSchema },
+    status: { type: "string", enum: ["active", "cancelled"] },
+    cancelledAt: { type: "string" },
+    createdAt: { type: "string" },
+  },
+};
+
+const seriesSummarySchema = {
+  type: "object",
+  properties: {
+    booked: { type: "number" },
+    skipped: { type: "number" },
+    failed: { type: "number" },
+  },
+};
+
+const seriesErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+const seriesIdParams = {
+  type: "object",
+  required: ["seriesId"],
+  properties: {
+    seriesId: { type: "string", description: "Recurring booking ID" },
+  },
+};
 
 const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   // Create new booking
-  fastify.post(
+  fastify.post<CreateBookingRequest>(
     "/",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Bookings"],
         summary: "Create new booking",
         description: "Create a new yoga class booking",
         body: {
           type: "object",
-          required: [
-            "shalaId",
-            "classId",
-            "date",
-            "timeSlot",
-            "paymentMethod",
-            "amount",
-          ],
+          required: ["shalaId", "classId", "paymentMethod"],
           properties: {
             shalaId: { type: "string", description: "ID of the shala" },
-            classId: { type: "string", description: "ID of the class" },
+            classId: {
+              type: "string",
+              description: "ID of the class occurrence being booked",
+            },
             date: {
               type: "string",
               format: "date",
-              description: "Booking date",
+              description: "Class date (optional, checked against the class)",
             },
             timeSlot: {
               type: "object",
@@ -40,7 +340,41 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               type: "string",
               description: "Payment method used",
             },
-            amount: { type: "number", description: "Booking amount" },
+            amount: {
+              type: "number",
+              description:
+                "Total of the price quote shown to the user; the booking is " +
+                "rejected with PRICE_MISMATCH if the price has changed",
+            },
+            packageId: {
+              type: "string",
+              description:
+                "Purchased package to pay with for package bookings " +
+                "(defaults to the one expiring first)",
+            },
+            discountCode: {
+              type: "string",
+              description: "Promo code to apply to the class price",
+            },
+            guests: {
+              type: "array",
+              description:
+                "People coming with the user. Each takes a spot and is " +
+                "charged the class price (or a package class)",
+              items: {
+                type: "object",
+                required: ["name"],
+                properties: {
+                  name: { type: "string", minLength: 1, maxLength: 100 },
+                  email: {
+                    type: "string",
+                    description:
+                      "Links the guest's account, letting them see the " +
+                      "booking and cancel or check in their own place",
+                  },
+                },
+              },
+            },
           },
         },
         response: {
@@ -56,24 +390,66 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
                   id: { type: "string" },
                   user: { type: "string" },
                   shala: { type: "object" },
-                  classId: { type: "string" },
+                  className: { type: "string" },
+                  instructor: { type: "string" },
                   date: { type: "string" },
-                  timeSlot: { type: "object" },
+                  startTime: { type: "string" },
+                  endTime: { type: "string" },
+                  timezone: { type: "string" },
+                  startsAt: { type: "string", description: "UTC start" },
+                  endsAt: { type: "string", description: "UTC end" },
+                  spots: { type: "number" },
+                  guests: { type: "array", items: bookingGuestSchema },
                   paymentMethod: { type: "string" },
-                  amount: { type: "number" },
+                  amountPaid: { type: "number" },
+                  packageUsed: {
+                    type: "object",
+                    properties: {
+                      packageId: { type: "string" },
+                      classesUsed: { type: "number" },
+                    },
+                  },
+                  discount: {
+                    type: "object",
+                    properties: {
+                      code: { type: "string" },
+                      amount: { type: "number" },
+                    },
+                  },
                   status: { type: "string" },
                   paymentStatus: { type: "string" },
                   createdAt: { type: "string" },
                 },
               },
+              quote: priceQuoteSchema,
+              remainingSpots: {
+                type: "number",
+                description: "Spots left in the class after this booking",
+              },
+              payment: {
+                type: "object",
+                description:
+                  "Checkout to complete for paid classes; the booking is " +
+                  "confirmed once the payment succeeds",
+                properties: {
+                  paymentId: { type: "string" },
+                  provider: { type: "string" },
+                  intentId: { type: "string" },
+                  amount: { type: "number" },
+                  currency: { type: "string" },
+                  clientPayload: { type: "object", additionalProperties: true },
+                },
+              },
             },
           },
           400: {
             description:
-              "Bad request - validation error or booking already exists",
+              "Bad request - validation error, booking already exists, " +
+              "no usable package or promo code cannot be applied",
             type: "object",
             properties: {
               success: { type: "boolean" },
+              code: { type: "string" },
               message: { type: "string" },
             },
           },
@@ -85,24 +461,116 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               message: { type: "string" },
             },
           },
+          403: bookingBlockedSchema,
           404: {
             description: "Shala not found",
             type: "object",
             properties: {
               success: { type: "boolean" },
+              code: { type: "string" },
               message: { type: "string" },
             },
           },
+          409: {
+            description:
+              "Class is full or has fewer spots than the group " +
+              "(code CLASS_FULL) or the price changed " +
+              "(code PRICE_MISMATCH, with the current quote)",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+              remainingSpots: { type: "number" },
+              quote: priceQuoteSchema,
+            },
+          },
         },
       },
     },
     BookingControllerFastify.createBooking
   );
 
+  // Price a class before booking it
+  fastify.get<BookingQuoteRequest>(
+    "/quote",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Get price quote",
+        description:
+          "Itemized price of a class for the current user and payment " +
+          "method, checking trial eligibility and package coverage",
+        querystring: {
+          type: "object",
+          required: ["shalaId", "classId", "paymentMethod"],
+          properties: {
+            shalaId: { type: "string", description: "ID of the shala" },
+            classId: {
+              type: "string",
+              description: "ID of the class occurrence",
+            },
+            paymentMethod: {
+              type: "string",
+              enum: ["package", "drop_in", "trial", "free"],
+            },
+            packageId: {
+              type: "string",
+              description: "Purchased package to pay with",
+            },
+            discountCode: {
+              type: "string",
+              description: "Promo code to apply",
+            },
+            guests: {
+              type: "integer",
+              minimum: 0,
+              description: "Guests coming with the user, priced per head",
+            },
+          },
+        },
+        response: {
+          200: {
+            description: "Price calculated successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              quote: priceQuoteSchema,
+            },
+          },
+          400: {
+            description:
+              "Class not found, not eligible for a trial, no usable package " +
+              "or promo code cannot be applied",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+          404: {
+            description: "Shala not found",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    BookingControllerFastify.getQuote
+  );
+
   // Get booking by ID
-  fastify.get(
+  fastify.get<GetBookingRequest>(
     "/:id",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Bookings"],
         summary: "Get booking by ID",
@@ -163,9 +631,10 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   );
 
   // Update booking
-  fastify.put(
+  fastify.put<UpdateBookingRequest>(
     "/:id",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Bookings"],
         summary: "Update booking",
@@ -177,17 +646,13 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
             id: { type: "string", description: "Booking ID" },
           },
         },
+        // Status only changes through payment, cancellation, check-in and
+        // settlement, which carry their side effects
         body: {
           type: "object",
+          required: ["notes"],
+          additionalProperties: false,
           properties: {
-            status: {
-              type: "string",
-              enum: ["pending", "confirmed", "cancelled", "completed"],
-            },
-            paymentStatus: {
-              type: "string",
-              enum: ["pending", "paid", "failed", "refunded"],
-            },
             notes: { type: "string", description: "Additional notes" },
           },
         },
@@ -233,14 +698,17 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
     BookingControllerFastify.updateBooking
   );
 
-  // Cancel booking
-  fastify.post(
-    "/:id/cancel",
+  // Preview refund before cancelling
+  fastify.get<CancellationQuoteRequest>(
+    "/:id/cancellation-quote",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Bookings"],
-        summary: "Cancel booking",
-        description: "Cancel a booking (owner only)",
+        summary: "Get cancellation quote",
+        description:
+          "Projected refund for cancelling the booking now, with the " +
+          "shala's cancellation policy tiers",
         params: {
           type: "object",
           required: ["id"],
@@ -250,149 +718,386 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
         },
         response: {
           200: {
-            description: "Booking cancelled successfully",
+            description: "Cancellation quote calculated successfully",
             type: "object",
             properties: {
               success: { type: "boolean" },
               message: { type: "string" },
+              refund: {
+                type: "object",
+                properties: {
+                  hoursBeforeClass: { type: "number" },
+                  refundPercent: { type: "number" },
+                  refundAmount: { type: "number" },
+                  restorePackageClasses: { type: "boolean" },
+                },
+              },
+              cancellationPolicy: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    minHoursBefore: { type: "number" },
+                    refundPercent: { type: "number" },
+                  },
+                },
+              },
             },
           },
           400: {
-            description: "Booking is already cancelled",
+            description: "Booking can no longer be cancelled",
             type: "object",
             properties: {
               success: { type: "boolean" },
+              code: { type: "string" },
               message: { type: "string" },
             },
           },
-          404: {
-            description: "Booking not found",
+          403: {
+            description: "Not authorized to view this booking",
             type: "object",
             properties: {
               success: { type: "boolean" },
+              code: { type: "string" },
               message: { type: "string" },
             },
           },
-          403: {
-            description: "Not authorized to cancel this booking",
+          404: {
+            description: "Booking not found",
             type: "object",
             properties: {
               success: { type: "boolean" },
+              code: { type: "string" },
               message: { type: "string" },
             },
           },
         },
       },
     },
-    BookingControllerFastify.cancelBooking
+    BookingControllerFastify.getCancellationQuote
   );
 
-  // Get user's bookings
-  fastify.get(
-    "/my-bookings",
+  // Cancel booking
+  fastify.post<CancelBookingRequest>(
+    "/:id/cancel",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Bookings"],
-        summary: "Get user's bookings",
-        description: "Get all bookings for the authenticated user",
-        querystring: {
+        summary: "Cancel booking",
+        description:
+          "Cancel a booking (owner only). The refund follows the shala's " +
+          "cancellation policy",
+        params: {
           type: "object",
+          required: ["id"],
           properties: {
-            page: { type: "string", default: "1" },
-            limit: { type: "string", default: "10" },
-            status: {
-              type: "string",
-              enum: ["pending", "confirmed", "cancelled", "completed"],
-            },
+            id: { type: "string", description: "Booking ID" },
+          },
+        },
+        body: {
+          type: "object",
+          properties: {
+            reason: { type: "string", description: "Cancellation reason" },
           },
         },
         response: {
           200: {
-            description: "Bookings retrieved successfully",
+            description: "Booking cancelled successfully",
             type: "object",
             properties: {
               success: { type: "boolean" },
-              bookings: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    id: { type: "string" },
-                    shala: { type: "object" },
-                    classId: { type: "string" },
-                    date: { type: "string" },
-                    timeSlot: { type: "object" },
-                    status: { type: "string" },
-                    paymentStatus: { type: "string" },
-                    amount: { type: "number" },
-                    createdAt: { type: "string" },
-                  },
-                },
-              },
-              pagination: {
+              message: { type: "string" },
+              refund: {
                 type: "object",
                 properties: {
-                  page: { type: "number" },
-                  limit: { type: "number" },
-                  total: { type: "number" },
-                  pages: { type: "number" },
+                  hoursBeforeClass: { type: "number" },
+                  refundPercent: { type: "number" },
+                  refundAmount: { type: "number" },
+                  restorePackageClasses: { type: "boolean" },
                 },
               },
             },
           },
-          401: {
-            description: "User not authenticated",
+          400: {
+            description: "Booking is already cancelled or was attended",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+          404: {
+            description: "Booking not found",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+          403: {
+            description: "Not authorized to cancel this booking",
             type: "object",
             properties: {
               success: { type: "boolean" },
+              code: { type: "string" },
               message: { type: "string" },
             },
           },
         },
       },
     },
-    BookingControllerFastify.getUserBookings
+    BookingControllerFastify.cancelBooking
   );
 
-  // Get all bookings (admin/shala owner)
-  fastify.get(
-    "/admin/all",
+  // Cancel one guest of a group booking
+  fastify.post<CancelGuestRequest>(
+    "/:id/guests/:guestId/cancel",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Bookings"],
-        summary: "Get all bookings",
-        description: "Get all bookings (admin or shala owner only)",
-        querystring: {
+        summary: "Cancel guest",
+        description:
+          "Take one guest off a group booking (lead booker, or the guest " +
+          "themselves if they have an account). Their spot is freed and " +
+          "their share is refunded under the shala's cancellation policy",
+        params: guestParams,
+        body: {
           type: "object",
           properties: {
-            page: { type: "string", default: "1" },
-            limit: { type: "string", default: "10" },
-            status: {
-              type: "string",
-              enum: ["pending", "confirmed", "cancelled", "completed"],
-            },
-            shalaId: { type: "string", description: "Filter by shala ID" },
+            reason: { type: "string", description: "Cancellation reason" },
           },
         },
         response: {
           200: {
-            description: "Bookings retrieved successfully",
+            description: "Guest cancelled",
             type: "object",
             properties: {
               success: { type: "boolean" },
-              bookings: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    id: { type: "string" },
-                    user: { type: "object" },
-                    shala: { type: "object" },
-                    classId: { type: "string" },
-                    date: { type: "string" },
-                    timeSlot: { type: "object" },
-                    status: { type: "string" },
-                    paymentStatus: { type: "string" },
+              message: { type: "string" },
+              booking: checkedInBookingSchema,
+              refund: {
+                type: "object",
+                properties: {
+                  hoursBeforeClass: { type: "number" },
+                  refundPercent: { type: "number" },
+                  refundAmount: { type: "number" },
+                  restorePackageClasses: { type: "boolean" },
+                },
+              },
+            },
+          },
+          400: guestErrorSchema,
+          403: guestErrorSchema,
+          404: guestErrorSchema,
+          409: guestErrorSchema,
+        },
+      },
+    },
+    GuestControllerFastify.cancelGuest
+  );
+
+  // Move a booking to another class
+  fastify.post<RescheduleBookingRequest>(
+    "/:id/reschedule",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Reschedule booking",
+        description:
+          "Move a confirmed booking to another class at the same shala, " +
+          "within the shala's reschedule limits. Package classes are swapped; " +
+          "a cheaper class refunds the difference, a dearer one holds the " +
+          "spot until the difference is paid (202 with a checkout)",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Booking ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["classId"],
+          properties: {
+            classId: {
+              type: "string",
+              description: "ID of the class occurrence to move to",
+            },
+            reason: { type: "string", maxLength: 500 },
+          },
+        },
+        response: {
+          200: {
+            description: "Booking moved",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              booking: rescheduledBookingSchema,
+              priceDifference: { type: "number" },
+              refundAmount: { type: "number" },
+              remainingSpots: { type: "number" },
+              reschedulesLeft: { type: "number" },
+            },
+          },
+          202: {
+            description: "Spot held until the price difference is paid",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              booking: rescheduledBookingSchema,
+              priceDifference: { type: "number" },
+              payment: {
+                type: "object",
+                properties: {
+                  paymentId: { type: "string" },
+                  provider: { type: "string" },
+                  intentId: { type: "string" },
+                  amount: { type: "number" },
+                  currency: { type: "string" },
+                  clientPayload: { type: "object", additionalProperties: true },
+                },
+              },
+              remainingSpots: { type: "number" },
+              reschedulesLeft: { type: "number" },
+            },
+          },
+          400: rescheduleErrorSchema,
+          404: rescheduleErrorSchema,
+          409: rescheduleErrorSchema,
+          502: rescheduleErrorSchema,
+        },
+      },
+    },
+    RescheduleControllerFastify.reschedule
+  );
+
+  // Get user's bookings
+  fastify.get<ListBookingsRequest>(
+    "/my-bookings",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Get user's bookings",
+        description: "Get all bookings for the authenticated user",
+        querystring: {
+          type: "object",
+          properties: {
+            page: { type: "string", default: "1" },
+            limit: { type: "string", default: "10" },
+            status: {
+              type: "string",
+              enum: [
+                "pending",
+                "confirmed",
+                "cancelled",
+                "completed",
+                "no_show",
+              ],
+            },
+          },
+        },
+        response: {
+          200: {
+            description: "Bookings retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              bookings: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    shala: { type: "object" },
+                    classId: { type: "string" },
+                    date: { type: "string" },
+                    timeSlot: { type: "object" },
+                    status: { type: "string" },
+                    paymentStatus: { type: "string" },
+                    amount: { type: "number" },
+                    createdAt: { type: "string" },
+                  },
+                },
+              },
+              pagination: {
+                type: "object",
+                properties: {
+                  page: { type: "number" },
+                  limit: { type: "number" },
+                  total: { type: "number" },
+                  pages: { type: "number" },
+                },
+              },
+            },
+          },
+          401: {
+            description: "User not authenticated",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    BookingControllerFastify.getUserBookings
+  );
+
+  // Get all bookings (admin/shala owner)
+  fastify.get<ListBookingsRequest>(
+    "/admin/all",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Get all bookings",
+        description: "Get all bookings (admin or shala owner only)",
+        querystring: {
+          type: "object",
+          properties: {
+            page: { type: "string", default: "1" },
+            limit: { type: "string", default: "10" },
+            status: {
+              type: "string",
+              enum: [
+                "pending",
+                "confirmed",
+                "cancelled",
+                "completed",
+                "no_show",
+              ],
+            },
+            shalaId: { type: "string", description: "Filter by shala ID" },
+          },
+        },
+        response: {
+          200: {
+            description: "Bookings retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              bookings: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    user: { type: "object" },
+                    shala: { type: "object" },
+                    classId: { type: "string" },
+                    date: { type: "string" },
+                    timeSlot: { type: "object" },
+                    status: { type: "string" },
+                    paymentStatus: { type: "string" },
                     amount: { type: "number" },
                     createdAt: { type: "string" },
                   },
@@ -435,6 +1140,7 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   fastify.get(
     "/stats/overview",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Bookings"],
         summary: "Get booking statistics",
@@ -489,6 +1195,488 @@ const bookingRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
     },
     BookingControllerFastify.getBookingStats
   );
+
+  // Get the check-in code for a booking
+  fastify.get<CheckInTokenRequest>(
+    "/:id/checkin-token",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Get check-in code",
+        description:
+          "Signed, short-lived token for the user's confirmed booking, " +
+          "rendered as a QR code and scanned at the front desk. Fetch a " +
+          "new one once it expires. The lead booker can get one per guest; " +
+          "a guest with an account gets the one for their own place",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Booking ID" },
+          },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            guestId: {
+              type: "string",
+              description: "Guest to issue the code for",
+            },
+          },
+        },
+        response: {
+          200: {
+            description: "Check-in code issued",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              token: { type: "string" },
+              expiresAt: { type: "string" },
+              window: checkInWindowSchema,
+            },
+          },
+          400: checkInErrorSchema,
+          404: checkInErrorSchema,
+        },
+      },
+    },
+    CheckInControllerFastify.getToken
+  );
+
+  // Check in by scanning a code
+  fastify.post<ScanCheckInRequest>(
+    "/checkin",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Scan check-in code",
+        description:
+          "Check a user in from their code (shala owner or staff). Check-in " +
+          "opens 30 minutes before the class and closes when it ends",
+        body: {
+          type: "object",
+          required: ["token"],
+          properties: {
+            token: { type: "string", description: "Scanned check-in code" },
+          },
+        },
+        response: {
+          200: checkInResponseSchema,
+          400: checkInErrorSchema,
+          403: checkInErrorSchema,
+          404: checkInErrorSchema,
+          409: checkInErrorSchema,
+        },
+      },
+    },
+    CheckInControllerFastify.scan
+  );
+
+  // Check in a booking from the front desk
+  fastify.post<CheckInBookingRequest>(
+    "/:id/checkin",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Check in booking",
+        description:
+          "Check a user in by booking (shala owner or staff), e.g. when they " +
+          "can't show their code. A token, if given, must be for this booking",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Booking ID" },
+          },
+        },
+        body: {
+          type: "object",
+          properties: {
+            token: { type: "string", description: "Scanned check-in code" },
+          },
+        },
+        response: {
+          200: checkInResponseSchema,
+          400: checkInErrorSchema,
+          403: checkInErrorSchema,
+          404: checkInErrorSchema,
+          409: checkInErrorSchema,
+        },
+      },
+    },
+    CheckInControllerFastify.checkIn
+  );
+
+  // Check out a booking
+  fastify.post<CheckInBookingRequest>(
+    "/:id/checkout",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Check out booking",
+        description:
+          "Record when a checked-in user left (shala owner or staff)",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Booking ID" },
+          },
+        },
+        response: {
+          200: checkInResponseSchema,
+          400: checkInErrorSchema,
+          403: checkInErrorSchema,
+          404: checkInErrorSchema,
+          409: checkInErrorSchema,
+        },
+      },
+    },
+    CheckInControllerFastify.checkOut
+  );
+
+  // Check in one guest of a group booking
+  fastify.post<CheckInGuestRequest>(
+    "/:id/guests/:guestId/checkin",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Check in guest",
+        description:
+          "Check in one guest of a group booking (shala owner or staff). " +
+          "A token, if given, must be for this guest",
+        params: guestParams,
+        body: {
+          type: "object",
+          properties: {
+            token: { type: "string", description: "Scanned check-in code" },
+          },
+        },
+        response: {
+          200: checkInResponseSchema,
+          400: checkInErrorSchema,
+          403: checkInErrorSchema,
+          404: checkInErrorSchema,
+          409: checkInErrorSchema,
+        },
+      },
+    },
+    CheckInControllerFastify.checkInGuest
+  );
+
+  // Book a weekly class for several weeks
+  fastify.post<CreateSeriesRequest>(
+    "/series",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Create recurring booking",
+        description:
+          "Book a weekly class until an end date or for a number of weeks " +
+          "(up to 12), paid from a class pack or free. Each week becomes its " +
+          "own booking; cancelled weeks are skipped and weeks that can't be " +
+          "booked are reported without failing the rest",
+        body: {
+          type: "object",
+          required: ["shalaId", "slotId", "paymentMethod"],
+          properties: {
+            shalaId: { type: "string", description: "ID of the shala" },
+            slotId: {
+              type: "string",
+              description: "ID of the weekly schedule slot",
+            },
+            paymentMethod: { type: "string", enum: ["package", "free"] },
+            packageId: {
+              type: "string",
+              description: "Class pack to pay from (paymentMethod package)",
+            },
+            startDate: {
+              type: "string",
+              format: "date",
+              description: "First date to book from, defaults to today",
+            },
+            endDate: {
+              type: "string",
+              format: "date",
+              description: "Last date to book, instead of occurrences",
+            },
+            occurrences: {
+              type: "integer",
+              minimum: 2,
+              maximum: 12,
+              description: "Number of weeks, instead of endDate",
+            },
+          },
+        },
+        response: {
+          201: {
+            description: "Recurring booking created",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              series: bookingSeriesSchema,
+              summary: seriesSummarySchema,
+            },
+          },
+          400: seriesErrorSchema,
+          403: bookingBlockedSchema,
+          404: seriesErrorSchema,
+          409: {
+            description: "None of the classes could be booked",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+              occurrences: { type: "array", items: seriesOccurrenceSchema },
+              summary: seriesSummarySchema,
+            },
+          },
+        },
+      },
+    },
+    BookingSeriesControllerFastify.createSeries
+  );
+
+  // Get user's recurring bookings
+  fastify.get(
+    "/series/mine",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Get user's recurring bookings",
+        description:
+          "The authenticated user's recurring bookings, newest first",
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              seriesList: { type: "array", items: bookingSeriesSchema },
+            },
+          },
+        },
+      },
+    },
+    BookingSeriesControllerFastify.listMySeries
+  );
+
+  // Get a recurring booking
+  fastify.get<SeriesByIdRequest>(
+    "/series/:seriesId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Get recurring booking",
+        description:
+          "A recurring booking with the current status of each of its " +
+          "bookings. Single weeks are cancelled through the booking's own " +
+          "cancel endpoint",
+        params: seriesIdParams,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              series: bookingSeriesSchema,
+              bookings: {
+                type: "array",
+                items: { type: "object", additionalProperties: true },
+              },
+            },
+          },
+          404: seriesErrorSchema,
+        },
+      },
+    },
+    BookingSeriesControllerFastify.getSeries
+  );
+
+  // Cancel the rest of a recurring booking
+  fastify.post<CancelSeriesRequest>(
+    "/series/:seriesId/cancel",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Cancel recurring booking",
+        description:
+          "Cancel every class of the series that hasn't started yet. Each " +
+          "follows the shala's cancellation policy",
+        params: seriesIdParams,
+        body: {
+          type: "object",
+          properties: {
+            reason: { type: "string", description: "Cancellation reason" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              series: bookingSeriesSchema,
+              cancelled: { type: "number" },
+              refundAmount: { type: "number" },
+            },
+          },
+          400: seriesErrorSchema,
+          404: seriesErrorSchema,
+        },
+      },
+    },
+    BookingSeriesControllerFastify.cancelSeries
+  );
+
+  // Join the waitlist of a full class
+  fastify.post<JoinWaitlistRequest>(
+    "/waitlist",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Join class waitlist",
+        description:
+          "Join the ordered waitlist of a class that has reached its capacity",
+        body: {
+          type: "object",
+          required: ["shalaId", "classId", "paymentMethod"],
+          properties: {
+            shalaId: { type: "string", description: "ID of the shala" },
+            classId: {
+              type: "string",
+              description: "ID of the class occurrence",
+            },
+            paymentMethod: {
+              type: "string",
+              enum: ["package", "drop_in", "trial", "free"],
+              description: "Payment method to use if a spot opens up",
+            },
+          },
+        },
+        response: {
+          201: {
+            description: "Joined waitlist",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              entry: { type: "object", additionalProperties: true },
+              position: { type: "number" },
+              waitingCount: { type: "number" },
+            },
+          },
+          400: {
+            description:
+              "Class not full, already booked or already on the waitlist",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+              remainingSpots: { type: "number" },
+            },
+          },
+          403: bookingBlockedSchema,
+        },
+      },
+    },
+    WaitlistControllerFastify.joinWaitlist
+  );
+
+  // Get user's waitlist entries
+  fastify.get(
+    "/waitlist/mine",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Get user's waitlist entries",
+        description:
+          "Get the authenticated user's active waitlist entries and positions",
+      },
+    },
+    WaitlistControllerFastify.getMyEntries
+  );
+
+  // Get waitlist entry with position
+  fastify.get<WaitlistEntryRequest>(
+    "/waitlist/:entryId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Get waitlist position",
+        description: "Get a waitlist entry and the user's place in line",
+        params: {
+          type: "object",
+          required: ["entryId"],
+          properties: {
+            entryId: { type: "string", description: "Waitlist entry ID" },
+          },
+        },
+      },
+    },
+    WaitlistControllerFastify.getEntry
+  );
+
+  // Leave waitlist
+  fastify.delete<WaitlistEntryRequest>(
+    "/waitlist/:entryId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Leave waitlist",
+        description:
+          "Leave a waitlist; an offered spot is released to the next person",
+        params: {
+          type: "object",
+          required: ["entryId"],
+          properties: {
+            entryId: { type: "string", description: "Waitlist entry ID" },
+          },
+        },
+      },
+    },
+    WaitlistControllerFastify.leaveWaitlist
+  );
+
+  // Claim an offered spot
+  fastify.post<WaitlistEntryRequest>(
+    "/waitlist/:entryId/claim",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Bookings"],
+        summary: "Claim waitlist spot",
+        description:
+          "Confirm the pending booking created when the user was promoted " +
+          "from the waitlist. Paid spots return a checkout to complete",
+        params: {
+          type: "object",
+          required: ["entryId"],
+          properties: {
+            entryId: { type: "string", description: "Waitlist entry ID" },
+          },
+        },
+      },
+    },
+    WaitlistControllerFastify.claimOffer
+  );
 };
 
 export default bookingRoutes;
@@ -1,13 +1,6 @@
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import { HybridAuthController } from '../controllers/hybridAuthController';
-import { createCache } from '../cache/memoryCache';
-
-/**
- * Initialize session cache
- * - Uses memory cache for development (no setup required)
- * - Automatically upgrades to Redis in production if available
- */
-const sessionCache = createCache();
+import { sessionCache } from '../cache/sessionCache';
 
 /**
  * Initialize the authentication controller with caching
@@ -0,0 +1,107 @@
+import { FastifyInstance, FastifyPluginAsync } from "fastify";
+import {
+  PaymentControllerFastify,
+  FakePaymentRequest,
+} from "../controllers/paymentControllerFastify";
+import { getPaymentProvider } from "../services/payment/paymentProviderFactory";
+import { FakePaymentProvider } from "../services/payment/fakePaymentProvider";
+
+const resultSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+    event: { type: "string" },
+  },
+};
+
+const paymentRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  // Webhook signatures are computed over the exact bytes sent, so keep the
+  // raw body next to the parsed JSON (scoped to this plugin)
+  fastify.addContentTypeParser(
+    "application/json",
+    { parseAs: "string" },
+    (request, body, done) => {
+      (request as any).rawBody = body;
+      try {
+        done(null, body ? JSON.parse(body as string) : {});
+      } catch (error) {
+        done(error as Error, undefined);
+      }
+    }
+  );
+
+  // Payment gateway webhook
+  fastify.post(
+    "/webhook",
+    {
+      schema: {
+        tags: ["Payments"],
+        summary: "Payment webhook",
+        description:
+          "Receives signed payment events from the gateway. Captured " +
+          "payments confirm the booking or activate the package",
+        response: {
+          200: { description: "Webhook processed", ...resultSchema },
+          401: { description: "Invalid signature", ...resultSchema },
+          404: { description: "Unknown payment", ...resultSchema },
+        },
+      },
+    },
+    PaymentControllerFastify.handleWebhook
+  );
+
+  // The fake gateway has no hosted checkout, so expose its customer actions
+  // outside production
+  if (
+    process.env.NODE_ENV !== "production" &&
+    getPaymentProvider() instanceof FakePaymentProvider
+  ) {
+    fastify.post<FakePaymentRequest>(
+      "/fake/:intentId/complete",
+      {
+        schema: {
+          tags: ["Payments"],
+          summary: "Complete fake payment",
+          description: "Simulate a successful payment (development only)",
+          params: {
+            type: "object",
+            required: ["intentId"],
+            properties: {
+              intentId: { type: "string", description: "Payment intent ID" },
+            },
+          },
+        },
+      },
+      PaymentControllerFastify.completeFakePayment
+    );
+
+    fastify.post<FakePaymentRequest>(
+      "/fake/:intentId/fail",
+      {
+        schema: {
+          tags: ["Payments"],
+          summary: "Fail fake payment",
+          description: "Simulate a declined payment (development only)",
+          params: {
+            type: "object",
+            required: ["intentId"],
+            properties: {
+              intentId: { type: "string", description: "Payment intent ID" },
+            },
+          },
+          body: {
+            type: "object",
+            properties: {
+              reason: { type: "string", description: "Failure reason" },
+            },
+          },
+        },
+      },
+      PaymentControllerFastify.failFakePayment
+    );
+  }
+};
+
+export default paymentRoutes;
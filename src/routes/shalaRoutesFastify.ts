@@ -1,7 +1,315 @@
 import { FastifyInstance, FastifyPluginAsync } from "fastify";
-import { ShalaControllerFastify } from "../controllers/shalaControllerFastify";
+import {
+  ShalaControllerFastify,
+  SearchShalasRequest,
+  NearbyShalasRequest,
+  GetShalaRequest,
+  CreateShalaRequest,
+  UpdateShalaRequest,
+  DeleteShalaRequest,
+} from "../controllers/shalaControllerFastify";
+import {
+  ClassControllerFastify,
+  ListClassesRequest,
+  GetClassRequest,
+} from "../controllers/classControllerFastify";
+import {
+  DiscountControllerFastify,
+  ListDiscountsRequest,
+  CreateDiscountRequest,
+  UpdateDiscountRequest,
+  DiscountByIdRequest,
+} from "../controllers/discountControllerFastify";
+import {
+  ReviewControllerFastify,
+  ListReviewsRequest,
+  CreateReviewRequest,
+  UpdateReviewRequest,
+  ReviewByIdRequest,
+  ReplyToReviewRequest,
+} from "../controllers/reviewControllerFastify";
+import {
+  ModerationControllerFastify,
+  ReportShalaRequest,
+} from "../controllers/moderationControllerFastify";
+import {
+  ShalaImageControllerFastify,
+  ListPhotosRequest,
+  UploadPhotosRequest,
+  ReorderPhotosRequest,
+  PhotoByIdRequest,
+} from "../controllers/shalaImageControllerFastify";
+import {
+  ScheduleExceptionControllerFastify,
+  ListExceptionsRequest,
+  CreateExceptionRequest,
+  ExceptionByIdRequest,
+} from "../controllers/scheduleExceptionControllerFastify";
+import {
+  StaffControllerFastify,
+  ListStaffRequest,
+  AddStaffRequest,
+  StaffMemberRequest,
+} from "../controllers/staffControllerFastify";
+import { REPORT_REASONS } from "../models/ShalaReport";
+import { SCHEDULE_EXCEPTION_TYPES } from "../models/ScheduleException";
+import {
+  authMiddleware,
+  optionalAuthMiddleware,
+} from "../middleware/authFastify";
 import YogaShala from "../models/YogaShala";
 
+// Promo code as returned by the discount endpoints
+const discountCodeSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    code: { type: "string" },
+    description: { type: "string" },
+    shala: { type: "string" },
+    type: { type: "string" },
+    value: { type: "number" },
+    appliesTo: { type: "array", items: { type: "string" } },
+    validFrom: { type: "string" },
+    validUntil: { type: "string" },
+    maxRedemptions: { type: "number" },
+    perUserLimit: { type: "number" },
+    redemptionCount: { type: "number" },
+    isActive: { type: "boolean" },
+    createdAt: { type: "string" },
+  },
+};
+
+// Editable promo code terms
+const discountBodyProperties = {
+  description: { type: "string" },
+  value: {
+    type: "number",
+    minimum: 0,
+    description: "Percent off (percentage) or amount off (flat)",
+  },
+  appliesTo: {
+    type: "array",
+    items: { type: "string", enum: ["booking", "package"] },
+  },
+  validFrom: { type: "string", format: "date-time" },
+  validUntil: { type: "string", format: "date-time" },
+  maxRedemptions: {
+    type: "integer",
+    minimum: 1,
+    description: "Total uses across all users (unlimited if unset)",
+  },
+  perUserLimit: { type: "integer", minimum: 1 },
+  isActive: { type: "boolean" },
+};
+
+const discountErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+// Review as returned by the review endpoints
+const reviewSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    shala: { type: "string" },
+    user: {
+      description: "Author ID, or their name and picture in listings",
+    },
+    rating: { type: "number" },
+    comment: { type: "string" },
+    reply: {
+      type: "object",
+      properties: {
+        text: { type: "string" },
+        repliedAt: { type: "string" },
+      },
+    },
+    createdAt: { type: "string" },
+    updatedAt: { type: "string" },
+  },
+};
+
+// Uploaded photo as returned by the image endpoints
+const photoSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    url: { type: "string" },
+    thumbnailUrl: { type: "string" },
+    width: { type: "number" },
+    height: { type: "number" },
+    size: { type: "number" },
+    isCover: { type: "boolean" },
+    approved: { type: "boolean" },
+    createdAt: { type: "string" },
+  },
+};
+
+const photoErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+const photoByIdParams = {
+  type: "object",
+  required: ["id", "imageId"],
+  properties: {
+    id: { type: "string", description: "Shala ID" },
+    imageId: { type: "string", description: "Photo ID" },
+  },
+};
+
+// Weekly class, as sent on create/update and returned with the shala.
+// ScheduleValidationService checks the values and reports every bad field.
+const timeSlotSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    day: { type: "string" },
+    startTime: { type: "string", description: "HH:MM" },
+    endTime: { type: "string", description: "HH:MM" },
+    className: { type: "string" },
+    style: { type: "string" },
+    level: { type: "string" },
+    instructor: { type: "string" },
+    capacity: { type: "number" },
+    price: {
+      type: "number",
+      description: "0 charges the shala's drop-in rate",
+    },
+  },
+};
+
+const reschedulePolicySchema = {
+  type: "object",
+  description: "Limits on users moving their bookings to another class",
+  properties: {
+    maxReschedules: {
+      type: "integer",
+      minimum: 0,
+      description: "Moves allowed per booking; 0 turns rescheduling off",
+    },
+    minHoursBefore: {
+      type: "number",
+      minimum: 0,
+      description: "Latest a booking can be moved, in hours before its class",
+    },
+  },
+};
+
+// Validation failure with one entry per bad field
+const shalaValidationErrorSchema = {
+  description: "Bad request - validation error",
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+    errors: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          field: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+// Closure or class change as returned by the exception endpoints
+const scheduleExceptionSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    shala: { type: "string" },
+    type: { type: "string" },
+    startDate: { type: "string" },
+    endDate: { type: "string" },
+    slotId: { type: "string" },
+    startTime: { type: "string" },
+    endTime: { type: "string" },
+    substituteInstructor: { type: "string" },
+    reason: { type: "string" },
+    createdAt: { type: "string" },
+  },
+};
+
+const affectedBookingsSchema = {
+  type: "object",
+  properties: {
+    cancelled: { type: "number" },
+    updated: { type: "number" },
+  },
+};
+
+const exceptionErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+// Front desk staff member
+const staffMemberSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    name: { type: "string" },
+    email: { type: "string" },
+    role: { type: "string" },
+  },
+};
+
+const staffResponseSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    message: { type: "string" },
+    staff: { type: "array", items: staffMemberSchema },
+  },
+};
+
+const staffErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+const reviewErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+const reviewByIdParams = {
+  type: "object",
+  required: ["id", "reviewId"],
+  properties: {
+    id: { type: "string", description: "Shala ID" },
+    reviewId: { type: "string", description: "Review ID" },
+  },
+};
+
 const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   // Test endpoint
   fastify.get("/test", async (request, reply) => {
@@ -22,14 +330,21 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   });
 
   // Search and get all shalas
-  fastify.get(
+  fastify.get<SearchShalasRequest>(
     "/",
     {
+      preHandler: optionalAuthMiddleware,
       schema: {
         tags: ["Shalas"],
         summary: "Search and get all shalas",
         description:
-          "Search and get all active yoga shalas with filtering and pagination",
+          "Search active yoga shalas with filtering and pagination. With " +
+          "lat/lng, results are limited to the radius and include the " +
+          "distance in km. Class filters (style, day, time, price, " +
+          "instructor) keep shalas with a matching class and return those " +
+          "classes as matchingSlots. Shalas closed for the whole coming " +
+          "week are left out; shorter closures are listed as closures. " +
+          "For signed-in users each shala has isWishlisted",
         querystring: {
           type: "object",
           properties: {
@@ -57,6 +372,35 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               type: "string",
               description: "Comma-separated list of amenities",
             },
+            style: {
+              type: "string",
+              description:
+                "Comma-separated yoga styles (same values as the user's " +
+                "preferred styles), matched on the class style or name",
+            },
+            day: {
+              type: "string",
+              description: "Comma-separated days of the week, e.g. saturday",
+            },
+            timeOfDay: {
+              type: "string",
+              enum: ["morning", "afternoon", "evening"],
+              description: "Class start time window",
+            },
+            startAfter: {
+              type: "string",
+              description: "Earliest class start time (HH:MM)",
+            },
+            startBefore: {
+              type: "string",
+              description: "Classes starting before this time (HH:MM)",
+            },
+            minPrice: { type: "string", description: "Minimum class price" },
+            maxPrice: { type: "string", description: "Maximum class price" },
+            instructor: {
+              type: "string",
+              description: "Instructor name (partial match)",
+            },
             sortBy: {
               type: "string",
               enum: ["distance", "rating", "price", "newest"],
@@ -77,14 +421,132 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
     ShalaControllerFastify.searchShalas
   );
 
+  // Nearby shalas with upcoming classes
+  fastify.get<NearbyShalasRequest>(
+    "/nearby",
+    {
+      preHandler: optionalAuthMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Get nearby shalas",
+        description:
+          "Active shalas closest to lat/lng, each with its next classes and " +
+          "remaining spots. Signed-in users can omit lat/lng to use their " +
+          "preferred location and max distance",
+        querystring: {
+          type: "object",
+          properties: {
+            lat: { type: "string", description: "Latitude" },
+            lng: { type: "string", description: "Longitude" },
+            radius: {
+              type: "string",
+              description:
+                "Search radius in km (default: the user's max distance, or 5)",
+            },
+            classes: {
+              type: "string",
+              default: "3",
+              description: "Upcoming classes to return per shala",
+            },
+            limit: {
+              type: "string",
+              default: "20",
+              description: "Maximum number of shalas",
+            },
+          },
+        },
+        response: {
+          200: {
+            description: "Nearby shalas retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              shalas: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    _id: { type: "string" },
+                    name: { type: "string" },
+                    address: { type: "object", additionalProperties: true },
+                    location: { type: "object", additionalProperties: true },
+                    distance: { type: "number", description: "Distance in km" },
+                    rating: { type: "number" },
+                    reviewCount: { type: "number" },
+                    dropInRate: { type: "number" },
+                    amenities: { type: "array", items: { type: "string" } },
+                    phone: { type: "string" },
+                    images: { type: "array", items: { type: "string" } },
+                    isWishlisted: { type: "boolean" },
+                    upcomingClasses: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          id: { type: "string" },
+                          date: { type: "string" },
+                          day: { type: "string" },
+                          startTime: { type: "string" },
+                          endTime: { type: "string" },
+                          timezone: { type: "string" },
+                          startsAt: {
+                            type: "string",
+                            description: "UTC start",
+                          },
+                          endsAt: { type: "string", description: "UTC end" },
+                          className: { type: "string" },
+                          style: { type: "string" },
+                          level: { type: "string" },
+                          instructor: { type: "string" },
+                          price: { type: "number" },
+                          capacity: { type: "number" },
+                          remainingSpots: { type: "number" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+              location: {
+                type: "object",
+                properties: {
+                  lat: { type: "number" },
+                  lng: { type: "number" },
+                },
+              },
+              radiusKm: { type: "number" },
+            },
+          },
+          400: {
+            description:
+              "Invalid location, or no lat/lng and no preferred location " +
+              "(code LOCATION_REQUIRED)",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    ShalaControllerFastify.getNearbyShalas
+  );
+
   // Get shala by ID
-  fastify.get(
+  fastify.get<GetShalaRequest>(
     "/:id",
     {
+      preHandler: optionalAuthMiddleware,
       schema: {
         tags: ["Shalas"],
         summary: "Get shala by ID",
-        description: "Get detailed information about a specific shala",
+        description:
+          "Get detailed information about a specific shala. Listings " +
+          "waiting for approval are only visible to their owner and admins, " +
+          "who also see the moderation fields",
         params: {
           type: "object",
           required: ["id"],
@@ -114,6 +576,7 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
                       country: { type: "string" },
                     },
                   },
+                  timezone: { type: "string" },
                   location: {
                     type: "object",
                     properties: {
@@ -138,29 +601,7 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
                     type: "array",
                     items: { type: "string" },
                   },
-                  schedule: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        day: { type: "string" },
-                        timeSlots: {
-                          type: "array",
-                          items: {
-                            type: "object",
-                            properties: {
-                              startTime: { type: "string" },
-                              endTime: { type: "string" },
-                              classType: { type: "string" },
-                              instructor: { type: "string" },
-                              capacity: { type: "number" },
-                              price: { type: "number" },
-                            },
-                          },
-                        },
-                      },
-                    },
-                  },
+                  schedule: { type: "array", items: timeSlotSchema },
                   pricing: {
                     type: "object",
                     properties: {
@@ -184,23 +625,26 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
                   },
                   reviews: {
                     type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        id: { type: "string" },
-                        rating: { type: "number" },
-                        comment: { type: "string" },
-                        user: {
-                          type: "object",
-                          properties: {
-                            id: { type: "string" },
-                            name: { type: "string" },
-                          },
-                        },
-                        createdAt: { type: "string" },
-                      },
-                    },
+                    description: "Most recent reviews",
+                    items: reviewSchema,
+                  },
+                  isWishlisted: {
+                    type: "boolean",
+                    description: "Whether the signed-in user saved this shala",
+                  },
+                  photos: {
+                    type: "array",
+                    description:
+                      "Uploaded photos in order; owners also see unapproved ones",
+                    items: photoSchema,
+                  },
+                  moderationStatus: { type: "string" },
+                  moderationNote: { type: "string" },
+                  pendingChanges: {
+                    type: "object",
+                    additionalProperties: true,
                   },
+                  changesSubmittedAt: { type: "string" },
                 },
               },
             },
@@ -220,9 +664,10 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   );
 
   // Create new shala
-  fastify.post(
+  fastify.post<CreateShalaRequest>(
     "/",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Shalas"],
         summary: "Create new shala",
@@ -242,6 +687,12 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
           properties: {
             name: { type: "string", minLength: 2, description: "Shala name" },
             description: { type: "string", description: "Shala description" },
+            timezone: {
+              type: "string",
+              description:
+                "IANA timezone of the class times, e.g. Asia/Kolkata " +
+                "(defaults from address.country)",
+            },
             address: {
               type: "object",
               required: ["street", "city", "state", "zipCode", "country"],
@@ -280,29 +731,7 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               items: { type: "string" },
               description: "List of available amenities",
             },
-            schedule: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  day: { type: "string" },
-                  timeSlots: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        startTime: { type: "string" },
-                        endTime: { type: "string" },
-                        classType: { type: "string" },
-                        instructor: { type: "string" },
-                        capacity: { type: "number" },
-                        price: { type: "number" },
-                      },
-                    },
-                  },
-                },
-              },
-            },
+            schedule: { type: "array", items: timeSlotSchema },
             pricing: {
               type: "object",
               required: ["singleClass", "monthly", "yearly"],
@@ -317,6 +746,41 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               items: { type: "string" },
               description: "Array of image URLs",
             },
+            dropInRate: {
+              type: "number",
+              minimum: 0,
+              description: "Price of a class whose slot has no price set",
+            },
+            trialRate: {
+              type: "number",
+              minimum: 0,
+              description:
+                "Price of a first class at this shala (free if unset)",
+            },
+            cancellationPolicy: {
+              type: "object",
+              description:
+                "Refund tiers; the highest minHoursBefore the cancellation " +
+                "meets applies, no refund below the lowest",
+              properties: {
+                tiers: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    required: ["minHoursBefore", "refundPercent"],
+                    properties: {
+                      minHoursBefore: { type: "number", minimum: 0 },
+                      refundPercent: {
+                        type: "number",
+                        minimum: 0,
+                        maximum: 100,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            reschedulePolicy: reschedulePolicySchema,
           },
         },
         response: {
@@ -350,14 +814,7 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               message: { type: "string" },
             },
           },
-          400: {
-            description: "Bad request - validation error",
-            type: "object",
-            properties: {
-              success: { type: "boolean" },
-              message: { type: "string" },
-            },
-          },
+          400: shalaValidationErrorSchema,
         },
       },
     },
@@ -365,9 +822,10 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   );
 
   // Update shala
-  fastify.put(
+  fastify.put<UpdateShalaRequest>(
     "/:id",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Shalas"],
         summary: "Update shala",
@@ -384,6 +842,12 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
           properties: {
             name: { type: "string", minLength: 2 },
             description: { type: "string" },
+            timezone: {
+              type: "string",
+              description:
+                "IANA timezone of the class times, e.g. Asia/Kolkata " +
+                "(defaults from address.country)",
+            },
             address: {
               type: "object",
               properties: {
@@ -418,29 +882,7 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               type: "array",
               items: { type: "string" },
             },
-            schedule: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  day: { type: "string" },
-                  timeSlots: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        startTime: { type: "string" },
-                        endTime: { type: "string" },
-                        classType: { type: "string" },
-                        instructor: { type: "string" },
-                        capacity: { type: "number" },
-                        price: { type: "number" },
-                      },
-                    },
-                  },
-                },
-              },
-            },
+            schedule: { type: "array", items: timeSlotSchema },
             pricing: {
               type: "object",
               properties: {
@@ -453,6 +895,41 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               type: "array",
               items: { type: "string" },
             },
+            dropInRate: {
+              type: "number",
+              minimum: 0,
+              description: "Price of a class whose slot has no price set",
+            },
+            trialRate: {
+              type: "number",
+              minimum: 0,
+              description:
+                "Price of a first class at this shala (free if unset)",
+            },
+            cancellationPolicy: {
+              type: "object",
+              description:
+                "Refund tiers; the highest minHoursBefore the cancellation " +
+                "meets applies, no refund below the lowest",
+              properties: {
+                tiers: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    required: ["minHoursBefore", "refundPercent"],
+                    properties: {
+                      minHoursBefore: { type: "number", minimum: 0 },
+                      refundPercent: {
+                        type: "number",
+                        minimum: 0,
+                        maximum: 100,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            reschedulePolicy: reschedulePolicySchema,
           },
         },
         response: {
@@ -478,6 +955,7 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
               },
             },
           },
+          400: shalaValidationErrorSchema,
           404: {
             description: "Shala not found",
             type: "object",
@@ -501,9 +979,10 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   );
 
   // Delete shala
-  fastify.delete(
+  fastify.delete<DeleteShalaRequest>(
     "/:id",
     {
+      preHandler: authMiddleware,
       schema: {
         tags: ["Shalas"],
         summary: "Delete shala",
@@ -546,6 +1025,1002 @@ const shalaRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
     ShalaControllerFastify.deleteShala
   );
 
+  // List dated classes of a shala
+  fastify.get<ListClassesRequest>(
+    "/:id/classes",
+    {
+      schema: {
+        tags: ["Shalas"],
+        summary: "List shala classes",
+        description:
+          "List the dated class occurrences of a shala with remaining spots " +
+          "(defaults to the next 7 days)",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            from: {
+              type: "string",
+              format: "date",
+              description: "First day to include (defaults to today)",
+            },
+            to: {
+              type: "string",
+              format: "date",
+              description: "Last day to include (defaults to from + 6 days)",
+            },
+          },
+        },
+        response: {
+          200: {
+            description: "Classes retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              occurrences: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    date: { type: "string" },
+                    day: { type: "string" },
+                    startTime: { type: "string" },
+                    endTime: { type: "string" },
+                    timezone: { type: "string" },
+                    startsAt: { type: "string", description: "UTC start" },
+                    endsAt: { type: "string", description: "UTC end" },
+                    className: { type: "string" },
+                    style: { type: "string" },
+                    level: { type: "string" },
+                    instructor: { type: "string" },
+                    price: { type: "number" },
+                    capacity: { type: "number" },
+                    bookedCount: { type: "number" },
+                    remainingSpots: { type: "number" },
+                    status: { type: "string" },
+                    cancellationReason: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: "Invalid date range",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+          404: {
+            description: "Shala not found",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    ClassControllerFastify.listClasses
+  );
+
+  // Get a single dated class
+  fastify.get<GetClassRequest>(
+    "/:id/classes/:classId",
+    {
+      schema: {
+        tags: ["Shalas"],
+        summary: "Get shala class",
+        description: "Get a class occurrence and its remaining spots",
+        params: {
+          type: "object",
+          required: ["id", "classId"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+            classId: { type: "string", description: "Class occurrence ID" },
+          },
+        },
+        response: {
+          200: {
+            description: "Class retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              occurrence: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  date: { type: "string" },
+                  day: { type: "string" },
+                  startTime: { type: "string" },
+                  endTime: { type: "string" },
+                  timezone: { type: "string" },
+                  startsAt: { type: "string", description: "UTC start" },
+                  endsAt: { type: "string", description: "UTC end" },
+                  className: { type: "string" },
+                  style: { type: "string" },
+                  level: { type: "string" },
+                  instructor: { type: "string" },
+                  price: { type: "number" },
+                  capacity: { type: "number" },
+                  bookedCount: { type: "number" },
+                  remainingSpots: { type: "number" },
+                  status: { type: "string" },
+                  cancellationReason: { type: "string" },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Class not found",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    ClassControllerFastify.getClass
+  );
+
+  // List a shala's promo codes
+  fastify.get<ListDiscountsRequest>(
+    "/:id/discounts",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "List shala discount codes",
+        description:
+          "Promo codes of the shala and the platform-wide codes that also " +
+          "apply there (owner or admin)",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        response: {
+          200: {
+            description: "Discount codes retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              discounts: { type: "array", items: discountCodeSchema },
+            },
+          },
+          403: discountErrorSchema,
+          404: discountErrorSchema,
+        },
+      },
+    },
+    DiscountControllerFastify.listDiscounts
+  );
+
+  // Create a promo code
+  fastify.post<CreateDiscountRequest>(
+    "/:id/discounts",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Create discount code",
+        description:
+          "Create a percentage, flat or first-class-free promo code for the " +
+          "shala; admins can make it platform-wide",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["code", "type"],
+          properties: {
+            code: {
+              type: "string",
+              minLength: 3,
+              maxLength: 32,
+              pattern: "^[A-Za-z0-9_-]+$",
+            },
+            type: {
+              type: "string",
+              enum: ["percentage", "flat", "first_class_free"],
+            },
+            ...discountBodyProperties,
+            platformWide: {
+              type: "boolean",
+              description: "Admins only: usable at every shala",
+            },
+          },
+        },
+        response: {
+          201: {
+            description: "Discount code created successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              discount: discountCodeSchema,
+            },
+          },
+          400: discountErrorSchema,
+          403: discountErrorSchema,
+          404: discountErrorSchema,
+          409: discountErrorSchema,
+        },
+      },
+    },
+    DiscountControllerFastify.createDiscount
+  );
+
+  // Update a promo code
+  fastify.put<UpdateDiscountRequest>(
+    "/:id/discounts/:discountId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Update discount code",
+        description: "Change a promo code's terms; the code itself is fixed",
+        params: {
+          type: "object",
+          required: ["id", "discountId"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+            discountId: { type: "string", description: "Discount code ID" },
+          },
+        },
+        body: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["percentage", "flat", "first_class_free"],
+            },
+            ...discountBodyProperties,
+          },
+        },
+        response: {
+          200: {
+            description: "Discount code updated successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              discount: discountCodeSchema,
+            },
+          },
+          400: discountErrorSchema,
+          403: discountErrorSchema,
+          404: discountErrorSchema,
+        },
+      },
+    },
+    DiscountControllerFastify.updateDiscount
+  );
+
+  // Deactivate a promo code
+  fastify.delete<DiscountByIdRequest>(
+    "/:id/discounts/:discountId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Deactivate discount code",
+        description:
+          "Stop a promo code from being applied; past redemptions are kept",
+        params: {
+          type: "object",
+          required: ["id", "discountId"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+            discountId: { type: "string", description: "Discount code ID" },
+          },
+        },
+        response: {
+          200: {
+            description: "Discount code deactivated successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              discount: discountCodeSchema,
+            },
+          },
+          403: discountErrorSchema,
+          404: discountErrorSchema,
+        },
+      },
+    },
+    DiscountControllerFastify.deactivateDiscount
+  );
+
+  // List a shala's closures and class changes
+  fastify.get<ListExceptionsRequest>(
+    "/:id/exceptions",
+    {
+      preHandler: optionalAuthMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "List schedule exceptions",
+        description:
+          "Closures, cancelled classes, time changes and substitute " +
+          "instructors that end on or after the from date (default today)",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            from: { type: "string", format: "date" },
+            to: { type: "string", format: "date" },
+          },
+        },
+        response: {
+          200: {
+            description: "Schedule exceptions retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              exceptions: { type: "array", items: scheduleExceptionSchema },
+            },
+          },
+          400: exceptionErrorSchema,
+          404: exceptionErrorSchema,
+        },
+      },
+    },
+    ScheduleExceptionControllerFastify.listExceptions
+  );
+
+  // Add a schedule exception
+  fastify.post<CreateExceptionRequest>(
+    "/:id/exceptions",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Add schedule exception",
+        description:
+          "Close the shala for a date range, or cancel, retime or hand a " +
+          "substitute one class (owner or admin). Bookings of cancelled " +
+          "classes are cancelled and refunded, bookings of changed classes " +
+          "are updated, and their users are emailed.",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["type"],
+          properties: {
+            type: { type: "string", enum: SCHEDULE_EXCEPTION_TYPES },
+            date: {
+              type: "string",
+              format: "date",
+              description: "Day of the class, for single-class exceptions",
+            },
+            startDate: {
+              type: "string",
+              format: "date",
+              description: "First day of a closure",
+            },
+            endDate: {
+              type: "string",
+              format: "date",
+              description: "Last day of a closure (defaults to startDate)",
+            },
+            slotId: {
+              type: "string",
+              description: "Weekly class, for single-class exceptions",
+            },
+            startTime: { type: "string", description: "HH:MM" },
+            endTime: { type: "string", description: "HH:MM" },
+            substituteInstructor: { type: "string", maxLength: 100 },
+            reason: { type: "string", maxLength: 500 },
+          },
+        },
+        response: {
+          201: {
+            description: "Schedule exception added",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              exception: scheduleExceptionSchema,
+              affectedBookings: affectedBookingsSchema,
+            },
+          },
+          400: exceptionErrorSchema,
+          403: exceptionErrorSchema,
+          404: exceptionErrorSchema,
+          409: exceptionErrorSchema,
+        },
+      },
+    },
+    ScheduleExceptionControllerFastify.createException
+  );
+
+  // Remove a schedule exception
+  fastify.delete<ExceptionByIdRequest>(
+    "/:id/exceptions/:exceptionId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Remove schedule exception",
+        description:
+          "Restore the regular schedule; bookings already cancelled by the " +
+          "exception stay cancelled",
+        params: {
+          type: "object",
+          required: ["id", "exceptionId"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+            exceptionId: { type: "string", description: "Exception ID" },
+          },
+        },
+        response: {
+          200: {
+            description: "Schedule exception removed",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              exception: scheduleExceptionSchema,
+              affectedBookings: affectedBookingsSchema,
+            },
+          },
+          403: exceptionErrorSchema,
+          404: exceptionErrorSchema,
+        },
+      },
+    },
+    ScheduleExceptionControllerFastify.deleteException
+  );
+
+  // List front desk staff
+  fastify.get<ListStaffRequest>(
+    "/:id/staff",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "List shala staff",
+        description:
+          "Users besides the owner who can check users in (owner only)",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        response: {
+          200: staffResponseSchema,
+          403: staffErrorSchema,
+          404: staffErrorSchema,
+        },
+      },
+    },
+    StaffControllerFastify.listStaff
+  );
+
+  // Add a front desk staff member
+  fastify.post<AddStaffRequest>(
+    "/:id/staff",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Add shala staff member",
+        description:
+          "Let a registered user check users in to this shala's classes " +
+          "(owner only)",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["email"],
+          properties: {
+            email: {
+              type: "string",
+              format: "email",
+              description: "Email of the user to add",
+            },
+          },
+        },
+        response: {
+          200: staffResponseSchema,
+          400: staffErrorSchema,
+          403: staffErrorSchema,
+          404: staffErrorSchema,
+        },
+      },
+    },
+    StaffControllerFastify.addStaff
+  );
+
+  // Remove a front desk staff member
+  fastify.delete<StaffMemberRequest>(
+    "/:id/staff/:userId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Remove shala staff member",
+        description: "Revoke a user's front desk access (owner only)",
+        params: {
+          type: "object",
+          required: ["id", "userId"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+            userId: { type: "string", description: "Staff member's user ID" },
+          },
+        },
+        response: {
+          200: staffResponseSchema,
+          403: staffErrorSchema,
+          404: staffErrorSchema,
+        },
+      },
+    },
+    StaffControllerFastify.removeStaff
+  );
+
+  // List a shala's photos
+  fastify.get<ListPhotosRequest>(
+    "/:id/images",
+    {
+      schema: {
+        tags: ["Shalas"],
+        summary: "List shala photos",
+        description: "Approved photos in display order",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        response: {
+          200: {
+            description: "Photos retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              photos: { type: "array", items: photoSchema },
+            },
+          },
+          404: photoErrorSchema,
+        },
+      },
+    },
+    ShalaImageControllerFastify.listPhotos
+  );
+
+  // Upload photos
+  fastify.post<UploadPhotosRequest>(
+    "/:id/images/upload",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Upload shala photos",
+        description:
+          "multipart/form-data with up to 10 JPEG, PNG or WebP files of 8 MB " +
+          "each (20 photos per shala). Images are resized and get a " +
+          "thumbnail; owner uploads wait for admin approval",
+        consumes: ["multipart/form-data"],
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        response: {
+          201: {
+            description: "Photos uploaded",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              photos: { type: "array", items: photoSchema },
+            },
+          },
+          400: photoErrorSchema,
+          403: photoErrorSchema,
+          404: photoErrorSchema,
+          409: photoErrorSchema,
+          413: photoErrorSchema,
+          415: photoErrorSchema,
+        },
+      },
+    },
+    ShalaImageControllerFastify.uploadPhotos
+  );
+
+  // Reorder photos
+  fastify.put<ReorderPhotosRequest>(
+    "/:id/images/order",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Reorder shala photos",
+        description: "List every photo ID of the shala in the new order",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["photoIds"],
+          properties: {
+            photoIds: { type: "array", items: { type: "string" } },
+          },
+        },
+        response: {
+          200: {
+            description: "Photos reordered successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              photos: { type: "array", items: photoSchema },
+              images: { type: "array", items: { type: "string" } },
+            },
+          },
+          400: photoErrorSchema,
+          403: photoErrorSchema,
+          404: photoErrorSchema,
+        },
+      },
+    },
+    ShalaImageControllerFastify.reorderPhotos
+  );
+
+  // Set the cover photo
+  fastify.put<PhotoByIdRequest>(
+    "/:id/images/:imageId/cover",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Set cover photo",
+        description: "Show this photo first in listings and search results",
+        params: photoByIdParams,
+        response: {
+          200: {
+            description: "Cover photo updated successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              photo: photoSchema,
+              images: { type: "array", items: { type: "string" } },
+            },
+          },
+          403: photoErrorSchema,
+          404: photoErrorSchema,
+        },
+      },
+    },
+    ShalaImageControllerFastify.setCover
+  );
+
+  // Delete a photo
+  fastify.delete<PhotoByIdRequest>(
+    "/:id/images/:imageId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Delete shala photo",
+        description: "Remove a photo and its stored files",
+        params: photoByIdParams,
+        response: {
+          200: {
+            description: "Photo deleted successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              images: { type: "array", items: { type: "string" } },
+            },
+          },
+          403: photoErrorSchema,
+          404: photoErrorSchema,
+        },
+      },
+    },
+    ShalaImageControllerFastify.deletePhoto
+  );
+
+  // Report a listing
+  fastify.post<ReportShalaRequest>(
+    "/:id/report",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Report shala",
+        description:
+          "Flag a listing as fake, offensive or wrong for admins to review",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["reason"],
+          properties: {
+            reason: { type: "string", enum: [...REPORT_REASONS] },
+            details: { type: "string", maxLength: 1000 },
+          },
+        },
+        response: {
+          201: {
+            description: "Report submitted",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+          400: reviewErrorSchema,
+          404: reviewErrorSchema,
+          409: reviewErrorSchema,
+        },
+      },
+    },
+    ModerationControllerFastify.reportShala
+  );
+
+  // List a shala's reviews
+  fastify.get<ListReviewsRequest>(
+    "/:id/reviews",
+    {
+      schema: {
+        tags: ["Shalas"],
+        summary: "List shala reviews",
+        description: "Reviews of a shala, newest first, with its rating",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            page: { type: "string", default: "1" },
+            limit: { type: "string", default: "10" },
+          },
+        },
+        response: {
+          200: {
+            description: "Reviews retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              reviews: { type: "array", items: reviewSchema },
+              summary: {
+                type: "object",
+                properties: {
+                  rating: { type: "number" },
+                  reviewCount: { type: "number" },
+                },
+              },
+              pagination: {
+                type: "object",
+                properties: {
+                  current: { type: "number" },
+                  pages: { type: "number" },
+                  total: { type: "number" },
+                  limit: { type: "number" },
+                },
+              },
+            },
+          },
+          404: reviewErrorSchema,
+        },
+      },
+    },
+    ReviewControllerFastify.listReviews
+  );
+
+  // Review a shala
+  fastify.post<CreateReviewRequest>(
+    "/:id/reviews",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Create review",
+        description:
+          "Review a shala after attending a class there; one review per " +
+          "user per shala",
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string", description: "Shala ID" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["rating"],
+          properties: {
+            rating: { type: "integer", minimum: 1, maximum: 5 },
+            comment: { type: "string", maxLength: 2000 },
+          },
+        },
+        response: {
+          201: {
+            description: "Review created successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              review: reviewSchema,
+            },
+          },
+          400: reviewErrorSchema,
+          403: reviewErrorSchema,
+          404: reviewErrorSchema,
+          409: reviewErrorSchema,
+        },
+      },
+    },
+    ReviewControllerFastify.createReview
+  );
+
+  // Edit a review
+  fastify.put<UpdateReviewRequest>(
+    "/:id/reviews/:reviewId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Update review",
+        description: "Change the rating or comment of your own review",
+        params: reviewByIdParams,
+        body: {
+          type: "object",
+          properties: {
+            rating: { type: "integer", minimum: 1, maximum: 5 },
+            comment: { type: "string", maxLength: 2000 },
+          },
+        },
+        response: {
+          200: {
+            description: "Review updated successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              review: reviewSchema,
+            },
+          },
+          400: reviewErrorSchema,
+          403: reviewErrorSchema,
+          404: reviewErrorSchema,
+        },
+      },
+    },
+    ReviewControllerFastify.updateReview
+  );
+
+  // Delete a review
+  fastify.delete<ReviewByIdRequest>(
+    "/:id/reviews/:reviewId",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Delete review",
+        description: "Delete a review (its author or an admin)",
+        params: reviewByIdParams,
+        response: {
+          200: {
+            description: "Review deleted successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+          403: reviewErrorSchema,
+          404: reviewErrorSchema,
+        },
+      },
+    },
+    ReviewControllerFastify.deleteReview
+  );
+
+  // Reply to a review
+  fastify.put<ReplyToReviewRequest>(
+    "/:id/reviews/:reviewId/reply",
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ["Shalas"],
+        summary: "Reply to review",
+        description:
+          "Publish the shala owner's reply to a review; replying again " +
+          "replaces it",
+        params: reviewByIdParams,
+        body: {
+          type: "object",
+          required: ["text"],
+          properties: {
+            text: { type: "string", minLength: 1, maxLength: 2000 },
+          },
+        },
+        response: {
+          200: {
+            description: "Reply saved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              review: reviewSchema,
+            },
+          },
+          400: reviewErrorSchema,
+          403: reviewErrorSchema,
+          404: reviewErrorSchema,
+        },
+      },
+    },
+    ReviewControllerFastify.replyToReview
+  );
+
   // Get shala statistics
   fastify.get(
     "/stats/overview",
@@ -0,0 +1,92 @@
+import { FastifyInstance, FastifyPluginAsync } from "fastify";
+import { AvatarControllerFastify } from "../controllers/avatarControllerFastify";
+import { authMiddleware } from "../middleware/authFastify";
+import { ROUTE_SEGMENTS, ROUTE_TAGS } from "../constants/routes";
+
+const avatarSchema = {
+  type: ["object", "null"],
+  properties: {
+    url: { type: "string", description: "Default (medium) variant" },
+    small: { type: "string" },
+    medium: { type: "string" },
+    large: { type: "string" },
+    updatedAt: { type: "string" },
+  },
+};
+
+const avatarErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+const uploadRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  // Upload or replace the authenticated user's avatar
+  fastify.post(
+    ROUTE_SEGMENTS.UPLOAD.AVATAR,
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: [ROUTE_TAGS.UPLOAD],
+        summary: "Upload avatar",
+        description:
+          "Upload a JPEG, PNG or WebP image (multipart field of any name) " +
+          "as the authenticated user's avatar, replacing any previous one. " +
+          "It is square-cropped into small, medium and large variants.",
+        consumes: ["multipart/form-data"],
+        response: {
+          200: {
+            description: "Avatar updated successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              avatar: avatarSchema,
+            },
+          },
+          400: {
+            description: "No file or not a readable image",
+            ...avatarErrorSchema,
+          },
+          401: { description: "User not authenticated", ...avatarErrorSchema },
+          413: { description: "File too large", ...avatarErrorSchema },
+          415: { description: "Unsupported file type", ...avatarErrorSchema },
+        },
+      },
+    },
+    AvatarControllerFastify.uploadAvatar
+  );
+
+  // Remove the authenticated user's avatar
+  fastify.delete(
+    ROUTE_SEGMENTS.UPLOAD.AVATAR,
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: [ROUTE_TAGS.UPLOAD],
+        summary: "Delete avatar",
+        description:
+          "Remove the authenticated user's avatar and its stored files",
+        response: {
+          200: {
+            description: "Avatar deleted successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              avatar: avatarSchema,
+            },
+          },
+          401: { description: "User not authenticated", ...avatarErrorSchema },
+          404: { description: "User has no avatar", ...avatarErrorSchema },
+        },
+      },
+    },
+    AvatarControllerFastify.deleteAvatar
+  );
+};
+
+export default uploadRoutes;
@@ -2,6 +2,72 @@ import { FastifyInstance, FastifyPluginAsync } from "fastify";
 import { UserControllerFastify } from "../controllers/userControllerFastify";
 import { extractUserDataFromToken, isTokenExpired } from "../utils/tokenHelpers";
 import { ROUTE_SEGMENTS, ROUTE_TAGS } from "../constants/routes";
+import { authMiddleware } from "../middleware/authFastify";
+import {
+  PackageControllerFastify,
+  PurchasePackageRequest,
+  ListPackagesRequest,
+} from "../controllers/packageControllerFastify";
+import {
+  WishlistControllerFastify,
+  AddToWishlistRequest,
+  WishlistItemRequest,
+} from "../controllers/wishlistControllerFastify";
+import {
+  RecommendationControllerFastify,
+  RecommendationsRequest,
+} from "../controllers/recommendationControllerFastify";
+
+const activePackageSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    shala: {},
+    packageId: { type: "string" },
+    name: { type: "string" },
+    totalClasses: { type: "number" },
+    classesRemaining: { type: "number" },
+    amountPaid: { type: "number" },
+    purchasedAt: { type: "string" },
+    expiryDate: { type: "string" },
+    isUsable: { type: "boolean" },
+  },
+};
+
+const wishlistShalaSchema = {
+  type: "object",
+  properties: {
+    _id: { type: "string" },
+    name: { type: "string" },
+    address: { type: "object", additionalProperties: true },
+    location: { type: "object", additionalProperties: true },
+    images: { type: "array", items: { type: "string" } },
+    rating: { type: "number" },
+    reviewCount: { type: "number" },
+    dropInRate: { type: "number" },
+    amenities: { type: "array", items: { type: "string" } },
+    isWishlisted: { type: "boolean" },
+  },
+};
+
+const wishlistUpdateSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    message: { type: "string" },
+    shalaId: { type: "string" },
+    isWishlisted: { type: "boolean" },
+  },
+};
+
+const wishlistErrorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    code: { type: "string" },
+    message: { type: "string" },
+  },
+};
 
 const userRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   // Extract user data from access token
@@ -455,6 +521,369 @@ const userRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
     },
     UserControllerFastify.bulkUpdateUsers
   );
+
+  // Get the authenticated user's class packages
+  fastify.get<ListPackagesRequest>(
+    ROUTE_SEGMENTS.USERS.ME.PACKAGES,
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: [ROUTE_TAGS.USERS],
+        summary: "Get my packages",
+        description:
+          "Get the authenticated user's class packages, soonest expiry first",
+        querystring: {
+          type: "object",
+          properties: {
+            includeInactive: {
+              type: "boolean",
+              default: false,
+              description: "Also return expired and used-up packages",
+            },
+          },
+        },
+        response: {
+          200: {
+            description: "Packages retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              activePackages: { type: "array", items: activePackageSchema },
+            },
+          },
+          401: {
+            description: "User not authenticated",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    PackageControllerFastify.getMyPackages
+  );
+
+  // Buy a class package
+  fastify.post<PurchasePackageRequest>(
+    ROUTE_SEGMENTS.USERS.ME.PACKAGES,
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: [ROUTE_TAGS.USERS],
+        summary: "Buy a package",
+        description:
+          "Buy one of a shala's class packages; expiry is computed from " +
+          "the package validity",
+        body: {
+          type: "object",
+          required: ["shalaId", "packageId"],
+          properties: {
+            shalaId: { type: "string", description: "ID of the shala" },
+            packageId: {
+              type: "string",
+              description: "ID of the package in the shala's packages",
+            },
+            discountCode: {
+              type: "string",
+              description: "Promo code to apply to the package price",
+            },
+          },
+        },
+        response: {
+          201: {
+            description: "Package purchased successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              activePackage: activePackageSchema,
+              payment: {
+                type: "object",
+                description:
+                  "Checkout for paid packages; the package is added once " +
+                  "the payment succeeds",
+                properties: {
+                  paymentId: { type: "string" },
+                  provider: { type: "string" },
+                  intentId: { type: "string" },
+                  amount: { type: "number" },
+                  currency: { type: "string" },
+                  clientPayload: { type: "object", additionalProperties: true },
+                },
+              },
+              discount: {
+                type: "object",
+                description: "Promo code applied and the amount it took off",
+                properties: {
+                  code: { type: "string" },
+                  amount: { type: "number" },
+                },
+              },
+            },
+          },
+          400: {
+            description: "Promo code cannot be applied",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+          401: {
+            description: "User not authenticated",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+          404: {
+            description: "Shala, package or promo code not found",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    PackageControllerFastify.purchasePackage
+  );
+
+  // Get the authenticated user's saved shalas
+  fastify.get(
+    ROUTE_SEGMENTS.USERS.ME.WISHLIST,
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: [ROUTE_TAGS.USERS],
+        summary: "Get my wishlist",
+        description:
+          "Get the authenticated user's saved shalas, most recently added " +
+          "first. Listings that are currently unpublished are left out",
+        response: {
+          200: {
+            description: "Wishlist retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              shalas: { type: "array", items: wishlistShalaSchema },
+            },
+          },
+          401: {
+            description: "User not authenticated",
+            ...wishlistErrorSchema,
+          },
+        },
+      },
+    },
+    WishlistControllerFastify.getWishlist
+  );
+
+  // Save a shala to the wishlist
+  fastify.post<AddToWishlistRequest>(
+    ROUTE_SEGMENTS.USERS.ME.WISHLIST,
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: [ROUTE_TAGS.USERS],
+        summary: "Add to wishlist",
+        description:
+          "Save a published shala to the authenticated user's wishlist. " +
+          "Saving a shala that is already on it succeeds without changes",
+        body: {
+          type: "object",
+          required: ["shalaId"],
+          properties: {
+            shalaId: { type: "string", description: "ID of the shala" },
+          },
+        },
+        response: {
+          200: {
+            description: "Shala saved",
+            ...wishlistUpdateSchema,
+          },
+          400: {
+            description: "Wishlist is full (code WISHLIST_FULL)",
+            ...wishlistErrorSchema,
+          },
+          401: {
+            description: "User not authenticated",
+            ...wishlistErrorSchema,
+          },
+          404: { description: "Shala not found", ...wishlistErrorSchema },
+        },
+      },
+    },
+    WishlistControllerFastify.addToWishlist
+  );
+
+  // Remove a shala from the wishlist
+  fastify.delete<WishlistItemRequest>(
+    ROUTE_SEGMENTS.USERS.ME.WISHLIST_ITEM,
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: [ROUTE_TAGS.USERS],
+        summary: "Remove from wishlist",
+        description:
+          "Remove a shala from the authenticated user's wishlist. Removing " +
+          "a shala that is not on it succeeds without changes",
+        params: {
+          type: "object",
+          required: ["shalaId"],
+          properties: {
+            shalaId: { type: "string", description: "ID of the shala" },
+          },
+        },
+        response: {
+          200: {
+            description: "Shala removed",
+            ...wishlistUpdateSchema,
+          },
+          401: {
+            description: "User not authenticated",
+            ...wishlistErrorSchema,
+          },
+          404: { description: "Shala not found", ...wishlistErrorSchema },
+        },
+      },
+    },
+    WishlistControllerFastify.removeFromWishlist
+  );
+
+  // Upcoming classes recommended for the authenticated user
+  fastify.get<RecommendationsRequest>(
+    ROUTE_SEGMENTS.USERS.ME.RECOMMENDATIONS,
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: [ROUTE_TAGS.USERS],
+        summary: "Get class recommendations",
+        description:
+          "Upcoming classes with spots left near lat/lng (or the user's " +
+          "preferred location), ranked by preferred style, fit with the " +
+          "user's experience, past visits to the shala, rating and " +
+          "distance. Each comes with the reasons it was picked",
+        querystring: {
+          type: "object",
+          properties: {
+            lat: { type: "string", description: "Latitude" },
+            lng: { type: "string", description: "Longitude" },
+            radius: {
+              type: "string",
+              description:
+                "Search radius in km (default: the user's max distance)",
+            },
+            days: {
+              type: "string",
+              default: "7",
+              description: "Days ahead to look for classes, today included",
+            },
+            limit: {
+              type: "string",
+              default: "10",
+              description: "Maximum number of classes",
+            },
+          },
+        },
+        response: {
+          200: {
+            description: "Recommendations retrieved successfully",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+              recommendations: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    class: {
+                      type: "object",
+                      properties: {
+                        id: { type: "string" },
+                        date: { type: "string" },
+                        day: { type: "string" },
+                        startTime: { type: "string" },
+                        endTime: { type: "string" },
+                        timezone: { type: "string" },
+                        startsAt: { type: "string", description: "UTC start" },
+                        endsAt: { type: "string", description: "UTC end" },
+                        className: { type: "string" },
+                        style: { type: "string" },
+                        level: { type: "string" },
+                        instructor: { type: "string" },
+                        price: { type: "number" },
+                        remainingSpots: { type: "number" },
+                      },
+                    },
+                    shala: {
+                      type: "object",
+                      properties: {
+                        _id: { type: "string" },
+                        name: { type: "string" },
+                        address: { type: "object", additionalProperties: true },
+                        distance: {
+                          type: "number",
+                          description: "Distance in km",
+                        },
+                        rating: { type: "number" },
+                        reviewCount: { type: "number" },
+                        image: { type: "string" },
+                      },
+                    },
+                    score: { type: "number" },
+                    reasons: { type: "array", items: { type: "string" } },
+                    explanation: {
+                      type: "string",
+                      description:
+                        'e.g. "matches your Yin preference, 2.1 km away"',
+                    },
+                  },
+                },
+              },
+              location: {
+                type: "object",
+                properties: {
+                  lat: { type: "number" },
+                  lng: { type: "number" },
+                },
+              },
+              radiusKm: { type: "number" },
+            },
+          },
+          400: {
+            description:
+              "Invalid location, or no lat/lng and no preferred location " +
+              "(code LOCATION_REQUIRED)",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+          401: {
+            description: "User not authenticated",
+            type: "object",
+            properties: {
+              success: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    RecommendationControllerFastify.getRecommendations
+  );
 };
 
 export default userRoutes;
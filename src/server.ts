@@ -16,11 +16,20 @@ import fastifySession from "@fastify/session";
 import fastifyCookie from "@fastify/cookie";
 import fastifyCors from "@fastify/cors";
 import fastifyFormbody from "@fastify/formbody";
+import fastifyMultipart from "@fastify/multipart";
+import fastifyStatic from "@fastify/static";
 import fastifyOAuth2 from "@fastify/oauth2";
 import fastifySwagger from "@fastify/swagger";
 import fastifySwaggerUi from "@fastify/swagger-ui";
 import dotenv from "dotenv";
+import { mkdir } from "fs/promises";
 import { connectDB } from "./utils/database";
+import { startScheduledJobs } from "./jobs";
+import {
+  getStorageProvider,
+  LOCAL_UPLOADS_PREFIX,
+} from "./services/storage/storageProviderFactory";
+import { LocalStorageProvider } from "./services/storage/localStorageProvider";
 
 dotenv.config(); // Load environment variables from .env file
 
@@ -51,6 +60,20 @@ async function registerPlugins() {
   // Parse form bodies (for POST requests)
   await fastify.register(fastifyFormbody);
 
+  // File uploads (routes set their own size and count limits)
+  await fastify.register(fastifyMultipart);
+
+  // Serve uploaded files when they are stored on this server's disk
+  const storage = getStorageProvider();
+  if (storage instanceof LocalStorageProvider) {
+    await mkdir(storage.rootDir, { recursive: true });
+    await fastify.register(fastifyStatic, {
+      root: storage.rootDir,
+      prefix: LOCAL_UPLOADS_PREFIX,
+      decorateReply: false,
+    });
+  }
+
   // Cookie support (needed for sessions)
   await fastify.register(fastifyCookie);
 
@@ -92,6 +115,9 @@ async function registerPlugins() {
         { name: "Users", description: "User management endpoints" },
         { name: "Shalas", description: "Yoga shala endpoints" },
         { name: "Bookings", description: "Booking management endpoints" },
+        { name: "Payments", description: "Payment gateway endpoints" },
+        { name: "Admin", description: "Admin moderation endpoints" },
+        { name: "Upload", description: "File upload endpoints" },
       ],
       securityDefinitions: {
         Bearer: {
@@ -156,14 +182,17 @@ async function registerPlugins() {
   });
 }
 
-// Register all API routes (auth, shalas, users, bookings)
+// Register all API routes (auth, shalas, users, bookings, payments)
 async function registerRoutes() {
   // Import route modules
   const authRoutes = await import("./routes/authRoutesFastify");
   const shalaRoutes = await import("./routes/shalaRoutesFastify");
   const userRoutes = await import("./routes/userRoutesFastify");
   const bookingRoutes = await import("./routes/bookingRoutesFastify");
+  const paymentRoutes = await import("./routes/paymentRoutesFastify");
   const hybridAuthRoutes = await import("./routes/hybridAuth");
+  const adminRoutes = await import("./routes/admin");
+  const uploadRoutes = await import("./routes/uploadRoutesFastify");
 
   // Register each route module with a prefix
   await fastify.register(authRoutes.default, { prefix: "/api/auth" });
@@ -171,6 +200,9 @@ async function registerRoutes() {
   await fastify.register(shalaRoutes.default, { prefix: "/api/shalas" });
   await fastify.register(userRoutes.default, { prefix: "/api/users" });
   await fastify.register(bookingRoutes.default, { prefix: "/api/bookings" });
+  await fastify.register(paymentRoutes.default, { prefix: "/api/payments" });
+  await fastify.register(adminRoutes.default, { prefix: "/api/admin" });
+  await fastify.register(uploadRoutes.default, { prefix: "/api/upload" });
 }
 
 // Health check endpoint (for monitoring, uptime, etc)
@@ -229,6 +261,8 @@ const start = async () => {
     const port = Number(process.env.PORT) || 4001;
     await fastify.listen({ port, host: "0.0.0.0" });
 
+    startScheduledJobs(fastify.log); // Waitlist expiry and other background jobs
+
     console.log(`🚀 Server ready at http://localhost:${port}`);
   } catch (err) {
     fastify.log.error(err);
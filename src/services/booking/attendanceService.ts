@@ -0,0 +1,204 @@
+import mongoose from "mongoose";
+import Booking from "../../models/Booking";
+import User from "../../models/User";
+import { PackageService } from "../package/packageService";
+import { withTransaction } from "../../utils/database";
+
+export interface AttendanceSummary {
+  completed: number;
+  noShows: number;
+  packageClassesRestored: number;
+  usersBlocked: number;
+}
+
+export interface BookingBlock {
+  success: false;
+  code: "BOOKING_BLOCKED";
+  statusCode: 403;
+  message: string;
+  blockedUntil: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest a class can end after midnight UTC of its date: a class ending
+// at 24:00 in the furthest-behind timezone (UTC-12) ends 36 hours later
+const LEGACY_END_MARGIN_MS = 2 * DAY_MS;
+
+export class AttendanceService {
+  // Bookings are settled this long after their class ends
+  static readonly GRACE_MINUTES =
+    Number(process.env.ATTENDANCE_GRACE_MINUTES) || 15;
+
+  // A no-show's package class stays used unless this is turned off
+  static readonly NO_SHOW_FORFEITS_PACKAGE_CLASS =
+    process.env.NO_SHOW_FORFEITS_PACKAGE_CLASS !== "false";
+
+  // This many no-shows within the window block booking for a while
+  static readonly NO_SHOW_BLOCK_THRESHOLD =
+    Number(process.env.NO_SHOW_BLOCK_THRESHOLD) || 3;
+  static readonly NO_SHOW_WINDOW_DAYS =
+    Number(process.env.NO_SHOW_WINDOW_DAYS) || 30;
+  static readonly NO_SHOW_BLOCK_DAYS =
+    Number(process.env.NO_SHOW_BLOCK_DAYS) || 7;
+
+  // No-shows handled per run; the rest wait for the next one
+  static readonly BATCH_SIZE = 500;
+
+  // Confirmed bookings whose class ended before `cutoff`. Bookings saved
+  // before class instants were stored only have a date, so they are
+  // settled once the class has ended in every timezone.
+  static endedFilter(cutoff: Date) {
+    return {
+      status: "confirmed",
+      $or: [
+        { endsAt: { $lte: cutoff } },
+        {
+          endsAt: { $exists: false },
+          date: { $lte: new Date(cutoff.getTime() - LEGACY_END_MARGIN_MS) },
+        },
+      ],
+    };
+  }
+
+  // Start of the period no-shows count towards a block. Counting restarts
+  // when a block is lifted.
+  static strikesSince(now: Date, blockedUntil?: Date): Date {
+    const windowStart = new Date(
+      now.getTime() - this.NO_SHOW_WINDOW_DAYS * DAY_MS
+    );
+    return blockedUntil && blockedUntil > windowStart
+      ? blockedUntil
+      : windowStart;
+  }
+
+  // Mark bookings of ended classes completed when the user or one of their
+  // guests checked in and no_show otherwise, then apply the no-show
+  // penalties
+  static async processEndedClasses(
+    now: Date = new Date()
+  ): Promise<AttendanceSummary> {
+    const cutoff = new Date(now.getTime() - this.GRACE_MINUTES * 60 * 1000);
+    const ended = this.endedFilter(cutoff);
+
+    const completed = await Booking.updateMany(
+      {
+        $and: [
+          ended,
+          { $or: [{ checkedIn: true }, { "guests.checkedIn": true }] },
+        ],
+      },
+      { $set: { status: "completed", updatedAt: now } }
+    );
+
+    const nobodyCame = { checkedIn: false, "guests.checkedIn": { $ne: true } };
+    const missed = await Booking.find({ ...ended, ...nobodyCame })
+      .select("_id")
+      .limit(this.BATCH_SIZE)
+      .lean();
+
+    let noShows = 0;
+    let packageClassesRestored = 0;
+    const users = new Set<string>();
+
+    for (const { _id } of missed) {
+      const marked = await withTransaction(async (session) => {
+        // Skips bookings checked in or cancelled since they were listed
+        const updated = await Booking.findOneAndUpdate(
+          { _id, status: "confirmed", ...nobodyCame },
+          { $set: { status: "no_show", updatedAt: now } },
+          { new: true, session }
+        );
+        if (!updated) return null;
+
+        let restored = 0;
+        if (!this.NO_SHOW_FORFEITS_PACKAGE_CLASS && updated.packageUsed) {
+          await PackageService.restoreClasses(
+            updated.user,
+            updated.packageUsed.packageId,
+            session,
+            updated.packageUsed.classesUsed
+          );
+          restored = updated.packageUsed.classesUsed;
+        }
+        return { user: updated.user.toString(), restored };
+      });
+
+      if (marked) {
+        noShows++;
+        packageClassesRestored += marked.restored;
+        users.add(marked.user);
+      }
+    }
+
+    let usersBlocked = 0;
+    for (const userId of users) {
+      if (await this.applyNoShowBlock(userId, now)) usersBlocked++;
+    }
+
+    return {
+      completed: completed.modifiedCount,
+      noShows,
+      packageClassesRestored,
+      usersBlocked,
+    };
+  }
+
+  // Block a user who has missed too many classes. Returns whether a block
+  // was added.
+  static async applyNoShowBlock(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const user = await User.findById(userId).select("bookingBlockedUntil");
+    if (!user) return false;
+    if (user.bookingBlockedUntil && user.bookingBlockedUntil > now) {
+      return false;
+    }
+
+    const noShows = await Booking.countDocuments({
+      user: new mongoose.Types.ObjectId(userId),
+      status: "no_show",
+      date: { $gte: this.strikesSince(now, user.bookingBlockedUntil) },
+    });
+    if (noShows < this.NO_SHOW_BLOCK_THRESHOLD) return false;
+
+    const updated = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { bookingBlockedUntil: { $exists: false } },
+          { bookingBlockedUntil: { $lte: now } },
+        ],
+      },
+      {
+        $set: {
+          bookingBlockedUntil: new Date(
+            now.getTime() + this.NO_SHOW_BLOCK_DAYS * DAY_MS
+          ),
+        },
+      }
+    );
+    return updated.modifiedCount > 0;
+  }
+
+  // Error to return when the user is currently blocked from booking
+  static async getBookingBlock(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<BookingBlock | null> {
+    const user = await User.findById(userId).select("bookingBlockedUntil");
+    const blockedUntil = user?.bookingBlockedUntil;
+    if (!blockedUntil || blockedUntil <= now) return null;
+
+    return {
+      success: false,
+      code: "BOOKING_BLOCKED",
+      statusCode: 403,
+      message:
+        `Booking is paused until ${blockedUntil.toISOString()} after ` +
+        `${this.NO_SHOW_BLOCK_THRESHOLD} missed classes`,
+      blockedUntil,
+    };
+  }
+}
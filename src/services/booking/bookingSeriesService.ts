@@ -0,0 +1,455 @@
+import mongoose from "mongoose";
+import Booking from "../../models/Booking";
+import BookingSeries, {
+  IBookingSeries,
+  ISeriesOccurrence,
+} from "../../models/BookingSeries";
+import ClassOccurrence from "../../models/ClassOccurrence";
+import YogaShala, {
+  ITimeSlot,
+  getShalaTimezone,
+  isPublished,
+} from "../../models/YogaShala";
+import { BookingService } from "./bookingService";
+import { CapacityService } from "./capacityService";
+import { AttendanceService } from "./attendanceService";
+import { OccurrenceService } from "../schedule/occurrenceService";
+import { WEEK_DAYS, getStartsAt, normalizeDate } from "../../utils/schedule";
+import { getZonedParts, zonedTimeToUtc } from "../../utils/timezone";
+
+export interface BookingSeriesData {
+  shalaId: string;
+  // _id of the weekly schedule slot to book
+  slotId: string;
+  paymentMethod: string;
+  packageId?: string;
+  // First date to consider, defaults to today
+  startDate?: string;
+  // Either the last date to book or the number of weeks
+  endDate?: string;
+  occurrences?: number;
+}
+
+export interface SeriesRange {
+  from: Date;
+  endDate?: Date;
+  occurrences?: number;
+}
+
+export interface BookingSeriesResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  series?: any;
+  seriesList?: any[];
+  bookings?: any[];
+  summary?: { booked: number; skipped: number; failed: number };
+  cancelled?: number;
+  refundAmount?: number;
+  occurrences?: ISeriesOccurrence[];
+  blockedUntil?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Series are settled when each class is booked, so paying per class isn't
+// supported
+export const SERIES_PAYMENT_METHODS = ["package", "free"] as const;
+
+export class BookingSeriesService {
+  static readonly ERROR_CODES = {
+    INVALID_SERIES: "INVALID_SERIES",
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    SLOT_NOT_FOUND: "SLOT_NOT_FOUND",
+    SERIES_NOT_FOUND: "SERIES_NOT_FOUND",
+    NOTHING_BOOKED: "NOTHING_BOOKED",
+    ALREADY_CANCELLED: "ALREADY_CANCELLED",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  } as const;
+
+  static readonly MIN_WEEKS = 2;
+  static readonly MAX_WEEKS = 12;
+
+  // Dates and payment method of a series request, relative to the shala's
+  // local `today`
+  static parseRange(
+    data: BookingSeriesData,
+    today: Date
+  ): SeriesRange | BookingSeriesResult {
+    if (!SERIES_PAYMENT_METHODS.includes(data.paymentMethod as any)) {
+      return this.invalid(
+        `Recurring bookings are paid with: ${SERIES_PAYMENT_METHODS.join(", ")}`
+      );
+    }
+
+    const hasEnd = data.endDate !== undefined;
+    const hasCount = data.occurrences !== undefined;
+    if (hasEnd === hasCount) {
+      return this.invalid("Give either an end date or a number of weeks");
+    }
+
+    const from = data.startDate ? this.parseDate(data.startDate) : today;
+    if (!from || from < today) {
+      return this.invalid("Start date must be today or later");
+    }
+
+    if (hasCount) {
+      const occurrences = data.occurrences!;
+      if (
+        !Number.isInteger(occurrences) ||
+        occurrences < this.MIN_WEEKS ||
+        occurrences > this.MAX_WEEKS
+      ) {
+        return this.invalid(
+          `Number of weeks must be between ${this.MIN_WEEKS} and ${this.MAX_WEEKS}`
+        );
+      }
+      return { from, occurrences };
+    }
+
+    const endDate = this.parseDate(data.endDate!);
+    if (!endDate || endDate < from) {
+      return this.invalid("End date must be on or after the start date");
+    }
+    if (endDate.getTime() - from.getTime() >= this.MAX_WEEKS * 7 * DAY_MS) {
+      return this.invalid(`A series can cover at most ${this.MAX_WEEKS} weeks`);
+    }
+    return { from, endDate };
+  }
+
+  // Weekly dates of `day` in the range, from the first one on or after
+  // `range.from`
+  static getSeriesDates(day: ITimeSlot["day"], range: SeriesRange): Date[] {
+    const offset = (WEEK_DAYS.indexOf(day) - range.from.getUTCDay() + 7) % 7;
+    const dates: Date[] = [];
+
+    for (
+      let date = new Date(range.from.getTime() + offset * DAY_MS);
+      dates.length < (range.occurrences ?? this.MAX_WEEKS) &&
+      (!range.endDate || date <= range.endDate);
+      date = new Date(date.getTime() + 7 * DAY_MS)
+    ) {
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  // Book a weekly slot for a run of weeks. Each week is booked on its
+  // own: cancelled weeks are skipped and weeks that can't be booked (full,
+  // package used up) are reported without failing the rest.
+  static async createSeries(
+    userId: string,
+    data: BookingSeriesData,
+    now: Date = new Date()
+  ): Promise<BookingSeriesResult> {
+    try {
+      const block = await AttendanceService.getBookingBlock(userId, now);
+      if (block) return block;
+
+      const shala = mongoose.isValidObjectId(data.shalaId)
+        ? await YogaShala.findById(data.shalaId)
+        : null;
+      if (!shala || !isPublished(shala)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
+          message: "Shala not found or inactive",
+        };
+      }
+
+      const slot = shala.schedule.find(
+        (candidate) => candidate._id?.toString() === data.slotId
+      );
+      if (!slot) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SLOT_NOT_FOUND,
+          statusCode: 404,
+          message: "Class not found in shala schedule",
+        };
+      }
+
+      const timezone = getShalaTimezone(shala);
+      const today = getZonedParts(now, timezone).date;
+      const range = this.parseRange(data, today);
+      if ("success" in range) return range;
+
+      // This week's class may already have started
+      let dates = this.getSeriesDates(slot.day, range);
+      if (
+        dates.length > 0 &&
+        zonedTimeToUtc(dates[0], slot.startTime, timezone) <= now
+      ) {
+        dates = this.getSeriesDates(slot.day, {
+          ...range,
+          from: new Date(dates[0].getTime() + DAY_MS),
+        });
+      }
+      if (dates.length === 0) {
+        return this.invalid("No classes in the chosen dates");
+      }
+
+      // Occurrences usually only exist a few weeks ahead
+      const lastDate = dates[dates.length - 1];
+      if (
+        !shala.occurrencesGeneratedThrough ||
+        shala.occurrencesGeneratedThrough < lastDate
+      ) {
+        const days = (lastDate.getTime() - today.getTime()) / DAY_MS + 1;
+        await OccurrenceService.materializeShala(
+          shala,
+          now,
+          Math.max(days, OccurrenceService.WINDOW_DAYS)
+        );
+      }
+
+      const occurrences = await ClassOccurrence.find({
+        shala: shala._id,
+        slotId: slot._id,
+        date: { $in: dates },
+      });
+
+      const series = new BookingSeries({
+        user: userId,
+        shala: shala._id,
+        slotId: slot._id,
+        className: slot.className,
+        instructor: slot.instructor,
+        day: slot.day,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        paymentMethod: data.paymentMethod,
+        packageId: data.packageId,
+        startDate: dates[0],
+        endDate: lastDate,
+      });
+      // Saved first so every booking links to an existing series
+      await series.save();
+
+      const results: ISeriesOccurrence[] = [];
+      for (const date of dates) {
+        const occurrence = occurrences.find(
+          (candidate) => candidate.date.getTime() === date.getTime()
+        );
+
+        if (!occurrence || occurrence.status === "cancelled") {
+          results.push({
+            date,
+            occurrence: occurrence?._id,
+            status: "skipped",
+            code: "CLASS_CANCELLED",
+            message:
+              occurrence?.cancellationReason || "This class has been cancelled",
+          });
+          continue;
+        }
+
+        const booked = await BookingService.createBooking(
+          userId,
+          {
+            shalaId: String(shala._id),
+            classId: occurrence._id.toString(),
+            paymentMethod: data.paymentMethod,
+            packageId: data.packageId,
+          },
+          { series: series._id as mongoose.Types.ObjectId }
+        );
+
+        results.push(
+          booked.success
+            ? {
+                date,
+                occurrence: occurrence._id,
+                booking: booked.booking._id,
+                status: "booked",
+              }
+            : {
+                date,
+                occurrence: occurrence._id,
+                status: "failed",
+                code: booked.code,
+                message: booked.message,
+              }
+        );
+      }
+
+      const summary = {
+        booked: results.filter((result) => result.status === "booked").length,
+        skipped: results.filter((result) => result.status === "skipped").length,
+        failed: results.filter((result) => result.status === "failed").length,
+      };
+
+      if (summary.booked === 0) {
+        await series.deleteOne();
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOTHING_BOOKED,
+          statusCode: 409,
+          message: "None of the classes in this series could be booked",
+          occurrences: results,
+          summary,
+        };
+      }
+
+      series.occurrences = results;
+      await series.save();
+
+      return {
+        success: true,
+        message: `Booked ${summary.booked} of ${dates.length} classes`,
+        series,
+        summary,
+      };
+    } catch (error) {
+      console.error("Create booking series error:", error);
+      return this.internalError("creating the recurring booking");
+    }
+  }
+
+  // The user's recurring bookings, newest first
+  static async listMySeries(userId: string): Promise<BookingSeriesResult> {
+    try {
+      const seriesList = await BookingSeries.find({ user: userId })
+        .populate("shala", "name address.city")
+        .sort({ createdAt: -1 });
+
+      return {
+        success: true,
+        message: "Recurring bookings retrieved successfully",
+        seriesList,
+      };
+    } catch (error) {
+      console.error("List booking series error:", error);
+      return this.internalError("fetching recurring bookings");
+    }
+  }
+
+  // A series with the current state of each of its bookings
+  static async getSeries(
+    userId: string,
+    seriesId: string
+  ): Promise<BookingSeriesResult> {
+    try {
+      const series = await this.findOwnSeries(userId, seriesId);
+      if (!series) return this.seriesNotFound();
+
+      const bookings = await Booking.find({ series: series._id })
+        .select(
+          "date startTime endTime timezone startsAt endsAt status paymentMethod checkedIn cancelledAt"
+        )
+        .sort({ date: 1 });
+
+      return {
+        success: true,
+        message: "Recurring booking retrieved successfully",
+        series: await series.populate("shala", "name address.city"),
+        bookings,
+      };
+    } catch (error) {
+      console.error("Get booking series error:", error);
+      return this.internalError("fetching the recurring booking");
+    }
+  }
+
+  // Cancel every class of the series that hasn't started yet, each under
+  // the shala's cancellation policy. Single classes are cancelled like any
+  // other booking.
+  static async cancelSeries(
+    userId: string,
+    seriesId: string,
+    reason?: string,
+    now: Date = new Date()
+  ): Promise<BookingSeriesResult> {
+    try {
+      const series = await this.findOwnSeries(userId, seriesId);
+      if (!series) return this.seriesNotFound();
+
+      if (series.status === "cancelled") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.ALREADY_CANCELLED,
+          statusCode: 400,
+          message: "Recurring booking is already cancelled",
+        };
+      }
+
+      const bookings = await Booking.find({
+        series: series._id,
+        status: { $in: CapacityService.ACTIVE_BOOKING_STATUSES },
+      });
+      const upcoming = bookings.filter((booking) => getStartsAt(booking) > now);
+
+      let cancelled = 0;
+      let refundAmount = 0;
+      for (const booking of upcoming) {
+        const result = await BookingService.cancelBooking(
+          String(booking._id),
+          userId,
+          reason || "Recurring booking cancelled"
+        );
+        if (result.success) {
+          cancelled++;
+          refundAmount += result.refund?.refundAmount || 0;
+        }
+      }
+
+      series.status = "cancelled";
+      series.cancelledAt = now;
+      series.updatedAt = now;
+      await series.save();
+
+      return {
+        success: true,
+        message: `Cancelled ${cancelled} upcoming ${cancelled === 1 ? "class" : "classes"}`,
+        series,
+        cancelled,
+        refundAmount,
+      };
+    } catch (error) {
+      console.error("Cancel booking series error:", error);
+      return this.internalError("cancelling the recurring booking");
+    }
+  }
+
+  private static async findOwnSeries(
+    userId: string,
+    seriesId: string
+  ): Promise<IBookingSeries | null> {
+    if (!mongoose.isValidObjectId(seriesId)) return null;
+    return BookingSeries.findOne({ _id: seriesId, user: userId });
+  }
+
+  private static parseDate(value: string): Date | null {
+    const date = normalizeDate(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private static invalid(message: string): BookingSeriesResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INVALID_SERIES,
+      statusCode: 400,
+      message,
+    };
+  }
+
+  private static seriesNotFound(): BookingSeriesResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.SERIES_NOT_FOUND,
+      statusCode: 404,
+      message: "Recurring booking not found",
+    };
+  }
+
+  private static internalError(action: string): BookingSeriesResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INTERNAL_ERROR,
+      statusCode: 500,
+      message: `Server error while ${action}`,
+    };
+  }
+}
@@ -1,22 +1,49 @@
+import mongoose from "mongoose";
 import Booking from "../../models/Booking";
-import YogaShala from "../../models/YogaShala";
+import YogaShala, {
+  ICancellationTier,
+  getShalaTimezone,
+  isPublished,
+} from "../../models/YogaShala";
 import { IBooking as BookingType } from "../../models/Booking";
+import { CapacityService } from "./capacityService";
+import {
+  CancellationPolicyService,
+  RefundQuote,
+} from "./cancellationPolicyService";
+import { WaitlistService } from "./waitlistService";
+import { AttendanceService } from "./attendanceService";
+import { PriceQuote, PricingService } from "./pricingService";
+import { BookingGuestData, GuestService, NewGuest } from "./guestService";
+import { OccurrenceService } from "../schedule/occurrenceService";
+import { PackageError, PackageService } from "../package/packageService";
+import { DiscountError, DiscountService } from "../discount/discountService";
+import { getClassStart, normalizeDate } from "../../utils/schedule";
+import { withTransaction } from "../../utils/database";
+import { CheckoutDetails, PaymentService } from "../payment/paymentService";
 
 export interface BookingData {
   shalaId: string;
   classId: string;
-  date: string;
-  timeSlot: {
+  date?: string;
+  timeSlot?: {
     startTime: string;
     endTime: string;
   };
   paymentMethod: string;
-  amount: number;
+  // Total from the price quote the user agreed to; rejected if it no
+  // longer matches the server-side price
+  amount?: number;
+  // User's activePackages entry to pay with (paymentMethod "package")
+  packageId?: string;
+  discountCode?: string;
+  // People coming with the user, each taking a spot and priced per head
+  guests?: BookingGuestData[];
 }
 
+// Status and payment status only change through payment, cancellation,
+// check-in and settlement
 export interface BookingUpdateData {
-  status?: string;
-  paymentStatus?: string;
   notes?: string;
 }
 
@@ -31,88 +58,331 @@ export interface BookingQuery {
 export interface BookingResult {
   success: boolean;
   message: string;
+  code?: string;
+  statusCode?: number;
+  remainingSpots?: number;
+  refund?: RefundQuote;
+  quote?: PriceQuote;
+  payment?: CheckoutDetails;
+  cancellationPolicy?: ICancellationTier[];
   booking?: any;
   bookings?: any[];
   pagination?: any;
+  blockedUntil?: Date;
 }
 
 export class BookingService {
-  // Create new booking
+  // Error codes returned in BookingResult.code
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    CLASS_NOT_FOUND: "CLASS_NOT_FOUND",
+    CLASS_MISMATCH: "CLASS_MISMATCH",
+    CLASS_CANCELLED: "CLASS_CANCELLED",
+    CLASS_STARTED: "CLASS_STARTED",
+    CLASS_FULL: "CLASS_FULL",
+    DUPLICATE_BOOKING: "DUPLICATE_BOOKING",
+    BOOKING_NOT_FOUND: "BOOKING_NOT_FOUND",
+    NOT_AUTHORIZED: "NOT_AUTHORIZED",
+    ALREADY_CANCELLED: "ALREADY_CANCELLED",
+    NOT_CANCELLABLE: "NOT_CANCELLABLE",
+    PAYMENT_REQUIRED: "PAYMENT_REQUIRED",
+    PRICE_MISMATCH: "PRICE_MISMATCH",
+    PAYMENT_PROVIDER_ERROR: "PAYMENT_PROVIDER_ERROR",
+    NO_ACTIVE_PACKAGE: "NO_ACTIVE_PACKAGE",
+    PACKAGE_EXPIRED: "PACKAGE_EXPIRED",
+    PACKAGE_EXHAUSTED: "PACKAGE_EXHAUSTED",
+    BOOKING_BLOCKED: "BOOKING_BLOCKED",
+    INVALID_GUESTS: "INVALID_GUESTS",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  // Create new booking. `options.series` links it to a recurring series.
   static async createBooking(
     userId: string,
-    bookingData: BookingData
+    bookingData: BookingData,
+    options: { series?: mongoose.Types.ObjectId } = {}
   ): Promise<BookingResult> {
     try {
-      const { shalaId, classId, date, timeSlot, paymentMethod, amount } =
-        bookingData;
+      const {
+        shalaId,
+        classId,
+        date,
+        timeSlot,
+        paymentMethod,
+        packageId,
+        discountCode,
+      } = bookingData;
+
+      // Users who keep missing classes can't book for a while
+      const block = await AttendanceService.getBookingBlock(userId);
+      if (block) return block;
+
+      let guests: NewGuest[] = [];
+      if (bookingData.guests?.length) {
+        const prepared = await GuestService.prepareGuests(
+          userId,
+          bookingData.guests
+        );
+        if (!Array.isArray(prepared)) return prepared;
+        guests = prepared;
+      }
+      const spots = 1 + guests.length;
 
-      // Check if shala exists and is active
+      // Check if shala exists and is live
       const shala = await YogaShala.findById(shalaId);
-      if (!shala || !shala.isActive) {
+      if (!shala || !isPublished(shala)) {
         return {
           success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
           message: "Shala not found or inactive",
         };
       }
 
-      // Check if class exists in shala schedule
-      const classExists = shala.schedule.some((day) =>
-        day.timeSlots.some(
-          (slot) =>
-            slot.startTime === timeSlot.startTime &&
-            slot.endTime === timeSlot.endTime
-        )
-      );
+      // classId is the ID of a dated class occurrence of this shala
+      const occurrence = await OccurrenceService.findForShala(shalaId, classId);
 
-      if (!classExists) {
+      if (!occurrence) {
         return {
           success: false,
+          code: this.ERROR_CODES.CLASS_NOT_FOUND,
+          statusCode: 400,
           message: "Class not found in shala schedule",
         };
       }
 
-      // Check if booking already exists for this user, class, and date
+      // Date and time slot are optional, but must match the class if sent
+      const dateMismatch =
+        !!date && normalizeDate(date).getTime() !== occurrence.date.getTime();
+      const timeMismatch =
+        !!timeSlot &&
+        (timeSlot.startTime !== occurrence.startTime ||
+          timeSlot.endTime !== occurrence.endTime);
+
+      if (dateMismatch || timeMismatch) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_MISMATCH,
+          statusCode: 400,
+          message: "Date or time slot does not match the selected class",
+        };
+      }
+
+      if (occurrence.status === "cancelled") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_CANCELLED,
+          statusCode: 400,
+          message: "This class has been cancelled",
+        };
+      }
+
+      const timezone = occurrence.timezone || getShalaTimezone(shala);
+      const classStart =
+        occurrence.startsAt ||
+        getClassStart(occurrence.date, occurrence.startTime, timezone);
+      if (classStart <= new Date()) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_STARTED,
+          statusCode: 400,
+          message: "Class has already started",
+        };
+      }
+
+      // Check if booking already exists for this user and class
       const existingBooking = await Booking.findOne({
         user: userId,
-        shala: shalaId,
-        date,
-        status: { $in: ["confirmed", "pending"] },
+        occurrence: occurrence._id,
+        status: { $in: CapacityService.ACTIVE_BOOKING_STATUSES },
       });
 
       if (existingBooking) {
         return {
           success: false,
+          code: this.ERROR_CODES.DUPLICATE_BOOKING,
+          statusCode: 400,
           message: "Booking already exists for this class and date",
         };
       }
 
-      // Create new booking
-      const booking = new Booking({
-        user: userId,
-        shala: shalaId,
-        classId,
-        date,
-        timeSlot,
+      // Charged amount always comes from the pricing engine
+      const pricing = await PricingService.priceClass(
+        userId,
+        shala,
+        occurrence,
         paymentMethod,
-        amount,
-        status: "pending",
-        paymentStatus: "pending",
+        packageId,
+        discountCode,
+        spots
+      );
+
+      if (!pricing.success || !pricing.quote) {
+        return {
+          success: false,
+          code: pricing.code,
+          statusCode: pricing.statusCode,
+          message: pricing.message,
+        };
+      }
+
+      const { quote, discount } = pricing;
+      if (
+        bookingData.amount !== undefined &&
+        bookingData.amount !== quote.total
+      ) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.PRICE_MISMATCH,
+          statusCode: 409,
+          message: "The price of this class has changed, please review it",
+          quote,
+        };
+      }
+
+      const price = quote.total;
+
+      // Spot, package class, promo code use and booking are written in one
+      // transaction, so a failure at any step leaves them all untouched
+      const outcome = await withTransaction(async (session) => {
+        const reservation = await CapacityService.reserveSpots(
+          occurrence._id,
+          spots,
+          session
+        );
+        if (!reservation.reserved) return { reservation };
+
+        const booking = new Booking({
+          user: userId,
+          shala: shalaId,
+          occurrence: occurrence._id,
+          series: options.series,
+          className: occurrence.className,
+          instructor: occurrence.substituteInstructor || occurrence.instructor,
+          date: occurrence.date,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          timezone,
+          startsAt: classStart,
+          endsAt:
+            occurrence.endsAt ||
+            getClassStart(occurrence.date, occurrence.endTime, timezone),
+          guests,
+          spots,
+          paymentMethod,
+          amountPaid: price,
+          // Paid classes stay pending until the payment webhook confirms them
+          status: price > 0 ? "pending" : "confirmed",
+          paymentStatus: price > 0 ? "pending" : "completed",
+        });
+
+        // Classes paid from a pack are settled immediately
+        if (paymentMethod === "package") {
+          const activePackageId = await PackageService.debitClasses(
+            userId,
+            shalaId,
+            classStart,
+            session,
+            spots,
+            quote.activePackageId
+          );
+          booking.packageUsed = {
+            packageId: activePackageId,
+            classesUsed: spots,
+          };
+        }
+
+        if (discount && quote.discountCode) {
+          await DiscountService.redeem(
+            discount,
+            {
+              userId,
+              shalaId,
+              purpose: "booking",
+              amount: quote.discountCode.amount,
+              bookingId: booking._id as mongoose.Types.ObjectId,
+            },
+            session
+          );
+          booking.discount = {
+            discountCode: discount._id,
+            code: discount.code,
+            amount: quote.discountCode.amount,
+          };
+        }
+
+        await booking.save({ session });
+        return { reservation, booking };
       });
 
-      await booking.save();
+      const { reservation, booking } = outcome;
+
+      if (!booking) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_FULL,
+          statusCode: 409,
+          message:
+            spots > 1
+              ? `Not enough spots left for ${spots} people`
+              : "Class is full",
+          remainingSpots: reservation.remainingSpots,
+        };
+      }
+
+      let payment: CheckoutDetails | undefined;
+      if (booking.status === "pending") {
+        try {
+          payment = await PaymentService.startCheckout({
+            userId,
+            shalaId,
+            purpose: "booking",
+            amount: price,
+            bookingId: booking._id as mongoose.Types.ObjectId,
+          });
+        } catch (error) {
+          console.error("Start booking payment error:", error);
+          await this.releaseUnpaidBooking(
+            booking,
+            "Payment could not be started"
+          );
+          return {
+            success: false,
+            code: this.ERROR_CODES.PAYMENT_PROVIDER_ERROR,
+            statusCode: 502,
+            message: "Could not start payment, please try again",
+          };
+        }
+      }
 
       // Populate shala details
       await booking.populate("shala", "name address contact");
 
       return {
         success: true,
-        message: "Booking created successfully",
+        message: payment
+          ? "Booking reserved, complete the payment to confirm it"
+          : "Booking created successfully",
         booking,
+        quote,
+        payment,
+        remainingSpots: reservation.remainingSpots,
       };
     } catch (error) {
+      if (error instanceof PackageError || error instanceof DiscountError) {
+        return {
+          success: false,
+          code: error.code,
+          statusCode: error.statusCode,
+          message: error.message,
+        };
+      }
+
       console.error("Create booking error:", error);
       return {
         success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
         message: "Server error while creating booking",
       };
     }
@@ -190,10 +460,14 @@ export class BookingService {
       }
 
       // Update booking
-      const updatedBooking = await Booking.findByIdAndUpdate(id, updateData, {
-        new: true,
-        runValidators: true,
-      })
+      const updatedBooking = await Booking.findByIdAndUpdate(
+        id,
+        { notes: updateData.notes },
+        {
+          new: true,
+          runValidators: true,
+        }
+      )
         .populate("shala", "name address contact")
         .populate("user", "name email");
 
@@ -214,7 +488,8 @@ export class BookingService {
   // Cancel booking
   static async cancelBooking(
     id: string,
-    userId: string
+    userId: string,
+    reason?: string
   ): Promise<BookingResult> {
     try {
       const booking = await Booking.findById(id);
@@ -222,6 +497,8 @@ export class BookingService {
       if (!booking) {
         return {
           success: false,
+          code: this.ERROR_CODES.BOOKING_NOT_FOUND,
+          statusCode: 404,
           message: "Booking not found",
         };
       }
@@ -230,6 +507,8 @@ export class BookingService {
       if (booking.user.toString() !== userId) {
         return {
           success: false,
+          code: this.ERROR_CODES.NOT_AUTHORIZED,
+          statusCode: 403,
           message: "Not authorized to cancel this booking",
         };
       }
@@ -238,28 +517,253 @@ export class BookingService {
       if (booking.status === "cancelled") {
         return {
           success: false,
+          code: this.ERROR_CODES.ALREADY_CANCELLED,
+          statusCode: 400,
+          message: "Booking is already cancelled",
+        };
+      }
+
+      if (booking.status === "completed" || booking.status === "no_show") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_CANCELLABLE,
+          statusCode: 400,
+          message: "Attended or missed classes can't be cancelled",
+        };
+      }
+
+      const heldSpot = CapacityService.ACTIVE_BOOKING_STATUSES.includes(
+        booking.status
+      );
+      const shala = await YogaShala.findById(booking.shala).select(
+        "cancellationPolicy"
+      );
+      const quote = CancellationPolicyService.quote(
+        booking,
+        shala?.cancellationPolicy
+      );
+
+      const cancelled = await withTransaction(async (session) => {
+        // Conditional so two parallel cancels can't both release the spot
+        const updated = await Booking.findOneAndUpdate(
+          { _id: booking._id, status: { $ne: "cancelled" } },
+          {
+            $set: {
+              status: "cancelled",
+              cancelledAt: new Date(),
+              cancellationReason: reason || "Cancelled by user",
+              refundAmount: quote.refundAmount,
+              ...(quote.refundAmount > 0 && { paymentStatus: "refunded" }),
+              updatedAt: new Date(),
+            },
+          },
+          { new: true, session }
+        );
+        if (!updated) return null;
+
+        if (heldSpot && updated.occurrence) {
+          await CapacityService.releaseSpots(
+            updated.occurrence,
+            updated.spots,
+            session
+          );
+        }
+
+        if (quote.restorePackageClasses && updated.packageUsed) {
+          await PackageService.restoreClasses(
+            updated.user,
+            updated.packageUsed.packageId,
+            session,
+            updated.packageUsed.classesUsed
+          );
+        }
+
+        return updated;
+      });
+
+      if (!cancelled) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.ALREADY_CANCELLED,
+          statusCode: 400,
           message: "Booking is already cancelled",
         };
       }
 
-      // Update booking status
-      booking.status = "cancelled";
-      booking.cancelledAt = new Date();
-      await booking.save();
+      // Money goes back through the gateway once the cancellation is stored
+      if (quote.refundAmount > 0) {
+        try {
+          await PaymentService.refundBooking(
+            cancelled._id as mongoose.Types.ObjectId,
+            quote.refundAmount
+          );
+        } catch (error) {
+          console.error("Booking refund error:", error);
+        }
+      }
+
+      // Offer the freed spot to the next person on the waitlist
+      if (heldSpot && cancelled.occurrence) {
+        try {
+          await WaitlistService.onBookingCancelled(cancelled);
+        } catch (error) {
+          console.error("Waitlist promotion error:", error);
+        }
+      }
 
       return {
         success: true,
         message: "Booking cancelled successfully",
+        refund: quote,
       };
     } catch (error) {
       console.error("Cancel booking error:", error);
       return {
         success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
         message: "Server error while cancelling booking",
       };
     }
   }
 
+  // Cancel a booking whose class the shala called off. Unlike a user
+  // cancellation the policy doesn't apply: everything paid is refunded,
+  // package classes go back and the promo code use is released.
+  static async cancelForCancelledClass(
+    booking: BookingType,
+    reason: string
+  ): Promise<BookingType | null> {
+    const refundAmount =
+      booking.paymentStatus === "completed" ? booking.amountPaid : 0;
+
+    const cancelled = await withTransaction(async (session) => {
+      const updated = await Booking.findOneAndUpdate(
+        {
+          _id: booking._id,
+          status: { $in: CapacityService.ACTIVE_BOOKING_STATUSES },
+        },
+        {
+          $set: {
+            status: "cancelled",
+            cancelledAt: new Date(),
+            cancellationReason: reason,
+            refundAmount,
+            ...(refundAmount > 0 && { paymentStatus: "refunded" }),
+            updatedAt: new Date(),
+          },
+        },
+        { new: true, session }
+      );
+      if (!updated) return null;
+
+      if (updated.occurrence) {
+        await CapacityService.releaseSpots(
+          updated.occurrence,
+          updated.spots,
+          session
+        );
+      }
+
+      if (updated.packageUsed?.packageId) {
+        await PackageService.restoreClasses(
+          updated.user,
+          updated.packageUsed.packageId,
+          session,
+          updated.packageUsed.classesUsed
+        );
+      }
+
+      return updated;
+    });
+
+    if (!cancelled) return null;
+
+    if (refundAmount > 0) {
+      try {
+        await PaymentService.refundBooking(
+          cancelled._id as mongoose.Types.ObjectId,
+          refundAmount
+        );
+      } catch (error) {
+        console.error("Booking refund error:", error);
+      }
+    }
+
+    if (cancelled.discount?.code) {
+      try {
+        await DiscountService.releaseForBooking(
+          cancelled._id as mongoose.Types.ObjectId
+        );
+      } catch (error) {
+        console.error("Discount release error:", error);
+      }
+    }
+
+    return cancelled;
+  }
+
+  // Refund the user would get by cancelling now
+  static async getCancellationQuote(
+    id: string,
+    userId: string
+  ): Promise<BookingResult> {
+    try {
+      const booking = await Booking.findById(id);
+
+      if (!booking) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.BOOKING_NOT_FOUND,
+          statusCode: 404,
+          message: "Booking not found",
+        };
+      }
+
+      if (booking.user.toString() !== userId) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_AUTHORIZED,
+          statusCode: 403,
+          message: "Not authorized to view this booking",
+        };
+      }
+
+      if (!CapacityService.ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_CANCELLABLE,
+          statusCode: 400,
+          message: "This booking can no longer be cancelled",
+        };
+      }
+
+      const shala = await YogaShala.findById(booking.shala).select(
+        "cancellationPolicy"
+      );
+
+      return {
+        success: true,
+        message: "Cancellation quote calculated successfully",
+        refund: CancellationPolicyService.quote(
+          booking,
+          shala?.cancellationPolicy
+        ),
+        cancellationPolicy: CancellationPolicyService.getTiers(
+          shala?.cancellationPolicy
+        ),
+      };
+    } catch (error) {
+      console.error("Cancellation quote error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while calculating cancellation quote",
+      };
+    }
+  }
+
   // Get user's bookings
   static async getUserBookings(
     userId: string,
@@ -269,8 +773,10 @@ export class BookingService {
       const { page = 1, limit = 10, status } = query;
       const skip = (page - 1) * limit;
 
-      // Build query
-      const filterQuery: any = { user: userId };
+      // Build query. Bookings the user is a guest on are listed too.
+      const filterQuery: any = {
+        $or: [{ user: userId }, { "guests.user": userId }],
+      };
       if (status) filterQuery.status = status;
 
       const bookings = await Booking.find(filterQuery)
@@ -369,17 +875,51 @@ export class BookingService {
     }
   }
 
+  // Undo a booking whose payment could not be opened
+  private static async releaseUnpaidBooking(
+    booking: BookingType,
+    reason: string
+  ): Promise<void> {
+    const cancelled = await Booking.findOneAndUpdate(
+      { _id: booking._id, status: "pending" },
+      {
+        $set: {
+          status: "cancelled",
+          cancelledAt: new Date(),
+          cancellationReason: reason,
+          updatedAt: new Date(),
+        },
+      }
+    );
+
+    if (cancelled?.occurrence) {
+      await CapacityService.releaseSpots(cancelled.occurrence, cancelled.spots);
+    }
+    if (cancelled?.discount?.code) {
+      await DiscountService.releaseForBooking(
+        cancelled._id as mongoose.Types.ObjectId
+      );
+    }
+  }
+
   // Format booking response
   static formatBookingResponse(booking: BookingType): any {
     return {
       id: booking._id,
       user: booking.user,
       shala: booking.shala,
-      classId: booking.classId,
+      className: booking.className,
+      instructor: booking.instructor,
       date: booking.date,
-      timeSlot: booking.timeSlot,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      timezone: booking.timezone,
+      startsAt: booking.startsAt,
+      endsAt: booking.endsAt,
+      spots: booking.spots,
+      guests: booking.guests,
       paymentMethod: booking.paymentMethod,
-      amount: booking.amount,
+      amountPaid: booking.amountPaid,
       status: booking.status,
       paymentStatus: booking.paymentStatus,
       notes: booking.notes,
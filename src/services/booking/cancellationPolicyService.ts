@@ -0,0 +1,66 @@
+import { IBooking } from "../../models/Booking";
+import { ICancellationPolicy, ICancellationTier } from "../../models/YogaShala";
+import { getStartsAt } from "../../utils/schedule";
+
+export interface RefundQuote {
+  hoursBeforeClass: number;
+  refundPercent: number;
+  refundAmount: number;
+  // Package classes go back to the pack whenever the tier refunds anything
+  restorePackageClasses: boolean;
+}
+
+export type QuotableBooking = Pick<
+  IBooking,
+  | "date"
+  | "startTime"
+  | "startsAt"
+  | "timezone"
+  | "amountPaid"
+  | "paymentStatus"
+  | "packageUsed"
+>;
+
+export class CancellationPolicyService {
+  // Used for shalas that haven't configured their own policy
+  static readonly DEFAULT_TIERS: ICancellationTier[] = [
+    { minHoursBefore: 24, refundPercent: 100 },
+    { minHoursBefore: 4, refundPercent: 50 },
+  ];
+
+  // Tiers in effect for a shala, highest threshold first
+  static getTiers(policy?: ICancellationPolicy | null): ICancellationTier[] {
+    const tiers = policy?.tiers?.length ? policy.tiers : this.DEFAULT_TIERS;
+    return [...tiers].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+  }
+
+  // What cancelling `booking` at `now` would refund
+  static quote(
+    booking: QuotableBooking,
+    policy?: ICancellationPolicy | null,
+    now: Date = new Date()
+  ): RefundQuote {
+    const classStart = getStartsAt(booking);
+    const hoursBeforeClass =
+      (classStart.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+    const tier = this.getTiers(policy).find(
+      (item) => hoursBeforeClass >= item.minHoursBefore
+    );
+    const refundPercent = tier ? tier.refundPercent : 0;
+
+    // Only money that was actually collected can be refunded
+    const refundAmount =
+      booking.paymentStatus === "completed"
+        ? Math.round(booking.amountPaid * refundPercent) / 100
+        : 0;
+
+    return {
+      hoursBeforeClass: Math.round(hoursBeforeClass * 100) / 100,
+      refundPercent,
+      refundAmount,
+      restorePackageClasses:
+        !!booking.packageUsed?.packageId && refundPercent > 0,
+    };
+  }
+}
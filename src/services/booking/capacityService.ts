@@ -0,0 +1,82 @@
+import mongoose, { ClientSession } from "mongoose";
+import ClassOccurrence, {
+  IClassOccurrence,
+} from "../../models/ClassOccurrence";
+
+export interface ReservationResult {
+  reserved: boolean;
+  capacity: number;
+  remainingSpots: number;
+}
+
+export class CapacityService {
+  // Booking statuses that hold a spot in a class
+  static readonly ACTIVE_BOOKING_STATUSES = ["confirmed", "pending"];
+
+  // Atomically take `spots` places in a class occurrence. The conditional
+  // $inc means concurrent requests can never push bookedCount past capacity.
+  static async reserveSpots(
+    occurrenceId: mongoose.Types.ObjectId | string,
+    spots: number = 1,
+    session?: ClientSession
+  ): Promise<ReservationResult> {
+    const occurrence = await ClassOccurrence.findOneAndUpdate(
+      { _id: occurrenceId, ...this.reservableFilter(spots) },
+      { $inc: { bookedCount: spots }, $set: { updatedAt: new Date() } },
+      { new: true, session }
+    );
+
+    if (!occurrence) {
+      const current = await ClassOccurrence.findById(occurrenceId).session(
+        session || null
+      );
+      return {
+        reserved: false,
+        capacity: current?.capacity || 0,
+        remainingSpots: current ? this.getRemainingSpots(current) : 0,
+      };
+    }
+
+    return {
+      reserved: true,
+      capacity: occurrence.capacity,
+      remainingSpots: this.getRemainingSpots(occurrence),
+    };
+  }
+
+  // Give back spots taken by a booking (cancellation or failed save)
+  static async releaseSpots(
+    occurrenceId: mongoose.Types.ObjectId | string,
+    spots: number = 1,
+    session?: ClientSession
+  ): Promise<void> {
+    await ClassOccurrence.updateOne(
+      { _id: occurrenceId, ...this.releasableFilter(spots) },
+      { $inc: { bookedCount: -spots }, $set: { updatedAt: new Date() } },
+      { session }
+    );
+  }
+
+  // Classes with room for `spots` more people: still scheduled, and not
+  // pushed past capacity by the reservation
+  static reservableFilter(spots: number) {
+    return {
+      status: "scheduled",
+      $expr: { $lte: [{ $add: ["$bookedCount", spots] }, "$capacity"] },
+    };
+  }
+
+  // Classes holding at least `spots` bookings, so a release can't take the
+  // count below zero
+  static releasableFilter(spots: number) {
+    return { bookedCount: { $gte: spots } };
+  }
+
+  // Remaining spots for a class without reserving anything
+  static getRemainingSpots(
+    occurrence: Pick<IClassOccurrence, "capacity" | "bookedCount" | "status">
+  ): number {
+    if (occurrence.status !== "scheduled") return 0;
+    return Math.max(0, occurrence.capacity - occurrence.bookedCount);
+  }
+}
@@ -0,0 +1,467 @@
+import jwt, { Algorithm, JwtPayload, Secret } from "jsonwebtoken";
+import mongoose from "mongoose";
+import Booking, { IBooking, IBookingGuest } from "../../models/Booking";
+import ClassOccurrence from "../../models/ClassOccurrence";
+import YogaShala from "../../models/YogaShala";
+import { getClassStart, getStartsAt } from "../../utils/schedule";
+import { StaffActor, StaffService } from "../shala/staffService";
+
+export interface CheckInWindow {
+  opensAt: Date;
+  closesAt: Date;
+}
+
+export interface CheckInData {
+  bookingId?: string;
+  // Guest on a group booking to check in instead of the lead booker
+  guestId?: string;
+  token?: string;
+}
+
+export interface CheckInResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  token?: string;
+  expiresAt?: Date;
+  window?: CheckInWindow;
+  booking?: any;
+}
+
+type WindowBooking = Pick<
+  IBooking,
+  "date" | "startTime" | "endTime" | "startsAt" | "endsAt" | "timezone"
+>;
+
+const TOKEN_PURPOSE = "checkin";
+const TOKEN_ALGORITHM: Algorithm = "HS256";
+
+export class CheckInService {
+  static readonly ERROR_CODES = {
+    BOOKING_NOT_FOUND: "BOOKING_NOT_FOUND",
+    NOT_AUTHORIZED: "NOT_AUTHORIZED",
+    NOT_CHECKABLE: "NOT_CHECKABLE",
+    INVALID_TOKEN: "INVALID_TOKEN",
+    TOKEN_EXPIRED: "TOKEN_EXPIRED",
+    TOO_EARLY: "TOO_EARLY",
+    TOO_LATE: "TOO_LATE",
+    ALREADY_CHECKED_IN: "ALREADY_CHECKED_IN",
+    GUEST_NOT_FOUND: "GUEST_NOT_FOUND",
+    NOT_CHECKED_IN: "NOT_CHECKED_IN",
+    ALREADY_CHECKED_OUT: "ALREADY_CHECKED_OUT",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  } as const;
+
+  // Tokens are short-lived so a screenshot of the QR code can't be shared
+  static readonly TOKEN_TTL_MINUTES = 10;
+  static readonly OPENS_MINUTES_BEFORE = 30;
+
+  static readonly BOOKING_FIELDS =
+    "user shala className instructor date startTime endTime timezone startsAt endsAt status spots guests checkedIn checkInTime checkedInBy checkOutTime";
+
+  // Check-in opens shortly before the class starts and closes when it ends
+  static getWindow(booking: WindowBooking): CheckInWindow {
+    const startsAt = getStartsAt(booking);
+    return {
+      opensAt: new Date(
+        startsAt.getTime() - this.OPENS_MINUTES_BEFORE * 60 * 1000
+      ),
+      closesAt:
+        booking.endsAt ||
+        getClassStart(booking.date, booking.endTime, booking.timezone),
+    };
+  }
+
+  // Signed token for the QR code the user shows at the front desk, or one
+  // of their guests. It never outlives the check-in window.
+  static signToken(
+    bookingId: string,
+    window: CheckInWindow,
+    now: Date = new Date(),
+    guestId?: string
+  ): { token: string; expiresAt: Date } {
+    const expiresAt = new Date(
+      Math.min(
+        now.getTime() + this.TOKEN_TTL_MINUTES * 60 * 1000,
+        window.closesAt.getTime()
+      )
+    );
+    const token = jwt.sign(
+      {
+        sub: bookingId,
+        ...(guestId && { guest: guestId }),
+        purpose: TOKEN_PURPOSE,
+        iat: Math.floor(now.getTime() / 1000),
+        exp: Math.floor(expiresAt.getTime() / 1000),
+      },
+      this.getSecret(),
+      { algorithm: TOKEN_ALGORITHM, audience: TOKEN_PURPOSE }
+    );
+    return { token, expiresAt };
+  }
+
+  // Booking (and guest) a check-in token was issued for, or the reason it's
+  // unusable
+  static verifyToken(
+    token: string,
+    now: Date = new Date()
+  ): { bookingId: string; guestId?: string } | CheckInResult {
+    try {
+      const payload = jwt.verify(token, this.getSecret(), {
+        algorithms: [TOKEN_ALGORITHM],
+        audience: TOKEN_PURPOSE,
+        clockTimestamp: Math.floor(now.getTime() / 1000),
+      }) as JwtPayload;
+
+      if (
+        payload.purpose !== TOKEN_PURPOSE ||
+        typeof payload.sub !== "string" ||
+        !mongoose.isValidObjectId(payload.sub) ||
+        (payload.guest !== undefined &&
+          !mongoose.isValidObjectId(payload.guest))
+      ) {
+        return this.invalidToken();
+      }
+      return {
+        bookingId: payload.sub,
+        ...(payload.guest && { guestId: String(payload.guest) }),
+      };
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.TOKEN_EXPIRED,
+          statusCode: 400,
+          message: "Check-in code has expired, ask the user to refresh it",
+        };
+      }
+      return this.invalidToken();
+    }
+  }
+
+  // Issue a check-in token for the user's own confirmed booking. The lead
+  // booker can issue one for any guest; a guest with an account gets one
+  // for their own place.
+  static async issueToken(
+    userId: string,
+    bookingId: string,
+    guestId?: string,
+    now: Date = new Date()
+  ): Promise<CheckInResult> {
+    try {
+      const booking = mongoose.isValidObjectId(bookingId)
+        ? await Booking.findOne({
+            _id: bookingId,
+            $or: [{ user: userId }, { "guests.user": userId }],
+          })
+        : null;
+
+      if (!booking) return this.bookingNotFound();
+
+      const isLead = booking.user.toString() === userId;
+      const guest = isLead
+        ? guestId
+          ? booking.guests.find((item) => String(item._id) === guestId)
+          : undefined
+        : booking.guests.find(
+            (item) =>
+              item.user?.toString() === userId &&
+              (!guestId || String(item._id) === guestId)
+          );
+      if ((guestId || !isLead) && !guest) return this.guestNotFound();
+
+      const problem =
+        this.checkBookingState(booking) ||
+        (guest ? this.checkGuestState(guest) : null);
+      if (problem) return problem;
+
+      const window = this.getWindow(booking);
+      if (now >= window.closesAt) return this.tooLate();
+
+      return {
+        success: true,
+        message: "Check-in code issued",
+        ...this.signToken(
+          String(booking._id),
+          window,
+          now,
+          guest && String(guest._id)
+        ),
+        window,
+      };
+    } catch (error) {
+      console.error("Issue check-in token error:", error);
+      return this.internalError("issuing the check-in code");
+    }
+  }
+
+  // Front desk check-in, by scanned token or by booking id. A token is
+  // optional when the booking id is given: staff can check in users who
+  // can't show their code.
+  static async checkIn(
+    actor: StaffActor,
+    data: CheckInData,
+    now: Date = new Date()
+  ): Promise<CheckInResult> {
+    try {
+      let { bookingId, guestId } = data;
+
+      if (data.token) {
+        const verified = this.verifyToken(data.token, now);
+        if ("success" in verified) return verified;
+        if (
+          (bookingId && bookingId !== verified.bookingId) ||
+          (guestId && guestId !== verified.guestId)
+        ) {
+          return this.invalidToken();
+        }
+        bookingId = verified.bookingId;
+        guestId = verified.guestId;
+      }
+
+      const booking = await this.findForFrontDesk(actor, bookingId);
+      if ("success" in booking) return booking;
+
+      const guest = guestId
+        ? booking.guests.find((item) => String(item._id) === guestId)
+        : undefined;
+      if (guestId && !guest) return this.guestNotFound();
+
+      if (guest ? guest.checkedIn : booking.checkedIn) {
+        return this.alreadyCheckedIn(!!guest);
+      }
+
+      const problem =
+        this.checkBookingState(booking) ||
+        (guest ? this.checkGuestState(guest) : null);
+      if (problem) return problem;
+
+      const window = this.getWindow(booking);
+      if (now < window.opensAt) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.TOO_EARLY,
+          statusCode: 400,
+          message: `Check-in opens ${this.OPENS_MINUTES_BEFORE} minutes before the class starts`,
+          window,
+        };
+      }
+      if (now >= window.closesAt) return this.tooLate();
+
+      const checkedInBy = new mongoose.Types.ObjectId(actor.id);
+
+      // Only the first of two concurrent scans wins
+      const updated = await Booking.findOneAndUpdate(
+        guest
+          ? {
+              _id: booking._id,
+              status: "confirmed",
+              guests: {
+                $elemMatch: {
+                  _id: guest._id,
+                  status: "confirmed",
+                  checkedIn: false,
+                },
+              },
+            }
+          : { _id: booking._id, status: "confirmed", checkedIn: false },
+        {
+          $set: guest
+            ? {
+                "guests.$.checkedIn": true,
+                "guests.$.checkInTime": now,
+                "guests.$.checkedInBy": checkedInBy,
+              }
+            : { checkedIn: true, checkInTime: now, checkedInBy },
+        },
+        { new: true }
+      )
+        .select(this.BOOKING_FIELDS)
+        .populate("user", "name email");
+
+      if (!updated) return this.alreadyCheckedIn(!!guest);
+
+      if (booking.occurrence) {
+        await ClassOccurrence.updateOne(
+          { _id: booking.occurrence },
+          { $inc: { attendedCount: 1 } }
+        );
+      }
+
+      return {
+        success: true,
+        message: guest ? `${guest.name} checked in` : "Checked in",
+        booking: updated,
+      };
+    } catch (error) {
+      console.error("Check-in error:", error);
+      return this.internalError("checking in");
+    }
+  }
+
+  // Record when a checked-in user left
+  static async checkOut(
+    actor: StaffActor,
+    bookingId: string,
+    now: Date = new Date()
+  ): Promise<CheckInResult> {
+    try {
+      const booking = await this.findForFrontDesk(actor, bookingId);
+      if ("success" in booking) return booking;
+
+      if (!booking.checkedIn) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_CHECKED_IN,
+          statusCode: 400,
+          message: "User hasn't checked in",
+        };
+      }
+
+      const updated = await Booking.findOneAndUpdate(
+        {
+          _id: booking._id,
+          checkedIn: true,
+          checkOutTime: { $exists: false },
+        },
+        { $set: { checkOutTime: now } },
+        { new: true }
+      )
+        .select(this.BOOKING_FIELDS)
+        .populate("user", "name email");
+
+      if (!updated) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.ALREADY_CHECKED_OUT,
+          statusCode: 409,
+          message: "User is already checked out",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Checked out",
+        booking: updated,
+      };
+    } catch (error) {
+      console.error("Check-out error:", error);
+      return this.internalError("checking out");
+    }
+  }
+
+  // Booking the actor may check users in and out of
+  private static async findForFrontDesk(
+    actor: StaffActor,
+    bookingId?: string
+  ): Promise<IBooking | CheckInResult> {
+    const booking =
+      bookingId && mongoose.isValidObjectId(bookingId)
+        ? await Booking.findById(bookingId)
+        : null;
+
+    if (!booking) return this.bookingNotFound();
+
+    const shala = await YogaShala.findById(booking.shala).select("owner staff");
+
+    if (!shala || !StaffService.canRunFrontDesk(actor, shala)) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.NOT_AUTHORIZED,
+        statusCode: 403,
+        message: "Only the shala's owner or staff can check users in",
+      };
+    }
+
+    return booking;
+  }
+
+  private static checkBookingState(booking: IBooking): CheckInResult | null {
+    if (booking.status !== "confirmed") {
+      return {
+        success: false,
+        code: this.ERROR_CODES.NOT_CHECKABLE,
+        statusCode: 400,
+        message: `Cannot check in to a ${booking.status} booking`,
+      };
+    }
+    return null;
+  }
+
+  private static checkGuestState(guest: IBookingGuest): CheckInResult | null {
+    if (guest.status !== "confirmed") {
+      return {
+        success: false,
+        code: this.ERROR_CODES.NOT_CHECKABLE,
+        statusCode: 400,
+        message: "This guest's place was cancelled",
+      };
+    }
+    return null;
+  }
+
+  private static getSecret(): Secret {
+    return (
+      process.env.CHECKIN_TOKEN_SECRET ||
+      process.env.JWT_SECRET ||
+      "fallback-secret"
+    );
+  }
+
+  private static bookingNotFound(): CheckInResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.BOOKING_NOT_FOUND,
+      statusCode: 404,
+      message: "Booking not found",
+    };
+  }
+
+  private static guestNotFound(): CheckInResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.GUEST_NOT_FOUND,
+      statusCode: 404,
+      message: "Guest not found on this booking",
+    };
+  }
+
+  private static alreadyCheckedIn(isGuest: boolean): CheckInResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.ALREADY_CHECKED_IN,
+      statusCode: 409,
+      message: isGuest
+        ? "Guest is already checked in"
+        : "User is already checked in",
+    };
+  }
+
+  private static invalidToken(): CheckInResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INVALID_TOKEN,
+      statusCode: 400,
+      message: "Invalid check-in code",
+    };
+  }
+
+  private static tooLate(): CheckInResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.TOO_LATE,
+      statusCode: 400,
+      message: "Check-in is closed, the class has ended",
+    };
+  }
+
+  private static internalError(action: string): CheckInResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INTERNAL_ERROR,
+      statusCode: 500,
+      message: `Server error while ${action}`,
+    };
+  }
+}
@@ -0,0 +1,323 @@
+import mongoose from "mongoose";
+import Booking, { IBooking, IBookingGuest } from "../../models/Booking";
+import User from "../../models/User";
+import YogaShala from "../../models/YogaShala";
+import { CapacityService } from "./capacityService";
+import {
+  CancellationPolicyService,
+  RefundQuote,
+} from "./cancellationPolicyService";
+import { WaitlistService } from "./waitlistService";
+import { PackageService } from "../package/packageService";
+import { PaymentService } from "../payment/paymentService";
+import { ValidationService } from "../common/validationService";
+import { getStartsAt } from "../../utils/schedule";
+import { withTransaction } from "../../utils/database";
+
+export interface BookingGuestData {
+  name: string;
+  email?: string;
+}
+
+export interface GuestResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  booking?: any;
+  refund?: RefundQuote;
+}
+
+export type NewGuest = Pick<IBookingGuest, "name" | "email" | "user">;
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class GuestService {
+  // Guests one user can bring on a single booking
+  static readonly MAX_GUESTS = Number(process.env.MAX_BOOKING_GUESTS) || 9;
+
+  static readonly ERROR_CODES = {
+    INVALID_GUESTS: "INVALID_GUESTS",
+    BOOKING_NOT_FOUND: "BOOKING_NOT_FOUND",
+    GUEST_NOT_FOUND: "GUEST_NOT_FOUND",
+    NOT_AUTHORIZED: "NOT_AUTHORIZED",
+    ALREADY_CANCELLED: "ALREADY_CANCELLED",
+    NOT_CANCELLABLE: "NOT_CANCELLABLE",
+    CLASS_STARTED: "CLASS_STARTED",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  } as const;
+
+  // Why a guest list can't be booked, or null if it can
+  static validateGuests(guests: BookingGuestData[]): GuestResult | null {
+    if (guests.length > this.MAX_GUESTS) {
+      return this.invalid(
+        `A booking can include at most ${this.MAX_GUESTS} guests`
+      );
+    }
+
+    const emails = new Set<string>();
+    for (const guest of guests) {
+      if (!guest.name?.trim()) {
+        return this.invalid("Every guest needs a name");
+      }
+      if (guest.email === undefined) continue;
+
+      const email = guest.email.trim().toLowerCase();
+      if (!ValidationService.validateEmail(email).isValid) {
+        return this.invalid(`Invalid email for guest ${guest.name.trim()}`);
+      }
+      if (emails.has(email)) {
+        return this.invalid("Each guest needs a different email");
+      }
+      emails.add(email);
+    }
+
+    return null;
+  }
+
+  // Validate the guests of a new booking and link those who have an account
+  static async prepareGuests(
+    userId: string,
+    guests: BookingGuestData[]
+  ): Promise<NewGuest[] | GuestResult> {
+    const problem = this.validateGuests(guests);
+    if (problem) return problem;
+
+    const emails = guests
+      .filter((guest) => guest.email)
+      .map((guest) => guest.email!.trim().toLowerCase());
+    const accounts = emails.length
+      ? await User.find({ email: { $in: emails } }).select("_id email")
+      : [];
+    const accountByEmail = new Map(
+      accounts.map((account) => [account.email.toLowerCase(), account])
+    );
+
+    if (accounts.some((account) => String(account._id) === userId)) {
+      return this.invalid("You are already on the booking");
+    }
+
+    return guests.map((guest) => {
+      const email = guest.email?.trim().toLowerCase();
+      const account = email ? accountByEmail.get(email) : undefined;
+      return {
+        name: guest.name.trim(),
+        email,
+        user: account?._id as mongoose.Types.ObjectId | undefined,
+      };
+    });
+  }
+
+  // What one person's place on a group booking is worth: an equal share of
+  // what is left of the amount paid
+  static getGuestShare(
+    booking: Pick<IBooking, "amountPaid" | "spots">
+  ): number {
+    return roundMoney(booking.amountPaid / (booking.spots || 1));
+  }
+
+  // Take one guest off a booking under the shala's cancellation policy.
+  // The lead booker can remove anyone; a guest with an account can remove
+  // themselves.
+  static async cancelGuest(
+    userId: string,
+    bookingId: string,
+    guestId: string,
+    reason?: string,
+    now: Date = new Date()
+  ): Promise<GuestResult> {
+    try {
+      const booking = mongoose.isValidObjectId(bookingId)
+        ? await Booking.findById(bookingId)
+        : null;
+      if (!booking) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.BOOKING_NOT_FOUND,
+          statusCode: 404,
+          message: "Booking not found",
+        };
+      }
+
+      const guest = booking.guests.find((item) => String(item._id) === guestId);
+      if (!guest) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.GUEST_NOT_FOUND,
+          statusCode: 404,
+          message: "Guest not found on this booking",
+        };
+      }
+
+      const isLead = booking.user.toString() === userId;
+      if (!isLead && guest.user?.toString() !== userId) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_AUTHORIZED,
+          statusCode: 403,
+          message: "Not authorized to cancel this guest",
+        };
+      }
+
+      if (guest.status === "cancelled") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.ALREADY_CANCELLED,
+          statusCode: 400,
+          message: "Guest is already cancelled",
+        };
+      }
+
+      // Unpaid bookings and pending moves have an open checkout priced for
+      // the whole group
+      if (
+        booking.status !== "confirmed" ||
+        guest.checkedIn ||
+        booking.pendingReschedule?.occurrence
+      ) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_CANCELLABLE,
+          statusCode: 400,
+          message:
+            "Only guests of upcoming confirmed bookings can be cancelled",
+        };
+      }
+
+      if (getStartsAt(booking) <= now) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_STARTED,
+          statusCode: 400,
+          message: "Class has already started",
+        };
+      }
+
+      const share = this.getGuestShare(booking);
+      const shala = await YogaShala.findById(booking.shala).select(
+        "cancellationPolicy"
+      );
+      const quote = CancellationPolicyService.quote(
+        {
+          date: booking.date,
+          startTime: booking.startTime,
+          startsAt: booking.startsAt,
+          timezone: booking.timezone,
+          amountPaid: share,
+          paymentStatus: booking.paymentStatus,
+          packageUsed: booking.packageUsed,
+        },
+        shala?.cancellationPolicy,
+        now
+      );
+
+      const set: Record<string, unknown> = {
+        "guests.$.status": "cancelled",
+        "guests.$.cancelledAt": now,
+        "guests.$.cancellationReason":
+          reason || (isLead ? "Cancelled by booker" : "Cancelled by guest"),
+        "guests.$.refundAmount": quote.refundAmount,
+        spots: booking.spots - 1,
+        // The guest's share leaves the booking whether or not it is
+        // refunded, so cancelling the rest later can't refund it again
+        amountPaid: roundMoney(booking.amountPaid - share),
+        updatedAt: now,
+      };
+      // A guest cancelled too late to get the class back still used it
+      if (quote.restorePackageClasses && booking.packageUsed?.packageId) {
+        set["packageUsed.classesUsed"] = booking.packageUsed.classesUsed - 1;
+      }
+
+      const cancelled = await withTransaction(async (session) => {
+        // Conditional on the head count so two parallel guest
+        // cancellations can't both price themselves off the same total
+        const updated = await Booking.findOneAndUpdate(
+          {
+            _id: booking._id,
+            status: "confirmed",
+            spots: booking.spots,
+            "pendingReschedule.occurrence": { $exists: false },
+            guests: {
+              $elemMatch: {
+                _id: guest._id,
+                status: "confirmed",
+                checkedIn: false,
+              },
+            },
+          },
+          { $set: set },
+          { new: true, session }
+        );
+        if (!updated) return null;
+
+        if (updated.occurrence) {
+          await CapacityService.releaseSpots(updated.occurrence, 1, session);
+        }
+
+        if (quote.restorePackageClasses && updated.packageUsed?.packageId) {
+          await PackageService.restoreClasses(
+            updated.user,
+            updated.packageUsed.packageId,
+            session,
+            1
+          );
+        }
+
+        return updated;
+      });
+
+      if (!cancelled) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_CANCELLABLE,
+          statusCode: 409,
+          message: "The booking changed, please try again",
+        };
+      }
+
+      if (quote.refundAmount > 0) {
+        try {
+          await PaymentService.refundBooking(
+            cancelled._id as mongoose.Types.ObjectId,
+            quote.refundAmount
+          );
+        } catch (error) {
+          console.error("Guest refund error:", error);
+        }
+      }
+
+      // Offer the freed spot to the next person on the waitlist
+      if (cancelled.occurrence) {
+        try {
+          await WaitlistService.promoteNext(cancelled.occurrence);
+        } catch (error) {
+          console.error("Waitlist promotion error:", error);
+        }
+      }
+
+      return {
+        success: true,
+        message: "Guest cancelled successfully",
+        booking: await cancelled.populate("user", "name email"),
+        refund: quote,
+      };
+    } catch (error) {
+      console.error("Cancel guest error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while cancelling guest",
+      };
+    }
+  }
+
+  private static invalid(message: string): GuestResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INVALID_GUESTS,
+      statusCode: 400,
+      message,
+    };
+  }
+}
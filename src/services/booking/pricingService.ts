@@ -0,0 +1,353 @@
+import Booking from "../../models/Booking";
+import { IClassOccurrence } from "../../models/ClassOccurrence";
+import { IDiscountCode } from "../../models/DiscountCode";
+import YogaShala, { IYogaShala, isPublished } from "../../models/YogaShala";
+import { PackageError, PackageService } from "../package/packageService";
+import { DiscountError, DiscountService } from "../discount/discountService";
+import { PaymentService } from "../payment/paymentService";
+import { OccurrenceService } from "../schedule/occurrenceService";
+import { getStartsAt } from "../../utils/schedule";
+
+export const PAYMENT_METHODS = ["package", "drop_in", "trial", "free"] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export interface PriceLineItem {
+  type: "class" | "trial" | "package" | "discount";
+  label: string;
+  // Negative for reductions
+  amount: number;
+}
+
+export interface PriceQuote {
+  paymentMethod: PaymentMethod;
+  currency: string;
+  lineItems: PriceLineItem[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  // People the quote is for, priced per head
+  spots: number;
+  // Pack the class would be paid from (paymentMethod "package")
+  activePackageId?: string;
+  // Promo code applied, with the amount it took off
+  discountCode?: {
+    code: string;
+    amount: number;
+  };
+}
+
+export interface QuoteRequest {
+  shalaId: string;
+  classId: string;
+  paymentMethod: string;
+  packageId?: string;
+  discountCode?: string;
+  // Guests coming along with the user
+  guests?: number;
+}
+
+export interface PricingResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  quote?: PriceQuote;
+  // Code behind quote.discountCode, for redeeming it with the booking
+  discount?: IDiscountCode;
+}
+
+type PricedShala = Pick<IYogaShala, "dropInRate" | "trialRate"> & {
+  _id: unknown;
+};
+
+type PricedOccurrence = Pick<
+  IClassOccurrence,
+  "className" | "price" | "date" | "startTime"
+>;
+
+interface QuoteOptions {
+  // People booked, 1 unless guests come along
+  spots?: number;
+  trialRate?: number;
+  packageName?: string;
+  activePackageId?: string;
+  discount?: Pick<IDiscountCode, "code" | "type" | "value">;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export class PricingService {
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    CLASS_NOT_FOUND: "CLASS_NOT_FOUND",
+    INVALID_PAYMENT_METHOD: "INVALID_PAYMENT_METHOD",
+    PAYMENT_REQUIRED: "PAYMENT_REQUIRED",
+    TRIAL_NOT_ELIGIBLE: "TRIAL_NOT_ELIGIBLE",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  // Price of one class, always taken from the schedule and never the client
+  static getClassPrice(
+    occurrence: Pick<IClassOccurrence, "price">,
+    shala: Pick<IYogaShala, "dropInRate">
+  ): number {
+    return occurrence.price > 0 ? occurrence.price : shala.dropInRate || 0;
+  }
+
+  // Amount due for a class with a given payment method, without checking
+  // eligibility (used when re-pricing an already validated waitlist spot)
+  static getAmountDue(
+    occurrence: Pick<IClassOccurrence, "className" | "price">,
+    shala: Pick<IYogaShala, "dropInRate" | "trialRate">,
+    paymentMethod: PaymentMethod,
+    spots: number = 1
+  ): number {
+    return this.buildQuote(
+      occurrence.className,
+      this.getClassPrice(occurrence, shala),
+      paymentMethod,
+      { trialRate: shala.trialRate, spots }
+    ).total;
+  }
+
+  // Quote a class for the quote endpoint
+  static async quote(
+    userId: string,
+    request: QuoteRequest
+  ): Promise<PricingResult> {
+    try {
+      const shala = await YogaShala.findById(request.shalaId);
+      if (!shala || !isPublished(shala)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
+          message: "Shala not found or inactive",
+        };
+      }
+
+      const occurrence = await OccurrenceService.findForShala(
+        request.shalaId,
+        request.classId
+      );
+
+      if (!occurrence) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_NOT_FOUND,
+          statusCode: 400,
+          message: "Class not found in shala schedule",
+        };
+      }
+
+      return await this.priceClass(
+        userId,
+        shala,
+        occurrence,
+        request.paymentMethod,
+        request.packageId,
+        request.discountCode,
+        1 + (request.guests || 0)
+      );
+    } catch (error) {
+      console.error("Price quote error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while calculating price",
+      };
+    }
+  }
+
+  // Check the payment method is open to this user for this class and
+  // itemize what they would be charged for `spots` people
+  static async priceClass(
+    userId: string,
+    shala: PricedShala,
+    occurrence: PricedOccurrence,
+    paymentMethod: string,
+    packageId?: string,
+    discountCode?: string,
+    spots: number = 1
+  ): Promise<PricingResult> {
+    if (!PAYMENT_METHODS.includes(paymentMethod as PaymentMethod)) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.INVALID_PAYMENT_METHOD,
+        statusCode: 400,
+        message: `Payment method must be one of: ${PAYMENT_METHODS.join(", ")}`,
+      };
+    }
+
+    const classPrice = this.getClassPrice(occurrence, shala);
+    const options: QuoteOptions = { spots };
+
+    if (paymentMethod === "free" && classPrice > 0) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.PAYMENT_REQUIRED,
+        statusCode: 400,
+        message: "This class is not free",
+      };
+    }
+
+    if (paymentMethod === "trial") {
+      if (spots > 1) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.TRIAL_NOT_ELIGIBLE,
+          statusCode: 400,
+          message: "Trial classes can't be booked with guests",
+        };
+      }
+
+      // A trial is a user's first class at the shala
+      const hasBooked = await Booking.exists({
+        user: userId,
+        shala: shala._id,
+        status: { $ne: "cancelled" },
+      });
+
+      if (hasBooked) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.TRIAL_NOT_ELIGIBLE,
+          statusCode: 400,
+          message: "Trial classes are only for your first class at a shala",
+        };
+      }
+      options.trialRate = shala.trialRate || 0;
+    }
+
+    if (paymentMethod === "package") {
+      try {
+        const pack = await PackageService.findCoveringPackage(
+          userId,
+          String(shala._id),
+          getStartsAt(occurrence),
+          spots,
+          packageId
+        );
+        options.packageName = pack.name;
+        options.activePackageId = pack._id?.toString();
+      } catch (error) {
+        if (!(error instanceof PackageError)) throw error;
+        return {
+          success: false,
+          code: error.code,
+          statusCode: error.statusCode,
+          message: error.message,
+        };
+      }
+    }
+
+    let discount: IDiscountCode | undefined;
+    if (discountCode) {
+      try {
+        discount = await DiscountService.findApplicable(discountCode, {
+          userId,
+          shalaId: String(shala._id),
+          purpose: "booking",
+        });
+        options.discount = discount;
+      } catch (error) {
+        if (!(error instanceof DiscountError)) throw error;
+        return {
+          success: false,
+          code: error.code,
+          statusCode: error.statusCode,
+          message: error.message,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      message: "Price calculated successfully",
+      discount,
+      quote: this.buildQuote(
+        occurrence.className,
+        classPrice,
+        paymentMethod as PaymentMethod,
+        options
+      ),
+    };
+  }
+
+  // Itemize a class price: the class itself for each person, the
+  // reduction the payment method brings, then a promo code on whatever is
+  // left
+  static buildQuote(
+    className: string,
+    classPrice: number,
+    paymentMethod: PaymentMethod,
+    options: QuoteOptions = {}
+  ): PriceQuote {
+    const spots = options.spots || 1;
+    const lineItems: PriceLineItem[] = [
+      {
+        type: "class",
+        label: spots > 1 ? `${className} × ${spots}` : className,
+        amount: roundMoney(classPrice * spots),
+      },
+    ];
+
+    if (paymentMethod === "trial") {
+      const trialPrice = Math.min(options.trialRate || 0, classPrice);
+      if (trialPrice < classPrice) {
+        lineItems.push({
+          type: "trial",
+          label: trialPrice > 0 ? "Trial class rate" : "Free trial class",
+          amount: roundMoney(trialPrice - classPrice),
+        });
+      }
+    }
+
+    if (paymentMethod === "package" && classPrice > 0) {
+      lineItems.push({
+        type: "package",
+        label: `Covered by ${options.packageName || "package"}`,
+        amount: roundMoney(-classPrice * spots),
+      });
+    }
+
+    const sumItems = () =>
+      Math.max(
+        0,
+        roundMoney(lineItems.reduce((sum, item) => sum + item.amount, 0))
+      );
+
+    let discountCode: PriceQuote["discountCode"];
+    if (options.discount) {
+      const amount = DiscountService.computeAmount(
+        options.discount,
+        sumItems(),
+        classPrice
+      );
+      if (amount > 0) {
+        lineItems.push({
+          type: "discount",
+          label: `Promo code ${options.discount.code}`,
+          amount: -amount,
+        });
+        discountCode = { code: options.discount.code, amount };
+      }
+    }
+
+    const subtotal = lineItems[0].amount;
+    const total = sumItems();
+
+    return {
+      paymentMethod,
+      currency: PaymentService.CURRENCY,
+      lineItems,
+      subtotal,
+      discount: roundMoney(subtotal - total),
+      total,
+      spots,
+      activePackageId: options.activePackageId,
+      discountCode,
+    };
+  }
+}
@@ -0,0 +1,674 @@
+import mongoose, { FilterQuery } from "mongoose";
+import Booking, { IBooking } from "../../models/Booking";
+import { IClassOccurrence } from "../../models/ClassOccurrence";
+import { IPayment } from "../../models/Payment";
+import YogaShala, {
+  IReschedulePolicy,
+  getShalaTimezone,
+} from "../../models/YogaShala";
+import { CapacityService } from "./capacityService";
+import { PaymentMethod, PricingService } from "./pricingService";
+import { WaitlistService } from "./waitlistService";
+import { OccurrenceService } from "../schedule/occurrenceService";
+import { PackageError, PackageService } from "../package/packageService";
+import { CheckoutDetails, PaymentService } from "../payment/paymentService";
+import { getClassStart, getStartsAt } from "../../utils/schedule";
+import { withTransaction } from "../../utils/database";
+
+export interface RescheduleData {
+  // ID of the class occurrence to move to, at the same shala
+  classId: string;
+  reason?: string;
+}
+
+export interface RescheduleResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  booking?: any;
+  // Charged (positive) or credited (negative) for the move
+  priceDifference?: number;
+  refundAmount?: number;
+  payment?: CheckoutDetails;
+  remainingSpots?: number;
+  reschedulesLeft?: number;
+}
+
+export type ReschedulableBooking = Pick<
+  IBooking,
+  "date" | "startTime" | "startsAt" | "timezone" | "reschedules"
+>;
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Thrown inside a transaction to roll back the spot already reserved when
+// the booking changed under the move
+class RescheduleConflict extends Error {}
+
+export class RescheduleService {
+  // Used for shalas that haven't configured their own limits
+  static readonly DEFAULT_POLICY: IReschedulePolicy = {
+    maxReschedules: 2,
+    minHoursBefore: 2,
+  };
+
+  static readonly ERROR_CODES = {
+    BOOKING_NOT_FOUND: "BOOKING_NOT_FOUND",
+    NOT_RESCHEDULABLE: "NOT_RESCHEDULABLE",
+    RESCHEDULE_PENDING: "RESCHEDULE_PENDING",
+    RESCHEDULE_LIMIT_REACHED: "RESCHEDULE_LIMIT_REACHED",
+    RESCHEDULE_TOO_LATE: "RESCHEDULE_TOO_LATE",
+    CLASS_NOT_FOUND: "CLASS_NOT_FOUND",
+    SAME_CLASS: "SAME_CLASS",
+    CLASS_CANCELLED: "CLASS_CANCELLED",
+    CLASS_STARTED: "CLASS_STARTED",
+    CLASS_FULL: "CLASS_FULL",
+    DUPLICATE_BOOKING: "DUPLICATE_BOOKING",
+    PAYMENT_REQUIRED: "PAYMENT_REQUIRED",
+    PAYMENT_PROVIDER_ERROR: "PAYMENT_PROVIDER_ERROR",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  } as const;
+
+  // Limits in effect for a shala, unset fields taken from the default
+  static getPolicy(
+    policy?: Partial<IReschedulePolicy> | null
+  ): IReschedulePolicy {
+    return {
+      maxReschedules:
+        policy?.maxReschedules ?? this.DEFAULT_POLICY.maxReschedules,
+      minHoursBefore:
+        policy?.minHoursBefore ?? this.DEFAULT_POLICY.minHoursBefore,
+    };
+  }
+
+  // Why the policy refuses to move `booking` at `now`, or null if it allows it
+  static checkPolicy(
+    booking: ReschedulableBooking,
+    policy: IReschedulePolicy,
+    now: Date = new Date()
+  ): RescheduleResult | null {
+    if (policy.maxReschedules === 0) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.RESCHEDULE_LIMIT_REACHED,
+        statusCode: 400,
+        message: "This shala doesn't allow rescheduling",
+      };
+    }
+
+    if ((booking.reschedules?.length || 0) >= policy.maxReschedules) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.RESCHEDULE_LIMIT_REACHED,
+        statusCode: 400,
+        message: `A booking can be rescheduled at most ${policy.maxReschedules} ${policy.maxReschedules === 1 ? "time" : "times"}`,
+      };
+    }
+
+    const hoursBeforeClass =
+      (getStartsAt(booking).getTime() - now.getTime()) / (60 * 60 * 1000);
+    if (hoursBeforeClass < policy.minHoursBefore) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.RESCHEDULE_TOO_LATE,
+        statusCode: 400,
+        message: `Bookings can be rescheduled until ${policy.minHoursBefore} hours before the class`,
+      };
+    }
+
+    return null;
+  }
+
+  // What moving to a class costing `amountDue` charges (positive) or
+  // credits (negative). The promo code saving on the booking carries over,
+  // and a credit never exceeds what was paid.
+  static getPriceDifference(
+    booking: Pick<IBooking, "paymentMethod" | "amountPaid" | "discount">,
+    amountDue: number
+  ): number {
+    if (
+      booking.paymentMethod === "package" ||
+      booking.paymentMethod === "free"
+    ) {
+      return 0;
+    }
+
+    const priceBeforeDiscount =
+      booking.amountPaid + (booking.discount?.amount || 0);
+    return Math.max(
+      roundMoney(amountDue - priceBeforeDiscount),
+      -booking.amountPaid
+    );
+  }
+
+  // Move a confirmed booking to another class at the same shala. A higher
+  // price holds a spot in the new class until the difference is paid; a
+  // lower one is refunded.
+  static async reschedule(
+    userId: string,
+    bookingId: string,
+    data: RescheduleData,
+    now: Date = new Date()
+  ): Promise<RescheduleResult> {
+    try {
+      const booking = mongoose.isValidObjectId(bookingId)
+        ? await Booking.findOne({ _id: bookingId, user: userId })
+        : null;
+      if (!booking) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.BOOKING_NOT_FOUND,
+          statusCode: 404,
+          message: "Booking not found",
+        };
+      }
+
+      if (
+        booking.status !== "confirmed" ||
+        booking.checkedIn ||
+        !booking.occurrence
+      ) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_RESCHEDULABLE,
+          statusCode: 400,
+          message: "Only upcoming confirmed bookings can be rescheduled",
+        };
+      }
+
+      if (booking.pendingReschedule?.occurrence) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.RESCHEDULE_PENDING,
+          statusCode: 409,
+          message:
+            "Pay for the move already in progress or let it expire first",
+        };
+      }
+
+      const shala = await YogaShala.findById(booking.shala).select(
+        "reschedulePolicy dropInRate trialRate timezone address.country"
+      );
+      const policy = this.getPolicy(shala?.reschedulePolicy);
+      const refused = this.checkPolicy(booking, policy, now);
+      if (refused) return refused;
+
+      const target = await OccurrenceService.findForShala(
+        String(booking.shala),
+        data.classId
+      );
+      if (!shala || !target) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_NOT_FOUND,
+          statusCode: 400,
+          message: "Class not found in shala schedule",
+        };
+      }
+
+      if (String(target._id) === String(booking.occurrence)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SAME_CLASS,
+          statusCode: 400,
+          message: "The booking is already for this class",
+        };
+      }
+
+      if (target.status === "cancelled") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_CANCELLED,
+          statusCode: 400,
+          message: "This class has been cancelled",
+        };
+      }
+
+      const timezone = target.timezone || getShalaTimezone(shala);
+      const classStart =
+        target.startsAt ||
+        getClassStart(target.date, target.startTime, timezone);
+      if (classStart <= now) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_STARTED,
+          statusCode: 400,
+          message: "Class has already started",
+        };
+      }
+
+      const existingBooking = await Booking.exists({
+        user: userId,
+        occurrence: target._id,
+        status: { $in: CapacityService.ACTIVE_BOOKING_STATUSES },
+      });
+      if (existingBooking) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.DUPLICATE_BOOKING,
+          statusCode: 400,
+          message: "You already have a booking for this class",
+        };
+      }
+
+      if (
+        booking.paymentMethod === "free" &&
+        PricingService.getClassPrice(target, shala) > 0
+      ) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.PAYMENT_REQUIRED,
+          statusCode: 400,
+          message: "Free bookings can only move to free classes",
+        };
+      }
+
+      const priceDifference = this.getPriceDifference(
+        booking,
+        PricingService.getAmountDue(
+          target,
+          shala,
+          booking.paymentMethod as PaymentMethod,
+          booking.spots
+        )
+      );
+
+      // Guards every write below against a parallel move or cancellation
+      const unchanged: FilterQuery<IBooking> = {
+        _id: booking._id,
+        status: "confirmed",
+        occurrence: booking.occurrence,
+        "pendingReschedule.occurrence": { $exists: false },
+        [`reschedules.${policy.maxReschedules - 1}`]: { $exists: false },
+      };
+      const reschedulesLeft =
+        policy.maxReschedules - booking.reschedules.length - 1;
+
+      if (priceDifference > 0) {
+        return await this.holdPaidMove(
+          booking,
+          target,
+          unchanged,
+          priceDifference,
+          data.reason,
+          reschedulesLeft,
+          now
+        );
+      }
+
+      // Spot swap, package class swap and the booking move are written in
+      // one transaction, so a failure at any step leaves them all untouched
+      const outcome = await withTransaction(async (session) => {
+        const reservation = await CapacityService.reserveSpots(
+          target._id,
+          booking.spots,
+          session
+        );
+        if (!reservation.reserved) return { reservation };
+
+        const set: Record<string, unknown> = {
+          ...this.classFields(target, timezone, classStart),
+          amountPaid: roundMoney(booking.amountPaid + priceDifference),
+          updatedAt: now,
+        };
+
+        // The old class goes back to the pack and the new one is taken from
+        // the same pack, which must still be valid on the new date
+        if (booking.paymentMethod === "package" && booking.packageUsed) {
+          const { packageId, classesUsed } = booking.packageUsed;
+          await PackageService.restoreClasses(
+            booking.user,
+            packageId,
+            session,
+            classesUsed
+          );
+          const activePackageId = await PackageService.debitClasses(
+            userId,
+            String(booking.shala),
+            classStart,
+            session,
+            classesUsed,
+            String(packageId)
+          );
+          set.packageUsed = { packageId: activePackageId, classesUsed };
+        }
+
+        const moved = await Booking.findOneAndUpdate(
+          unchanged,
+          {
+            $set: set,
+            $push: {
+              reschedules: this.historyEntry(
+                booking,
+                target,
+                priceDifference,
+                data.reason,
+                now
+              ),
+            },
+          },
+          { new: true, session }
+        );
+        if (!moved) {
+          throw new RescheduleConflict();
+        }
+
+        await CapacityService.releaseSpots(
+          booking.occurrence!,
+          booking.spots,
+          session
+        );
+        return { reservation, moved };
+      });
+
+      const { reservation, moved } = outcome;
+      if (!moved) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_FULL,
+          statusCode: 409,
+          message: "Class is full",
+          remainingSpots: reservation.remainingSpots,
+        };
+      }
+
+      // Money goes back through the gateway once the move is stored
+      const refundAmount = -priceDifference;
+      if (refundAmount > 0) {
+        try {
+          await PaymentService.refundBooking(
+            moved._id as mongoose.Types.ObjectId,
+            refundAmount
+          );
+        } catch (error) {
+          console.error("Reschedule refund error:", error);
+        }
+      }
+
+      await this.promoteFreedSpots(booking.occurrence, booking.spots);
+
+      return {
+        success: true,
+        message: "Booking rescheduled successfully",
+        booking: await moved.populate("shala", "name address contact"),
+        priceDifference,
+        refundAmount: Math.max(refundAmount, 0),
+        remainingSpots: reservation.remainingSpots,
+        reschedulesLeft,
+      };
+    } catch (error) {
+      if (error instanceof RescheduleConflict) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_RESCHEDULABLE,
+          statusCode: 409,
+          message: "The booking changed while it was being rescheduled",
+        };
+      }
+
+      if (error instanceof PackageError) {
+        return {
+          success: false,
+          code: error.code,
+          statusCode: error.statusCode,
+          message: error.message,
+        };
+      }
+
+      console.error("Reschedule booking error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while rescheduling booking",
+      };
+    }
+  }
+
+  // Hook for PaymentService: the price difference of a held move was paid.
+  // Returns false when the move can no longer happen and the payment should
+  // be refunded.
+  static async completePaidMove(payment: IPayment): Promise<boolean> {
+    const booking = await Booking.findOne({
+      _id: payment.booking,
+      "pendingReschedule.payment": payment._id,
+    });
+    if (!booking?.pendingReschedule) return false;
+
+    const target = await OccurrenceService.findForShala(
+      String(booking.shala),
+      String(booking.pendingReschedule.occurrence)
+    );
+
+    // The held spot is lost if the class was called off meanwhile
+    if (!target || target.status === "cancelled" || !booking.occurrence) {
+      await this.releaseHeldMove(payment);
+      return false;
+    }
+
+    const timezone = target.timezone || booking.timezone;
+    const classStart =
+      target.startsAt || getClassStart(target.date, target.startTime, timezone);
+    const { priceDifference, reason } = booking.pendingReschedule;
+    const now = new Date();
+    const moved = await withTransaction(async (session) => {
+      const updated = await Booking.findOneAndUpdate(
+        {
+          _id: booking._id,
+          status: "confirmed",
+          occurrence: booking.occurrence,
+          "pendingReschedule.payment": payment._id,
+        },
+        {
+          $set: {
+            ...this.classFields(target, timezone, classStart),
+            amountPaid: roundMoney(booking.amountPaid + priceDifference),
+            updatedAt: now,
+          },
+          $unset: { pendingReschedule: 1 },
+          $push: {
+            reschedules: {
+              ...this.historyEntry(
+                booking,
+                target,
+                priceDifference,
+                reason,
+                now
+              ),
+              payment: payment._id,
+            },
+          },
+        },
+        { new: true, session }
+      );
+      if (!updated) return null;
+
+      await CapacityService.releaseSpots(
+        booking.occurrence!,
+        booking.spots,
+        session
+      );
+      return updated;
+    });
+
+    // Cancelled or attended while the payment was open
+    if (!moved) {
+      await this.releaseHeldMove(payment);
+      return false;
+    }
+
+    await this.promoteFreedSpots(booking.occurrence, booking.spots);
+    return true;
+  }
+
+  // Hook for PaymentService: give back the spot held for a move whose
+  // price difference was never paid
+  static async releaseHeldMove(payment: IPayment): Promise<void> {
+    await this.releaseHold({
+      _id: payment.booking,
+      "pendingReschedule.payment": payment._id,
+    });
+  }
+
+  // Reserve the new class and open a checkout for the price difference.
+  // The booking keeps its current class until the payment is captured.
+  private static async holdPaidMove(
+    booking: IBooking,
+    target: IClassOccurrence,
+    unchanged: FilterQuery<IBooking>,
+    priceDifference: number,
+    reason: string | undefined,
+    reschedulesLeft: number,
+    now: Date
+  ): Promise<RescheduleResult> {
+    const outcome = await withTransaction(async (session) => {
+      const reservation = await CapacityService.reserveSpots(
+        target._id,
+        booking.spots,
+        session
+      );
+      if (!reservation.reserved) return { reservation };
+
+      const held = await Booking.findOneAndUpdate(
+        unchanged,
+        {
+          $set: {
+            pendingReschedule: {
+              occurrence: target._id,
+              priceDifference,
+              reason,
+              requestedAt: now,
+            },
+            updatedAt: now,
+          },
+        },
+        { new: true, session }
+      );
+      if (!held) {
+        throw new RescheduleConflict();
+      }
+
+      return { reservation, held };
+    });
+
+    const { reservation, held } = outcome;
+    if (!held) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.CLASS_FULL,
+        statusCode: 409,
+        message: "Class is full",
+        remainingSpots: reservation.remainingSpots,
+      };
+    }
+
+    let payment: CheckoutDetails;
+    try {
+      payment = await PaymentService.startCheckout({
+        userId: booking.user,
+        shalaId: booking.shala,
+        purpose: "reschedule",
+        amount: priceDifference,
+        bookingId: booking._id as mongoose.Types.ObjectId,
+      });
+    } catch (error) {
+      console.error("Start reschedule payment error:", error);
+      await this.releaseHold({
+        _id: booking._id,
+        "pendingReschedule.occurrence": target._id,
+      });
+      return {
+        success: false,
+        code: this.ERROR_CODES.PAYMENT_PROVIDER_ERROR,
+        statusCode: 502,
+        message: "Could not start payment, please try again",
+      };
+    }
+
+    await Booking.updateOne(
+      { _id: booking._id, "pendingReschedule.occurrence": target._id },
+      { $set: { "pendingReschedule.payment": payment.paymentId } }
+    );
+
+    return {
+      success: true,
+      message: "Spot held, pay the price difference to complete the move",
+      booking: await held.populate("shala", "name address contact"),
+      priceDifference,
+      payment,
+      remainingSpots: reservation.remainingSpots,
+      reschedulesLeft,
+    };
+  }
+
+  // Drop a pending move matched by `filter` and free its held spot
+  private static async releaseHold(
+    filter: FilterQuery<IBooking>
+  ): Promise<void> {
+    const booking = await Booking.findOneAndUpdate(filter, {
+      $unset: { pendingReschedule: 1 },
+      $set: { updatedAt: new Date() },
+    });
+    const heldOccurrence = booking?.pendingReschedule?.occurrence;
+    if (!heldOccurrence) return;
+
+    await CapacityService.releaseSpots(heldOccurrence, booking.spots);
+    await this.promoteFreedSpots(heldOccurrence, booking.spots);
+  }
+
+  // Offer spots given up by a move to the next people on the waitlist
+  private static async promoteFreedSpots(
+    occurrenceId: mongoose.Types.ObjectId | undefined,
+    spots: number
+  ): Promise<void> {
+    if (!occurrenceId) return;
+
+    try {
+      await WaitlistService.promoteMany(occurrenceId, spots);
+    } catch (error) {
+      console.error("Waitlist promotion error:", error);
+    }
+  }
+
+  // Booking fields copied from the class it moves to
+  private static classFields(
+    occurrence: IClassOccurrence,
+    timezone: string | undefined,
+    classStart: Date
+  ): Record<string, unknown> {
+    return {
+      occurrence: occurrence._id,
+      className: occurrence.className,
+      instructor: occurrence.substituteInstructor || occurrence.instructor,
+      date: occurrence.date,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      timezone,
+      startsAt: classStart,
+      endsAt:
+        occurrence.endsAt ||
+        getClassStart(occurrence.date, occurrence.endTime, timezone),
+    };
+  }
+
+  private static historyEntry(
+    booking: IBooking,
+    target: IClassOccurrence,
+    priceDifference: number,
+    reason: string | undefined,
+    now: Date
+  ) {
+    return {
+      fromOccurrence: booking.occurrence,
+      toOccurrence: target._id,
+      fromDate: booking.date,
+      fromStartTime: booking.startTime,
+      toDate: target.date,
+      toStartTime: target.startTime,
+      priceDifference,
+      reason,
+      rescheduledAt: now,
+    };
+  }
+}
@@ -0,0 +1,683 @@
+import mongoose from "mongoose";
+import Booking, { IBooking } from "../../models/Booking";
+import User from "../../models/User";
+import WaitlistEntry, {
+  IWaitlistEntry,
+  WaitlistStatus,
+} from "../../models/WaitlistEntry";
+import ClassOccurrence from "../../models/ClassOccurrence";
+import YogaShala, { isPublished } from "../../models/YogaShala";
+import { CapacityService } from "./capacityService";
+import { PricingService } from "./pricingService";
+import { AttendanceService } from "./attendanceService";
+import { OccurrenceService } from "../schedule/occurrenceService";
+import { PackageError, PackageService } from "../package/packageService";
+import { getStartsAt } from "../../utils/schedule";
+import { withTransaction } from "../../utils/database";
+import { CheckoutDetails, PaymentService } from "../payment/paymentService";
+import { sendWaitlistOfferEmail } from "../../utils/emailService";
+
+export interface WaitlistJoinData {
+  shalaId: string;
+  classId: string;
+  paymentMethod: string;
+}
+
+export interface WaitlistResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  entry?: any;
+  entries?: any[];
+  booking?: any;
+  payment?: CheckoutDetails;
+  position?: number;
+  waitingCount?: number;
+  remainingSpots?: number;
+  blockedUntil?: Date;
+}
+
+export class WaitlistService {
+  // How long a promoted user has to confirm their spot
+  static readonly CLAIM_WINDOW_MINUTES =
+    Number(process.env.WAITLIST_CLAIM_MINUTES) || 120;
+
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    CLASS_NOT_FOUND: "CLASS_NOT_FOUND",
+    CLASS_CANCELLED: "CLASS_CANCELLED",
+    CLASS_STARTED: "CLASS_STARTED",
+    CLASS_NOT_FULL: "CLASS_NOT_FULL",
+    DUPLICATE_BOOKING: "DUPLICATE_BOOKING",
+    ALREADY_ON_WAITLIST: "ALREADY_ON_WAITLIST",
+    ENTRY_NOT_FOUND: "ENTRY_NOT_FOUND",
+    OFFER_NOT_ACTIVE: "OFFER_NOT_ACTIVE",
+    OFFER_EXPIRED: "OFFER_EXPIRED",
+    BOOKING_BLOCKED: "BOOKING_BLOCKED",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  // Join the waitlist of a full class
+  static async joinWaitlist(
+    userId: string,
+    data: WaitlistJoinData
+  ): Promise<WaitlistResult> {
+    try {
+      const { shalaId, classId, paymentMethod } = data;
+
+      const block = await AttendanceService.getBookingBlock(userId);
+      if (block) return block;
+
+      const shala = await YogaShala.findById(shalaId);
+      if (!shala || !isPublished(shala)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
+          message: "Shala not found or inactive",
+        };
+      }
+
+      const occurrence = await OccurrenceService.findForShala(shalaId, classId);
+
+      if (!occurrence) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_NOT_FOUND,
+          statusCode: 400,
+          message: "Class not found in shala schedule",
+        };
+      }
+
+      if (occurrence.status === "cancelled") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_CANCELLED,
+          statusCode: 400,
+          message: "This class has been cancelled",
+        };
+      }
+
+      if (getStartsAt(occurrence) <= new Date()) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_STARTED,
+          statusCode: 400,
+          message: "Class has already started",
+        };
+      }
+
+      const existingBooking = await Booking.exists({
+        user: userId,
+        occurrence: occurrence._id,
+        status: { $in: CapacityService.ACTIVE_BOOKING_STATUSES },
+      });
+
+      if (existingBooking) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.DUPLICATE_BOOKING,
+          statusCode: 400,
+          message: "You already have a booking for this class",
+        };
+      }
+
+      // Only full classes have a waitlist
+      const remainingSpots = CapacityService.getRemainingSpots(occurrence);
+
+      if (remainingSpots > 0) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_NOT_FULL,
+          statusCode: 400,
+          message: "Class still has spots available, book it directly",
+          remainingSpots,
+        };
+      }
+
+      // Same eligibility rules and price as booking the class directly
+      const pricing = await PricingService.priceClass(
+        userId,
+        shala,
+        occurrence,
+        paymentMethod
+      );
+
+      if (!pricing.success || !pricing.quote) {
+        return {
+          success: false,
+          code: pricing.code,
+          statusCode: pricing.statusCode,
+          message: pricing.message,
+        };
+      }
+
+      let entry: IWaitlistEntry;
+      try {
+        entry = await WaitlistEntry.create({
+          user: userId,
+          shala: shalaId,
+          occurrence: occurrence._id,
+          className: occurrence.className,
+          date: occurrence.date,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          paymentMethod,
+          amount: pricing.quote.total,
+        });
+      } catch (error: any) {
+        if (error?.code === 11000) {
+          return {
+            success: false,
+            code: this.ERROR_CODES.ALREADY_ON_WAITLIST,
+            statusCode: 400,
+            message: "You are already on the waitlist for this class",
+          };
+        }
+        throw error;
+      }
+
+      return {
+        success: true,
+        message: "Joined waitlist successfully",
+        entry,
+        ...(await this.getQueueInfo(entry)),
+      };
+    } catch (error) {
+      console.error("Join waitlist error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while joining waitlist",
+      };
+    }
+  }
+
+  // Leave the waitlist, declining the held spot if one was offered
+  static async leaveWaitlist(
+    entryId: string,
+    userId: string
+  ): Promise<WaitlistResult> {
+    try {
+      const entry = await WaitlistEntry.findOne({ _id: entryId, user: userId });
+
+      if (!entry) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.ENTRY_NOT_FOUND,
+          statusCode: 404,
+          message: "Waitlist entry not found",
+        };
+      }
+
+      if (entry.status === "waiting") {
+        entry.status = "left";
+        entry.updatedAt = new Date();
+        await entry.save();
+      } else if (entry.status === "offered") {
+        await this.withdrawOffer(entry, "left", "Declined waitlist offer");
+      } else {
+        return {
+          success: false,
+          code: this.ERROR_CODES.OFFER_NOT_ACTIVE,
+          statusCode: 400,
+          message: "You are no longer on this waitlist",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Left waitlist successfully",
+      };
+    } catch (error) {
+      console.error("Leave waitlist error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while leaving waitlist",
+      };
+    }
+  }
+
+  // Confirm a spot offered after promotion
+  static async claimOffer(
+    entryId: string,
+    userId: string
+  ): Promise<WaitlistResult> {
+    try {
+      const entry = await WaitlistEntry.findOne({ _id: entryId, user: userId });
+
+      if (!entry) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.ENTRY_NOT_FOUND,
+          statusCode: 404,
+          message: "Waitlist entry not found",
+        };
+      }
+
+      if (entry.status !== "offered") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.OFFER_NOT_ACTIVE,
+          statusCode: 400,
+          message: "There is no spot on offer for this entry",
+        };
+      }
+
+      if (this.isOfferExpired(entry)) {
+        await this.withdrawOffer(
+          entry,
+          "expired",
+          "Waitlist offer expired before it was claimed"
+        );
+        return {
+          success: false,
+          code: this.ERROR_CODES.OFFER_EXPIRED,
+          statusCode: 410,
+          message: "The claim window for this spot has passed",
+        };
+      }
+
+      const offered = await Booking.findOne({
+        _id: entry.booking,
+        status: "pending",
+      });
+
+      if (!offered) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.OFFER_NOT_ACTIVE,
+          statusCode: 400,
+          message: "The offered booking is no longer available",
+        };
+      }
+
+      // Paid spots are confirmed by the payment webhook, like direct bookings
+      if (entry.paymentMethod !== "package" && offered.amountPaid > 0) {
+        const payment = await PaymentService.startCheckout({
+          userId,
+          shalaId: entry.shala,
+          purpose: "booking",
+          amount: offered.amountPaid,
+          bookingId: offered._id as mongoose.Types.ObjectId,
+        });
+
+        entry.status = "claimed";
+        entry.updatedAt = new Date();
+        await entry.save();
+
+        return {
+          success: true,
+          message: "Spot held, complete the payment to confirm it",
+          entry,
+          booking: offered,
+          payment,
+        };
+      }
+
+      const booking = await withTransaction(async (session) => {
+        const update: Record<string, unknown> = {
+          status: "confirmed",
+          paymentStatus: "completed",
+          updatedAt: new Date(),
+        };
+
+        // Package entries pay with a class from the user's pack on claim
+        if (entry.paymentMethod === "package") {
+          const activePackageId = await PackageService.debitClasses(
+            userId,
+            entry.shala.toString(),
+            getStartsAt(offered),
+            session
+          );
+          update.packageUsed = { packageId: activePackageId, classesUsed: 1 };
+        }
+
+        return Booking.findOneAndUpdate(
+          { _id: entry.booking, status: "pending" },
+          { $set: update },
+          { new: true, session }
+        );
+      });
+
+      if (!booking) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.OFFER_NOT_ACTIVE,
+          statusCode: 400,
+          message: "The offered booking is no longer available",
+        };
+      }
+
+      entry.status = "claimed";
+      entry.updatedAt = new Date();
+      await entry.save();
+
+      return {
+        success: true,
+        message: "Spot claimed successfully",
+        entry,
+        booking,
+      };
+    } catch (error) {
+      if (error instanceof PackageError) {
+        return {
+          success: false,
+          code: error.code,
+          statusCode: error.statusCode,
+          message: error.message,
+        };
+      }
+
+      console.error("Claim waitlist offer error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while claiming waitlist spot",
+      };
+    }
+  }
+
+  // Get a single entry with the user's place in line
+  static async getEntry(
+    entryId: string,
+    userId: string
+  ): Promise<WaitlistResult> {
+    try {
+      const entry = await WaitlistEntry.findOne({
+        _id: entryId,
+        user: userId,
+      }).populate("shala", "name address");
+
+      if (!entry) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.ENTRY_NOT_FOUND,
+          statusCode: 404,
+          message: "Waitlist entry not found",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Waitlist entry retrieved successfully",
+        entry,
+        ...(await this.getQueueInfo(entry)),
+      };
+    } catch (error) {
+      console.error("Get waitlist entry error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching waitlist entry",
+      };
+    }
+  }
+
+  // Get the user's live waitlist entries
+  static async getUserEntries(userId: string): Promise<WaitlistResult> {
+    try {
+      const entries = await WaitlistEntry.find({
+        user: userId,
+        status: { $in: ["waiting", "offered"] },
+      })
+        .populate("shala", "name address")
+        .sort({ date: 1, startTime: 1 });
+
+      const withPositions = await Promise.all(
+        entries.map(async (entry) => ({
+          ...entry.toObject(),
+          ...(await this.getQueueInfo(entry)),
+        }))
+      );
+
+      return {
+        success: true,
+        message: "Waitlist entries retrieved successfully",
+        entries: withPositions,
+      };
+    } catch (error) {
+      console.error("Get waitlist entries error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching waitlist entries",
+      };
+    }
+  }
+
+  // Hook for BookingService.cancelBooking: offer the freed spots to the queue
+  static async onBookingCancelled(booking: IBooking): Promise<void> {
+    await WaitlistEntry.updateOne(
+      { booking: booking._id, status: "offered" },
+      { $set: { status: "declined", updatedAt: new Date() } }
+    );
+
+    if (booking.occurrence) {
+      await this.promoteMany(booking.occurrence, booking.spots || 1);
+    }
+  }
+
+  // Offer several freed spots, e.g. from a group booking, one entry each.
+  // Returns how many entries got an offer.
+  static async promoteMany(
+    occurrenceId: mongoose.Types.ObjectId,
+    spots: number
+  ): Promise<number> {
+    let promoted = 0;
+    while (promoted < spots && (await this.promoteNext(occurrenceId))) {
+      promoted++;
+    }
+    return promoted;
+  }
+
+  // Close the queue of a class that was cancelled. Pending bookings behind
+  // open offers are cancelled with the class's other bookings.
+  static async onClassCancelled(
+    occurrenceId: mongoose.Types.ObjectId
+  ): Promise<number> {
+    const { modifiedCount } = await WaitlistEntry.updateMany(
+      { occurrence: occurrenceId, status: { $in: ["waiting", "offered"] } },
+      { $set: { status: "cancelled", updatedAt: new Date() } }
+    );
+    return modifiedCount;
+  }
+
+  // Offer a freed spot to the oldest waiting entry, as a pending booking
+  static async promoteNext(
+    occurrenceId: mongoose.Types.ObjectId
+  ): Promise<IWaitlistEntry | null> {
+    const occurrence = await ClassOccurrence.findById(occurrenceId);
+    if (!occurrence || occurrence.status !== "scheduled") return null;
+
+    const now = new Date();
+    const classStart = getStartsAt(occurrence);
+    if (classStart <= now) return null;
+
+    const hasWaiting = await WaitlistEntry.exists({
+      occurrence: occurrenceId,
+      status: "waiting",
+    });
+    if (!hasWaiting) return null;
+
+    // Price the spot as it is now, not as it was when the user joined
+    const shala = await YogaShala.findById(occurrence.shala).select(
+      "dropInRate trialRate"
+    );
+
+    // Hold the spot first so a parallel booking can't take it
+    const reservation = await CapacityService.reserveSpots(occurrenceId);
+    if (!reservation.reserved) return null;
+
+    const claimExpiresAt = this.getClaimExpiry(now, classStart);
+
+    const entry = await WaitlistEntry.findOneAndUpdate(
+      { occurrence: occurrenceId, status: "waiting" },
+      {
+        $set: {
+          status: "offered",
+          offeredAt: now,
+          claimExpiresAt,
+          updatedAt: now,
+        },
+      },
+      { sort: { createdAt: 1 }, new: true }
+    );
+
+    if (!entry) {
+      await CapacityService.releaseSpots(occurrenceId);
+      return null;
+    }
+
+    try {
+      const booking = await Booking.create({
+        user: entry.user,
+        shala: entry.shala,
+        occurrence: occurrence._id,
+        className: occurrence.className,
+        instructor: occurrence.substituteInstructor || occurrence.instructor,
+        date: occurrence.date,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        timezone: occurrence.timezone,
+        startsAt: occurrence.startsAt,
+        endsAt: occurrence.endsAt,
+        paymentMethod: entry.paymentMethod,
+        amountPaid: shala
+          ? PricingService.getAmountDue(occurrence, shala, entry.paymentMethod)
+          : 0,
+        status: "pending",
+        paymentStatus: "pending",
+        notes: "Promoted from waitlist",
+      });
+
+      entry.booking = booking._id as any;
+      await entry.save();
+    } catch (error) {
+      await CapacityService.releaseSpots(occurrenceId);
+      await WaitlistEntry.updateOne(
+        { _id: entry._id },
+        {
+          $set: { status: "waiting", updatedAt: new Date() },
+          $unset: { offeredAt: 1, claimExpiresAt: 1 },
+        }
+      );
+      throw error;
+    }
+
+    await this.notifyOffer(entry);
+    return entry;
+  }
+
+  // When a spot offered at `now` stops being held: after the claim window,
+  // or when the class starts if that comes first
+  static getClaimExpiry(now: Date, classStart: Date): Date {
+    return new Date(
+      Math.min(
+        now.getTime() + this.CLAIM_WINDOW_MINUTES * 60 * 1000,
+        classStart.getTime()
+      )
+    );
+  }
+
+  // Whether an offered spot can no longer be claimed at `now`
+  static isOfferExpired(
+    entry: Pick<IWaitlistEntry, "claimExpiresAt">,
+    now: Date = new Date()
+  ): boolean {
+    return !!entry.claimExpiresAt && entry.claimExpiresAt <= now;
+  }
+
+  // Expire unclaimed offers and roll their spots to the next person
+  static async expireOffers(): Promise<number> {
+    const expired = await WaitlistEntry.find({
+      status: "offered",
+      claimExpiresAt: { $lte: new Date() },
+    }).limit(100);
+
+    for (const entry of expired) {
+      await this.withdrawOffer(
+        entry,
+        "expired",
+        "Waitlist offer expired before it was claimed"
+      );
+    }
+
+    return expired.length;
+  }
+
+  // Cancel the pending booking behind an offer and promote the next entry
+  private static async withdrawOffer(
+    entry: IWaitlistEntry,
+    status: WaitlistStatus,
+    reason: string
+  ): Promise<void> {
+    const updated = await WaitlistEntry.findOneAndUpdate(
+      { _id: entry._id, status: "offered" },
+      { $set: { status, updatedAt: new Date() } }
+    );
+    if (!updated) return;
+
+    const booking = await Booking.findOneAndUpdate(
+      { _id: entry.booking, status: "pending" },
+      {
+        $set: {
+          status: "cancelled",
+          cancelledAt: new Date(),
+          cancellationReason: reason,
+          updatedAt: new Date(),
+        },
+      }
+    );
+
+    if (booking) {
+      await CapacityService.releaseSpots(entry.occurrence);
+    }
+
+    await this.promoteNext(entry.occurrence);
+  }
+
+  private static async notifyOffer(entry: IWaitlistEntry): Promise<void> {
+    try {
+      const user = await User.findById(entry.user).select("name email");
+      if (!user || !entry.claimExpiresAt) return;
+
+      await sendWaitlistOfferEmail(user.email, {
+        name: user.name,
+        className: entry.className,
+        date: entry.date,
+        startTime: entry.startTime,
+        claimExpiresAt: entry.claimExpiresAt,
+      });
+    } catch (error) {
+      console.error("Waitlist offer notification error:", error);
+    }
+  }
+
+  // Place in line (1-based) and total number of people waiting
+  private static async getQueueInfo(
+    entry: IWaitlistEntry
+  ): Promise<{ position?: number; waitingCount: number }> {
+    const filter = { occurrence: entry.occurrence, status: "waiting" };
+
+    const waitingCount = await WaitlistEntry.countDocuments(filter);
+
+    if (entry.status !== "waiting") {
+      return { waitingCount };
+    }
+
+    const ahead = await WaitlistEntry.countDocuments({
+      ...filter,
+      createdAt: { $lt: entry.createdAt },
+    });
+
+    return { position: ahead + 1, waitingCount };
+  }
+}
@@ -0,0 +1,558 @@
+import mongoose, { ClientSession } from "mongoose";
+import Booking from "../../models/Booking";
+import DiscountCode, {
+  DiscountPurpose,
+  DiscountType,
+  IDiscountCode,
+} from "../../models/DiscountCode";
+import DiscountRedemption, {
+  IDiscountRedemption,
+} from "../../models/DiscountRedemption";
+import YogaShala from "../../models/YogaShala";
+
+export interface DiscountData {
+  code?: string;
+  description?: string;
+  type?: DiscountType;
+  value?: number;
+  appliesTo?: DiscountPurpose[];
+  validFrom?: string;
+  validUntil?: string;
+  maxRedemptions?: number;
+  perUserLimit?: number;
+  isActive?: boolean;
+  // Admins only: code usable at every shala
+  platformWide?: boolean;
+}
+
+export interface DiscountActor {
+  id: string;
+  role: string;
+}
+
+export interface ApplyDiscountParams {
+  userId: string;
+  shalaId: string;
+  purpose: DiscountPurpose;
+}
+
+export interface RedeemParams extends ApplyDiscountParams {
+  amount: number;
+  bookingId?: mongoose.Types.ObjectId;
+  paymentId?: mongoose.Types.ObjectId;
+}
+
+export interface DiscountResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  discount?: any;
+  discounts?: any[];
+}
+
+// Raised while applying a code, inside booking transactions too, so the
+// whole transaction rolls back
+export class DiscountError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "DiscountError";
+  }
+}
+
+export class DiscountService {
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    NOT_AUTHORIZED: "NOT_AUTHORIZED",
+    INVALID_DISCOUNT: "INVALID_DISCOUNT",
+    DUPLICATE_CODE: "DUPLICATE_CODE",
+    DISCOUNT_NOT_FOUND: "DISCOUNT_NOT_FOUND",
+    DISCOUNT_NOT_STARTED: "DISCOUNT_NOT_STARTED",
+    DISCOUNT_EXPIRED: "DISCOUNT_EXPIRED",
+    DISCOUNT_NOT_APPLICABLE: "DISCOUNT_NOT_APPLICABLE",
+    DISCOUNT_LIMIT_REACHED: "DISCOUNT_LIMIT_REACHED",
+    DISCOUNT_USER_LIMIT_REACHED: "DISCOUNT_USER_LIMIT_REACHED",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  // Codes of a shala, with the platform-wide codes that also apply there
+  static async listDiscounts(
+    actor: DiscountActor,
+    shalaId: string
+  ): Promise<DiscountResult> {
+    try {
+      const denied = await this.checkAccess(actor, shalaId);
+      if (denied) return denied;
+
+      const discounts = await DiscountCode.find({
+        $or: [{ shala: shalaId }, { shala: null }],
+      }).sort({ createdAt: -1 });
+
+      return {
+        success: true,
+        message: "Discount codes retrieved successfully",
+        discounts,
+      };
+    } catch (error) {
+      console.error("List discounts error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching discount codes",
+      };
+    }
+  }
+
+  static async createDiscount(
+    actor: DiscountActor,
+    shalaId: string,
+    data: DiscountData
+  ): Promise<DiscountResult> {
+    try {
+      const denied = await this.checkAccess(actor, shalaId);
+      if (denied) return denied;
+
+      if (data.platformWide && actor.role !== "admin") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_AUTHORIZED,
+          statusCode: 403,
+          message: "Only admins can create platform-wide codes",
+        };
+      }
+
+      const fields = this.toFields(data);
+      const invalid = this.validate(fields);
+      if (invalid) return invalid;
+
+      const discount = await DiscountCode.create({
+        ...fields,
+        shala: data.platformWide ? undefined : shalaId,
+        createdBy: actor.id,
+      });
+
+      return {
+        success: true,
+        message: "Discount code created successfully",
+        discount,
+      };
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.DUPLICATE_CODE,
+          statusCode: 409,
+          message: "A discount code with this code already exists",
+        };
+      }
+
+      console.error("Create discount error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while creating discount code",
+      };
+    }
+  }
+
+  // Change a code's terms; the code string and scope stay fixed
+  static async updateDiscount(
+    actor: DiscountActor,
+    shalaId: string,
+    discountId: string,
+    data: DiscountData
+  ): Promise<DiscountResult> {
+    try {
+      const found = await this.findManaged(actor, shalaId, discountId);
+      if ("success" in found) return found;
+
+      const { code, ...fields } = this.toFields(data);
+      const invalid = this.validate({
+        type: found.type,
+        value: found.value,
+        appliesTo: found.appliesTo,
+        validFrom: found.validFrom?.toISOString(),
+        validUntil: found.validUntil?.toISOString(),
+        ...fields,
+      });
+      if (invalid) return invalid;
+
+      const discount = await DiscountCode.findByIdAndUpdate(
+        found._id,
+        { $set: { ...fields, updatedAt: new Date() } },
+        { new: true, runValidators: true }
+      );
+
+      return {
+        success: true,
+        message: "Discount code updated successfully",
+        discount,
+      };
+    } catch (error) {
+      console.error("Update discount error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while updating discount code",
+      };
+    }
+  }
+
+  // Codes are deactivated rather than deleted so redemptions keep their link
+  static async deactivateDiscount(
+    actor: DiscountActor,
+    shalaId: string,
+    discountId: string
+  ): Promise<DiscountResult> {
+    try {
+      const found = await this.findManaged(actor, shalaId, discountId);
+      if ("success" in found) return found;
+
+      const discount = await DiscountCode.findByIdAndUpdate(
+        found._id,
+        { $set: { isActive: false, updatedAt: new Date() } },
+        { new: true }
+      );
+
+      return {
+        success: true,
+        message: "Discount code deactivated successfully",
+        discount,
+      };
+    } catch (error) {
+      console.error("Deactivate discount error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while deactivating discount code",
+      };
+    }
+  }
+
+  // Look up a code the user can apply right now. The shala's own code wins
+  // over a platform-wide code with the same name. Throws DiscountError.
+  static async findApplicable(
+    code: string,
+    params: ApplyDiscountParams,
+    session?: ClientSession
+  ): Promise<IDiscountCode> {
+    const candidates = await DiscountCode.find({
+      code: code.trim().toUpperCase(),
+      isActive: true,
+      $or: [{ shala: params.shalaId }, { shala: null }],
+    }).session(session || null);
+
+    const discount =
+      candidates.find((item) => item.shala) || candidates[0] || null;
+
+    if (!discount) {
+      throw new DiscountError(
+        "Discount code not found",
+        this.ERROR_CODES.DISCOUNT_NOT_FOUND,
+        404
+      );
+    }
+
+    const now = new Date();
+    if (discount.validFrom && discount.validFrom > now) {
+      throw new DiscountError(
+        "This discount code is not active yet",
+        this.ERROR_CODES.DISCOUNT_NOT_STARTED
+      );
+    }
+    if (discount.validUntil && discount.validUntil < now) {
+      throw new DiscountError(
+        "This discount code has expired",
+        this.ERROR_CODES.DISCOUNT_EXPIRED
+      );
+    }
+
+    if (!discount.appliesTo.includes(params.purpose)) {
+      throw new DiscountError(
+        `This discount code cannot be used for a ${params.purpose}`,
+        this.ERROR_CODES.DISCOUNT_NOT_APPLICABLE
+      );
+    }
+
+    if (
+      discount.maxRedemptions &&
+      discount.redemptionCount >= discount.maxRedemptions
+    ) {
+      throw new DiscountError(
+        "This discount code has been fully redeemed",
+        this.ERROR_CODES.DISCOUNT_LIMIT_REACHED
+      );
+    }
+
+    const used = await this.countUserRedemptions(
+      discount,
+      params.userId,
+      session
+    );
+    if (used >= discount.perUserLimit) {
+      throw new DiscountError(
+        "You have already used this discount code",
+        this.ERROR_CODES.DISCOUNT_USER_LIMIT_REACHED
+      );
+    }
+
+    if (discount.type === "first_class_free") {
+      const hasBooked = await Booking.exists({
+        user: params.userId,
+        shala: params.shalaId,
+        status: { $ne: "cancelled" },
+      }).session(session || null);
+
+      if (hasBooked) {
+        throw new DiscountError(
+          "This discount code is only for your first class at this shala",
+          this.ERROR_CODES.DISCOUNT_NOT_APPLICABLE
+        );
+      }
+    }
+
+    return discount;
+  }
+
+  // Amount a code takes off a price. `unitPrice` is the price of one class
+  // when `price` covers several spots, so a free class stays one class.
+  static computeAmount(
+    discount: Pick<IDiscountCode, "type" | "value">,
+    price: number,
+    unitPrice: number = price
+  ): number {
+    if (price <= 0) return 0;
+
+    switch (discount.type) {
+      case "percentage":
+        return Math.round(price * Math.min(discount.value, 100)) / 100;
+      case "flat":
+        return Math.min(discount.value, price);
+      case "first_class_free":
+        return Math.min(unitPrice, price);
+      default:
+        return 0;
+    }
+  }
+
+  // Record a use of the code. The global count is taken with a conditional
+  // $inc so parallel redemptions can't overshoot maxRedemptions.
+  static async redeem(
+    discount: IDiscountCode,
+    params: RedeemParams,
+    session?: ClientSession
+  ): Promise<IDiscountRedemption> {
+    const used = await this.countUserRedemptions(
+      discount,
+      params.userId,
+      session
+    );
+    if (used >= discount.perUserLimit) {
+      throw new DiscountError(
+        "You have already used this discount code",
+        this.ERROR_CODES.DISCOUNT_USER_LIMIT_REACHED
+      );
+    }
+
+    const counted = await DiscountCode.findOneAndUpdate(
+      {
+        _id: discount._id,
+        isActive: true,
+        $or: [
+          { maxRedemptions: null },
+          { $expr: { $lt: ["$redemptionCount", "$maxRedemptions"] } },
+        ],
+      },
+      { $inc: { redemptionCount: 1 } },
+      { session }
+    );
+
+    if (!counted) {
+      throw new DiscountError(
+        "This discount code has been fully redeemed",
+        this.ERROR_CODES.DISCOUNT_LIMIT_REACHED
+      );
+    }
+
+    const [redemption] = await DiscountRedemption.create(
+      [
+        {
+          discountCode: discount._id,
+          user: params.userId,
+          shala: params.shalaId,
+          purpose: params.purpose,
+          booking: params.bookingId,
+          payment: params.paymentId,
+          amount: params.amount,
+        },
+      ],
+      { session }
+    );
+
+    return redemption;
+  }
+
+  static async attachPayment(
+    redemptionId: mongoose.Types.ObjectId,
+    paymentId: string
+  ): Promise<void> {
+    await DiscountRedemption.updateOne(
+      { _id: redemptionId },
+      { $set: { payment: paymentId, updatedAt: new Date() } }
+    );
+  }
+
+  // Give back the use of a code when its booking was never paid
+  static async releaseForBooking(
+    bookingId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    await this.release({ booking: bookingId });
+  }
+
+  // Give back the use of a code when its package payment never completed
+  static async releaseForPayment(
+    paymentId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    await this.release({ payment: paymentId });
+  }
+
+  static async releaseRedemption(
+    redemptionId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    await this.release({ _id: redemptionId });
+  }
+
+  private static async release(filter: Record<string, unknown>) {
+    const redemption = await DiscountRedemption.findOneAndUpdate(
+      { ...filter, status: "applied" },
+      { $set: { status: "released", updatedAt: new Date() } }
+    );
+    if (!redemption) return;
+
+    await DiscountCode.updateOne(
+      { _id: redemption.discountCode, redemptionCount: { $gt: 0 } },
+      { $inc: { redemptionCount: -1 } }
+    );
+  }
+
+  private static countUserRedemptions(
+    discount: IDiscountCode,
+    userId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    return DiscountRedemption.countDocuments({
+      discountCode: discount._id,
+      user: userId,
+      status: "applied",
+    })
+      .session(session || null)
+      .exec();
+  }
+
+  // Owners manage their own shala's codes; admins manage any
+  private static async checkAccess(
+    actor: DiscountActor,
+    shalaId: string
+  ): Promise<DiscountResult | null> {
+    const shala = await YogaShala.findById(shalaId).select("owner");
+    if (!shala) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.SHALA_NOT_FOUND,
+        statusCode: 404,
+        message: "Shala not found",
+      };
+    }
+
+    if (actor.role !== "admin" && shala.owner?.toString() !== actor.id) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.NOT_AUTHORIZED,
+        statusCode: 403,
+        message: "Not authorized to manage discounts for this shala",
+      };
+    }
+
+    return null;
+  }
+
+  // A code of this shala, or a platform-wide code for admins
+  private static async findManaged(
+    actor: DiscountActor,
+    shalaId: string,
+    discountId: string
+  ): Promise<IDiscountCode | DiscountResult> {
+    const denied = await this.checkAccess(actor, shalaId);
+    if (denied) return denied;
+
+    const discount = await DiscountCode.findById(discountId);
+    const inScope =
+      discount &&
+      (discount.shala
+        ? discount.shala.toString() === shalaId
+        : actor.role === "admin");
+
+    if (!discount || !inScope) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.DISCOUNT_NOT_FOUND,
+        statusCode: 404,
+        message: "Discount code not found",
+      };
+    }
+
+    return discount;
+  }
+
+  private static validate(data: DiscountData): DiscountResult | null {
+    const invalid = (message: string): DiscountResult => ({
+      success: false,
+      code: this.ERROR_CODES.INVALID_DISCOUNT,
+      statusCode: 400,
+      message,
+    });
+
+    if (
+      data.type === "percentage" &&
+      !(data.value! > 0 && data.value! <= 100)
+    ) {
+      return invalid("Percentage discounts need a value between 1 and 100");
+    }
+    if (data.type === "flat" && !(data.value! > 0)) {
+      return invalid("Flat discounts need a value above 0");
+    }
+    if (
+      data.type === "first_class_free" &&
+      data.appliesTo?.includes("package")
+    ) {
+      return invalid("First-class-free codes only apply to bookings");
+    }
+    if (
+      data.validFrom &&
+      data.validUntil &&
+      new Date(data.validFrom) >= new Date(data.validUntil)
+    ) {
+      return invalid("validFrom must be before validUntil");
+    }
+
+    return null;
+  }
+
+  private static toFields(
+    data: DiscountData
+  ): Omit<DiscountData, "platformWide"> {
+    const { platformWide, ...fields } = data;
+    if (data.type === "first_class_free" && !data.appliesTo) {
+      fields.appliesTo = ["booking"];
+    }
+    return fields;
+  }
+}
@@ -0,0 +1,124 @@
+import os from "os";
+import JobRun, { JOB_RUN_STATUSES, JobRunStatus } from "../../models/JobRun";
+
+export interface JobRunsQuery {
+  name?: string;
+  status?: JobRunStatus;
+  page?: string;
+  limit?: string;
+}
+
+export interface JobRunResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  runs?: any[];
+  pagination?: {
+    current: number;
+    pages: number;
+    total: number;
+    limit: number;
+  };
+}
+
+export class JobRunService {
+  static readonly ERROR_CODES = {
+    INVALID_QUERY: "INVALID_QUERY",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  } as const;
+
+  static readonly MAX_LIMIT = 100;
+
+  // Log a finished run. Never throws: a failed write must not fail the job.
+  static async record(
+    name: string,
+    startedAt: Date,
+    outcome: { result?: unknown; error?: unknown },
+    finishedAt: Date = new Date()
+  ): Promise<void> {
+    try {
+      const failed = "error" in outcome;
+      await JobRun.create({
+        name,
+        status: failed ? "failed" : "succeeded",
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        ...(failed
+          ? { error: this.describeError(outcome.error) }
+          : { result: this.toResult(outcome.result) }),
+        host: os.hostname(),
+      });
+    } catch (error) {
+      console.error("Record job run error:", error);
+    }
+  }
+
+  // Recent runs, newest first
+  static async listRuns(query: JobRunsQuery = {}): Promise<JobRunResult> {
+    try {
+      if (query.status && !JOB_RUN_STATUSES.includes(query.status)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.INVALID_QUERY,
+          statusCode: 400,
+          message: `Status must be one of: ${JOB_RUN_STATUSES.join(", ")}`,
+        };
+      }
+
+      const filter = {
+        ...(query.name && { name: query.name }),
+        ...(query.status && { status: query.status }),
+      };
+      const page = Math.max(parseInt(query.page || "1", 10) || 1, 1);
+      const limit = Math.min(
+        Math.max(parseInt(query.limit || "20", 10) || 20, 1),
+        this.MAX_LIMIT
+      );
+
+      const [runs, total] = await Promise.all([
+        JobRun.find(filter)
+          .sort({ startedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        JobRun.countDocuments(filter),
+      ]);
+
+      return {
+        success: true,
+        message: "Job runs retrieved successfully",
+        runs,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total,
+          limit,
+        },
+      };
+    } catch (error) {
+      console.error("List job runs error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching job runs",
+      };
+    }
+  }
+
+  // Jobs return counts or nothing; wrap anything else so it stores as an
+  // object
+  static toResult(result: unknown): Record<string, unknown> | undefined {
+    if (result === undefined || result === null) return undefined;
+    if (typeof result === "object" && !Array.isArray(result)) {
+      return result as Record<string, unknown>;
+    }
+    return { value: result };
+  }
+
+  private static describeError(error: unknown): string {
+    return error instanceof Error ? error.message || error.name : String(error);
+  }
+}
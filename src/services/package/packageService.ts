@@ -0,0 +1,393 @@
+import mongoose, { ClientSession } from "mongoose";
+import User, { IActivePackage } from "../../models/User";
+import YogaShala, { isPublished } from "../../models/YogaShala";
+import { CheckoutDetails, PaymentService } from "../payment/paymentService";
+import { DiscountError, DiscountService } from "../discount/discountService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurchasePackageData {
+  shalaId: string;
+  packageId: string;
+  discountCode?: string;
+}
+
+export interface PackageResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  activePackage?: any;
+  activePackages?: any[];
+  payment?: CheckoutDetails;
+  discount?: {
+    code: string;
+    amount: number;
+  };
+}
+
+// Raised inside booking transactions so the whole transaction rolls back
+export class PackageError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "PackageError";
+  }
+}
+
+export class PackageService {
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    USER_NOT_FOUND: "USER_NOT_FOUND",
+    PACKAGE_NOT_FOUND: "PACKAGE_NOT_FOUND",
+    NO_ACTIVE_PACKAGE: "NO_ACTIVE_PACKAGE",
+    PACKAGE_EXPIRED: "PACKAGE_EXPIRED",
+    PACKAGE_EXHAUSTED: "PACKAGE_EXHAUSTED",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  // Buy one of a shala's class packs
+  static async purchasePackage(
+    userId: string,
+    data: PurchasePackageData
+  ): Promise<PackageResult> {
+    try {
+      const shala = await YogaShala.findById(data.shalaId);
+      if (!shala || !isPublished(shala)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
+          message: "Shala not found or inactive",
+        };
+      }
+
+      const pack = shala.packages.find(
+        (item) => item._id?.toString() === data.packageId
+      );
+
+      if (!pack) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.PACKAGE_NOT_FOUND,
+          statusCode: 404,
+          message: "Package not found for this shala",
+        };
+      }
+
+      let price = pack.price;
+      let discount: PackageResult["discount"];
+      let redemptionId: mongoose.Types.ObjectId | undefined;
+
+      if (data.discountCode) {
+        const code = await DiscountService.findApplicable(data.discountCode, {
+          userId,
+          shalaId: data.shalaId,
+          purpose: "package",
+        });
+        const amount = DiscountService.computeAmount(code, pack.price);
+        const redemption = await DiscountService.redeem(code, {
+          userId,
+          shalaId: data.shalaId,
+          purpose: "package",
+          amount,
+        });
+
+        price = pack.price - amount;
+        discount = { code: code.code, amount };
+        redemptionId = redemption._id;
+      }
+
+      // Paid packs are granted by the payment webhook
+      if (price > 0) {
+        let payment: CheckoutDetails;
+        try {
+          payment = await PaymentService.startCheckout({
+            userId,
+            shalaId: shala._id as mongoose.Types.ObjectId,
+            purpose: "package",
+            amount: price,
+            packageId: pack._id,
+          });
+        } catch (error) {
+          if (redemptionId) {
+            await DiscountService.releaseRedemption(redemptionId);
+          }
+          throw error;
+        }
+
+        if (redemptionId) {
+          await DiscountService.attachPayment(redemptionId, payment.paymentId);
+        }
+
+        return {
+          success: true,
+          message: "Complete the payment to activate the package",
+          payment,
+          discount,
+        };
+      }
+
+      const granted = await this.grantPackage(
+        userId,
+        data.shalaId,
+        data.packageId,
+        0
+      );
+      if (!granted.success && redemptionId) {
+        await DiscountService.releaseRedemption(redemptionId);
+      }
+      return { ...granted, discount };
+    } catch (error) {
+      if (error instanceof DiscountError) {
+        return {
+          success: false,
+          code: error.code,
+          statusCode: error.statusCode,
+          message: error.message,
+        };
+      }
+
+      console.error("Purchase package error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while purchasing package",
+      };
+    }
+  }
+
+  // Add a pack to the user's packages, with expiry counted from today
+  static async grantPackage(
+    userId: string,
+    shalaId: string,
+    packageId: string,
+    amountPaid: number
+  ): Promise<PackageResult> {
+    const shala = await YogaShala.findById(shalaId).select("packages");
+    const pack = shala?.packages.find(
+      (item) => item._id?.toString() === packageId
+    );
+
+    if (!shala || !pack) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.PACKAGE_NOT_FOUND,
+        statusCode: 404,
+        message: "Package not found for this shala",
+      };
+    }
+
+    const purchasedAt = new Date();
+    const activePackage = {
+      _id: new mongoose.Types.ObjectId(),
+      shala: shala._id,
+      packageId: pack._id,
+      name: pack.name,
+      totalClasses: pack.classes,
+      classesRemaining: pack.classes,
+      amountPaid,
+      purchasedAt,
+      expiryDate: new Date(purchasedAt.getTime() + pack.validityDays * DAY_MS),
+    };
+
+    const updated = await User.updateOne(
+      { _id: userId },
+      {
+        $push: { activePackages: activePackage },
+        $set: { updatedAt: purchasedAt },
+      }
+    );
+
+    if (updated.matchedCount === 0) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.USER_NOT_FOUND,
+        statusCode: 404,
+        message: "User not found",
+      };
+    }
+
+    return {
+      success: true,
+      message: "Package purchased successfully",
+      activePackage,
+    };
+  }
+
+  // Get the user's packages; expired and used-up packs only when asked for
+  static async getUserPackages(
+    userId: string,
+    includeInactive: boolean = false
+  ): Promise<PackageResult> {
+    try {
+      const user = await User.findById(userId)
+        .select("activePackages")
+        .populate("activePackages.shala", "name address");
+
+      if (!user) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.USER_NOT_FOUND,
+          statusCode: 404,
+          message: "User not found",
+        };
+      }
+
+      const now = new Date();
+      const activePackages = user.activePackages
+        .map((pack: any) => ({
+          ...pack.toObject(),
+          isUsable: this.isUsable(pack, now),
+        }))
+        .filter((pack) => includeInactive || pack.isUsable)
+        .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+
+      return {
+        success: true,
+        message: "Packages retrieved successfully",
+        activePackages,
+      };
+    } catch (error) {
+      console.error("Get user packages error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching packages",
+      };
+    }
+  }
+
+  // The user's pack that would pay for a class starting at `classStart`:
+  // the requested pack, otherwise the one that expires first. Throws
+  // PackageError when no pack can cover the class.
+  static async findCoveringPackage(
+    userId: string,
+    shalaId: string,
+    classStart: Date,
+    classes: number = 1,
+    activePackageId?: string,
+    session?: ClientSession
+  ): Promise<IActivePackage> {
+    const user = await User.findById(userId)
+      .select("activePackages")
+      .session(session || null);
+
+    return this.selectCoveringPackage(
+      user?.activePackages || [],
+      shalaId,
+      classStart,
+      classes,
+      activePackageId
+    );
+  }
+
+  // Pick the pack that pays for `classes` classes at a shala from a user's
+  // packs, as described for findCoveringPackage
+  static selectCoveringPackage(
+    activePackages: IActivePackage[],
+    shalaId: string,
+    classStart: Date,
+    classes: number = 1,
+    activePackageId?: string
+  ): IActivePackage {
+    const packs = activePackages.filter(
+      (pack) =>
+        pack.shala.toString() === shalaId.toString() &&
+        (!activePackageId || pack._id?.toString() === activePackageId)
+    );
+
+    if (packs.length === 0) {
+      throw new PackageError(
+        "You have no package for this shala",
+        this.ERROR_CODES.NO_ACTIVE_PACKAGE
+      );
+    }
+
+    const valid = packs.filter((pack) => pack.expiryDate > classStart);
+    if (valid.length === 0) {
+      throw new PackageError(
+        "Your package expires before this class",
+        this.ERROR_CODES.PACKAGE_EXPIRED
+      );
+    }
+
+    const usable = valid
+      .filter((pack) => pack.classesRemaining >= classes)
+      .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+
+    if (usable.length === 0) {
+      throw new PackageError(
+        "Your package has no classes left",
+        this.ERROR_CODES.PACKAGE_EXHAUSTED
+      );
+    }
+
+    return usable[0];
+  }
+
+  // Take classes from the pack found by findCoveringPackage
+  static async debitClasses(
+    userId: string,
+    shalaId: string,
+    classStart: Date,
+    session: ClientSession,
+    classes: number = 1,
+    activePackageId?: string
+  ): Promise<mongoose.Types.ObjectId> {
+    const pack = await this.findCoveringPackage(
+      userId,
+      shalaId,
+      classStart,
+      classes,
+      activePackageId,
+      session
+    );
+
+    // Conditional on the balance, so a parallel booking can't spend the
+    // same last class between the lookup and this write
+    const result = await User.updateOne(
+      {
+        _id: userId,
+        activePackages: {
+          $elemMatch: { _id: pack._id, classesRemaining: { $gte: classes } },
+        },
+      },
+      { $inc: { "activePackages.$.classesRemaining": -classes } },
+      { session }
+    );
+
+    if (result.modifiedCount === 0) {
+      throw new PackageError(
+        "Your package has no classes left",
+        this.ERROR_CODES.PACKAGE_EXHAUSTED
+      );
+    }
+
+    return pack._id as mongoose.Types.ObjectId;
+  }
+
+  // Give classes back to the pack a booking was paid with
+  static async restoreClasses(
+    userId: mongoose.Types.ObjectId | string,
+    activePackageId: mongoose.Types.ObjectId,
+    session: ClientSession,
+    classes: number = 1
+  ): Promise<boolean> {
+    const result = await User.updateOne(
+      { _id: userId, "activePackages._id": activePackageId },
+      { $inc: { "activePackages.$.classesRemaining": classes } },
+      { session }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  private static isUsable(pack: IActivePackage, now: Date): boolean {
+    return pack.classesRemaining > 0 && pack.expiryDate > now;
+  }
+}
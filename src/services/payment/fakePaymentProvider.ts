@@ -0,0 +1,140 @@
+import crypto from "crypto";
+import {
+  CaptureResult,
+  CreateIntentParams,
+  PaymentEvent,
+  PaymentIntent,
+  PaymentProvider,
+  RefundResult,
+} from "./paymentProvider";
+
+interface FakeIntent {
+  intentId: string;
+  amount: number;
+  currency: string;
+  reference: string;
+  paymentId?: string;
+  status: "created" | "captured" | "failed";
+  refunded: number;
+}
+
+export interface SignedWebhook {
+  rawBody: string;
+  signature: string;
+}
+
+// In-process gateway for local development and tests. Intents live in
+// memory and "customer actions" produce webhooks signed like real ones.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  readonly signatureHeader = "x-fake-signature";
+  private intents = new Map<string, FakeIntent>();
+
+  constructor(private webhookSecret: string = "fake-webhook-secret") {}
+
+  async createIntent(params: CreateIntentParams): Promise<PaymentIntent> {
+    const intentId = `fake_intent_${crypto.randomBytes(8).toString("hex")}`;
+    this.intents.set(intentId, {
+      intentId,
+      amount: params.amount,
+      currency: params.currency,
+      reference: params.reference,
+      status: "created",
+      refunded: 0,
+    });
+
+    return {
+      intentId,
+      amount: params.amount,
+      currency: params.currency,
+      clientPayload: { intentId },
+    };
+  }
+
+  async capture(paymentId: string, amount: number): Promise<CaptureResult> {
+    const intent = this.findByPayment(paymentId);
+    intent.status = "captured";
+    return { paymentId, amount };
+  }
+
+  async refund(paymentId: string, amount: number): Promise<RefundResult> {
+    const intent = this.findByPayment(paymentId);
+    if (intent.refunded + amount > intent.amount) {
+      throw new Error("Refund exceeds captured amount");
+    }
+    intent.refunded += amount;
+    return {
+      refundId: `fake_refund_${crypto.randomBytes(8).toString("hex")}`,
+      amount,
+    };
+  }
+
+  verifyWebhookSignature(rawBody: string, signature: string): boolean {
+    const expected = this.sign(rawBody);
+    const given = Buffer.from(signature || "", "utf8");
+    const wanted = Buffer.from(expected, "utf8");
+    return (
+      given.length === wanted.length && crypto.timingSafeEqual(given, wanted)
+    );
+  }
+
+  parseWebhookEvent(rawBody: string): PaymentEvent | null {
+    const event = JSON.parse(rawBody);
+    return event?.type && event?.intentId ? (event as PaymentEvent) : null;
+  }
+
+  // Simulate the customer paying; returns the webhook the gateway would send
+  completePayment(intentId: string): SignedWebhook {
+    const intent = this.getIntent(intentId);
+    intent.paymentId = `fake_pay_${crypto.randomBytes(8).toString("hex")}`;
+    intent.status = "captured";
+
+    return this.buildWebhook({
+      type: "payment.captured",
+      intentId,
+      paymentId: intent.paymentId,
+      amount: intent.amount,
+    });
+  }
+
+  // Simulate a declined payment
+  failPayment(
+    intentId: string,
+    reason: string = "Card declined"
+  ): SignedWebhook {
+    const intent = this.getIntent(intentId);
+    intent.status = "failed";
+
+    return this.buildWebhook({
+      type: "payment.failed",
+      intentId,
+      amount: intent.amount,
+      failureReason: reason,
+    });
+  }
+
+  buildWebhook(event: PaymentEvent): SignedWebhook {
+    const rawBody = JSON.stringify(event);
+    return { rawBody, signature: this.sign(rawBody) };
+  }
+
+  private sign(rawBody: string): string {
+    return crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(rawBody)
+      .digest("hex");
+  }
+
+  private getIntent(intentId: string): FakeIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) throw new Error(`Unknown payment intent ${intentId}`);
+    return intent;
+  }
+
+  private findByPayment(paymentId: string): FakeIntent {
+    for (const intent of this.intents.values()) {
+      if (intent.paymentId === paymentId) return intent;
+    }
+    throw new Error(`Unknown payment ${paymentId}`);
+  }
+}
@@ -0,0 +1,57 @@
+// Contract every payment gateway adapter implements. Amounts are always in
+// the major currency unit (rupees); adapters convert to what the gateway uses.
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  // Our own reference (Payment._id), echoed back in webhook events
+  reference: string;
+  notes?: Record<string, string>;
+}
+
+export interface PaymentIntent {
+  intentId: string;
+  amount: number;
+  currency: string;
+  // Whatever the client SDK needs to open the checkout
+  clientPayload: Record<string, unknown>;
+}
+
+export interface CaptureResult {
+  paymentId: string;
+  amount: number;
+}
+
+export interface RefundResult {
+  refundId: string;
+  amount: number;
+}
+
+export type PaymentEventType =
+  | "payment.captured"
+  | "payment.failed"
+  | "refund.processed";
+
+export interface PaymentEvent {
+  type: PaymentEventType;
+  intentId: string;
+  paymentId?: string;
+  amount: number;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  // Request header carrying the webhook signature
+  readonly signatureHeader: string;
+  createIntent(params: CreateIntentParams): Promise<PaymentIntent>;
+  capture(
+    paymentId: string,
+    amount: number,
+    currency: string
+  ): Promise<CaptureResult>;
+  refund(paymentId: string, amount: number): Promise<RefundResult>;
+  verifyWebhookSignature(rawBody: string, signature: string): boolean;
+  // Map a verified webhook body to an event; null for events we ignore
+  parseWebhookEvent(rawBody: string): PaymentEvent | null;
+}
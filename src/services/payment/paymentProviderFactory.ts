@@ -0,0 +1,43 @@
+import { PaymentProvider } from "./paymentProvider";
+import { RazorpayProvider } from "./razorpayProvider";
+import { FakePaymentProvider } from "./fakePaymentProvider";
+
+let provider: PaymentProvider | null = null;
+
+// PAYMENT_PROVIDER picks the gateway; without it production uses Razorpay
+// and everything else the in-process fake
+export const getPaymentProvider = (): PaymentProvider => {
+  if (provider) return provider;
+
+  const name =
+    process.env.PAYMENT_PROVIDER ||
+    (process.env.NODE_ENV === "production" ? "razorpay" : "fake");
+
+  switch (name) {
+    case "razorpay":
+      // Without a secret any caller could sign webhooks, so refuse to start
+      if (!process.env.RAZORPAY_WEBHOOK_SECRET) {
+        throw new Error("RAZORPAY_WEBHOOK_SECRET is required for Razorpay");
+      }
+      provider = new RazorpayProvider(
+        process.env.RAZORPAY_KEY_ID || "",
+        process.env.RAZORPAY_KEY_SECRET || "",
+        process.env.RAZORPAY_WEBHOOK_SECRET
+      );
+      break;
+    case "fake":
+      provider = new FakePaymentProvider(
+        process.env.FAKE_PAYMENT_WEBHOOK_SECRET
+      );
+      break;
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+
+  return provider;
+};
+
+// Swap the provider (tests)
+export const setPaymentProvider = (next: PaymentProvider | null) => {
+  provider = next;
+};
@@ -0,0 +1,358 @@
+import mongoose from "mongoose";
+import Booking from "../../models/Booking";
+import Payment, { IPayment } from "../../models/Payment";
+import { CapacityService } from "../booking/capacityService";
+import { WaitlistService } from "../booking/waitlistService";
+import { RescheduleService } from "../booking/rescheduleService";
+import { PackageService } from "../package/packageService";
+import { DiscountService } from "../discount/discountService";
+import { getPaymentProvider } from "./paymentProviderFactory";
+import { PaymentEvent } from "./paymentProvider";
+
+export interface CheckoutParams {
+  userId: string | mongoose.Types.ObjectId;
+  shalaId: string | mongoose.Types.ObjectId;
+  purpose: IPayment["purpose"];
+  amount: number;
+  bookingId?: mongoose.Types.ObjectId;
+  packageId?: mongoose.Types.ObjectId;
+}
+
+// What the client needs to open the gateway checkout
+export interface CheckoutDetails {
+  paymentId: string;
+  provider: string;
+  intentId: string;
+  amount: number;
+  currency: string;
+  clientPayload: Record<string, unknown>;
+}
+
+export interface PaymentResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  event?: string;
+}
+
+export class PaymentService {
+  static readonly CURRENCY = process.env.PAYMENT_CURRENCY || "INR";
+
+  // Unpaid bookings and reschedules give their spot back after this long
+  static readonly PAYMENT_TIMEOUT_MINUTES =
+    Number(process.env.PAYMENT_TIMEOUT_MINUTES) || 30;
+
+  static readonly ERROR_CODES = {
+    INVALID_SIGNATURE: "INVALID_SIGNATURE",
+    PAYMENT_NOT_FOUND: "PAYMENT_NOT_FOUND",
+    PAYMENT_PROVIDER_ERROR: "PAYMENT_PROVIDER_ERROR",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  // Open a payment with the gateway and record it
+  static async startCheckout(params: CheckoutParams): Promise<CheckoutDetails> {
+    const provider = getPaymentProvider();
+    const paymentId = new mongoose.Types.ObjectId();
+
+    const intent = await provider.createIntent({
+      amount: params.amount,
+      currency: this.CURRENCY,
+      reference: paymentId.toString(),
+      notes: { purpose: params.purpose },
+    });
+
+    await Payment.create({
+      _id: paymentId,
+      user: params.userId,
+      shala: params.shalaId,
+      purpose: params.purpose,
+      booking: params.bookingId,
+      packageId: params.packageId,
+      provider: provider.name,
+      providerIntentId: intent.intentId,
+      amount: intent.amount,
+      currency: intent.currency,
+    });
+
+    return {
+      paymentId: paymentId.toString(),
+      provider: provider.name,
+      intentId: intent.intentId,
+      amount: intent.amount,
+      currency: intent.currency,
+      clientPayload: intent.clientPayload,
+    };
+  }
+
+  // Verify and apply a gateway webhook. Safe to receive the same event twice.
+  static async handleWebhook(
+    rawBody: string,
+    signature: string
+  ): Promise<PaymentResult> {
+    try {
+      const provider = getPaymentProvider();
+
+      if (!provider.verifyWebhookSignature(rawBody, signature)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.INVALID_SIGNATURE,
+          statusCode: 401,
+          message: "Invalid webhook signature",
+        };
+      }
+
+      const event = provider.parseWebhookEvent(rawBody);
+      if (!event) {
+        return { success: true, message: "Event ignored" };
+      }
+
+      const payment = await Payment.findOne({
+        provider: provider.name,
+        providerIntentId: event.intentId,
+      });
+
+      if (!payment) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.PAYMENT_NOT_FOUND,
+          statusCode: 404,
+          message: "Payment not found",
+        };
+      }
+
+      if (event.type === "payment.captured") {
+        await this.onCaptured(payment, event);
+      } else if (event.type === "payment.failed") {
+        await this.onFailed(payment, event);
+      }
+
+      return {
+        success: true,
+        message: "Webhook processed",
+        event: event.type,
+      };
+    } catch (error) {
+      console.error("Payment webhook error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while processing webhook",
+      };
+    }
+  }
+
+  // Refund part or all of what was captured for a booking. A rescheduled
+  // booking can have several payments; the oldest is refunded first.
+  static async refundBooking(
+    bookingId: mongoose.Types.ObjectId,
+    amount: number
+  ): Promise<boolean> {
+    const payments = await Payment.find({
+      booking: bookingId,
+      status: { $in: ["captured", "partially_refunded"] },
+    }).sort({ createdAt: 1 });
+    if (payments.length === 0 || amount <= 0) return false;
+
+    let remaining = amount;
+    for (const payment of payments) {
+      if (remaining <= 0) break;
+      const refundable = Math.min(
+        remaining,
+        payment.amount - payment.refundedAmount
+      );
+      await this.refundPayment(payment, refundable);
+      remaining = Math.round((remaining - refundable) * 100) / 100;
+    }
+    return true;
+  }
+
+  // Release bookings whose payment never arrived (scheduled job)
+  static async expireStalePayments(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - this.PAYMENT_TIMEOUT_MINUTES * 60 * 1000
+    );
+
+    const stale = await Payment.find({
+      status: { $in: ["created", "failed"] },
+      createdAt: { $lte: cutoff },
+    }).limit(100);
+
+    let expired = 0;
+    for (const payment of stale) {
+      const updated = await Payment.findOneAndUpdate(
+        { _id: payment._id, status: { $in: ["created", "failed"] } },
+        { $set: { status: "expired", updatedAt: new Date() } }
+      );
+      if (!updated) continue;
+
+      expired++;
+      if (payment.purpose === "reschedule") {
+        await RescheduleService.releaseHeldMove(payment);
+      } else if (payment.booking) {
+        await this.cancelUnpaidBooking(payment.booking);
+      } else {
+        await DiscountService.releaseForPayment(payment._id);
+      }
+    }
+
+    return expired;
+  }
+
+  private static async onCaptured(
+    payment: IPayment,
+    event: PaymentEvent
+  ): Promise<void> {
+    // A payment that already expired can still be captured by the gateway;
+    // it is refunded below because its booking is gone
+    const updated = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: { $in: ["created", "failed", "expired"] } },
+      {
+        $set: {
+          status: "captured",
+          providerPaymentId: event.paymentId,
+          capturedAt: new Date(),
+          updatedAt: new Date(),
+        },
+        $unset: { failureReason: 1 },
+      },
+      { new: true }
+    );
+    if (!updated) return;
+
+    if (updated.purpose === "reschedule") {
+      const moved = await RescheduleService.completePaidMove(updated);
+      if (!moved) {
+        await this.refundPayment(updated, updated.amount);
+      }
+      return;
+    }
+
+    if (updated.purpose === "booking") {
+      const booking = await Booking.findOneAndUpdate(
+        { _id: updated.booking, status: "pending" },
+        {
+          $set: {
+            status: "confirmed",
+            paymentStatus: "completed",
+            transactionId: event.paymentId,
+            amountPaid: updated.amount,
+            updatedAt: new Date(),
+          },
+        }
+      );
+
+      if (!booking) {
+        await this.refundPayment(updated, updated.amount);
+      }
+      return;
+    }
+
+    const granted = await PackageService.grantPackage(
+      updated.user.toString(),
+      updated.shala.toString(),
+      updated.packageId?.toString() || "",
+      updated.amount
+    );
+
+    if (!granted.success) {
+      await this.refundPayment(updated, updated.amount);
+    }
+  }
+
+  // The gateway lets the customer retry on the same intent, so a failed
+  // attempt only flags the booking; the timeout releases the spot
+  private static async onFailed(
+    payment: IPayment,
+    event: PaymentEvent
+  ): Promise<void> {
+    const updated = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: "created" },
+      {
+        $set: {
+          status: "failed",
+          failureReason: event.failureReason,
+          updatedAt: new Date(),
+        },
+      }
+    );
+
+    if (updated?.booking) {
+      await Booking.updateOne(
+        { _id: updated.booking, status: "pending" },
+        { $set: { paymentStatus: "failed", updatedAt: new Date() } }
+      );
+    }
+  }
+
+  private static async refundPayment(
+    payment: IPayment,
+    amount: number
+  ): Promise<void> {
+    if (!payment.providerPaymentId) return;
+
+    const refundable = payment.amount - payment.refundedAmount;
+    const refundAmount = Math.min(amount, refundable);
+    if (refundAmount <= 0) return;
+
+    const refund = await getPaymentProvider().refund(
+      payment.providerPaymentId,
+      refundAmount
+    );
+
+    const refundedAmount = payment.refundedAmount + refund.amount;
+    await Payment.updateOne(
+      { _id: payment._id },
+      {
+        $set: {
+          status:
+            refundedAmount >= payment.amount
+              ? "refunded"
+              : "partially_refunded",
+          refundedAmount,
+          updatedAt: new Date(),
+        },
+        $push: {
+          refunds: {
+            refundId: refund.refundId,
+            amount: refund.amount,
+            createdAt: new Date(),
+          },
+        },
+      }
+    );
+  }
+
+  private static async cancelUnpaidBooking(
+    bookingId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    const booking = await Booking.findOneAndUpdate(
+      { _id: bookingId, status: "pending" },
+      {
+        $set: {
+          status: "cancelled",
+          paymentStatus: "failed",
+          cancelledAt: new Date(),
+          cancellationReason: "Payment not completed in time",
+          updatedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!booking) return;
+
+    if (booking.discount?.code) {
+      await DiscountService.releaseForBooking(bookingId);
+    }
+    if (!booking.occurrence) return;
+
+    await CapacityService.releaseSpots(booking.occurrence, booking.spots);
+
+    try {
+      await WaitlistService.onBookingCancelled(booking);
+    } catch (error) {
+      console.error("Waitlist promotion error:", error);
+    }
+  }
+}
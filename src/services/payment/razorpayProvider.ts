@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import {
+  CaptureResult,
+  CreateIntentParams,
+  PaymentEvent,
+  PaymentIntent,
+  PaymentProvider,
+  RefundResult,
+} from "./paymentProvider";
+
+const API_BASE = "https://api.razorpay.com/v1";
+
+// Razorpay works in the smallest currency unit (paise)
+const toMinor = (amount: number) => Math.round(amount * 100);
+const fromMinor = (amount: number) => amount / 100;
+
+export class RazorpayProvider implements PaymentProvider {
+  readonly name = "razorpay";
+  readonly signatureHeader = "x-razorpay-signature";
+
+  constructor(
+    private keyId: string,
+    private keySecret: string,
+    private webhookSecret: string
+  ) {}
+
+  async createIntent(params: CreateIntentParams): Promise<PaymentIntent> {
+    const order = await this.request("/orders", {
+      amount: toMinor(params.amount),
+      currency: params.currency,
+      receipt: params.reference,
+      notes: { ...params.notes, reference: params.reference },
+    });
+
+    return {
+      intentId: order.id,
+      amount: fromMinor(order.amount),
+      currency: order.currency,
+      clientPayload: { key: this.keyId, order_id: order.id },
+    };
+  }
+
+  async capture(
+    paymentId: string,
+    amount: number,
+    currency: string
+  ): Promise<CaptureResult> {
+    const payment = await this.request(`/payments/${paymentId}/capture`, {
+      amount: toMinor(amount),
+      currency,
+    });
+    return { paymentId: payment.id, amount: fromMinor(payment.amount) };
+  }
+
+  async refund(paymentId: string, amount: number): Promise<RefundResult> {
+    const refund = await this.request(`/payments/${paymentId}/refund`, {
+      amount: toMinor(amount),
+    });
+    return { refundId: refund.id, amount: fromMinor(refund.amount) };
+  }
+
+  // X-Razorpay-Signature is a hex HMAC-SHA256 of the raw body
+  verifyWebhookSignature(rawBody: string, signature: string): boolean {
+    // An empty key would make every signature forgeable
+    if (!this.webhookSecret) return false;
+
+    const expected = crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(rawBody)
+      .digest("hex");
+
+    const given = Buffer.from(signature || "", "utf8");
+    const wanted = Buffer.from(expected, "utf8");
+    return (
+      given.length === wanted.length && crypto.timingSafeEqual(given, wanted)
+    );
+  }
+
+  parseWebhookEvent(rawBody: string): PaymentEvent | null {
+    const body = JSON.parse(rawBody);
+    const payment = body.payload?.payment?.entity;
+
+    switch (body.event) {
+      case "payment.captured":
+        return {
+          type: "payment.captured",
+          intentId: payment.order_id,
+          paymentId: payment.id,
+          amount: fromMinor(payment.amount),
+        };
+      case "payment.failed":
+        return {
+          type: "payment.failed",
+          intentId: payment.order_id,
+          paymentId: payment.id,
+          amount: fromMinor(payment.amount),
+          failureReason: payment.error_description,
+        };
+      case "refund.processed": {
+        const refund = body.payload?.refund?.entity;
+        if (!payment?.order_id || !refund) return null;
+        return {
+          type: "refund.processed",
+          intentId: payment.order_id,
+          paymentId: refund.payment_id,
+          amount: fromMinor(refund.amount),
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private async request(path: string, body: unknown): Promise<any> {
+    const auth = Buffer.from(`${this.keyId}:${this.keySecret}`).toString(
+      "base64"
+    );
+
+    const response = await fetch(`${API_BASE}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data: any = await response.json();
+    if (!response.ok) {
+      throw new Error(
+        `Razorpay ${path} failed: ${data?.error?.description || response.status}`
+      );
+    }
+    return data;
+  }
+}
@@ -0,0 +1,424 @@
+import mongoose from "mongoose";
+import Booking from "../../models/Booking";
+import ClassOccurrence from "../../models/ClassOccurrence";
+import User, { IUser } from "../../models/User";
+import YogaShala, { PUBLISHED_SHALA_FILTER } from "../../models/YogaShala";
+import { ClassLevel, YogaStyle } from "../../constants/yoga";
+import { normalizeDate } from "../../utils/schedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecommendationQuery {
+  lat?: string;
+  lng?: string;
+  radius?: string;
+  days?: string;
+  limit?: string;
+}
+
+export interface RecommendationParams {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  // Days ahead, today included, to look for classes
+  days: number;
+  limit: number;
+}
+
+// What the ranking knows about the user
+export interface RecommendationProfile {
+  preferredStyles: YogaStyle[];
+  experience: IUser["experience"];
+  // Completed bookings per shala ID
+  attendance: Map<string, number>;
+  radiusKm: number;
+}
+
+// An upcoming class with the details of its shala used for scoring
+export interface ClassCandidate {
+  shalaId: string;
+  className: string;
+  style?: YogaStyle;
+  level?: ClassLevel;
+  distance: number;
+  rating: number;
+  reviewCount: number;
+}
+
+export interface ClassScore {
+  score: number;
+  reasons: string[];
+}
+
+export interface RecommendationResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  recommendations?: any[];
+  location?: { lat: number; lng: number };
+  radiusKm?: number;
+}
+
+const LEVEL_RANK: Record<IUser["experience"], number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+};
+
+// "hot_yoga" -> "Hot Yoga"
+const styleLabel = (style: string) =>
+  style
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+// Letters only, so "Hot-Yoga Flow" contains "hotyoga"
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z]/g, "");
+
+export class RecommendationService {
+  static readonly ERROR_CODES = {
+    USER_NOT_FOUND: "USER_NOT_FOUND",
+    INVALID_QUERY: "INVALID_QUERY",
+    LOCATION_REQUIRED: "LOCATION_REQUIRED",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  } as const;
+
+  static readonly MAX_RADIUS_KM = 50;
+  static readonly MAX_DAYS = 14;
+  static readonly MAX_LIMIT = 50;
+  // Nearest shalas whose classes are considered
+  static readonly CANDIDATE_SHALAS = 50;
+  // Keeps one busy shala from filling the whole list
+  static readonly MAX_PER_SHALA = 3;
+
+  // Points each signal can add to a class's score
+  static readonly WEIGHTS = {
+    style: 40,
+    level: 25,
+    attendance: 20,
+    distance: 15,
+    rating: 10,
+  } as const;
+
+  // Params from the query string, falling back to the user's preferred
+  // location and max distance
+  static parseQuery(
+    query: RecommendationQuery,
+    user: Pick<IUser, "preferredLocation" | "maxDistance">
+  ): RecommendationParams | RecommendationResult {
+    const invalid = (
+      message: string,
+      code: string = this.ERROR_CODES.INVALID_QUERY
+    ) => ({
+      success: false,
+      code,
+      statusCode: 400,
+      message,
+    });
+
+    let lat = query.lat ? Number(query.lat) : undefined;
+    let lng = query.lng ? Number(query.lng) : undefined;
+
+    if ((lat === undefined) !== (lng === undefined)) {
+      return invalid("lat and lng must be given together");
+    }
+
+    const coordinates = user.preferredLocation?.coordinates;
+    if (lat === undefined && coordinates?.length === 2) {
+      [lng, lat] = coordinates;
+    }
+
+    if (lat === undefined || lng === undefined) {
+      return invalid(
+        "lat and lng are required when no preferred location is set",
+        this.ERROR_CODES.LOCATION_REQUIRED
+      );
+    }
+    if (!(Math.abs(lat) <= 90) || !(Math.abs(lng) <= 180)) {
+      return invalid("lat or lng is out of range");
+    }
+
+    const radiusKm = Math.min(
+      query.radius ? Number(query.radius) : user.maxDistance || 10,
+      this.MAX_RADIUS_KM
+    );
+    if (!(radiusKm > 0)) {
+      return invalid("radius must be above 0 km");
+    }
+
+    return {
+      lat,
+      lng,
+      radiusKm,
+      days: Math.min(
+        this.MAX_DAYS,
+        Math.max(1, parseInt(query.days || "7") || 7)
+      ),
+      limit: Math.min(
+        this.MAX_LIMIT,
+        Math.max(1, parseInt(query.limit || "10") || 10)
+      ),
+    };
+  }
+
+  // Upcoming classes near the user with spots left, best match first
+  static async getRecommendations(
+    userId: string,
+    query: RecommendationQuery,
+    now: Date = new Date()
+  ): Promise<RecommendationResult> {
+    try {
+      const user = await User.findById(userId)
+        .select("preferredStyles experience preferredLocation maxDistance")
+        .lean();
+
+      if (!user) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.USER_NOT_FOUND,
+          statusCode: 404,
+          message: "User not found",
+        };
+      }
+
+      const params = this.parseQuery(query, user);
+      if ("success" in params) return params;
+
+      const shalas = await YogaShala.aggregate([
+        {
+          $geoNear: {
+            near: { type: "Point", coordinates: [params.lng, params.lat] },
+            distanceField: "distance",
+            maxDistance: params.radiusKm * 1000,
+            distanceMultiplier: 0.001,
+            spherical: true,
+            query: PUBLISHED_SHALA_FILTER,
+          },
+        },
+        { $limit: this.CANDIDATE_SHALAS },
+        {
+          $project: {
+            name: 1,
+            address: 1,
+            distance: { $round: ["$distance", 2] },
+            rating: 1,
+            reviewCount: 1,
+            images: { $slice: ["$images", 1] },
+          },
+        },
+      ]);
+
+      const shalasById = new Map<string, any>(
+        shalas.map((shala) => [shala._id.toString(), shala])
+      );
+
+      const today = normalizeDate(now);
+      const [occurrences, attended] = await Promise.all([
+        ClassOccurrence.find({
+          shala: { $in: shalas.map((shala) => shala._id) },
+          status: "scheduled",
+          date: { $lt: new Date(today.getTime() + params.days * DAY_MS) },
+          startsAt: { $gt: now },
+          $expr: { $lt: ["$bookedCount", "$capacity"] },
+        })
+          .sort({ startsAt: 1, _id: 1 })
+          .lean(),
+        Booking.aggregate([
+          {
+            $match: {
+              user: new mongoose.Types.ObjectId(userId),
+              status: "completed",
+            },
+          },
+          { $group: { _id: "$shala", count: { $sum: 1 } } },
+        ]),
+      ]);
+
+      const profile: RecommendationProfile = {
+        preferredStyles: user.preferredStyles || [],
+        experience: user.experience || "beginner",
+        attendance: new Map(
+          attended.map((entry) => [entry._id.toString(), entry.count])
+        ),
+        radiusKm: params.radiusKm,
+      };
+
+      const scored = occurrences.map((occurrence) => {
+        const shala = shalasById.get(occurrence.shala.toString());
+        return {
+          occurrence,
+          shala,
+          ...this.scoreClass(
+            {
+              shalaId: occurrence.shala.toString(),
+              className: occurrence.className,
+              style: occurrence.style,
+              level: occurrence.level,
+              distance: shala.distance,
+              rating: shala.rating || 0,
+              reviewCount: shala.reviewCount || 0,
+            },
+            profile
+          ),
+        };
+      });
+
+      // Occurrences come sorted by start time, and the sort is stable, so
+      // equal scores keep the soonest class first
+      scored.sort((a, b) => b.score - a.score);
+
+      const perShala = new Map<string, number>();
+      const recommendations = [];
+      for (const entry of scored) {
+        if (recommendations.length >= params.limit) break;
+
+        const shalaId = entry.shala._id.toString();
+        const count = perShala.get(shalaId) || 0;
+        if (count >= this.MAX_PER_SHALA) continue;
+        perShala.set(shalaId, count + 1);
+
+        const { occurrence, shala } = entry;
+        recommendations.push({
+          class: {
+            id: occurrence._id,
+            date: occurrence.date,
+            day: occurrence.day,
+            startTime: occurrence.startTime,
+            endTime: occurrence.endTime,
+            timezone: occurrence.timezone,
+            startsAt: occurrence.startsAt,
+            endsAt: occurrence.endsAt,
+            className: occurrence.className,
+            style: occurrence.style,
+            level: occurrence.level,
+            instructor:
+              occurrence.substituteInstructor || occurrence.instructor,
+            price: occurrence.price,
+            remainingSpots: Math.max(
+              0,
+              occurrence.capacity - occurrence.bookedCount
+            ),
+          },
+          shala: {
+            _id: shala._id,
+            name: shala.name,
+            address: shala.address,
+            distance: shala.distance,
+            rating: shala.rating,
+            reviewCount: shala.reviewCount,
+            image: shala.images?.[0],
+          },
+          score: entry.score,
+          reasons: entry.reasons,
+          explanation: entry.reasons.join(", "),
+        });
+      }
+
+      return {
+        success: true,
+        message: "Recommendations retrieved successfully",
+        recommendations,
+        location: { lat: params.lat, lng: params.lng },
+        radiusKm: params.radiusKm,
+      };
+    } catch (error) {
+      console.error("Get recommendations error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while building recommendations",
+      };
+    }
+  }
+
+  // Score out of 110 with the reasons behind it, strongest first and the
+  // distance always last
+  static scoreClass(
+    candidate: ClassCandidate,
+    profile: RecommendationProfile
+  ): ClassScore {
+    const signals: { points: number; reason?: string }[] = [];
+
+    const style = this.matchStyle(candidate, profile.preferredStyles);
+    if (style) {
+      signals.push({
+        points: this.WEIGHTS.style,
+        reason: `matches your ${styleLabel(style)} preference`,
+      });
+    }
+
+    signals.push(this.scoreLevel(candidate.level, profile.experience));
+
+    const visits = profile.attendance.get(candidate.shalaId) || 0;
+    if (visits > 0) {
+      signals.push({
+        points: (Math.min(visits, 5) / 5) * this.WEIGHTS.attendance,
+        reason: `you've practised here ${visits === 1 ? "once" : `${visits} times`}`,
+      });
+    }
+
+    if (candidate.reviewCount > 0) {
+      signals.push({
+        points: (candidate.rating / 5) * this.WEIGHTS.rating,
+        reason:
+          candidate.rating >= 4.5 && candidate.reviewCount >= 3
+            ? `rated ${candidate.rating.toFixed(1)}`
+            : undefined,
+      });
+    }
+
+    const closeness = Math.max(0, 1 - candidate.distance / profile.radiusKm);
+    const score = signals.reduce(
+      (total, signal) => total + signal.points,
+      closeness * this.WEIGHTS.distance
+    );
+
+    const reasons = signals
+      .filter((signal) => signal.reason && signal.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .map((signal) => signal.reason as string);
+    reasons.push(`${candidate.distance.toFixed(1)} km away`);
+
+    return { score: Math.round(score * 10) / 10, reasons };
+  }
+
+  // Preferred style the class teaches, by its style tag or its name
+  private static matchStyle(
+    candidate: Pick<ClassCandidate, "style" | "className">,
+    preferredStyles: YogaStyle[]
+  ): YogaStyle | undefined {
+    if (candidate.style) {
+      return preferredStyles.includes(candidate.style)
+        ? candidate.style
+        : undefined;
+    }
+    const name = compact(candidate.className);
+    return preferredStyles.find((style) => name.includes(compact(style)));
+  }
+
+  // Classes at the user's level score best; easier ones a little, harder
+  // ones count against the class
+  private static scoreLevel(
+    level: ClassLevel | undefined,
+    experience: IUser["experience"]
+  ): { points: number; reason?: string } {
+    if (!level || level === "all_levels") {
+      return {
+        points: this.WEIGHTS.level * 0.6,
+        reason: level ? "open to all levels" : undefined,
+      };
+    }
+
+    const gap = LEVEL_RANK[level] - LEVEL_RANK[experience];
+    if (gap === 0) {
+      return {
+        points: this.WEIGHTS.level,
+        reason: `suits your ${experience} level`,
+      };
+    }
+    if (gap < 0) return { points: this.WEIGHTS.level * 0.4 };
+    return { points: -this.WEIGHTS.level * gap };
+  }
+}
@@ -0,0 +1,486 @@
+import mongoose, { ClientSession, PipelineStage } from "mongoose";
+import Booking from "../../models/Booking";
+import Review from "../../models/Review";
+import YogaShala from "../../models/YogaShala";
+import { withTransaction } from "../../utils/database";
+
+export interface ReviewData {
+  rating?: number;
+  comment?: string;
+}
+
+export interface ReviewActor {
+  id: string;
+  role: string;
+}
+
+export interface ListReviewsQuery {
+  page?: string;
+  limit?: string;
+}
+
+export interface ReviewResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  review?: any;
+  reviews?: any[];
+  summary?: {
+    rating: number;
+    reviewCount: number;
+  };
+  pagination?: {
+    current: number;
+    pages: number;
+    total: number;
+    limit: number;
+  };
+}
+
+export class ReviewService {
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    REVIEW_NOT_FOUND: "REVIEW_NOT_FOUND",
+    NOT_AUTHORIZED: "NOT_AUTHORIZED",
+    NOT_ELIGIBLE: "NOT_ELIGIBLE",
+    ALREADY_REVIEWED: "ALREADY_REVIEWED",
+    INVALID_REVIEW: "INVALID_REVIEW",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  static readonly MAX_LIMIT = 50;
+
+  // Newest reviews first, with the shala's current rating
+  static async listReviews(
+    shalaId: string,
+    query: ListReviewsQuery = {}
+  ): Promise<ReviewResult> {
+    try {
+      const shala =
+        await YogaShala.findById(shalaId).select("rating reviewCount");
+      if (!shala) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
+          message: "Shala not found",
+        };
+      }
+
+      const page = Math.max(1, parseInt(query.page || "1") || 1);
+      const limit = Math.min(
+        this.MAX_LIMIT,
+        Math.max(1, parseInt(query.limit || "10") || 10)
+      );
+
+      const [reviews, total] = await Promise.all([
+        Review.find({ shala: shalaId })
+          .populate("user", "name profilePicture")
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Review.countDocuments({ shala: shalaId }),
+      ]);
+
+      return {
+        success: true,
+        message: "Reviews retrieved successfully",
+        reviews,
+        summary: { rating: shala.rating, reviewCount: shala.reviewCount },
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total,
+          limit,
+        },
+      };
+    } catch (error) {
+      console.error("List reviews error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching reviews",
+      };
+    }
+  }
+
+  // Latest reviews shown on the shala page
+  static async getRecentReviews(shalaId: string, limit = 5) {
+    return Review.find({ shala: shalaId })
+      .populate("user", "name")
+      .sort({ createdAt: -1 })
+      .limit(limit);
+  }
+
+  // Only users who attended a class at the shala can review it, once
+  static async createReview(
+    userId: string,
+    shalaId: string,
+    data: ReviewData
+  ): Promise<ReviewResult> {
+    try {
+      const invalid = this.validate(data, true);
+      if (invalid) return invalid;
+
+      const shala = await YogaShala.exists({ _id: shalaId });
+      if (!shala) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
+          message: "Shala not found",
+        };
+      }
+
+      // Settled as completed and checked in at the front desk, so the user
+      // was actually there
+      const booking = await Booking.findOne({
+        user: userId,
+        shala: shalaId,
+        status: "completed",
+        checkedIn: true,
+      })
+        .sort({ date: -1 })
+        .select("_id");
+      if (!booking) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_ELIGIBLE,
+          statusCode: 403,
+          message: "You can review a shala after attending a class there",
+        };
+      }
+
+      if (await Review.exists({ user: userId, shala: shalaId })) {
+        return this.alreadyReviewed();
+      }
+
+      const review = await withTransaction(async (session) => {
+        const [created] = await Review.create(
+          [
+            {
+              user: userId,
+              shala: shalaId,
+              booking: booking._id,
+              rating: data.rating,
+              comment: data.comment,
+            },
+          ],
+          { session }
+        );
+        await this.updateRating(shalaId, data.rating!, 1, session);
+        return created;
+      });
+
+      return {
+        success: true,
+        message: "Review created successfully",
+        review,
+      };
+    } catch (error: any) {
+      // Lost a race with another request from the same user
+      if (error?.code === 11000) {
+        return this.alreadyReviewed();
+      }
+
+      console.error("Create review error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while creating review",
+      };
+    }
+  }
+
+  // Authors can change their rating and comment
+  static async updateReview(
+    userId: string,
+    shalaId: string,
+    reviewId: string,
+    data: ReviewData
+  ): Promise<ReviewResult> {
+    try {
+      const invalid = this.validate(data, false);
+      if (invalid) return invalid;
+
+      const found = await this.findReview(shalaId, reviewId);
+      if ("success" in found) return found;
+
+      if (found.user.toString() !== userId) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_AUTHORIZED,
+          statusCode: 403,
+          message: "Not authorized to edit this review",
+        };
+      }
+
+      const update: ReviewData = {};
+      if (data.rating !== undefined) update.rating = data.rating;
+      if (data.comment !== undefined) update.comment = data.comment;
+
+      const review = await withTransaction(async (session) => {
+        // The previous rating comes from the same atomic update
+        const previous = await Review.findOneAndUpdate(
+          { _id: found._id },
+          { $set: { ...update, updatedAt: new Date() } },
+          { session, runValidators: true }
+        );
+        if (previous && update.rating !== undefined) {
+          await this.updateRating(
+            shalaId,
+            update.rating - previous.rating,
+            0,
+            session
+          );
+        }
+        return Review.findById(found._id).session(session);
+      });
+
+      return {
+        success: true,
+        message: "Review updated successfully",
+        review,
+      };
+    } catch (error) {
+      console.error("Update review error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while updating review",
+      };
+    }
+  }
+
+  // Authors and admins can delete a review
+  static async deleteReview(
+    actor: ReviewActor,
+    shalaId: string,
+    reviewId: string
+  ): Promise<ReviewResult> {
+    try {
+      const found = await this.findReview(shalaId, reviewId);
+      if ("success" in found) return found;
+
+      if (actor.role !== "admin" && found.user.toString() !== actor.id) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_AUTHORIZED,
+          statusCode: 403,
+          message: "Not authorized to delete this review",
+        };
+      }
+
+      await withTransaction(async (session) => {
+        const deleted = await Review.findOneAndDelete(
+          { _id: found._id },
+          { session }
+        );
+        if (deleted) {
+          await this.updateRating(shalaId, -deleted.rating, -1, session);
+        }
+      });
+
+      return {
+        success: true,
+        message: "Review deleted successfully",
+      };
+    } catch (error) {
+      console.error("Delete review error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while deleting review",
+      };
+    }
+  }
+
+  // The shala owner's public reply; replying again replaces it
+  static async replyToReview(
+    actor: ReviewActor,
+    shalaId: string,
+    reviewId: string,
+    text: string
+  ): Promise<ReviewResult> {
+    try {
+      if (typeof text !== "string" || !text.trim()) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.INVALID_REVIEW,
+          statusCode: 400,
+          message: "Reply text is required",
+        };
+      }
+
+      const shala = await YogaShala.findById(shalaId).select("owner");
+      if (!shala) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
+          message: "Shala not found",
+        };
+      }
+      if (actor.role !== "admin" && shala.owner?.toString() !== actor.id) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NOT_AUTHORIZED,
+          statusCode: 403,
+          message: "Only the shala owner can reply to reviews",
+        };
+      }
+
+      if (!mongoose.Types.ObjectId.isValid(reviewId)) {
+        return this.reviewNotFound();
+      }
+
+      const review = await Review.findOneAndUpdate(
+        { _id: reviewId, shala: shalaId },
+        {
+          $set: {
+            reply: {
+              text: text.trim(),
+              repliedBy: actor.id,
+              repliedAt: new Date(),
+            },
+          },
+        },
+        { new: true, runValidators: true }
+      ).populate("user", "name profilePicture");
+
+      if (!review) {
+        return this.reviewNotFound();
+      }
+
+      return {
+        success: true,
+        message: "Reply saved successfully",
+        review,
+      };
+    } catch (error) {
+      console.error("Reply to review error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while replying to review",
+      };
+    }
+  }
+
+  // Update-pipeline that moves the shala's rating by one review without
+  // rescanning them. `ratingSum` keeps the exact total so rounding never
+  // drifts; shalas rated before it existed start from rating * count.
+  static buildRatingUpdate(
+    ratingDelta: number,
+    countDelta: number
+  ): PipelineStage.Set[] {
+    return [
+      {
+        $set: {
+          ratingSum: {
+            $add: [
+              {
+                $ifNull: [
+                  "$ratingSum",
+                  { $multiply: ["$rating", "$reviewCount"] },
+                ],
+              },
+              ratingDelta,
+            ],
+          },
+          reviewCount: {
+            $max: [0, { $add: ["$reviewCount", countDelta] }],
+          },
+        },
+      },
+      {
+        $set: {
+          rating: {
+            $cond: [
+              { $gt: ["$reviewCount", 0] },
+              { $round: [{ $divide: ["$ratingSum", "$reviewCount"] }, 1] },
+              0,
+            ],
+          },
+          ratingSum: {
+            $cond: [{ $gt: ["$reviewCount", 0] }, "$ratingSum", 0],
+          },
+        },
+      },
+    ];
+  }
+
+  private static async updateRating(
+    shalaId: string,
+    ratingDelta: number,
+    countDelta: number,
+    session: ClientSession
+  ) {
+    await YogaShala.updateOne(
+      { _id: shalaId },
+      this.buildRatingUpdate(ratingDelta, countDelta),
+      { session }
+    );
+  }
+
+  private static validate(
+    data: ReviewData,
+    requireRating: boolean
+  ): ReviewResult | null {
+    const invalid = (message: string) => ({
+      success: false,
+      code: this.ERROR_CODES.INVALID_REVIEW,
+      statusCode: 400,
+      message,
+    });
+
+    if (data.rating === undefined) {
+      if (requireRating) return invalid("Rating is required");
+    } else if (
+      !Number.isInteger(data.rating) ||
+      data.rating < 1 ||
+      data.rating > 5
+    ) {
+      return invalid("Rating must be a whole number from 1 to 5");
+    }
+
+    if (data.comment !== undefined && typeof data.comment !== "string") {
+      return invalid("Comment must be text");
+    }
+
+    return null;
+  }
+
+  private static async findReview(shalaId: string, reviewId: string) {
+    if (!mongoose.Types.ObjectId.isValid(reviewId)) {
+      return this.reviewNotFound();
+    }
+
+    const review = await Review.findOne({ _id: reviewId, shala: shalaId });
+    return review || this.reviewNotFound();
+  }
+
+  private static reviewNotFound(): ReviewResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.REVIEW_NOT_FOUND,
+      statusCode: 404,
+      message: "Review not found",
+    };
+  }
+
+  private static alreadyReviewed(): ReviewResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.ALREADY_REVIEWED,
+      statusCode: 409,
+      message: "You have already reviewed this shala",
+    };
+  }
+}
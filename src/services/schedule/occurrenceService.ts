@@ -0,0 +1,575 @@
+import mongoose from "mongoose";
+import Booking, { IBooking } from "../../models/Booking";
+import User from "../../models/User";
+import ClassOccurrence, {
+  IClassOccurrence,
+} from "../../models/ClassOccurrence";
+import YogaShala, {
+  ITimeSlot,
+  IYogaShala,
+  PUBLISHED_SHALA_FILTER,
+  getShalaTimezone,
+  isPublished,
+} from "../../models/YogaShala";
+import ScheduleException, {
+  IScheduleException,
+} from "../../models/ScheduleException";
+import { CapacityService } from "../booking/capacityService";
+import { getDayName, normalizeDate } from "../../utils/schedule";
+import { getZonedParts, zonedTimeToUtc } from "../../utils/timezone";
+import { sendClassChangeEmail } from "../../utils/emailService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OccurrenceResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  occurrence?: any;
+  occurrences?: any[];
+}
+
+export type ExceptionRef = Pick<
+  IScheduleException,
+  | "type"
+  | "startDate"
+  | "endDate"
+  | "slotId"
+  | "startTime"
+  | "endTime"
+  | "substituteInstructor"
+  | "reason"
+>;
+
+// Fields of an occurrence that schedule exceptions can change
+export interface OccurrenceOverrides {
+  status: IClassOccurrence["status"];
+  startTime: string;
+  endTime: string;
+  cancellationReason?: string;
+  substituteInstructor?: string;
+}
+
+// One class to create or refresh when materializing a schedule
+export interface PlannedOccurrence {
+  slotId: mongoose.Types.ObjectId;
+  date: Date;
+  fields: Partial<IClassOccurrence> & OccurrenceOverrides;
+}
+
+export class OccurrenceService {
+  // How far ahead weekly slots are expanded into dated occurrences
+  static readonly WINDOW_DAYS =
+    Number(process.env.OCCURRENCE_WINDOW_DAYS) || 28;
+
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    CLASS_NOT_FOUND: "CLASS_NOT_FOUND",
+    INVALID_DATE_RANGE: "INVALID_DATE_RANGE",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  // Expand a shala's weekly schedule into occurrences for the rolling window.
+  // Occurrences are keyed by (shala, slot, date) so their IDs stay stable
+  // across runs; template fields are refreshed from the current schedule
+  // and the shala's schedule exceptions. The window starts on the shala's
+  // local date at `from`.
+  static async materializeShala(
+    shala: IYogaShala,
+    from: Date = new Date(),
+    days: number = this.WINDOW_DAYS
+  ): Promise<number> {
+    const timezone = getShalaTimezone(shala);
+    const { start, through } = this.getWindow(from, timezone, days);
+    const now = new Date();
+
+    const exceptions = await ScheduleException.find({
+      shala: shala._id,
+      startDate: { $lte: through },
+      endDate: { $gte: start },
+    }).sort({ createdAt: 1 });
+
+    const operations = this.planOccurrences(
+      shala.schedule,
+      start,
+      days,
+      exceptions,
+      timezone
+    ).map(({ slotId, date, fields }) => {
+      const cleared = ["cancellationReason", "substituteInstructor"].filter(
+        (field) => !(field in fields)
+      );
+      return {
+        updateOne: {
+          filter: { shala: shala._id, slotId, date },
+          update: {
+            $set: { ...fields, updatedAt: now },
+            ...(cleared.length > 0 && {
+              $unset: Object.fromEntries(cleared.map((field) => [field, 1])),
+            }),
+            $setOnInsert: { createdAt: now },
+          },
+          upsert: true,
+        },
+      };
+    });
+
+    if (operations.length > 0) {
+      const result = await ClassOccurrence.bulkWrite(operations);
+      const insertedIds = Object.values(result.upsertedIds || {});
+      if (insertedIds.length > 0) {
+        await this.linkLegacyBookings(shala, start, insertedIds);
+      }
+    }
+
+    // Drop unbooked future occurrences of slots removed from the schedule
+    await ClassOccurrence.deleteMany({
+      shala: shala._id,
+      date: { $gte: start },
+      slotId: {
+        $nin: shala.schedule.map((slot) => slot._id).filter(Boolean),
+      },
+      bookedCount: 0,
+    });
+
+    await YogaShala.updateOne(
+      { _id: shala._id },
+      { $set: { occurrencesGeneratedThrough: through } }
+    );
+
+    return operations.length;
+  }
+
+  // First and last local dates of the window of `days` days starting on
+  // the shala's local date at `from`
+  static getWindow(
+    from: Date,
+    timezone: string,
+    days: number = this.WINDOW_DAYS
+  ): { start: Date; through: Date } {
+    const start = getZonedParts(from, timezone).date;
+    return {
+      start,
+      through: new Date(start.getTime() + (days - 1) * DAY_MS),
+    };
+  }
+
+  // The occurrence of each weekly slot on each date of the window, with the
+  // template fields from the slot and the overrides of its exceptions
+  static planOccurrences(
+    schedule: ITimeSlot[],
+    start: Date,
+    days: number,
+    exceptions: ExceptionRef[],
+    timezone: string
+  ): PlannedOccurrence[] {
+    const planned: PlannedOccurrence[] = [];
+
+    for (let offset = 0; offset < days; offset++) {
+      const date = new Date(start.getTime() + offset * DAY_MS);
+      const day = getDayName(date);
+
+      for (const slot of schedule) {
+        if (slot.day !== day || !slot._id) continue;
+
+        const overrides = this.applyExceptions(slot, date, exceptions);
+        planned.push({
+          slotId: slot._id,
+          date,
+          fields: {
+            day,
+            className: slot.className,
+            style: slot.style,
+            level: slot.level,
+            instructor: slot.instructor,
+            price: slot.price,
+            capacity: slot.capacity,
+            ...overrides,
+            timezone,
+            startsAt: zonedTimeToUtc(date, overrides.startTime, timezone),
+            endsAt: zonedTimeToUtc(date, overrides.endTime, timezone),
+          },
+        });
+      }
+    }
+
+    return planned;
+  }
+
+  // Give the slots of an edited schedule the IDs of the slots they replace,
+  // so upcoming classes and their bookings carry over instead of being
+  // duplicated. A slot keeps an existing ID it was sent with; otherwise it
+  // takes that of an unclaimed slot on the same day at the same start time,
+  // or of the only unclaimed slot that day with the same class name (its
+  // time was edited). Unknown IDs are dropped so a new one is generated.
+  static matchSlots<
+    T extends Pick<ITimeSlot, "day" | "startTime" | "className">,
+  >(
+    existing: Pick<ITimeSlot, "_id" | "day" | "startTime" | "className">[],
+    incoming: (T & { _id?: unknown })[]
+  ): (T & { _id?: unknown })[] {
+    const unclaimed = existing.filter((slot) => slot._id);
+    const claim = (
+      matches: (slot: (typeof unclaimed)[number]) => boolean,
+      unique = false
+    ) => {
+      const candidates = unclaimed.filter(matches);
+      if (candidates.length === 0 || (unique && candidates.length > 1)) {
+        return undefined;
+      }
+      unclaimed.splice(unclaimed.indexOf(candidates[0]), 1);
+      return candidates[0]._id;
+    };
+
+    const ids = incoming.map((slot) =>
+      slot._id !== undefined
+        ? claim((old) => String(old._id) === String(slot._id))
+        : undefined
+    );
+    incoming.forEach((slot, index) => {
+      if (ids[index]) return;
+      ids[index] = claim(
+        (old) => old.day === slot.day && old.startTime === slot.startTime
+      );
+    });
+    incoming.forEach((slot, index) => {
+      if (ids[index]) return;
+      ids[index] = claim(
+        (old) => old.day === slot.day && old.className === slot.className,
+        true
+      );
+    });
+
+    return incoming.map(({ _id, ...fields }, index) =>
+      ids[index] ? { ...fields, _id: ids[index] } : fields
+    ) as (T & { _id?: unknown })[];
+  }
+
+  // Status, times and instructor of `slot` on `date` once the exceptions
+  // covering it are applied. Closures and cancellations cancel the class;
+  // for time changes and substitutes the latest exception wins, so
+  // `exceptions` should be sorted oldest first.
+  static applyExceptions(
+    slot: ITimeSlot,
+    date: Date,
+    exceptions: ExceptionRef[]
+  ): OccurrenceOverrides {
+    const overrides: OccurrenceOverrides = {
+      status: "scheduled",
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+    };
+
+    for (const exception of exceptions) {
+      if (date < exception.startDate || date > exception.endDate) continue;
+      if (
+        exception.type !== "closure" &&
+        exception.slotId?.toString() !== slot._id?.toString()
+      ) {
+        continue;
+      }
+
+      switch (exception.type) {
+        case "closure":
+        case "cancellation":
+          if (overrides.status !== "cancelled") {
+            overrides.status = "cancelled";
+            overrides.cancellationReason =
+              exception.reason ||
+              (exception.type === "closure"
+                ? "The shala is closed"
+                : "Class cancelled");
+          }
+          break;
+        case "time_change":
+          if (exception.startTime && exception.endTime) {
+            overrides.startTime = exception.startTime;
+            overrides.endTime = exception.endTime;
+          }
+          break;
+        case "substitute":
+          if (exception.substituteInstructor) {
+            overrides.substituteInstructor = exception.substituteInstructor;
+          }
+          break;
+      }
+    }
+
+    return overrides;
+  }
+
+  // Materialize the window for every published shala (scheduled job)
+  static async materializeAll(): Promise<{
+    shalas: number;
+    occurrences: number;
+  }> {
+    const shalas = await YogaShala.find(PUBLISHED_SHALA_FILTER);
+    let occurrences = 0;
+
+    for (const shala of shalas) {
+      occurrences += await this.materializeShala(shala);
+    }
+
+    return { shalas: shalas.length, occurrences };
+  }
+
+  // Make sure occurrences exist up to `through`
+  static async ensureMaterialized(
+    shala: IYogaShala,
+    through: Date
+  ): Promise<void> {
+    if (
+      !shala.occurrencesGeneratedThrough ||
+      shala.occurrencesGeneratedThrough < normalizeDate(through)
+    ) {
+      await this.materializeShala(shala);
+    }
+  }
+
+  // List a shala's classes between two dates (defaults to the next 7 days)
+  static async listOccurrences(
+    shalaId: string,
+    from?: string,
+    to?: string
+  ): Promise<OccurrenceResult> {
+    try {
+      const shala = await YogaShala.findById(shalaId);
+      if (!shala || !isPublished(shala)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.SHALA_NOT_FOUND,
+          statusCode: 404,
+          message: "Shala not found or inactive",
+        };
+      }
+
+      const today = getZonedParts(new Date(), getShalaTimezone(shala)).date;
+      const lastWindowDay = new Date(
+        today.getTime() + (this.WINDOW_DAYS - 1) * DAY_MS
+      );
+      const fromDate = from ? normalizeDate(from) : today;
+      const toDate = to
+        ? normalizeDate(to)
+        : new Date(fromDate.getTime() + 6 * DAY_MS);
+
+      if (
+        isNaN(fromDate.getTime()) ||
+        isNaN(toDate.getTime()) ||
+        toDate < fromDate
+      ) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.INVALID_DATE_RANGE,
+          statusCode: 400,
+          message: "Invalid date range",
+        };
+      }
+
+      const rangeEnd = toDate > lastWindowDay ? lastWindowDay : toDate;
+      await this.ensureMaterialized(shala, rangeEnd);
+
+      const occurrences = await ClassOccurrence.find({
+        shala: shala._id,
+        date: { $gte: fromDate, $lte: rangeEnd },
+      }).sort({ date: 1, startTime: 1 });
+
+      return {
+        success: true,
+        message: "Classes retrieved successfully",
+        occurrences: occurrences.map((occurrence) =>
+          this.formatOccurrence(occurrence)
+        ),
+      };
+    } catch (error) {
+      console.error("List class occurrences error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching classes",
+      };
+    }
+  }
+
+  // Get a single class occurrence of a shala
+  static async getOccurrence(
+    shalaId: string,
+    occurrenceId: string
+  ): Promise<OccurrenceResult> {
+    try {
+      const occurrence = await this.findForShala(shalaId, occurrenceId);
+
+      if (!occurrence) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.CLASS_NOT_FOUND,
+          statusCode: 404,
+          message: "Class not found",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Class retrieved successfully",
+        occurrence: this.formatOccurrence(occurrence),
+      };
+    } catch (error) {
+      console.error("Get class occurrence error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching class",
+      };
+    }
+  }
+
+  // Look up an occurrence by ID, scoped to its shala
+  static async findForShala(
+    shalaId: string,
+    occurrenceId: string
+  ): Promise<IClassOccurrence | null> {
+    if (!mongoose.isValidObjectId(occurrenceId)) return null;
+    return ClassOccurrence.findOne({ _id: occurrenceId, shala: shalaId });
+  }
+
+  // Public shape of an occurrence, with the instructor actually teaching
+  static formatOccurrence(occurrence: IClassOccurrence): any {
+    return {
+      ...occurrence.toObject(),
+      id: occurrence._id,
+      instructor: occurrence.substituteInstructor || occurrence.instructor,
+      remainingSpots: CapacityService.getRemainingSpots(occurrence),
+    };
+  }
+
+  // Copy the times of upcoming occurrences onto their active bookings,
+  // e.g. after the shala's timezone or a slot's time changed. Users whose
+  // class now runs at a different local time are told by email.
+  static async syncBookingTimes(
+    shala: IYogaShala,
+    now: Date = new Date()
+  ): Promise<number> {
+    const occurrences = await ClassOccurrence.find({
+      shala: shala._id,
+      startsAt: { $gt: now },
+      bookedCount: { $gt: 0 },
+    }).select("startTime endTime timezone startsAt endsAt");
+
+    let updated = 0;
+    for (const occurrence of occurrences) {
+      const bookings = await Booking.find({
+        occurrence: occurrence._id,
+        status: { $in: CapacityService.ACTIVE_BOOKING_STATUSES },
+        $or: [
+          { startTime: { $ne: occurrence.startTime } },
+          { endTime: { $ne: occurrence.endTime } },
+          { timezone: { $ne: occurrence.timezone } },
+          { startsAt: { $ne: occurrence.startsAt } },
+          { endsAt: { $ne: occurrence.endsAt } },
+        ],
+      }).select("user className date startTime endTime");
+      if (bookings.length === 0) continue;
+
+      const { modifiedCount } = await Booking.updateMany(
+        { _id: { $in: bookings.map((booking) => booking._id) } },
+        {
+          $set: {
+            startTime: occurrence.startTime,
+            endTime: occurrence.endTime,
+            timezone: occurrence.timezone,
+            startsAt: occurrence.startsAt,
+            endsAt: occurrence.endsAt,
+            updatedAt: new Date(),
+          },
+        }
+      );
+      updated += modifiedCount;
+
+      for (const booking of bookings) {
+        if (
+          booking.startTime !== occurrence.startTime ||
+          booking.endTime !== occurrence.endTime
+        ) {
+          await this.notifyTimeChange(shala, booking, occurrence);
+        }
+      }
+    }
+    return updated;
+  }
+
+  // Tell the booker their class moved, quoting the time they booked
+  private static async notifyTimeChange(
+    shala: IYogaShala,
+    booking: Pick<
+      IBooking,
+      "user" | "className" | "date" | "startTime" | "endTime"
+    >,
+    occurrence: Pick<IClassOccurrence, "startTime" | "endTime">
+  ): Promise<void> {
+    try {
+      const user = await User.findById(booking.user).select("name email");
+      if (!user) return;
+
+      await sendClassChangeEmail(user.email, {
+        name: user.name,
+        shalaName: shala.name,
+        className: booking.className,
+        date: booking.date,
+        startTime: booking.startTime,
+        cancelled: false,
+        changes: [
+          `now runs ${occurrence.startTime}-${occurrence.endTime} ` +
+            `instead of ${booking.startTime}-${booking.endTime}`,
+        ],
+      });
+    } catch (error) {
+      console.error("Class change notification error:", error);
+    }
+  }
+
+  // Attach bookings made before occurrences existed and count their spots
+  private static async linkLegacyBookings(
+    shala: IYogaShala,
+    from: Date,
+    occurrenceIds: unknown[]
+  ): Promise<void> {
+    const hasLegacy = await Booking.exists({
+      shala: shala._id,
+      date: { $gte: from },
+      occurrence: { $exists: false },
+    });
+    if (!hasLegacy) return;
+
+    const occurrences = await ClassOccurrence.find({
+      _id: { $in: occurrenceIds },
+    });
+
+    for (const occurrence of occurrences) {
+      const filter = {
+        shala: shala._id,
+        date: occurrence.date,
+        startTime: occurrence.startTime,
+        occurrence: { $exists: false },
+        status: { $in: CapacityService.ACTIVE_BOOKING_STATUSES },
+      };
+
+      const { modifiedCount } = await Booking.updateMany(filter, {
+        $set: {
+          occurrence: occurrence._id,
+          timezone: occurrence.timezone,
+          startsAt: occurrence.startsAt,
+          endsAt: occurrence.endsAt,
+        },
+      });
+
+      if (modifiedCount > 0) {
+        await ClassOccurrence.updateOne(
+          { _id: occurrence._id },
+          { $inc: { bookedCount: modifiedCount } }
+        );
+      }
+    }
+  }
+}
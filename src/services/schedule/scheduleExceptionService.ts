@@ -0,0 +1,512 @@
+import mongoose from "mongoose";
+import Booking, { IBooking } from "../../models/Booking";
+import ClassOccurrence, {
+  IClassOccurrence,
+} from "../../models/ClassOccurrence";
+import ScheduleException, {
+  IScheduleException,
+  SCHEDULE_EXCEPTION_TYPES,
+  ScheduleExceptionType,
+} from "../../models/ScheduleException";
+import User from "../../models/User";
+import YogaShala, {
+  IYogaShala,
+  getShalaTimezone,
+  isPublished,
+} from "../../models/YogaShala";
+import { OccurrenceService } from "./occurrenceService";
+import { BookingService } from "../booking/bookingService";
+import { CapacityService } from "../booking/capacityService";
+import { WaitlistService } from "../booking/waitlistService";
+import { sendClassChangeEmail } from "../../utils/emailService";
+import { getZonedParts } from "../../utils/timezone";
+import { getDayName, getStartsAt, normalizeDate } from "../../utils/schedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface ScheduleExceptionData {
+  type: ScheduleExceptionType;
+  // Day of the class for single-occurrence exceptions
+  date?: string;
+  // Closure range; endDate defaults to startDate
+  startDate?: string;
+  endDate?: string;
+  slotId?: string;
+  startTime?: string;
+  endTime?: string;
+  substituteInstructor?: string;
+  reason?: string;
+}
+
+export interface ExceptionActor {
+  id: string;
+  role: string;
+}
+
+export interface ListExceptionsQuery {
+  from?: string;
+  to?: string;
+}
+
+// Bookings touched by adding or removing an exception
+export interface AffectedBookings {
+  cancelled: number;
+  updated: number;
+}
+
+export interface ScheduleExceptionResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  exception?: any;
+  exceptions?: any[];
+  affectedBookings?: AffectedBookings;
+}
+
+type ExceptionFields = Pick<
+  IScheduleException,
+  | "type"
+  | "startDate"
+  | "endDate"
+  | "slotId"
+  | "startTime"
+  | "endTime"
+  | "substituteInstructor"
+  | "reason"
+>;
+
+export class ScheduleExceptionService {
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    EXCEPTION_NOT_FOUND: "EXCEPTION_NOT_FOUND",
+    NOT_AUTHORIZED: "NOT_AUTHORIZED",
+    INVALID_EXCEPTION: "INVALID_EXCEPTION",
+    SLOT_NOT_FOUND: "SLOT_NOT_FOUND",
+    DUPLICATE_EXCEPTION: "DUPLICATE_EXCEPTION",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  static readonly MAX_CLOSURE_DAYS = 90;
+  static readonly MAX_DAYS_AHEAD = 365;
+
+  // Current and upcoming exceptions of a shala, soonest first
+  static async listExceptions(
+    shalaId: string,
+    viewer: ExceptionActor | null,
+    query: ListExceptionsQuery = {}
+  ): Promise<ScheduleExceptionResult> {
+    try {
+      const shala = await this.findShala(shalaId);
+      if (!shala || (!isPublished(shala) && !this.canManage(viewer, shala))) {
+        return this.shalaNotFound();
+      }
+
+      const from = query.from
+        ? normalizeDate(query.from)
+        : getZonedParts(new Date(), getShalaTimezone(shala)).date;
+      const to = query.to ? normalizeDate(query.to) : undefined;
+      if (isNaN(from.getTime()) || (to && isNaN(to.getTime()))) {
+        return this.invalid("Invalid date range");
+      }
+
+      const exceptions = await ScheduleException.find({
+        shala: shala._id,
+        endDate: { $gte: from },
+        ...(to && { startDate: { $lte: to } }),
+      })
+        .sort({ startDate: 1, createdAt: 1 })
+        .select("-__v");
+
+      return {
+        success: true,
+        message: "Schedule exceptions retrieved successfully",
+        exceptions,
+      };
+    } catch (error) {
+      console.error("List schedule exceptions error:", error);
+      return this.internalError("fetching schedule exceptions");
+    }
+  }
+
+  // Add an exception, apply it to the generated classes and cancel or
+  // update the bookings it affects
+  static async createException(
+    actor: ExceptionActor,
+    shalaId: string,
+    data: ScheduleExceptionData,
+    now: Date = new Date()
+  ): Promise<ScheduleExceptionResult> {
+    try {
+      const shala = await this.findShala(shalaId);
+      if (!shala) return this.shalaNotFound();
+      if (!this.canManage(actor, shala)) return this.notAuthorized();
+
+      const fields = this.validate(shala, data, now);
+      if ("success" in fields) return fields;
+
+      const exception = await ScheduleException.create({
+        ...fields,
+        shala: shala._id,
+        createdBy: actor.id,
+      });
+
+      const affectedBookings = await this.applyToBookings(
+        shala,
+        exception,
+        now
+      );
+
+      return {
+        success: true,
+        message: "Schedule exception added",
+        exception,
+        affectedBookings,
+      };
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.DUPLICATE_EXCEPTION,
+          statusCode: 409,
+          message: "This class already has an exception of that type",
+        };
+      }
+      console.error("Create schedule exception error:", error);
+      return this.internalError("adding the schedule exception");
+    }
+  }
+
+  // Remove an exception. Classes go back to the weekly schedule; bookings
+  // it cancelled stay cancelled, time and instructor changes are reverted.
+  static async deleteException(
+    actor: ExceptionActor,
+    shalaId: string,
+    exceptionId: string,
+    now: Date = new Date()
+  ): Promise<ScheduleExceptionResult> {
+    try {
+      const shala = await this.findShala(shalaId);
+      if (!shala) return this.shalaNotFound();
+      if (!this.canManage(actor, shala)) return this.notAuthorized();
+
+      const exception = mongoose.isValidObjectId(exceptionId)
+        ? await ScheduleException.findOneAndDelete({
+            _id: exceptionId,
+            shala: shala._id,
+          })
+        : null;
+
+      if (!exception) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.EXCEPTION_NOT_FOUND,
+          statusCode: 404,
+          message: "Schedule exception not found",
+        };
+      }
+
+      const affectedBookings = await this.applyToBookings(
+        shala,
+        exception,
+        now
+      );
+
+      return {
+        success: true,
+        message: "Schedule exception removed",
+        exception,
+        affectedBookings,
+      };
+    } catch (error) {
+      console.error("Delete schedule exception error:", error);
+      return this.internalError("removing the schedule exception");
+    }
+  }
+
+  // Normalized exception fields, or the reason they can't be saved
+  static validate(
+    shala: Pick<IYogaShala, "schedule"> &
+      Partial<Pick<IYogaShala, "timezone" | "address">>,
+    data: ScheduleExceptionData,
+    now: Date = new Date()
+  ): ExceptionFields | ScheduleExceptionResult {
+    if (!SCHEDULE_EXCEPTION_TYPES.includes(data.type)) {
+      return this.invalid(
+        `type must be one of: ${SCHEDULE_EXCEPTION_TYPES.join(", ")}`
+      );
+    }
+
+    const isClosure = data.type === "closure";
+    const startValue = isClosure ? data.startDate || data.date : data.date;
+    if (!startValue) {
+      return this.invalid(
+        isClosure ? "startDate is required" : "date is required"
+      );
+    }
+
+    const startDate = normalizeDate(startValue);
+    const endDate = isClosure
+      ? normalizeDate(data.endDate || startValue)
+      : startDate;
+    const today = getZonedParts(now, getShalaTimezone(shala)).date;
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return this.invalid("Invalid date");
+    }
+    if (endDate < startDate) {
+      return this.invalid("endDate must not be before startDate");
+    }
+    if (startDate < today) {
+      return this.invalid("Exceptions can't start in the past");
+    }
+    if (endDate.getTime() - today.getTime() > this.MAX_DAYS_AHEAD * DAY_MS) {
+      return this.invalid(
+        `Exceptions can be at most ${this.MAX_DAYS_AHEAD} days ahead`
+      );
+    }
+
+    const reason = data.reason?.trim() || undefined;
+
+    if (isClosure) {
+      const days = (endDate.getTime() - startDate.getTime()) / DAY_MS + 1;
+      if (days > this.MAX_CLOSURE_DAYS) {
+        return this.invalid(
+          `A closure can last at most ${this.MAX_CLOSURE_DAYS} days`
+        );
+      }
+      return { type: data.type, startDate, endDate, reason };
+    }
+
+    const slot = shala.schedule.find(
+      (item) => item._id?.toString() === data.slotId
+    );
+    if (!slot) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.SLOT_NOT_FOUND,
+        statusCode: 400,
+        message: "slotId must be one of the shala's weekly classes",
+      };
+    }
+    if (slot.day !== getDayName(startDate)) {
+      return this.invalid(`That class runs on ${slot.day}s`);
+    }
+
+    const fields: ExceptionFields = {
+      type: data.type,
+      startDate,
+      endDate,
+      slotId: slot._id,
+      reason,
+    };
+
+    if (data.type === "time_change") {
+      const { startTime, endTime } = data;
+      if (!startTime || !endTime) {
+        return this.invalid("startTime and endTime are required");
+      }
+      if (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+        return this.invalid("Times must be in HH:MM format");
+      }
+      if (endTime <= startTime) {
+        return this.invalid("endTime must be after startTime");
+      }
+      if (startTime === slot.startTime && endTime === slot.endTime) {
+        return this.invalid("The class already runs at that time");
+      }
+      fields.startTime = startTime;
+      fields.endTime = endTime;
+    }
+
+    if (data.type === "substitute") {
+      const substitute = data.substituteInstructor?.trim();
+      if (!substitute) {
+        return this.invalid("substituteInstructor is required");
+      }
+      fields.substituteInstructor = substitute;
+    }
+
+    return fields;
+  }
+
+  // How a booking's class differs from the booking, in words
+  static describeChanges(
+    booking: Pick<IBooking, "startTime" | "endTime" | "instructor">,
+    occurrence: Pick<
+      IClassOccurrence,
+      "startTime" | "endTime" | "instructor" | "substituteInstructor"
+    >
+  ): string[] {
+    const changes: string[] = [];
+    if (
+      booking.startTime !== occurrence.startTime ||
+      booking.endTime !== occurrence.endTime
+    ) {
+      changes.push(
+        `now runs ${occurrence.startTime}-${occurrence.endTime} ` +
+          `instead of ${booking.startTime}-${booking.endTime}`
+      );
+    }
+    const instructor = occurrence.substituteInstructor || occurrence.instructor;
+    if (booking.instructor !== instructor) {
+      changes.push(`is now taught by ${instructor}`);
+    }
+    return changes;
+  }
+
+  // Regenerate the affected classes, then bring their upcoming bookings in
+  // line: cancel those of cancelled classes and update the time or
+  // instructor of the others, telling each user what happened
+  private static async applyToBookings(
+    shala: IYogaShala,
+    exception: ExceptionFields,
+    now: Date
+  ): Promise<AffectedBookings> {
+    await OccurrenceService.materializeShala(shala);
+
+    const occurrences = await ClassOccurrence.find({
+      shala: shala._id,
+      date: { $gte: exception.startDate, $lte: exception.endDate },
+      ...(exception.slotId && { slotId: exception.slotId }),
+    });
+    const affected: AffectedBookings = { cancelled: 0, updated: 0 };
+
+    for (const occurrence of occurrences) {
+      const classStart = getStartsAt(occurrence);
+      if (classStart <= now) continue;
+
+      const bookings = await Booking.find({
+        occurrence: occurrence._id,
+        status: { $in: CapacityService.ACTIVE_BOOKING_STATUSES },
+      });
+
+      if (occurrence.status === "cancelled") {
+        await WaitlistService.onClassCancelled(occurrence._id);
+
+        for (const booking of bookings) {
+          const cancelled = await BookingService.cancelForCancelledClass(
+            booking,
+            occurrence.cancellationReason || "Class cancelled by the shala"
+          );
+          if (!cancelled) continue;
+
+          affected.cancelled++;
+          await this.notify(shala, cancelled, {
+            cancelled: true,
+            reason: occurrence.cancellationReason,
+            refundAmount: cancelled.refundAmount,
+          });
+        }
+        continue;
+      }
+
+      for (const booking of bookings) {
+        const changes = this.describeChanges(booking, occurrence);
+        if (changes.length === 0) continue;
+
+        // Notify with the time the user originally booked
+        const bookedStartTime = booking.startTime;
+        booking.startTime = occurrence.startTime;
+        booking.endTime = occurrence.endTime;
+        booking.timezone = occurrence.timezone;
+        booking.startsAt = occurrence.startsAt;
+        booking.endsAt = occurrence.endsAt;
+        booking.instructor =
+          occurrence.substituteInstructor || occurrence.instructor;
+        booking.updatedAt = new Date();
+        await booking.save();
+
+        affected.updated++;
+        await this.notify(
+          shala,
+          booking,
+          { cancelled: false, changes, reason: exception.reason },
+          bookedStartTime
+        );
+      }
+    }
+
+    return affected;
+  }
+
+  private static async notify(
+    shala: IYogaShala,
+    booking: IBooking,
+    details: {
+      cancelled: boolean;
+      changes?: string[];
+      reason?: string;
+      refundAmount?: number;
+    },
+    startTime: string = booking.startTime
+  ): Promise<void> {
+    try {
+      const user = await User.findById(booking.user).select("name email");
+      if (!user) return;
+
+      await sendClassChangeEmail(user.email, {
+        name: user.name,
+        shalaName: shala.name,
+        className: booking.className,
+        date: booking.date,
+        startTime,
+        ...details,
+      });
+    } catch (error) {
+      console.error("Class change notification error:", error);
+    }
+  }
+
+  private static async findShala(shalaId: string) {
+    if (!mongoose.isValidObjectId(shalaId)) return null;
+    return YogaShala.findById(shalaId);
+  }
+
+  private static canManage(
+    actor: ExceptionActor | null,
+    shala: IYogaShala
+  ): boolean {
+    return (
+      !!actor &&
+      (actor.role === "admin" || shala.owner?.toString() === actor.id)
+    );
+  }
+
+  private static invalid(message: string): ScheduleExceptionResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INVALID_EXCEPTION,
+      statusCode: 400,
+      message,
+    };
+  }
+
+  private static shalaNotFound(): ScheduleExceptionResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.SHALA_NOT_FOUND,
+      statusCode: 404,
+      message: "Shala not found",
+    };
+  }
+
+  private static notAuthorized(): ScheduleExceptionResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.NOT_AUTHORIZED,
+      statusCode: 403,
+      message: "Not authorized to manage this shala's schedule",
+    };
+  }
+
+  private static internalError(action: string): ScheduleExceptionResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INTERNAL_ERROR,
+      statusCode: 500,
+      message: `Server error while ${action}`,
+    };
+  }
+}
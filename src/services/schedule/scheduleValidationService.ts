@@ -0,0 +1,145 @@
+import { ITimeSlot } from "../../models/YogaShala";
+import { CLASS_LEVELS, YOGA_STYLES } from "../../constants/yoga";
+import { ValidationService } from "../common/validationService";
+import { WEEK_DAYS } from "../../utils/schedule";
+
+// Problem with one field of a schedule slot, e.g. "schedule[2].endTime"
+export interface ScheduleFieldError {
+  field: string;
+  message: string;
+}
+
+// Zero-padded, so times compare correctly as strings
+const PADDED_TIME = /^\d{2}:\d{2}$/;
+
+export class ScheduleValidationService {
+  static readonly MAX_SLOTS = 200;
+
+  // Every problem in a weekly schedule, so the owner can fix them in one
+  // go. A price of 0 is allowed: the class is charged at the drop-in rate.
+  static validateSchedule(schedule: unknown): ScheduleFieldError[] {
+    if (!Array.isArray(schedule)) {
+      return [{ field: "schedule", message: "Schedule must be a list" }];
+    }
+    if (schedule.length > this.MAX_SLOTS) {
+      return [
+        {
+          field: "schedule",
+          message: `Schedule can have at most ${this.MAX_SLOTS} classes`,
+        },
+      ];
+    }
+
+    const errors: ScheduleFieldError[] = [];
+    schedule.forEach((slot, index) => {
+      errors.push(...this.validateSlot(slot, `schedule[${index}]`));
+    });
+    errors.push(...this.findInstructorClashes(schedule));
+
+    return errors;
+  }
+
+  private static validateSlot(slot: any, path: string): ScheduleFieldError[] {
+    if (!slot || typeof slot !== "object") {
+      return [{ field: path, message: "Class must be an object" }];
+    }
+
+    const errors: ScheduleFieldError[] = [];
+    const add = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!WEEK_DAYS.includes(slot.day)) {
+      add("day", `Day must be one of: ${WEEK_DAYS.join(", ")}`);
+    }
+
+    const timesValid = ["startTime", "endTime"].every((field) => {
+      const result = ValidationService.validateTime(slot[field]);
+      if (!result.isValid) {
+        add(field, result.errors![0]);
+        return false;
+      }
+      if (!PADDED_TIME.test(slot[field])) {
+        add(field, "Time must be in HH:MM format");
+        return false;
+      }
+      return true;
+    });
+    if (timesValid && slot.endTime <= slot.startTime) {
+      add("endTime", "End time must be after the start time");
+    }
+
+    if (!slot.className?.trim?.()) {
+      add("className", "Class name is required");
+    }
+    if (!slot.instructor?.trim?.()) {
+      add("instructor", "Instructor is required");
+    }
+
+    const price = ValidationService.validatePrice(slot.price);
+    if (!price.isValid) {
+      add("price", price.errors![0]);
+    } else if (typeof slot.price !== "number" || !isFinite(slot.price)) {
+      add("price", "Price must be a number");
+    }
+
+    if (
+      slot.capacity !== undefined &&
+      !(Number.isInteger(slot.capacity) && slot.capacity > 0)
+    ) {
+      add("capacity", "Capacity must be a positive whole number");
+    }
+
+    if (slot.style !== undefined && !YOGA_STYLES.includes(slot.style)) {
+      add("style", `Style must be one of: ${YOGA_STYLES.join(", ")}`);
+    }
+    if (slot.level !== undefined && !CLASS_LEVELS.includes(slot.level)) {
+      add("level", `Level must be one of: ${CLASS_LEVELS.join(", ")}`);
+    }
+
+    return errors;
+  }
+
+  // One instructor can't teach two classes at the same time. Each clash is
+  // reported on the later slot of the pair.
+  private static findInstructorClashes(
+    schedule: Partial<ITimeSlot>[]
+  ): ScheduleFieldError[] {
+    const errors: ScheduleFieldError[] = [];
+    const seen: { index: number; slot: Partial<ITimeSlot> }[] = [];
+
+    schedule.forEach((slot, index) => {
+      if (
+        !slot ||
+        typeof slot.instructor !== "string" ||
+        !slot.instructor.trim() ||
+        !PADDED_TIME.test(slot.startTime || "") ||
+        !PADDED_TIME.test(slot.endTime || "") ||
+        slot.endTime! <= slot.startTime!
+      ) {
+        return;
+      }
+
+      const instructor = slot.instructor.trim().toLowerCase();
+      const clash = seen.find(
+        ({ slot: other }) =>
+          other.day === slot.day &&
+          other.instructor!.trim().toLowerCase() === instructor &&
+          other.startTime! < slot.endTime! &&
+          slot.startTime! < other.endTime!
+      );
+
+      if (clash) {
+        errors.push({
+          field: `schedule[${index}].instructor`,
+          message:
+            `${slot.instructor.trim()} already teaches ${clash.slot.day} ` +
+            `${clash.slot.startTime}-${clash.slot.endTime} ` +
+            `(schedule[${clash.index}])`,
+        });
+      }
+      seen.push({ index, slot });
+    });
+
+    return errors;
+  }
+}
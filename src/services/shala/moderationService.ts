@@ -0,0 +1,570 @@
+import mongoose, { UpdateQuery } from "mongoose";
+import ShalaReport, {
+  REPORT_REASONS,
+  ReportReason,
+  ReportStatus,
+} from "../../models/ShalaReport";
+import User from "../../models/User";
+import YogaShala, {
+  IYogaShala,
+  isPublished,
+  MODERATED_FIELDS,
+  ModeratedField,
+} from "../../models/YogaShala";
+import { sendListingModerationEmail } from "../../utils/emailService";
+import { ShalaImageService } from "./shalaImageService";
+import { WishlistService } from "../user/wishlistService";
+
+export interface ModerationActor {
+  id: string;
+  role: string;
+}
+
+export interface ReportData {
+  reason: ReportReason;
+  details?: string;
+}
+
+export interface ModerationQueueQuery {
+  type?: "new" | "changes" | "all";
+  page?: string;
+  limit?: string;
+}
+
+export interface ReportsQuery {
+  status?: ReportStatus;
+  page?: string;
+  limit?: string;
+}
+
+export interface ResolveReportData {
+  action: "dismiss" | "takedown";
+  note?: string;
+}
+
+export interface PreparedUpdate {
+  update: UpdateQuery<IYogaShala>;
+  // Moderated fields held in pendingChanges until an admin approves them
+  heldFields: ModeratedField[];
+}
+
+export interface ModerationResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  shala?: any;
+  shalas?: any[];
+  report?: any;
+  reports?: any[];
+  pagination?: {
+    current: number;
+    pages: number;
+    total: number;
+    limit: number;
+  };
+}
+
+// Fields an owner's create or update body can't set: ownership, the listing
+// and moderation state, the rating aggregates kept by reviews, and photos and
+// staff, which have their own endpoints
+const PROTECTED_FIELDS = [
+  "owner",
+  "staff",
+  "isActive",
+  "photos",
+  "rating",
+  "reviewCount",
+  "ratingSum",
+  "moderationStatus",
+  "moderationNote",
+  "moderatedBy",
+  "moderatedAt",
+  "pendingChanges",
+  "changesSubmittedAt",
+];
+
+export class ModerationService {
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    REPORT_NOT_FOUND: "REPORT_NOT_FOUND",
+    NOTHING_TO_REVIEW: "NOTHING_TO_REVIEW",
+    REASON_REQUIRED: "REASON_REQUIRED",
+    INVALID_REPORT: "INVALID_REPORT",
+    ALREADY_REPORTED: "ALREADY_REPORTED",
+    REPORT_CLOSED: "REPORT_CLOSED",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  static readonly MAX_LIMIT = 50;
+
+  // An owner's shala body without the fields only the platform sets
+  static withoutProtectedFields<T extends Record<string, any>>(
+    data: T
+  ): Partial<T> {
+    const fields: Partial<T> = { ...data };
+    for (const field of PROTECTED_FIELDS) {
+      delete fields[field];
+    }
+    return fields;
+  }
+
+  // Turn an owner's edit into an update. Pending listings change in place,
+  // rejected listings change and go back to the queue, and moderated fields
+  // of a live listing wait in pendingChanges while the rest apply now.
+  static prepareUpdate(
+    shala: Pick<IYogaShala, "moderationStatus">,
+    data: Record<string, any>,
+    now: Date = new Date()
+  ): PreparedUpdate {
+    const fields = this.withoutProtectedFields(data);
+
+    if (shala.moderationStatus === "pending") {
+      return {
+        update: { $set: { ...fields, updatedAt: now } },
+        heldFields: [],
+      };
+    }
+
+    if (shala.moderationStatus === "rejected") {
+      return {
+        update: {
+          $set: { ...fields, moderationStatus: "pending", updatedAt: now },
+          $unset: { moderationNote: 1 },
+        },
+        heldFields: [],
+      };
+    }
+
+    const $set: Record<string, any> = { updatedAt: now };
+    const heldFields: ModeratedField[] = [];
+
+    for (const [field, value] of Object.entries(fields)) {
+      if ((MODERATED_FIELDS as readonly string[]).includes(field)) {
+        $set[`pendingChanges.${field}`] = value;
+        heldFields.push(field as ModeratedField);
+      } else {
+        $set[field] = value;
+      }
+    }
+    if (heldFields.length) {
+      $set.changesSubmittedAt = now;
+    }
+
+    return { update: { $set }, heldFields };
+  }
+
+  // Listings waiting for a decision, oldest first
+  static async listQueue(
+    query: ModerationQueueQuery = {}
+  ): Promise<ModerationResult> {
+    try {
+      const newListings = { moderationStatus: "pending" };
+      const editedListings = { changesSubmittedAt: { $exists: true } };
+      const filter =
+        query.type === "new"
+          ? newListings
+          : query.type === "changes"
+            ? editedListings
+            : { $or: [newListings, editedListings] };
+
+      const { page, limit } = this.parsePage(query);
+      const [shalas, total] = await Promise.all([
+        YogaShala.find(filter)
+          .select(
+            "name description images address location website owner " +
+              "moderationStatus moderationNote pendingChanges " +
+              "changesSubmittedAt createdAt updatedAt"
+          )
+          .populate("owner", "name email phone")
+          .sort({ updatedAt: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        YogaShala.countDocuments(filter),
+      ]);
+
+      return {
+        success: true,
+        message: "Moderation queue retrieved successfully",
+        shalas,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total,
+          limit,
+        },
+      };
+    } catch (error) {
+      console.error("List moderation queue error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching moderation queue",
+      };
+    }
+  }
+
+  // Publish a new (or taken down) listing, or apply the held edits of a
+  // live one
+  static async approveShala(
+    actor: ModerationActor,
+    shalaId: string
+  ): Promise<ModerationResult> {
+    try {
+      const shala = await this.findShala(shalaId);
+      if (!shala) return this.shalaNotFound();
+
+      const pendingChanges = shala.pendingChanges || {};
+      const changesOnly = isPublished({
+        isActive: true,
+        moderationStatus: shala.moderationStatus,
+      });
+
+      if (changesOnly && !shala.changesSubmittedAt) {
+        return this.nothingToReview();
+      }
+
+      const decision = {
+        moderatedBy: actor.id,
+        moderatedAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const update: UpdateQuery<IYogaShala> = changesOnly
+        ? {
+            $set: { ...pendingChanges, ...decision },
+            $unset: { pendingChanges: 1, changesSubmittedAt: 1 },
+          }
+        : {
+            $set: { moderationStatus: "approved", ...decision },
+            $unset: { moderationNote: 1, changesSubmittedAt: 1 },
+          };
+
+      await YogaShala.findByIdAndUpdate(shalaId, update, {
+        runValidators: true,
+      });
+      await ShalaImageService.approvePhotos(shalaId);
+      const updated = await YogaShala.findById(shalaId);
+
+      await this.notifyOwner(shala, { approved: true, changesOnly });
+
+      return {
+        success: true,
+        message: changesOnly
+          ? "Listing changes approved"
+          : "Listing approved and published",
+        shala: updated,
+      };
+    } catch (error) {
+      console.error("Approve shala error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while approving shala",
+      };
+    }
+  }
+
+  // Reject a new listing or the held edits of a live one. A live listing
+  // with nothing held, or any listing when `takedown` is set, is unpublished.
+  static async rejectShala(
+    actor: ModerationActor,
+    shalaId: string,
+    reason: string,
+    takedown = false
+  ): Promise<ModerationResult> {
+    try {
+      if (typeof reason !== "string" || !reason.trim()) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.REASON_REQUIRED,
+          statusCode: 400,
+          message: "A reason is required to reject a listing",
+        };
+      }
+
+      const shala = await this.findShala(shalaId);
+      if (!shala) return this.shalaNotFound();
+
+      if (shala.moderationStatus === "rejected") {
+        return this.nothingToReview();
+      }
+
+      const changesOnly =
+        !takedown &&
+        shala.moderationStatus !== "pending" &&
+        !!shala.changesSubmittedAt;
+      const decision = {
+        moderationNote: reason.trim(),
+        moderatedBy: actor.id,
+        moderatedAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const update: UpdateQuery<IYogaShala> = changesOnly
+        ? {
+            $set: decision,
+            $unset: { pendingChanges: 1, changesSubmittedAt: 1 },
+          }
+        : {
+            $set: { ...decision, moderationStatus: "rejected" },
+            $unset: { pendingChanges: 1, changesSubmittedAt: 1 },
+          };
+
+      const updated = await YogaShala.findByIdAndUpdate(shalaId, update, {
+        new: true,
+      });
+      if (changesOnly) {
+        await ShalaImageService.discardPendingPhotos(shalaId);
+      } else {
+        // An unpublished listing shouldn't stay reachable from wishlists
+        await WishlistService.removeShalaFromWishlists(shalaId);
+      }
+
+      await this.notifyOwner(shala, {
+        approved: false,
+        changesOnly,
+        reason: decision.moderationNote,
+      });
+
+      return {
+        success: true,
+        message: changesOnly ? "Listing changes rejected" : "Listing rejected",
+        shala: updated,
+      };
+    } catch (error) {
+      console.error("Reject shala error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while rejecting shala",
+      };
+    }
+  }
+
+  // Flag a published listing for admins to look at
+  static async reportShala(
+    userId: string,
+    shalaId: string,
+    data: ReportData
+  ): Promise<ModerationResult> {
+    try {
+      if (!REPORT_REASONS.includes(data.reason)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.INVALID_REPORT,
+          statusCode: 400,
+          message: `Reason must be one of: ${REPORT_REASONS.join(", ")}`,
+        };
+      }
+
+      const shala = await this.findShala(shalaId);
+      if (!shala || !isPublished(shala)) return this.shalaNotFound();
+
+      const report = await ShalaReport.create({
+        shala: shalaId,
+        reporter: userId,
+        reason: data.reason,
+        details: data.details,
+      });
+
+      return {
+        success: true,
+        message: "Thanks, our team will review this listing",
+        report,
+      };
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.ALREADY_REPORTED,
+          statusCode: 409,
+          message: "You have already reported this listing",
+        };
+      }
+
+      console.error("Report shala error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while reporting shala",
+      };
+    }
+  }
+
+  static async listReports(
+    query: ReportsQuery = {}
+  ): Promise<ModerationResult> {
+    try {
+      const filter = { status: query.status || "open" };
+      const { page, limit } = this.parsePage(query);
+
+      const [reports, total] = await Promise.all([
+        ShalaReport.find(filter)
+          .populate("shala", "name moderationStatus isActive")
+          .populate("reporter", "name email")
+          .sort({ createdAt: filter.status === "open" ? 1 : -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        ShalaReport.countDocuments(filter),
+      ]);
+
+      return {
+        success: true,
+        message: "Reports retrieved successfully",
+        reports,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total,
+          limit,
+        },
+      };
+    } catch (error) {
+      console.error("List reports error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while fetching reports",
+      };
+    }
+  }
+
+  // Dismiss a report, or take the listing down and close every open
+  // report against it
+  static async resolveReport(
+    actor: ModerationActor,
+    reportId: string,
+    data: ResolveReportData
+  ): Promise<ModerationResult> {
+    try {
+      const report = mongoose.Types.ObjectId.isValid(reportId)
+        ? await ShalaReport.findById(reportId)
+        : null;
+      if (!report) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.REPORT_NOT_FOUND,
+          statusCode: 404,
+          message: "Report not found",
+        };
+      }
+      if (report.status !== "open") {
+        return {
+          success: false,
+          code: this.ERROR_CODES.REPORT_CLOSED,
+          statusCode: 409,
+          message: "This report has already been handled",
+        };
+      }
+
+      const resolution = {
+        resolvedBy: actor.id,
+        resolvedAt: new Date(),
+        resolutionNote: data.note,
+        updatedAt: new Date(),
+      };
+
+      if (data.action === "dismiss") {
+        const dismissed = await ShalaReport.findByIdAndUpdate(
+          report._id,
+          { $set: { ...resolution, status: "dismissed" } },
+          { new: true }
+        );
+        return {
+          success: true,
+          message: "Report dismissed",
+          report: dismissed,
+        };
+      }
+
+      const takedown = await this.rejectShala(
+        actor,
+        report.shala.toString(),
+        data.note || `Reported: ${report.reason.replace(/_/g, " ")}`,
+        true
+      );
+      // Already rejected listings only need their reports closed
+      if (
+        !takedown.success &&
+        takedown.code !== this.ERROR_CODES.NOTHING_TO_REVIEW
+      ) {
+        return takedown;
+      }
+
+      await ShalaReport.updateMany(
+        { shala: report.shala, status: "open" },
+        { $set: { ...resolution, status: "resolved" } }
+      );
+
+      return {
+        success: true,
+        message: "Listing taken down and reports resolved",
+        report: await ShalaReport.findById(report._id),
+        shala: takedown.shala,
+      };
+    } catch (error) {
+      console.error("Resolve report error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while resolving report",
+      };
+    }
+  }
+
+  private static async findShala(shalaId: string) {
+    if (!mongoose.Types.ObjectId.isValid(shalaId)) return null;
+    return YogaShala.findById(shalaId);
+  }
+
+  private static parsePage(query: { page?: string; limit?: string }) {
+    return {
+      page: Math.max(1, parseInt(query.page || "1") || 1),
+      limit: Math.min(
+        this.MAX_LIMIT,
+        Math.max(1, parseInt(query.limit || "20") || 20)
+      ),
+    };
+  }
+
+  private static async notifyOwner(
+    shala: IYogaShala,
+    decision: { approved: boolean; changesOnly: boolean; reason?: string }
+  ): Promise<void> {
+    try {
+      const owner = await User.findById(shala.owner).select("name email");
+      if (!owner?.email) return;
+
+      await sendListingModerationEmail(owner.email, {
+        name: owner.name,
+        shalaName: shala.name,
+        ...decision,
+      });
+    } catch (error) {
+      console.error("Moderation notification error:", error);
+    }
+  }
+
+  private static shalaNotFound(): ModerationResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.SHALA_NOT_FOUND,
+      statusCode: 404,
+      message: "Shala not found",
+    };
+  }
+
+  private static nothingToReview(): ModerationResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.NOTHING_TO_REVIEW,
+      statusCode: 409,
+      message: "This listing has nothing waiting for review",
+    };
+  }
+}
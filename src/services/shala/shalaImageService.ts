@@ -0,0 +1,470 @@
+import mongoose from "mongoose";
+import sharp from "sharp";
+import YogaShala, { IShalaPhoto, IYogaShala } from "../../models/YogaShala";
+import { getStorageProvider } from "../storage/storageProviderFactory";
+
+export interface UploadedImage {
+  filename?: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+export interface ImageActor {
+  id: string;
+  role: string;
+}
+
+export interface ProcessedImage {
+  full: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ShalaImageResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  photo?: any;
+  photos?: any[];
+  images?: string[];
+}
+
+type PhotoRef = Pick<IShalaPhoto, "url" | "isCover" | "approved">;
+
+export class ShalaImageService {
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    PHOTO_NOT_FOUND: "PHOTO_NOT_FOUND",
+    NOT_AUTHORIZED: "NOT_AUTHORIZED",
+    NO_FILES: "NO_FILES",
+    UNSUPPORTED_TYPE: "UNSUPPORTED_TYPE",
+    INVALID_IMAGE: "INVALID_IMAGE",
+    PHOTO_LIMIT_REACHED: "PHOTO_LIMIT_REACHED",
+    INVALID_ORDER: "INVALID_ORDER",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  static readonly ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+  static readonly MAX_FILE_SIZE = 8 * 1024 * 1024;
+  static readonly MAX_FILES_PER_UPLOAD = 10;
+  static readonly MAX_PHOTOS = 20;
+  static readonly FULL_SIZE = 1600;
+  static readonly THUMBNAIL = { width: 400, height: 300 };
+
+  static async listPhotos(shalaId: string): Promise<ShalaImageResult> {
+    try {
+      const shala = await this.findShala(shalaId);
+      if (!shala) return this.shalaNotFound();
+
+      return {
+        success: true,
+        message: "Photos retrieved successfully",
+        photos: shala.photos.filter((photo) => photo.approved),
+      };
+    } catch (error) {
+      console.error("List photos error:", error);
+      return this.internalError("fetching photos");
+    }
+  }
+
+  // Resize, convert and store each file, then add them to the listing.
+  // Photos from owners wait for approval; the first photo becomes the cover.
+  static async uploadPhotos(
+    actor: ImageActor,
+    shalaId: string,
+    files: UploadedImage[]
+  ): Promise<ShalaImageResult> {
+    if (!files.length) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.NO_FILES,
+        statusCode: 400,
+        message: "Attach at least one image",
+      };
+    }
+
+    const unsupported = files.find(
+      (file) => !this.ALLOWED_TYPES.includes(file.mimetype)
+    );
+    if (unsupported) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.UNSUPPORTED_TYPE,
+        statusCode: 415,
+        message: `${unsupported.filename || "File"} is not a JPEG, PNG or WebP image`,
+      };
+    }
+
+    const stored: string[] = [];
+    const storage = getStorageProvider();
+
+    try {
+      const access = await this.findManaged(actor, shalaId);
+      if ("success" in access) return access;
+
+      if (access.photos.length + files.length > this.MAX_PHOTOS) {
+        return this.photoLimitReached();
+      }
+
+      const processed: ProcessedImage[] = [];
+      for (const file of files) {
+        const image = await this.processImage(file.buffer);
+        if (!image) {
+          return {
+            success: false,
+            code: this.ERROR_CODES.INVALID_IMAGE,
+            statusCode: 400,
+            message: `${file.filename || "File"} could not be read as an image`,
+          };
+        }
+        processed.push(image);
+      }
+
+      const hasCover = access.photos.some((photo) => photo.isCover);
+      const approved = actor.role === "admin";
+      // Same moderation path as an edit to the listing
+      const review = approved
+        ? {}
+        : access.moderationStatus === "rejected"
+          ? { moderationStatus: "pending" }
+          : access.moderationStatus === "pending"
+            ? {}
+            : { changesSubmittedAt: new Date() };
+      const photos: IShalaPhoto[] = [];
+
+      for (const [index, image] of processed.entries()) {
+        const _id = new mongoose.Types.ObjectId();
+        const key = `shalas/${shalaId}/${_id}.webp`;
+        const thumbnailKey = `shalas/${shalaId}/${_id}-thumb.webp`;
+
+        const full = await storage.put(key, image.full, "image/webp");
+        stored.push(key);
+        const thumbnail = await storage.put(
+          thumbnailKey,
+          image.thumbnail,
+          "image/webp"
+        );
+        stored.push(thumbnailKey);
+
+        photos.push({
+          _id,
+          url: full.url,
+          thumbnailUrl: thumbnail.url,
+          key,
+          thumbnailKey,
+          width: image.width,
+          height: image.height,
+          size: image.full.length,
+          isCover: !hasCover && index === 0,
+          approved,
+          uploadedBy: new mongoose.Types.ObjectId(actor.id),
+          createdAt: new Date(),
+        });
+      }
+
+      // The limit is checked again atomically in case of parallel uploads
+      const updated = await YogaShala.findOneAndUpdate(
+        {
+          _id: shalaId,
+          [`photos.${this.MAX_PHOTOS - photos.length}`]: { $exists: false },
+        },
+        {
+          $push: { photos: { $each: photos } },
+          $set: { ...review, updatedAt: new Date() },
+        },
+        { new: true }
+      );
+
+      if (!updated) {
+        await this.removeFiles(stored);
+        return this.photoLimitReached();
+      }
+
+      if (approved) await this.syncImages(updated);
+
+      return {
+        success: true,
+        message: approved
+          ? "Photos uploaded successfully"
+          : "Photos uploaded and waiting for approval",
+        photos: updated.photos.filter((photo) =>
+          photos.some((added) => added._id.equals(photo._id))
+        ),
+      };
+    } catch (error) {
+      console.error("Upload photos error:", error);
+      await this.removeFiles(stored);
+      return this.internalError("uploading photos");
+    }
+  }
+
+  // Put photos in the given order; every photo id must be listed once
+  static async reorderPhotos(
+    actor: ImageActor,
+    shalaId: string,
+    photoIds: string[]
+  ): Promise<ShalaImageResult> {
+    try {
+      const shala = await this.findManaged(actor, shalaId);
+      if ("success" in shala) return shala;
+
+      const byId = new Map(
+        shala.photos.map((photo) => [photo._id.toString(), photo])
+      );
+      const unique = new Set(photoIds);
+      if (
+        unique.size !== photoIds.length ||
+        photoIds.length !== byId.size ||
+        photoIds.some((id) => !byId.has(id))
+      ) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.INVALID_ORDER,
+          statusCode: 400,
+          message: "The order must list every photo of the shala exactly once",
+        };
+      }
+
+      shala.photos = photoIds.map((id) => byId.get(id)!);
+      shala.images = this.buildImageList(shala.photos, shala.images);
+      shala.updatedAt = new Date();
+      await shala.save();
+
+      return {
+        success: true,
+        message: "Photos reordered successfully",
+        photos: shala.photos,
+        images: shala.images,
+      };
+    } catch (error) {
+      console.error("Reorder photos error:", error);
+      return this.internalError("reordering photos");
+    }
+  }
+
+  static async setCover(
+    actor: ImageActor,
+    shalaId: string,
+    photoId: string
+  ): Promise<ShalaImageResult> {
+    try {
+      const shala = await this.findManaged(actor, shalaId);
+      if ("success" in shala) return shala;
+
+      const photo = shala.photos.find((item) => item._id.equals(photoId));
+      if (!photo) return this.photoNotFound();
+
+      for (const item of shala.photos) {
+        item.isCover = item._id.equals(photo._id);
+      }
+      shala.images = this.buildImageList(shala.photos, shala.images);
+      shala.updatedAt = new Date();
+      await shala.save();
+
+      return {
+        success: true,
+        message: "Cover photo updated successfully",
+        photo,
+        images: shala.images,
+      };
+    } catch (error) {
+      console.error("Set cover photo error:", error);
+      return this.internalError("updating the cover photo");
+    }
+  }
+
+  // Remove a photo from the listing, then its stored files
+  static async deletePhoto(
+    actor: ImageActor,
+    shalaId: string,
+    photoId: string
+  ): Promise<ShalaImageResult> {
+    try {
+      const shala = await this.findManaged(actor, shalaId);
+      if ("success" in shala) return shala;
+
+      const photo = shala.photos.find((item) => item._id.equals(photoId));
+      if (!photo) return this.photoNotFound();
+
+      const remaining = shala.photos.filter(
+        (item) => !item._id.equals(photo._id)
+      );
+      if (photo.isCover && remaining.length) {
+        remaining[0].isCover = true;
+      }
+
+      shala.photos = remaining;
+      shala.images = this.buildImageList(
+        remaining,
+        shala.images.filter((url) => url !== photo.url)
+      );
+      shala.updatedAt = new Date();
+      await shala.save();
+
+      await this.removeFiles([photo.key, photo.thumbnailKey]);
+
+      return {
+        success: true,
+        message: "Photo deleted successfully",
+        images: shala.images,
+      };
+    } catch (error) {
+      console.error("Delete photo error:", error);
+      return this.internalError("deleting the photo");
+    }
+  }
+
+  // Called when an admin approves the listing or its changes; also merges
+  // the photos into an approved `images` edit
+  static async approvePhotos(shalaId: string): Promise<void> {
+    const shala = await YogaShala.findById(shalaId);
+    if (!shala) return;
+
+    for (const photo of shala.photos) {
+      photo.approved = true;
+    }
+    await this.syncImages(shala);
+  }
+
+  // Called when an admin rejects a live listing's changes
+  static async discardPendingPhotos(shalaId: string): Promise<void> {
+    const shala = await YogaShala.findById(shalaId);
+    const pending = shala?.photos.filter((photo) => !photo.approved) || [];
+    if (!shala || !pending.length) return;
+
+    const remaining = shala.photos.filter((photo) => photo.approved);
+    if (!remaining.some((photo) => photo.isCover) && remaining.length) {
+      remaining[0].isCover = true;
+    }
+    shala.photos = remaining;
+    await shala.save();
+
+    await this.removeFiles(
+      pending.flatMap((photo) => [photo.key, photo.thumbnailKey])
+    );
+  }
+
+  // Approved photo URLs (cover first, then in order) followed by the
+  // linked image URLs that do not belong to a photo
+  static buildImageList(photos: PhotoRef[], images: string[] = []): string[] {
+    const photoUrls = new Set(photos.map((photo) => photo.url));
+    const approved = photos.filter((photo) => photo.approved);
+    const ordered = [
+      ...approved.filter((photo) => photo.isCover),
+      ...approved.filter((photo) => !photo.isCover),
+    ].map((photo) => photo.url);
+
+    return [...ordered, ...images.filter((url) => !photoUrls.has(url))];
+  }
+
+  // Auto-rotated, at most FULL_SIZE on the long edge, plus a cropped
+  // thumbnail; both WebP. Null when the bytes are not a supported image.
+  static async processImage(buffer: Buffer): Promise<ProcessedImage | null> {
+    try {
+      const metadata = await sharp(buffer).metadata();
+      if (!["jpeg", "png", "webp"].includes(metadata.format || "")) {
+        return null;
+      }
+
+      const { data: full, info } = await sharp(buffer)
+        .rotate()
+        .resize(this.FULL_SIZE, this.FULL_SIZE, {
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .webp({ quality: 82 })
+        .toBuffer({ resolveWithObject: true });
+
+      const thumbnail = await sharp(buffer)
+        .rotate()
+        .resize(this.THUMBNAIL.width, this.THUMBNAIL.height, {
+          fit: "cover",
+        })
+        .webp({ quality: 75 })
+        .toBuffer();
+
+      return { full, thumbnail, width: info.width, height: info.height };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static async syncImages(shala: IYogaShala): Promise<void> {
+    shala.images = this.buildImageList(shala.photos, shala.images);
+    await shala.save();
+  }
+
+  // Storage clean-up never fails the request; leftovers are logged
+  private static async removeFiles(keys: string[]): Promise<void> {
+    const storage = getStorageProvider();
+    await Promise.all(
+      keys.map((key) =>
+        storage.delete(key).catch((error) => {
+          console.error(`Failed to delete stored file ${key}:`, error);
+        })
+      )
+    );
+  }
+
+  private static async findShala(shalaId: string) {
+    if (!mongoose.Types.ObjectId.isValid(shalaId)) return null;
+    return YogaShala.findById(shalaId);
+  }
+
+  private static async findManaged(
+    actor: ImageActor,
+    shalaId: string
+  ): Promise<IYogaShala | ShalaImageResult> {
+    const shala = await this.findShala(shalaId);
+    if (!shala) return this.shalaNotFound();
+
+    if (actor.role !== "admin" && shala.owner?.toString() !== actor.id) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.NOT_AUTHORIZED,
+        statusCode: 403,
+        message: "Not authorized to manage photos for this shala",
+      };
+    }
+
+    return shala;
+  }
+
+  private static shalaNotFound(): ShalaImageResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.SHALA_NOT_FOUND,
+      statusCode: 404,
+      message: "Shala not found",
+    };
+  }
+
+  private static photoNotFound(): ShalaImageResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.PHOTO_NOT_FOUND,
+      statusCode: 404,
+      message: "Photo not found",
+    };
+  }
+
+  private static photoLimitReached(): ShalaImageResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.PHOTO_LIMIT_REACHED,
+      statusCode: 409,
+      message: `A shala can have at most ${this.MAX_PHOTOS} photos`,
+    };
+  }
+
+  private static internalError(action: string): ShalaImageResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INTERNAL_ERROR,
+      statusCode: 500,
+      message: `Server error while ${action}`,
+    };
+  }
+}
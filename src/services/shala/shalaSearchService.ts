@@ -0,0 +1,805 @@
+import { PipelineStage } from "mongoose";
+import YogaShala, {
+  ITimeSlot,
+  PUBLISHED_SHALA_FILTER,
+} from "../../models/YogaShala";
+import ClassOccurrence from "../../models/ClassOccurrence";
+import ScheduleException from "../../models/ScheduleException";
+import User from "../../models/User";
+import { YOGA_STYLES, YogaStyle } from "../../constants/yoga";
+import { WEEK_DAYS, normalizeDate } from "../../utils/schedule";
+
+const EARTH_RADIUS_KM = 6378.1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ShalaSortBy = "distance" | "rating" | "price" | "newest";
+
+// Start time windows for the timeOfDay filter, as [from, before)
+export const TIME_OF_DAY_WINDOWS: Record<string, [string, string]> = {
+  morning: ["05:00", "12:00"],
+  afternoon: ["12:00", "17:00"],
+  evening: ["17:00", "24:00"],
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+export interface ShalaSearchParams {
+  lat?: number;
+  lng?: number;
+  radiusKm: number;
+  city?: string;
+  search?: string;
+  minRating: number;
+  amenities: string[];
+  // Class filters; a shala matches when at least one slot matches them all
+  styles: YogaStyle[];
+  days: ITimeSlot["day"][];
+  startAfter?: string;
+  startBefore?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  instructor?: string;
+  sortBy: ShalaSortBy;
+  page: number;
+  limit: number;
+}
+
+// Raw query string, as the route receives it
+export interface ShalaSearchQuery {
+  lat?: string;
+  lng?: string;
+  radius?: string;
+  city?: string;
+  search?: string;
+  minRating?: string;
+  amenities?: string;
+  style?: string;
+  day?: string;
+  timeOfDay?: string;
+  startAfter?: string;
+  startBefore?: string;
+  minPrice?: string;
+  maxPrice?: string;
+  instructor?: string;
+  sortBy?: string;
+  page?: string;
+  limit?: string;
+}
+
+export interface ShalaSearchResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  shalas?: any[];
+  pagination?: {
+    current: number;
+    pages: number;
+    total: number;
+    limit: number;
+  };
+  filters?: Omit<ShalaSearchParams, "page" | "limit">;
+}
+
+export interface NearbyParams {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  // Upcoming classes to return per shala
+  classes: number;
+  limit: number;
+}
+
+export interface NearbyQuery {
+  lat?: string;
+  lng?: string;
+  radius?: string;
+  classes?: string;
+  limit?: string;
+}
+
+export interface NearbyResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  shalas?: any[];
+  location?: { lat: number; lng: number };
+  radiusKm?: number;
+}
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const splitList = (value?: string) =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// "hot_yoga" also matches "Hot Yoga" and "hot-yoga" in class names
+const styleRegex = (style: string) =>
+  style.split("_").map(escapeRegex).join("[ _-]?");
+
+const toRadians = (expression: unknown) => ({
+  $degreesToRadians: expression,
+});
+
+// Great-circle distance in km from (lng, lat) to the shala's location,
+// for pipelines that can't use $geoNear
+const distanceKmExpression = (lng: number, lat: number) => {
+  const shalaLng = { $arrayElemAt: ["$location.coordinates", 0] };
+  const shalaLat = { $arrayElemAt: ["$location.coordinates", 1] };
+  const halfDeltaLat = {
+    $divide: [{ $subtract: [toRadians(shalaLat), toRadians(lat)] }, 2],
+  };
+  const halfDeltaLng = {
+    $divide: [{ $subtract: [toRadians(shalaLng), toRadians(lng)] }, 2],
+  };
+
+  return {
+    $multiply: [
+      2 * EARTH_RADIUS_KM,
+      {
+        $asin: {
+          $sqrt: {
+            $add: [
+              { $pow: [{ $sin: halfDeltaLat }, 2] },
+              {
+                $multiply: [
+                  { $cos: toRadians(lat) },
+                  { $cos: toRadians(shalaLat) },
+                  { $pow: [{ $sin: halfDeltaLng }, 2] },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    ],
+  };
+};
+
+export class ShalaSearchService {
+  static readonly SORT_OPTIONS: ShalaSortBy[] = [
+    "distance",
+    "rating",
+    "price",
+    "newest",
+  ];
+  static readonly MAX_RADIUS_KM = 100;
+  static readonly MAX_LIMIT = 50;
+  static readonly MAX_NEARBY_RADIUS_KM = 50;
+  static readonly MAX_NEARBY_CLASSES = 10;
+
+  static readonly ERROR_CODES = {
+    INVALID_QUERY: "INVALID_QUERY",
+    LOCATION_REQUIRED: "LOCATION_REQUIRED",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  };
+
+  // Turn the query string into search params, or explain what is wrong
+  static parseQuery(
+    query: ShalaSearchQuery
+  ): ShalaSearchParams | ShalaSearchResult {
+    const invalid = (message: string): ShalaSearchResult => ({
+      success: false,
+      code: this.ERROR_CODES.INVALID_QUERY,
+      statusCode: 400,
+      message,
+    });
+
+    const hasLat = query.lat !== undefined && query.lat !== "";
+    const hasLng = query.lng !== undefined && query.lng !== "";
+    if (hasLat !== hasLng) {
+      return invalid("lat and lng must be given together");
+    }
+
+    const lat = hasLat ? Number(query.lat) : undefined;
+    const lng = hasLng ? Number(query.lng) : undefined;
+    if (lat !== undefined && !(Math.abs(lat) <= 90)) {
+      return invalid("lat must be between -90 and 90");
+    }
+    if (lng !== undefined && !(Math.abs(lng) <= 180)) {
+      return invalid("lng must be between -180 and 180");
+    }
+
+    const radiusKm = Number(query.radius ?? 10);
+    if (!(radiusKm > 0 && radiusKm <= this.MAX_RADIUS_KM)) {
+      return invalid(
+        `radius must be above 0 and at most ${this.MAX_RADIUS_KM} km`
+      );
+    }
+
+    const minRating = Number(query.minRating ?? 0);
+    if (!(minRating >= 0 && minRating <= 5)) {
+      return invalid("minRating must be between 0 and 5");
+    }
+
+    const styles = splitList(query.style).map((style) => style.toLowerCase());
+    const unknownStyle = styles.find(
+      (style) => !YOGA_STYLES.includes(style as YogaStyle)
+    );
+    if (unknownStyle) {
+      return invalid(`style must be one of: ${YOGA_STYLES.join(", ")}`);
+    }
+
+    const days = splitList(query.day).map((day) => day.toLowerCase());
+    if (days.some((day) => !WEEK_DAYS.includes(day as ITimeSlot["day"]))) {
+      return invalid(`day must be one of: ${WEEK_DAYS.join(", ")}`);
+    }
+
+    let window: [string?, string?] = [];
+    if (query.timeOfDay) {
+      if (!TIME_OF_DAY_WINDOWS[query.timeOfDay]) {
+        return invalid(
+          `timeOfDay must be one of: ${Object.keys(TIME_OF_DAY_WINDOWS).join(
+            ", "
+          )}`
+        );
+      }
+      window = [...TIME_OF_DAY_WINDOWS[query.timeOfDay]];
+    }
+    const startAfter = query.startAfter || window[0];
+    const startBefore = query.startBefore || window[1];
+    if (
+      (startAfter && !TIME_PATTERN.test(startAfter)) ||
+      (startBefore && !TIME_PATTERN.test(startBefore))
+    ) {
+      return invalid("startAfter and startBefore must be HH:MM times");
+    }
+
+    const minPrice = query.minPrice ? Number(query.minPrice) : undefined;
+    const maxPrice = query.maxPrice ? Number(query.maxPrice) : undefined;
+    if (
+      (minPrice !== undefined && !(minPrice >= 0)) ||
+      (maxPrice !== undefined && !(maxPrice >= 0)) ||
+      (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice)
+    ) {
+      return invalid("minPrice and maxPrice must be a valid price range");
+    }
+
+    const sortBy = (query.sortBy || "distance") as ShalaSortBy;
+    if (!this.SORT_OPTIONS.includes(sortBy)) {
+      return invalid(`sortBy must be one of: ${this.SORT_OPTIONS.join(", ")}`);
+    }
+
+    const page = Math.max(1, parseInt(query.page || "1") || 1);
+    const limit = Math.min(
+      this.MAX_LIMIT,
+      Math.max(1, parseInt(query.limit || "10") || 10)
+    );
+
+    return {
+      lat,
+      lng,
+      radiusKm,
+      city: query.city?.trim() || undefined,
+      search: query.search?.trim() || undefined,
+      minRating,
+      amenities: splitList(query.amenities),
+      styles: styles as YogaStyle[],
+      days: days as ITimeSlot["day"][],
+      startAfter,
+      startBefore,
+      minPrice,
+      maxPrice,
+      instructor: query.instructor?.trim() || undefined,
+      sortBy,
+      page,
+      limit,
+    };
+  }
+
+  // Aggregation for one page of results plus the total under the same
+  // filters. $geoNear and $text both have to be the first stage, so a text
+  // search near a point matches with $geoWithin and computes the distance.
+  // Shalas closed for the whole coming week are left out.
+  static buildPipeline(
+    params: ShalaSearchParams,
+    now: Date = new Date()
+  ): PipelineStage[] {
+    const hasLocation = params.lat !== undefined && params.lng !== undefined;
+    const filters: Record<string, unknown> = {
+      ...PUBLISHED_SHALA_FILTER,
+    };
+
+    if (params.city) {
+      filters["address.city"] = new RegExp(escapeRegex(params.city), "i");
+    }
+    if (params.minRating > 0) {
+      filters.rating = { $gte: params.minRating };
+    }
+    if (params.amenities.length > 0) {
+      filters.amenities = { $all: params.amenities };
+    }
+
+    const slotFilters = this.hasSlotFilters(params);
+    if (slotFilters) {
+      filters.schedule = { $elemMatch: this.buildSlotMatch(params) };
+    }
+
+    const pipeline: PipelineStage[] = [];
+
+    if (params.search) {
+      if (hasLocation) {
+        filters.location = {
+          $geoWithin: {
+            $centerSphere: [
+              [params.lng, params.lat],
+              params.radiusKm / EARTH_RADIUS_KM,
+            ],
+          },
+        };
+      }
+      pipeline.push(
+        { $match: { $text: { $search: params.search }, ...filters } },
+        { $addFields: { textScore: { $meta: "textScore" } } }
+      );
+      if (hasLocation) {
+        pipeline.push({
+          $addFields: {
+            distance: distanceKmExpression(params.lng!, params.lat!),
+          },
+        });
+      }
+    } else if (hasLocation) {
+      pipeline.push({
+        $geoNear: {
+          near: { type: "Point", coordinates: [params.lng!, params.lat!] },
+          distanceField: "distance",
+          maxDistance: params.radiusKm * 1000,
+          distanceMultiplier: 0.001,
+          spherical: true,
+          query: filters,
+        },
+      });
+    } else {
+      pipeline.push({ $match: filters });
+    }
+
+    if (slotFilters) {
+      pipeline.push(
+        { $addFields: { matchingSlots: this.buildMatchingSlots(params) } },
+        { $match: { "matchingSlots.0": { $exists: true } } },
+        { $addFields: { slotMatches: { $size: "$matchingSlots" } } }
+      );
+    }
+
+    // Closures in the coming week, so listings can show them
+    const today = normalizeDate(now);
+    const weekEnd = new Date(today.getTime() + 6 * DAY_MS);
+    pipeline.push(
+      {
+        $lookup: {
+          from: ScheduleException.collection.name,
+          let: { shalaId: "$_id" },
+          pipeline: [
+            {
+              $match: {
+                $expr: { $eq: ["$shala", "$$shalaId"] },
+                type: "closure",
+                endDate: { $gte: today },
+                startDate: { $lte: weekEnd },
+              },
+            },
+            { $sort: { startDate: 1 } },
+            { $project: { _id: 0, startDate: 1, endDate: 1, reason: 1 } },
+          ],
+          as: "closures",
+        },
+      },
+      {
+        $match: {
+          closures: {
+            $not: {
+              $elemMatch: {
+                startDate: { $lte: today },
+                endDate: { $gte: weekEnd },
+              },
+            },
+          },
+        },
+      }
+    );
+
+    // Cheapest class at the shala (of the matching ones when filtering by
+    // class); slots without a price use the drop-in rate
+    pipeline.push({
+      $addFields: {
+        fromPrice: {
+          $ifNull: [
+            {
+              $min: {
+                $filter: {
+                  input: slotFilters
+                    ? "$matchingSlots.price"
+                    : "$schedule.price",
+                  cond: { $gt: ["$$this", 0] },
+                },
+              },
+            },
+            "$dropInRate",
+          ],
+        },
+      },
+    });
+
+    if (params.sortBy === "price") {
+      pipeline.push({
+        $addFields: {
+          sortPrice: { $ifNull: ["$fromPrice", Number.MAX_SAFE_INTEGER] },
+        },
+      });
+    }
+
+    pipeline.push({
+      $sort: this.getSort(params, hasLocation, slotFilters),
+    });
+
+    pipeline.push({
+      $facet: {
+        shalas: [
+          { $skip: (params.page - 1) * params.limit },
+          { $limit: params.limit },
+          {
+            $lookup: {
+              from: "users",
+              localField: "owner",
+              foreignField: "_id",
+              as: "owner",
+              pipeline: [{ $project: { name: 1, email: 1, phone: 1 } }],
+            },
+          },
+          { $unwind: { path: "$owner", preserveNullAndEmptyArrays: true } },
+          ...(hasLocation
+            ? [{ $addFields: { distance: { $round: ["$distance", 2] } } }]
+            : []),
+          { $project: { __v: 0, sortPrice: 0, slotMatches: 0 } },
+        ],
+        total: [{ $count: "count" }],
+      },
+    });
+
+    return pipeline;
+  }
+
+  // Nearby params from the query string. Without lat/lng the signed-in
+  // user's preferred location and max distance are used instead.
+  static async parseNearbyQuery(
+    query: NearbyQuery,
+    userId?: string
+  ): Promise<NearbyParams | NearbyResult> {
+    const invalid = (
+      message: string,
+      code = this.ERROR_CODES.INVALID_QUERY
+    ) => ({
+      success: false,
+      code,
+      statusCode: 400,
+      message,
+    });
+
+    let lat = query.lat ? Number(query.lat) : undefined;
+    let lng = query.lng ? Number(query.lng) : undefined;
+    let radiusKm = query.radius ? Number(query.radius) : undefined;
+
+    if ((lat === undefined) !== (lng === undefined)) {
+      return invalid("lat and lng must be given together");
+    }
+
+    if (lat === undefined && userId) {
+      const user = await User.findById(userId).select(
+        "preferredLocation maxDistance"
+      );
+      const coordinates = user?.preferredLocation?.coordinates;
+      if (coordinates?.length === 2) {
+        [lng, lat] = coordinates;
+        radiusKm = radiusKm ?? user?.maxDistance;
+      }
+    }
+
+    if (lat === undefined || lng === undefined) {
+      return invalid(
+        "lat and lng are required when no preferred location is set",
+        this.ERROR_CODES.LOCATION_REQUIRED
+      );
+    }
+    if (!(Math.abs(lat) <= 90) || !(Math.abs(lng) <= 180)) {
+      return invalid("lat or lng is out of range");
+    }
+
+    radiusKm = Math.min(radiusKm ?? 5, this.MAX_NEARBY_RADIUS_KM);
+    if (!(radiusKm > 0)) {
+      return invalid("radius must be above 0 km");
+    }
+
+    return {
+      lat,
+      lng,
+      radiusKm,
+      classes: Math.min(
+        this.MAX_NEARBY_CLASSES,
+        Math.max(1, parseInt(query.classes || "3") || 3)
+      ),
+      limit: Math.min(
+        this.MAX_LIMIT,
+        Math.max(1, parseInt(query.limit || "20") || 20)
+      ),
+    };
+  }
+
+  // Shalas closest to a point, each with its next classes and the spots
+  // left in them
+  static buildNearbyPipeline(
+    params: NearbyParams,
+    now: Date = new Date()
+  ): PipelineStage[] {
+    return [
+      {
+        $geoNear: {
+          near: { type: "Point", coordinates: [params.lng, params.lat] },
+          distanceField: "distance",
+          maxDistance: params.radiusKm * 1000,
+          distanceMultiplier: 0.001,
+          spherical: true,
+          query: PUBLISHED_SHALA_FILTER,
+        },
+      },
+      { $limit: params.limit },
+      {
+        $lookup: {
+          from: ClassOccurrence.collection.name,
+          let: { shalaId: "$_id" },
+          pipeline: [
+            {
+              $match: {
+                $expr: { $eq: ["$shala", "$$shalaId"] },
+                status: "scheduled",
+                startsAt: { $gt: now },
+              },
+            },
+            { $sort: { startsAt: 1 } },
+            { $limit: params.classes },
+            {
+              $project: {
+                _id: 0,
+                id: "$_id",
+                date: 1,
+                day: 1,
+                startTime: 1,
+                endTime: 1,
+                timezone: 1,
+                startsAt: 1,
+                endsAt: 1,
+                className: 1,
+                style: 1,
+                level: 1,
+                instructor: {
+                  $ifNull: ["$substituteInstructor", "$instructor"],
+                },
+                price: 1,
+                capacity: 1,
+                remainingSpots: {
+                  $max: [0, { $subtract: ["$capacity", "$bookedCount"] }],
+                },
+              },
+            },
+          ],
+          as: "upcomingClasses",
+        },
+      },
+      {
+        $project: {
+          name: 1,
+          address: 1,
+          location: 1,
+          distance: { $round: ["$distance", 2] },
+          rating: 1,
+          reviewCount: 1,
+          dropInRate: 1,
+          amenities: 1,
+          phone: 1,
+          images: { $slice: ["$images", 1] },
+          upcomingClasses: 1,
+        },
+      },
+    ];
+  }
+
+  static async findNearby(params: NearbyParams): Promise<NearbyResult> {
+    try {
+      const shalas = await YogaShala.aggregate(
+        this.buildNearbyPipeline(params)
+      );
+
+      return {
+        success: true,
+        message: "Nearby shalas retrieved successfully",
+        shalas,
+        location: { lat: params.lat, lng: params.lng },
+        radiusKm: params.radiusKm,
+      };
+    } catch (error) {
+      console.error("Nearby shalas error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while finding nearby shalas",
+      };
+    }
+  }
+
+  static async search(params: ShalaSearchParams): Promise<ShalaSearchResult> {
+    try {
+      const [result] = await YogaShala.aggregate(this.buildPipeline(params));
+      const total: number = result?.total[0]?.count || 0;
+      const { page, limit, ...filters } = params;
+
+      return {
+        success: true,
+        message: "Shalas retrieved successfully",
+        shalas: result?.shalas || [],
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total,
+          limit,
+        },
+        filters,
+      };
+    } catch (error) {
+      console.error("Search shalas error:", error);
+      return {
+        success: false,
+        code: this.ERROR_CODES.INTERNAL_ERROR,
+        statusCode: 500,
+        message: "Server error while searching shalas",
+      };
+    }
+  }
+
+  private static hasSlotFilters(params: ShalaSearchParams): boolean {
+    return (
+      params.styles.length > 0 ||
+      params.days.length > 0 ||
+      !!params.startAfter ||
+      !!params.startBefore ||
+      params.minPrice !== undefined ||
+      params.maxPrice !== undefined ||
+      !!params.instructor
+    );
+  }
+
+  // Index-friendly prefilter on schedule slots. Price is left to
+  // buildMatchingSlots because it depends on the shala's drop-in rate.
+  private static buildSlotMatch(
+    params: ShalaSearchParams
+  ): Record<string, unknown> {
+    const match: Record<string, unknown> = {};
+
+    if (params.styles.length > 0) {
+      match.$or = [
+        { style: { $in: params.styles } },
+        {
+          className: new RegExp(params.styles.map(styleRegex).join("|"), "i"),
+        },
+      ];
+    }
+    if (params.days.length > 0) {
+      match.day = { $in: params.days };
+    }
+    if (params.startAfter || params.startBefore) {
+      match.startTime = {
+        ...(params.startAfter && { $gte: params.startAfter }),
+        ...(params.startBefore && { $lt: params.startBefore }),
+      };
+    }
+    if (params.instructor) {
+      match.instructor = new RegExp(escapeRegex(params.instructor), "i");
+    }
+
+    return match;
+  }
+
+  // The shala's slots that match every class filter, priced as they
+  // would be charged
+  private static buildMatchingSlots(params: ShalaSearchParams) {
+    const slot = "$$slot";
+    const conditions: unknown[] = [];
+
+    if (params.styles.length > 0) {
+      conditions.push({
+        $or: [
+          { $in: [`${slot}.style`, params.styles] },
+          {
+            $regexMatch: {
+              input: `${slot}.className`,
+              regex: params.styles.map(styleRegex).join("|"),
+              options: "i",
+            },
+          },
+        ],
+      });
+    }
+    if (params.days.length > 0) {
+      conditions.push({ $in: [`${slot}.day`, params.days] });
+    }
+    if (params.startAfter) {
+      conditions.push({ $gte: [`${slot}.startTime`, params.startAfter] });
+    }
+    if (params.startBefore) {
+      conditions.push({ $lt: [`${slot}.startTime`, params.startBefore] });
+    }
+    if (params.minPrice !== undefined) {
+      conditions.push({ $gte: [`${slot}.price`, params.minPrice] });
+    }
+    if (params.maxPrice !== undefined) {
+      conditions.push({ $lte: [`${slot}.price`, params.maxPrice] });
+    }
+    if (params.instructor) {
+      conditions.push({
+        $regexMatch: {
+          input: `${slot}.instructor`,
+          regex: escapeRegex(params.instructor),
+          options: "i",
+        },
+      });
+    }
+
+    return {
+      $filter: {
+        input: {
+          $map: {
+            input: "$schedule",
+            as: "slot",
+            in: {
+              $mergeObjects: [
+                slot,
+                {
+                  price: {
+                    $cond: [
+                      { $gt: [`${slot}.price`, 0] },
+                      `${slot}.price`,
+                      { $ifNull: ["$dropInRate", 0] },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        },
+        as: "slot",
+        cond: { $and: conditions },
+      },
+    };
+  }
+
+  // Shalas with more matching classes rank higher among otherwise equal ones
+  private static getSort(
+    params: ShalaSearchParams,
+    hasLocation: boolean,
+    slotFilters: boolean
+  ): Record<string, 1 | -1> {
+    const byMatches: Record<string, 1 | -1> = slotFilters
+      ? { slotMatches: -1 }
+      : {};
+
+    switch (params.sortBy) {
+      case "rating":
+        return { rating: -1, reviewCount: -1, ...byMatches, _id: 1 };
+      case "price":
+        // Shalas without any price go last
+        return { sortPrice: 1, rating: -1, _id: 1 };
+      case "newest":
+        return { createdAt: -1, _id: 1 };
+      default:
+        if (hasLocation) {
+          return { distance: 1, ...byMatches, rating: -1, _id: 1 };
+        }
+        if (params.search) return { textScore: -1, rating: -1, _id: 1 };
+        return { ...byMatches, rating: -1, createdAt: -1, _id: 1 };
+    }
+  }
+}
@@ -1,5 +1,13 @@
-import YogaShala from "../../models/YogaShala";
+import YogaShala, { ITimeSlot, isPublished } from "../../models/YogaShala";
 import { IYogaShala as ShalaType } from "../../models/YogaShala";
+import { ReviewService } from "../review/reviewService";
+import { OccurrenceService } from "../schedule/occurrenceService";
+import { ModerationService } from "./moderationService";
+import { WishlistService } from "../user/wishlistService";
+import {
+  ScheduleFieldError,
+  ScheduleValidationService,
+} from "../schedule/scheduleValidationService";
 
 export interface ShalaData {
   name: string;
@@ -21,17 +29,7 @@ export interface ShalaData {
     website?: string;
   };
   amenities: string[];
-  schedule: Array<{
-    day: string;
-    timeSlots: Array<{
-      startTime: string;
-      endTime: string;
-      classType: string;
-      instructor: string;
-      capacity: number;
-      price: number;
-    }>;
-  }>;
+  schedule: ITimeSlot[];
   pricing: {
     singleClass: number;
     monthly: number;
@@ -43,6 +41,8 @@ export interface ShalaData {
 export interface ShalaResult {
   success: boolean;
   message: string;
+  code?: string;
+  errors?: ScheduleFieldError[];
   shala?: any;
   shalas?: any[];
   pagination?: any;
@@ -55,20 +55,28 @@ export class ShalaService {
     shalaData: ShalaData
   ): Promise<ShalaResult> {
     try {
+      const scheduleErrors = ScheduleValidationService.validateSchedule(
+        shalaData.schedule
+      );
+      if (scheduleErrors.length > 0) {
+        return this.invalidSchedule(scheduleErrors);
+      }
+
       // Create new shala
       const shala = new YogaShala({
-        ...shalaData,
+        ...ModerationService.withoutProtectedFields(shalaData),
         owner: userId,
         rating: 0,
         reviewCount: 0,
         isActive: true,
+        moderationStatus: "pending",
       });
 
       await shala.save();
 
       return {
         success: true,
-        message: "Shala created successfully",
+        message: "Shala created and submitted for approval",
         shala,
       };
     } catch (error) {
@@ -83,21 +91,25 @@ export class ShalaService {
   // Get shala by ID
   static async getShalaById(id: string): Promise<ShalaResult> {
     try {
-      const shala = await YogaShala.findById(id)
-        .populate("owner", "name email phone")
-        .populate("reviews.user", "name");
+      const shala = await YogaShala.findById(id).populate(
+        "owner",
+        "name email phone"
+      );
 
-      if (!shala) {
+      // Owners see their unapproved listings through getShalasByOwner
+      if (!shala || !isPublished(shala)) {
         return {
           success: false,
           message: "Shala not found",
         };
       }
 
+      const reviews = await ReviewService.getRecentReviews(id);
+
       return {
         success: true,
         message: "Shala retrieved successfully",
-        shala,
+        shala: { ...shala.toObject(), reviews },
       };
     } catch (error) {
       console.error("Get shala by ID error:", error);
@@ -132,15 +144,38 @@ export class ShalaService {
         };
       }
 
-      // Update shala
-      const updatedShala = await YogaShala.findByIdAndUpdate(id, updateData, {
+      if (updateData.schedule !== undefined) {
+        const scheduleErrors = ScheduleValidationService.validateSchedule(
+          updateData.schedule
+        );
+        if (scheduleErrors.length > 0) {
+          return this.invalidSchedule(scheduleErrors);
+        }
+      }
+
+      // Edited slots keep their IDs so their classes and bookings carry over
+      if (updateData.schedule) {
+        updateData.schedule = OccurrenceService.matchSlots(
+          shala.schedule,
+          updateData.schedule
+        );
+      }
+
+      // Listing content edits go through moderation
+      const { update, heldFields } = ModerationService.prepareUpdate(
+        shala,
+        updateData
+      );
+      const updatedShala = await YogaShala.findByIdAndUpdate(id, update, {
         new: true,
         runValidators: true,
       }).populate("owner", "name email phone");
 
       return {
         success: true,
-        message: "Shala updated successfully",
+        message: heldFields.length
+          ? `Shala updated; changes to ${heldFields.join(", ")} are waiting for approval`
+          : "Shala updated successfully",
         shala: updatedShala,
       };
     } catch (error) {
@@ -174,6 +209,7 @@ export class ShalaService {
 
       // Soft delete by setting isActive to false
       await YogaShala.findByIdAndUpdate(id, { isActive: false });
+      await WishlistService.removeShalaFromWishlists(id);
 
       return {
         success: true,
@@ -240,4 +276,13 @@ export class ShalaService {
       createdAt: shala.createdAt,
     };
   }
+
+  private static invalidSchedule(errors: ScheduleFieldError[]): ShalaResult {
+    return {
+      success: false,
+      code: "INVALID_SCHEDULE",
+      message: `The schedule has ${errors.length} invalid field${errors.length === 1 ? "" : "s"}`,
+      errors,
+    };
+  }
 }
@@ -0,0 +1,201 @@
+import mongoose from "mongoose";
+import User from "../../models/User";
+import YogaShala, { IYogaShala } from "../../models/YogaShala";
+
+export interface StaffActor {
+  id: string;
+  role: string;
+}
+
+export interface StaffResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  staff?: any[];
+}
+
+export class StaffService {
+  static readonly ERROR_CODES = {
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    USER_NOT_FOUND: "USER_NOT_FOUND",
+    NOT_AUTHORIZED: "NOT_AUTHORIZED",
+    INVALID_STAFF: "INVALID_STAFF",
+    STAFF_LIMIT: "STAFF_LIMIT",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+  } as const;
+
+  static readonly MAX_STAFF = 50;
+  static readonly SUMMARY_FIELDS = "name email role";
+
+  // Owner, staff member or admin: may check users in and out
+  static canRunFrontDesk(
+    actor: StaffActor,
+    shala: Pick<IYogaShala, "owner" | "staff">
+  ): boolean {
+    return (
+      actor.role === "admin" ||
+      shala.owner?.toString() === actor.id ||
+      (shala.staff || []).some((member) => member.toString() === actor.id)
+    );
+  }
+
+  // Front desk staff of a shala (owner or admin)
+  static async listStaff(
+    actor: StaffActor,
+    shalaId: string
+  ): Promise<StaffResult> {
+    try {
+      const shala = await this.findManagedShala(actor, shalaId);
+      if ("success" in shala) return shala;
+
+      return {
+        success: true,
+        message: "Staff retrieved successfully",
+        staff: await this.loadStaff(shala),
+      };
+    } catch (error) {
+      console.error("List staff error:", error);
+      return this.internalError("fetching staff");
+    }
+  }
+
+  // Give a registered user front desk access. Adding someone twice is a
+  // no-op.
+  static async addStaff(
+    actor: StaffActor,
+    shalaId: string,
+    email: string
+  ): Promise<StaffResult> {
+    try {
+      const shala = await this.findManagedShala(actor, shalaId);
+      if ("success" in shala) return shala;
+
+      const user = await User.findOne({
+        email: email?.trim().toLowerCase(),
+      }).select("_id");
+      if (!user) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.USER_NOT_FOUND,
+          statusCode: 404,
+          message: "No user with that email",
+        };
+      }
+
+      if (shala.owner?.toString() === String(user._id)) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.INVALID_STAFF,
+          statusCode: 400,
+          message: "The owner already has front desk access",
+        };
+      }
+
+      const updated = await YogaShala.updateOne(
+        {
+          _id: shala._id,
+          $or: [
+            { staff: user._id },
+            { [`staff.${this.MAX_STAFF - 1}`]: { $exists: false } },
+          ],
+        },
+        { $addToSet: { staff: user._id as mongoose.Types.ObjectId } }
+      );
+
+      if (updated.matchedCount === 0) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.STAFF_LIMIT,
+          statusCode: 400,
+          message: `A shala can have at most ${this.MAX_STAFF} staff members`,
+        };
+      }
+
+      return {
+        success: true,
+        message: "Staff member added",
+        staff: await this.loadStaff(shala),
+      };
+    } catch (error) {
+      console.error("Add staff error:", error);
+      return this.internalError("adding the staff member");
+    }
+  }
+
+  // Revoke a user's front desk access
+  static async removeStaff(
+    actor: StaffActor,
+    shalaId: string,
+    userId: string
+  ): Promise<StaffResult> {
+    try {
+      const shala = await this.findManagedShala(actor, shalaId);
+      if ("success" in shala) return shala;
+
+      if (mongoose.isValidObjectId(userId)) {
+        await YogaShala.updateOne(
+          { _id: shala._id },
+          { $pull: { staff: new mongoose.Types.ObjectId(userId) } }
+        );
+      }
+
+      return {
+        success: true,
+        message: "Staff member removed",
+        staff: await this.loadStaff(shala),
+      };
+    } catch (error) {
+      console.error("Remove staff error:", error);
+      return this.internalError("removing the staff member");
+    }
+  }
+
+  // Current staff of the shala, re-read after a change
+  private static async loadStaff(shala: IYogaShala) {
+    const current = await YogaShala.findById(shala._id)
+      .select("staff")
+      .populate("staff", this.SUMMARY_FIELDS)
+      .lean();
+    return current?.staff || [];
+  }
+
+  // Shala the actor may manage staff of, or the reason they can't
+  private static async findManagedShala(
+    actor: StaffActor,
+    shalaId: string
+  ): Promise<IYogaShala | StaffResult> {
+    const shala = mongoose.isValidObjectId(shalaId)
+      ? await YogaShala.findById(shalaId).select("owner staff")
+      : null;
+
+    if (!shala) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.SHALA_NOT_FOUND,
+        statusCode: 404,
+        message: "Shala not found",
+      };
+    }
+
+    if (actor.role !== "admin" && shala.owner?.toString() !== actor.id) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.NOT_AUTHORIZED,
+        statusCode: 403,
+        message: "Only the owner can manage this shala's staff",
+      };
+    }
+
+    return shala;
+  }
+
+  private static internalError(action: string): StaffResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.INTERNAL_ERROR,
+      statusCode: 500,
+      message: `Server error while ${action}`,
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageProvider, StoredFile } from "./storageProvider";
+
+// Files on the API server's disk, served by the /uploads static route
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = "local";
+
+  constructor(
+    readonly rootDir: string,
+    private publicBaseUrl: string
+  ) {}
+
+  async put(key: string, body: Buffer): Promise<StoredFile> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    return { key, url: this.getUrl(key) };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicBaseUrl.replace(/\/$/, "")}/${key}`;
+  }
+
+  // Keep keys inside the upload directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  }
+}
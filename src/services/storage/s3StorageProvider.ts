@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import { StorageProvider, StoredFile } from "./storageProvider";
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // S3-compatible services (R2, MinIO, Spaces); AWS when unset
+  endpoint?: string;
+  // CDN or public bucket URL files are served from
+  publicBaseUrl?: string;
+}
+
+const sha256 = (data: string | Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+// RFC 3986 encoding as SigV4 expects, keeping the "/" separators
+const encodeKey = (key: string) =>
+  key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+      )
+    )
+    .join("/");
+
+// Any S3-compatible bucket, addressed path-style and signed with SigV4
+export class S3StorageProvider implements StorageProvider {
+  readonly name = "s3";
+  private endpoint: string;
+
+  constructor(private config: S3StorageConfig) {
+    this.endpoint = (
+      config.endpoint || `https://s3.${config.region}.amazonaws.com`
+    ).replace(/\/$/, "");
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    contentType: string
+  ): Promise<StoredFile> {
+    const response = await this.send("PUT", key, body, {
+      "content-type": contentType,
+      "cache-control": "public, max-age=31536000, immutable",
+    });
+    if (!response.ok) {
+      throw new Error(`S3 upload failed (${response.status}) for "${key}"`);
+    }
+    return { key, url: this.getUrl(key) };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send("DELETE", key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed (${response.status}) for "${key}"`);
+    }
+  }
+
+  getUrl(key: string): string {
+    const base =
+      this.config.publicBaseUrl?.replace(/\/$/, "") ||
+      `${this.endpoint}/${this.config.bucket}`;
+    return `${base}/${encodeKey(key)}`;
+  }
+
+  private send(
+    method: "PUT" | "DELETE",
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ) {
+    const url = new URL(
+      `${this.endpoint}/${this.config.bucket}/${encodeKey(key)}`
+    );
+    const headers = this.sign(
+      method,
+      url,
+      body || Buffer.alloc(0),
+      extraHeaders
+    );
+
+    return fetch(url, {
+      method,
+      headers,
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  // Authorization header for one request (AWS Signature Version 4)
+  sign(
+    method: string,
+    url: URL,
+    body: Buffer,
+    extraHeaders: Record<string, string> = {},
+    now: Date = new Date()
+  ): Record<string, string> {
+    const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(body);
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const names = Object.keys(headers)
+      .map((name) => name.toLowerCase())
+      .sort();
+    const signedHeaders = names.join(";");
+    const canonicalHeaders = names
+      .map((name) => `${name}:${String(headers[name]).trim()}\n`)
+      .join("");
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join("\n");
+
+    const signingKey = ["s3", "aws4_request"].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, date), this.config.region)
+    );
+    const signature = crypto
+      .createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex");
+
+    return {
+      ...headers,
+      authorization:
+        `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, ` +
+        `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+// Contract every file storage backend implements. Keys are relative paths
+// such as "shalas/<shalaId>/<file>.webp"; backends decide where they live.
+
+export interface StoredFile {
+  key: string;
+  url: string;
+}
+
+export interface StorageProvider {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<StoredFile>;
+  // Deleting a key that does not exist is not an error
+  delete(key: string): Promise<void>;
+  // Public URL a stored key is served from
+  getUrl(key: string): string;
+}
@@ -0,0 +1,44 @@
+import path from "path";
+import { StorageProvider } from "./storageProvider";
+import { LocalStorageProvider } from "./localStorageProvider";
+import { S3StorageProvider } from "./s3StorageProvider";
+
+// URL prefix the local backend's files are served under
+export const LOCAL_UPLOADS_PREFIX = "/uploads/";
+
+let provider: StorageProvider | null = null;
+
+// STORAGE_PROVIDER picks the backend; local disk unless set to s3
+export const getStorageProvider = (): StorageProvider => {
+  if (provider) return provider;
+
+  const name = process.env.STORAGE_PROVIDER || "local";
+
+  switch (name) {
+    case "local":
+      provider = new LocalStorageProvider(
+        path.resolve(process.env.UPLOAD_DIR || "uploads"),
+        `${process.env.BACKEND_URL || ""}${LOCAL_UPLOADS_PREFIX}`
+      );
+      break;
+    case "s3":
+      provider = new S3StorageProvider({
+        bucket: process.env.S3_BUCKET || "",
+        region: process.env.S3_REGION || "auto",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+        endpoint: process.env.S3_ENDPOINT,
+        publicBaseUrl: process.env.S3_PUBLIC_URL,
+      });
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${name}"`);
+  }
+
+  return provider;
+};
+
+// Swap the provider (tests)
+export const setStorageProvider = (next: StorageProvider | null) => {
+  provider = next;
+};
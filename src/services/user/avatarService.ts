@@ -0,0 +1,221 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import User, { IUserAvatar } from "../../models/User";
+import { getStorageProvider } from "../storage/storageProviderFactory";
+
+export interface AvatarFile {
+  filename?: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+export type AvatarSize = "small" | "medium" | "large";
+
+// Variant URLs as returned to clients
+export interface AvatarUrls {
+  url: string;
+  small: string;
+  medium: string;
+  large: string;
+  updatedAt: Date;
+}
+
+export interface AvatarResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  avatar?: AvatarUrls | null;
+}
+
+export class AvatarService {
+  static readonly ERROR_CODES = {
+    USER_NOT_FOUND: "USER_NOT_FOUND",
+    NO_FILE: "NO_FILE",
+    UNSUPPORTED_TYPE: "UNSUPPORTED_TYPE",
+    INVALID_IMAGE: "INVALID_IMAGE",
+    NO_AVATAR: "NO_AVATAR",
+  } as const;
+
+  static readonly ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+  static readonly MAX_FILE_SIZE = 5 * 1024 * 1024;
+  // Edge length in pixels of each square variant
+  static readonly SIZES: Record<AvatarSize, number> = {
+    small: 64,
+    medium: 160,
+    large: 400,
+  };
+
+  // Upload a new avatar, replacing (and removing the files of) any previous one
+  static async uploadAvatar(
+    userId: string,
+    file?: AvatarFile
+  ): Promise<AvatarResult> {
+    if (!file) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.NO_FILE,
+        statusCode: 400,
+        message: "Attach an image",
+      };
+    }
+
+    if (!this.ALLOWED_TYPES.includes(file.mimetype)) {
+      return {
+        success: false,
+        code: this.ERROR_CODES.UNSUPPORTED_TYPE,
+        statusCode: 415,
+        message: `${file.filename || "File"} is not a JPEG, PNG or WebP image`,
+      };
+    }
+
+    const stored: string[] = [];
+    const storage = getStorageProvider();
+
+    try {
+      const user = await User.findById(userId).select("avatar");
+      if (!user) return this.userNotFound();
+
+      const variants = await this.processAvatar(file.buffer);
+      if (!variants) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.INVALID_IMAGE,
+          statusCode: 400,
+          message: `${file.filename || "File"} could not be read as an image`,
+        };
+      }
+
+      // A fresh name per upload so cached copies of the old one never linger
+      const version = crypto.randomBytes(6).toString("hex");
+      const urls = {} as Record<AvatarSize, string>;
+      for (const size of Object.keys(this.SIZES) as AvatarSize[]) {
+        const { key, url } = await storage.put(
+          `avatars/${userId}/${version}-${size}.webp`,
+          variants[size],
+          "image/webp"
+        );
+        stored.push(key);
+        urls[size] = url;
+      }
+
+      const previousKeys = user.avatar?.keys || [];
+      user.avatar = {
+        ...urls,
+        keys: stored,
+        updatedAt: new Date(),
+      };
+      await user.save();
+
+      await this.removeFiles(previousKeys);
+
+      return {
+        success: true,
+        message: "Avatar updated successfully",
+        avatar: this.formatAvatar(user.avatar),
+      };
+    } catch (error) {
+      console.error("Upload avatar error:", error);
+      await this.removeFiles(stored);
+      return {
+        success: false,
+        statusCode: 500,
+        message: "Server error while uploading avatar",
+      };
+    }
+  }
+
+  // Remove the avatar and its stored files
+  static async deleteAvatar(userId: string): Promise<AvatarResult> {
+    try {
+      const user = await User.findById(userId).select("avatar");
+      if (!user) return this.userNotFound();
+
+      if (!user.avatar) {
+        return {
+          success: false,
+          code: this.ERROR_CODES.NO_AVATAR,
+          statusCode: 404,
+          message: "No avatar to delete",
+        };
+      }
+
+      const keys = user.avatar.keys || [];
+      user.avatar = undefined;
+      await user.save();
+
+      await this.removeFiles(keys);
+
+      return {
+        success: true,
+        message: "Avatar deleted successfully",
+        avatar: null,
+      };
+    } catch (error) {
+      console.error("Delete avatar error:", error);
+      return {
+        success: false,
+        statusCode: 500,
+        message: "Server error while deleting avatar",
+      };
+    }
+  }
+
+  // Public shape of a stored avatar; storage keys stay internal
+  static formatAvatar(avatar?: IUserAvatar | null): AvatarUrls | null {
+    if (!avatar?.medium) return null;
+    return {
+      url: avatar.medium,
+      small: avatar.small,
+      medium: avatar.medium,
+      large: avatar.large,
+      updatedAt: avatar.updatedAt,
+    };
+  }
+
+  // Auto-rotated, centre-cropped squares at each size, as WebP. Null when
+  // the bytes are not a supported image.
+  static async processAvatar(
+    buffer: Buffer
+  ): Promise<Record<AvatarSize, Buffer> | null> {
+    try {
+      const metadata = await sharp(buffer).metadata();
+      if (!["jpeg", "png", "webp"].includes(metadata.format || "")) {
+        return null;
+      }
+
+      const variants = {} as Record<AvatarSize, Buffer>;
+      for (const [size, edge] of Object.entries(this.SIZES)) {
+        variants[size as AvatarSize] = await sharp(buffer)
+          .rotate()
+          .resize(edge, edge, { fit: "cover", position: "attention" })
+          .webp({ quality: 80 })
+          .toBuffer();
+      }
+      return variants;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Storage clean-up never fails the request; leftovers are logged
+  private static async removeFiles(keys: string[]): Promise<void> {
+    const storage = getStorageProvider();
+    await Promise.all(
+      keys.map((key) =>
+        storage.delete(key).catch((error) => {
+          console.error(`Failed to delete stored file ${key}:`, error);
+        })
+      )
+    );
+  }
+
+  private static userNotFound(): AvatarResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.USER_NOT_FOUND,
+      statusCode: 404,
+      message: "User not found",
+    };
+  }
+}
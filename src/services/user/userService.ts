@@ -1,5 +1,6 @@
 import User from "../../models/User";
 import { IUser as UserType } from "../../models/User";
+import { AvatarService } from "./avatarService";
 
 export interface UserQuery {
   page?: number;
@@ -223,6 +224,7 @@ export class UserService {
       id: user._id,
       name: user.name,
       email: user.email,
+      avatar: AvatarService.formatAvatar(user.avatar),
       role: user.role,
       isVerified: user.isVerified,
       isActive: user.isActive,
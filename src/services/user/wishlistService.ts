@@ -0,0 +1,208 @@
+import mongoose from "mongoose";
+import User from "../../models/User";
+import YogaShala, { PUBLISHED_SHALA_FILTER } from "../../models/YogaShala";
+
+export interface WishlistResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  statusCode?: number;
+  shalas?: any[];
+  shalaId?: string;
+  isWishlisted?: boolean;
+}
+
+export class WishlistService {
+  static readonly ERROR_CODES = {
+    USER_NOT_FOUND: "USER_NOT_FOUND",
+    SHALA_NOT_FOUND: "SHALA_NOT_FOUND",
+    WISHLIST_FULL: "WISHLIST_FULL",
+  } as const;
+
+  static readonly MAX_ITEMS = 100;
+
+  // Fields of each saved shala returned in the wishlist
+  static readonly SUMMARY_FIELDS =
+    "name address location images rating reviewCount dropInRate amenities";
+
+  // Saved shalas, most recently added first. Listings that are not
+  // published at the moment are left out but stay saved.
+  static async listWishlist(userId: string): Promise<WishlistResult> {
+    try {
+      const user = await User.findById(userId)
+        .select("wishlist")
+        .populate({
+          path: "wishlist",
+          select: this.SUMMARY_FIELDS,
+          match: PUBLISHED_SHALA_FILTER,
+        })
+        .lean();
+
+      if (!user) return this.userNotFound();
+
+      const shalas = (user.wishlist as any[])
+        .filter(Boolean)
+        .reverse()
+        .map((shala) => ({ ...shala, isWishlisted: true }));
+
+      return {
+        success: true,
+        message: "Wishlist retrieved successfully",
+        shalas,
+      };
+    } catch (error) {
+      console.error("List wishlist error:", error);
+      return {
+        success: false,
+        statusCode: 500,
+        message: "Server error while fetching wishlist",
+      };
+    }
+  }
+
+  // Save a published shala; saving one already on the list is a no-op
+  static async addToWishlist(
+    userId: string,
+    shalaId: string
+  ): Promise<WishlistResult> {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(shalaId)) {
+        return this.shalaNotFound();
+      }
+
+      const shala = await YogaShala.exists({
+        _id: shalaId,
+        ...PUBLISHED_SHALA_FILTER,
+      });
+      if (!shala) return this.shalaNotFound();
+
+      const user = await User.findById(userId).select("wishlist");
+      if (!user) return this.userNotFound();
+
+      const alreadySaved = user.wishlist.some(
+        (id) => id.toString() === shalaId
+      );
+      if (!alreadySaved) {
+        // Guarded so concurrent adds cannot grow the list past the cap
+        const { modifiedCount } = await User.updateOne(
+          {
+            _id: userId,
+            [`wishlist.${this.MAX_ITEMS - 1}`]: { $exists: false },
+          },
+          { $addToSet: { wishlist: shala._id } }
+        );
+
+        if (!modifiedCount) {
+          return {
+            success: false,
+            code: this.ERROR_CODES.WISHLIST_FULL,
+            statusCode: 400,
+            message: `You can save up to ${this.MAX_ITEMS} shalas`,
+          };
+        }
+      }
+
+      return {
+        success: true,
+        message: alreadySaved
+          ? "Shala is already in your wishlist"
+          : "Shala added to wishlist",
+        shalaId,
+        isWishlisted: true,
+      };
+    } catch (error) {
+      console.error("Add to wishlist error:", error);
+      return {
+        success: false,
+        statusCode: 500,
+        message: "Server error while updating wishlist",
+      };
+    }
+  }
+
+  // Remove a shala; removing one that is not saved is a no-op
+  static async removeFromWishlist(
+    userId: string,
+    shalaId: string
+  ): Promise<WishlistResult> {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(shalaId)) {
+        return this.shalaNotFound();
+      }
+
+      const { matchedCount } = await User.updateOne(
+        { _id: userId },
+        { $pull: { wishlist: new mongoose.Types.ObjectId(shalaId) } }
+      );
+      if (!matchedCount) return this.userNotFound();
+
+      return {
+        success: true,
+        message: "Shala removed from wishlist",
+        shalaId,
+        isWishlisted: false,
+      };
+    } catch (error) {
+      console.error("Remove from wishlist error:", error);
+      return {
+        success: false,
+        statusCode: 500,
+        message: "Server error while updating wishlist",
+      };
+    }
+  }
+
+  // IDs of the shalas a user has saved; empty for anonymous callers
+  static async getWishlistedIds(userId?: string): Promise<Set<string>> {
+    if (!userId) return new Set();
+
+    try {
+      const user = await User.findById(userId).select("wishlist").lean();
+      return new Set((user?.wishlist || []).map((id) => id.toString()));
+    } catch (error) {
+      console.error("Get wishlisted IDs error:", error);
+      return new Set();
+    }
+  }
+
+  // Flag each shala with whether it is in the given wishlist
+  static markWishlisted<T extends { _id?: any }>(
+    shalas: T[],
+    wishlistedIds: Set<string>
+  ): (T & { isWishlisted: boolean })[] {
+    return shalas.map((shala) => ({
+      ...shala,
+      isWishlisted: wishlistedIds.has(String(shala._id)),
+    }));
+  }
+
+  // Drop a deactivated, rejected or taken down shala from every wishlist
+  static async removeShalaFromWishlists(shalaId: string): Promise<void> {
+    try {
+      await User.updateMany(
+        { wishlist: shalaId },
+        { $pull: { wishlist: new mongoose.Types.ObjectId(shalaId) } }
+      );
+    } catch (error) {
+      console.error("Remove shala from wishlists error:", error);
+    }
+  }
+
+  private static userNotFound(): WishlistResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.USER_NOT_FOUND,
+      statusCode: 404,
+      message: "User not found",
+    };
+  }
+
+  private static shalaNotFound(): WishlistResult {
+    return {
+      success: false,
+      code: this.ERROR_CODES.SHALA_NOT_FOUND,
+      statusCode: 404,
+      message: "Shala not found",
+    };
+  }
+}
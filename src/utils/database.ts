@@ -1,4 +1,4 @@
-import mongoose from 'mongoose';
+import mongoose, { ClientSession } from 'mongoose';
 
 // Production-ready database connection with retry logic
 export const connectDB = async (retries = 5): Promise<void> => {
@@ -89,4 +89,10 @@ export const connectDB = async (retries = 5): Promise<void> => {
       await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
-}; 
\ No newline at end of file
+};
+
+// Run `fn` inside a MongoDB transaction. Every write made with the session
+// commits or rolls back together (needs a replica set, as on Atlas).
+export const withTransaction = <T>(
+  fn: (session: ClientSession) => Promise<T>
+): Promise<T> => mongoose.connection.transaction(fn);
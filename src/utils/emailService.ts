@@ -63,3 +63,188 @@ export const sendOTPEmail = async (
 export const generateOTP = (): string => {
   return Math.floor(100000 + Math.random() * 900000).toString();
 };
+
+export const sendWaitlistOfferEmail = async (
+  email: string,
+  details: {
+    name?: string;
+    className: string;
+    date: Date;
+    startTime: string;
+    claimExpiresAt: Date;
+  }
+) => {
+  const classDate = details.date.toISOString().slice(0, 10);
+
+  if (!process.env.RESEND_API_KEY) {
+    console.log(
+      `[DEV] Waitlist offer for ${email}: ${details.className} on ${classDate} at ${details.startTime}, claim by ${details.claimExpiresAt.toISOString()}`
+    );
+    return { success: true, messageId: "dev-mode" };
+  }
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: process.env.FROM_EMAIL || "no-reply@gurujiyog.com",
+      to: [email],
+      subject: "A spot opened up in your class",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #D97706; margin: 0;">GurujiYog</h1>
+          </div>
+
+          <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px; text-align: center;">
+            <h2 style="color: #333; margin-bottom: 20px;">You're off the waitlist!</h2>
+            ${details.name ? `<p style="color: #666; margin-bottom: 20px;">Hi ${details.name},</p>` : ""}
+            <p style="color: #666;">
+              A spot opened up in <strong>${details.className}</strong> on ${classDate} at ${details.startTime}.
+            </p>
+            <p style="color: #666; font-size: 14px; margin-top: 20px;">
+              We're holding it for you until ${details.claimExpiresAt.toUTCString()}. Confirm it in the app before then or it goes to the next person in line.
+            </p>
+          </div>
+        </div>
+      `,
+    });
+
+    if (error) {
+      console.error("Resend error:", error);
+      throw new Error("Failed to send email");
+    }
+    return { success: true, messageId: data?.id };
+  } catch (error) {
+    console.error("Email service error:", error);
+    throw new Error("Failed to send email");
+  }
+};
+
+export const sendListingModerationEmail = async (
+  email: string,
+  details: {
+    name?: string;
+    shalaName: string;
+    approved: boolean;
+    // The decision was about edits to a live listing, not the listing itself
+    changesOnly: boolean;
+    reason?: string;
+  }
+) => {
+  const subject = details.changesOnly
+    ? `Your changes to ${details.shalaName} were ${details.approved ? "approved" : "not approved"}`
+    : `${details.shalaName} was ${details.approved ? "approved" : "not approved"}`;
+
+  if (!process.env.RESEND_API_KEY) {
+    console.log(
+      `[DEV] Listing moderation for ${email}: ${subject}${details.reason ? ` (${details.reason})` : ""}`
+    );
+    return { success: true, messageId: "dev-mode" };
+  }
+
+  const summary = details.approved
+    ? details.changesOnly
+      ? "Your changes are now live on GurujiYog."
+      : "Your listing is now live and students can find and book it."
+    : details.changesOnly
+      ? "Your listing stays live with its previous details."
+      : "Your listing is not visible to students. Update it and it will be reviewed again.";
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: process.env.FROM_EMAIL || "no-reply@gurujiyog.com",
+      to: [email],
+      subject,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #D97706; margin: 0;">GurujiYog</h1>
+          </div>
+
+          <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px; text-align: center;">
+            <h2 style="color: #333; margin-bottom: 20px;">${subject}</h2>
+            ${details.name ? `<p style="color: #666; margin-bottom: 20px;">Hi ${details.name},</p>` : ""}
+            <p style="color: #666;">${summary}</p>
+            ${details.reason ? `<p style="color: #666; font-size: 14px; margin-top: 20px;">Reason: ${details.reason}</p>` : ""}
+          </div>
+        </div>
+      `,
+    });
+
+    if (error) {
+      console.error("Resend error:", error);
+      throw new Error("Failed to send email");
+    }
+    return { success: true, messageId: data?.id };
+  } catch (error) {
+    console.error("Email service error:", error);
+    throw new Error("Failed to send email");
+  }
+};
+
+export const sendClassChangeEmail = async (
+  email: string,
+  details: {
+    name?: string;
+    shalaName: string;
+    className: string;
+    date: Date;
+    startTime: string;
+    // Cancelled outright, or still on with new details
+    cancelled: boolean;
+    // What changed, e.g. "now starts at 08:00"
+    changes?: string[];
+    reason?: string;
+    refundAmount?: number;
+  }
+) => {
+  const classDate = details.date.toISOString().slice(0, 10);
+  const subject = details.cancelled
+    ? `${details.className} on ${classDate} is cancelled`
+    : `${details.className} on ${classDate} has changed`;
+
+  if (!process.env.RESEND_API_KEY) {
+    console.log(
+      `[DEV] Class change for ${email}: ${subject}${details.changes?.length ? ` (${details.changes.join(", ")})` : ""}${details.reason ? ` - ${details.reason}` : ""}`
+    );
+    return { success: true, messageId: "dev-mode" };
+  }
+
+  const summary = details.cancelled
+    ? `${details.shalaName} cancelled your ${details.startTime} class, so your booking has been cancelled.${
+        details.refundAmount
+          ? ` Your payment of ${details.refundAmount} will be refunded.`
+          : ""
+      }`
+    : `Your booking at ${details.shalaName} still stands: the class ${details.changes?.join(" and ")}.`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: process.env.FROM_EMAIL || "no-reply@gurujiyog.com",
+      to: [email],
+      subject,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #D97706; margin: 0;">GurujiYog</h1>
+          </div>
+
+          <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px; text-align: center;">
+            <h2 style="color: #333; margin-bottom: 20px;">${subject}</h2>
+            ${details.name ? `<p style="color: #666; margin-bottom: 20px;">Hi ${details.name},</p>` : ""}
+            <p style="color: #666;">${summary}</p>
+            ${details.reason ? `<p style="color: #666; font-size: 14px; margin-top: 20px;">Reason: ${details.reason}</p>` : ""}
+          </div>
+        </div>
+      `,
+    });
+
+    if (error) {
+      console.error("Resend error:", error);
+      throw new Error("Failed to send email");
+    }
+    return { success: true, messageId: data?.id };
+  } catch (error) {
+    console.error("Email service error:", error);
+    throw new Error("Failed to send email");
+  }
+};
@@ -0,0 +1,59 @@
+import { ITimeSlot } from "../models/YogaShala";
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from "./timezone";
+
+export const WEEK_DAYS: ITimeSlot["day"][] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// Normalize a booking date ("YYYY-MM-DD" or ISO string) to midnight UTC
+export const normalizeDate = (date: string | Date): Date => {
+  const value = new Date(date);
+  return new Date(
+    Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate())
+  );
+};
+
+// Weekday name of a normalized date, matching ITimeSlot.day
+export const getDayName = (date: Date): ITimeSlot["day"] => {
+  return WEEK_DAYS[date.getUTCDay()];
+};
+
+// Find the weekly slot a booking on `date` at startTime(-endTime) refers to
+export const findScheduleSlot = (
+  schedule: ITimeSlot[],
+  date: Date,
+  startTime: string,
+  endTime?: string
+): ITimeSlot | undefined => {
+  const day = getDayName(date);
+  return schedule.find(
+    (slot) =>
+      slot.day === day &&
+      slot.startTime === startTime &&
+      (endTime === undefined || slot.endTime === endTime)
+  );
+};
+
+// Instant a class on a normalized date starts, reading "HH:mm" as wall-clock
+// time in the shala's timezone
+export const getClassStart = (
+  date: Date,
+  startTime: string,
+  timezone: string = DEFAULT_TIMEZONE
+): Date => zonedTimeToUtc(date, startTime, timezone);
+
+// Start instant of an occurrence or booking. Records saved before
+// timezones were tracked have no startsAt and are read as UTC.
+export const getStartsAt = (item: {
+  date: Date;
+  startTime: string;
+  startsAt?: Date;
+  timezone?: string;
+}): Date =>
+  item.startsAt || getClassStart(item.date, item.startTime, item.timezone);
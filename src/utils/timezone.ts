@@ -0,0 +1,179 @@
+// Timezone helpers. Class times are wall-clock "HH:mm" strings on a date
+// normalized to midnight UTC; these turn them into real instants in the
+// shala's IANA timezone, independent of the server's own zone.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default zone per country, by lowercase name or ISO 3166 alpha-2 code.
+// Countries spanning several zones map to their most populous one; owners
+// elsewhere set the timezone explicitly.
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  india: "Asia/Kolkata",
+  in: "Asia/Kolkata",
+  nepal: "Asia/Kathmandu",
+  np: "Asia/Kathmandu",
+  "sri lanka": "Asia/Colombo",
+  lk: "Asia/Colombo",
+  bangladesh: "Asia/Dhaka",
+  bd: "Asia/Dhaka",
+  pakistan: "Asia/Karachi",
+  pk: "Asia/Karachi",
+  "united arab emirates": "Asia/Dubai",
+  uae: "Asia/Dubai",
+  ae: "Asia/Dubai",
+  singapore: "Asia/Singapore",
+  sg: "Asia/Singapore",
+  malaysia: "Asia/Kuala_Lumpur",
+  my: "Asia/Kuala_Lumpur",
+  thailand: "Asia/Bangkok",
+  th: "Asia/Bangkok",
+  indonesia: "Asia/Jakarta",
+  id: "Asia/Jakarta",
+  japan: "Asia/Tokyo",
+  jp: "Asia/Tokyo",
+  china: "Asia/Shanghai",
+  cn: "Asia/Shanghai",
+  australia: "Australia/Sydney",
+  au: "Australia/Sydney",
+  "new zealand": "Pacific/Auckland",
+  nz: "Pacific/Auckland",
+  "united kingdom": "Europe/London",
+  uk: "Europe/London",
+  gb: "Europe/London",
+  ireland: "Europe/Dublin",
+  ie: "Europe/Dublin",
+  germany: "Europe/Berlin",
+  de: "Europe/Berlin",
+  france: "Europe/Paris",
+  fr: "Europe/Paris",
+  spain: "Europe/Madrid",
+  es: "Europe/Madrid",
+  portugal: "Europe/Lisbon",
+  pt: "Europe/Lisbon",
+  italy: "Europe/Rome",
+  it: "Europe/Rome",
+  netherlands: "Europe/Amsterdam",
+  nl: "Europe/Amsterdam",
+  "united states": "America/New_York",
+  usa: "America/New_York",
+  us: "America/New_York",
+  canada: "America/Toronto",
+  ca: "America/Toronto",
+  mexico: "America/Mexico_City",
+  mx: "America/Mexico_City",
+  brazil: "America/Sao_Paulo",
+  br: "America/Sao_Paulo",
+  "south africa": "Africa/Johannesburg",
+  za: "Africa/Johannesburg",
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Timezone a shala in `country` gets when the owner doesn't pick one
+export const getDefaultTimezone = (country?: string): string => {
+  const key = country?.trim().toLowerCase();
+  return (key && COUNTRY_TIMEZONES[key]) || DEFAULT_TIMEZONE;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock fields of `instant` in `timezone`
+const getWallClock = (instant: Date, timezone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts;
+};
+
+// Minutes `timezone` is ahead of UTC at `instant`
+export const getTimezoneOffset = (instant: Date, timezone: string): number => {
+  const parts = getWallClock(instant, timezone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round(
+    (asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000
+  );
+};
+
+// Local calendar day (normalized to midnight UTC) and "HH:mm" time of
+// `instant` in `timezone`
+export const getZonedParts = (
+  instant: Date,
+  timezone: string
+): { date: Date; time: string } => {
+  const parts = getWallClock(instant, timezone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return {
+    date: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)),
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+};
+
+// Instant the wall-clock `time` on the normalized `date` happens in
+// `timezone`. A time repeated when clocks go back resolves to its first
+// occurrence; one skipped when they go forward to the same distance past
+// the change (02:30 becomes 03:30).
+export const zonedTimeToUtc = (
+  date: Date,
+  time: string,
+  timezone: string
+): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    hours,
+    minutes
+  );
+
+  // Offsets a day either side cover any DST change on this date
+  const before = getTimezoneOffset(new Date(wallClock - DAY_MS), timezone);
+  const after = getTimezoneOffset(new Date(wallClock + DAY_MS), timezone);
+
+  const matches = [before, after]
+    .map((offset) => wallClock - offset * 60000)
+    .filter(
+      (instant) =>
+        wallClock - getTimezoneOffset(new Date(instant), timezone) * 60000 ===
+        instant
+    );
+
+  return new Date(
+    matches.length > 0 ? Math.min(...matches) : wallClock - before * 60000
+  );
+};
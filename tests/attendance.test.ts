@@ -0,0 +1,49 @@
+/**
+ * Attendance Tests
+ * Which bookings get settled after class, no-show strikes and job run logs
+ */
+
+import { AttendanceService } from '../src/services/booking/attendanceService';
+import { JobRunService } from '../src/services/jobs/jobRunService';
+
+describe('AttendanceService', () => {
+  test('settles confirmed bookings once their class has ended', () => {
+    const cutoff = new Date('2026-10-19T10:00:00.000Z');
+
+    expect(AttendanceService.endedFilter(cutoff)).toEqual({
+      status: 'confirmed',
+      $or: [
+        { endsAt: { $lte: cutoff } },
+        // Legacy bookings without class instants wait until the class
+        // has ended in every timezone
+        { endsAt: { $exists: false }, date: { $lte: new Date('2026-10-17T10:00:00.000Z') } },
+      ],
+    });
+  });
+
+  test('counts no-shows over the window, restarting after a block', () => {
+    const now = new Date('2026-10-19T10:00:00.000Z');
+    const windowStart = new Date('2026-09-19T10:00:00.000Z');
+    const blockEnded = new Date('2026-10-10T00:00:00.000Z');
+
+    expect(AttendanceService.strikesSince(now)).toEqual(windowStart);
+    expect(AttendanceService.strikesSince(now, blockEnded)).toEqual(blockEnded);
+    expect(AttendanceService.strikesSince(now, new Date('2026-08-01T00:00:00.000Z'))).toEqual(
+      windowStart
+    );
+  });
+
+  test('defaults to forfeiting package classes and blocking after 3 no-shows', () => {
+    expect(AttendanceService.NO_SHOW_FORFEITS_PACKAGE_CLASS).toBe(true);
+    expect(AttendanceService.NO_SHOW_BLOCK_THRESHOLD).toBe(3);
+    expect(AttendanceService.NO_SHOW_BLOCK_DAYS).toBe(7);
+  });
+});
+
+describe('JobRunService', () => {
+  test('stores job results as objects', () => {
+    expect(JobRunService.toResult({ expired: 2 })).toEqual({ expired: 2 });
+    expect(JobRunService.toResult(5)).toEqual({ value: 5 });
+    expect(JobRunService.toResult(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Avatar Service Tests
+ * Square variants, upload validation and the avatar shape returned to clients
+ */
+
+import sharp from 'sharp';
+import { AvatarService } from '../src/services/user/avatarService';
+import { UserService } from '../src/services/user/userService';
+
+const storedAvatar = {
+  small: 'http://localhost/uploads/avatars/u1/abc-small.webp',
+  medium: 'http://localhost/uploads/avatars/u1/abc-medium.webp',
+  large: 'http://localhost/uploads/avatars/u1/abc-large.webp',
+  keys: ['avatars/u1/abc-small.webp', 'avatars/u1/abc-medium.webp', 'avatars/u1/abc-large.webp'],
+  updatedAt: new Date('2025-03-01T10:00:00Z'),
+};
+
+describe('AvatarService.processAvatar', () => {
+  test('crops a square WebP for every size', async () => {
+    const source = await sharp({
+      create: { width: 1200, height: 800, channels: 3, background: '#336699' },
+    })
+      .jpeg()
+      .toBuffer();
+
+    const variants = await AvatarService.processAvatar(source);
+    expect(variants).not.toBeNull();
+
+    for (const [size, edge] of Object.entries(AvatarService.SIZES)) {
+      const metadata = await sharp(variants![size as keyof typeof AvatarService.SIZES]).metadata();
+      expect(metadata).toMatchObject({ format: 'webp', width: edge, height: edge });
+    }
+  });
+
+  test('returns null for bytes that are not an image', async () => {
+    expect(await AvatarService.processAvatar(Buffer.from('not an image'))).toBeNull();
+  });
+});
+
+describe('AvatarService.uploadAvatar validation', () => {
+  test('requires a file', async () => {
+    const result = await AvatarService.uploadAvatar('507f1f77bcf86cd799439011');
+
+    expect(result).toMatchObject({
+      success: false,
+      code: AvatarService.ERROR_CODES.NO_FILE,
+      statusCode: 400,
+    });
+  });
+
+  test('rejects unsupported file types', async () => {
+    const result = await AvatarService.uploadAvatar('507f1f77bcf86cd799439011', {
+      filename: 'me.gif',
+      mimetype: 'image/gif',
+      buffer: Buffer.alloc(10),
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      code: AvatarService.ERROR_CODES.UNSUPPORTED_TYPE,
+      statusCode: 415,
+    });
+  });
+});
+
+describe('AvatarService.formatAvatar', () => {
+  test('returns the variant URLs without storage keys', () => {
+    expect(AvatarService.formatAvatar(storedAvatar)).toEqual({
+      url: storedAvatar.medium,
+      small: storedAvatar.small,
+      medium: storedAvatar.medium,
+      large: storedAvatar.large,
+      updatedAt: storedAvatar.updatedAt,
+    });
+  });
+
+  test('returns null when there is no avatar', () => {
+    expect(AvatarService.formatAvatar(undefined)).toBeNull();
+  });
+
+  test('is included in profile responses', () => {
+    const user: any = {
+      _id: 'u1',
+      name: 'Asha',
+      email: 'asha@example.com',
+      avatar: storedAvatar,
+      role: 'student',
+      isVerified: true,
+      isActive: true,
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+    };
+
+    expect(UserService.formatUserResponse(user).avatar).toMatchObject({
+      url: storedAvatar.medium,
+      large: storedAvatar.large,
+    });
+    expect(UserService.formatUserResponse(user).avatar).not.toHaveProperty('keys');
+  });
+});
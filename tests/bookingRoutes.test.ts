@@ -0,0 +1,130 @@
+/**
+ * Booking Route Tests
+ * Authenticated cancellation through the HTTP API: refunds and waitlist promotion
+ */
+
+// Route schemas carry the OpenAPI fields @fastify/swagger adds to the types
+import type {} from '@fastify/swagger';
+import Fastify, { FastifyInstance } from 'fastify';
+import mongoose from 'mongoose';
+import bookingRoutes from '../src/routes/bookingRoutesFastify';
+import Booking from '../src/models/Booking';
+import User from '../src/models/User';
+import WaitlistEntry from '../src/models/WaitlistEntry';
+import YogaShala from '../src/models/YogaShala';
+import { TokenService } from '../src/services/auth/tokenService';
+import { CapacityService } from '../src/services/booking/capacityService';
+import { WaitlistService } from '../src/services/booking/waitlistService';
+import { PaymentService } from '../src/services/payment/paymentService';
+
+const userId = new mongoose.Types.ObjectId();
+const bookingId = new mongoose.Types.ObjectId();
+const occurrenceId = new mongoose.Types.ObjectId();
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+const booking = (overrides: Record<string, unknown> = {}) => ({
+  _id: bookingId,
+  user: userId,
+  shala: new mongoose.Types.ObjectId(),
+  occurrence: occurrenceId,
+  status: 'confirmed',
+  paymentStatus: 'completed',
+  amountPaid: 500,
+  spots: 1,
+  date: daysFromNow(7),
+  startTime: '07:00',
+  startsAt: daysFromNow(7),
+  timezone: 'Asia/Kolkata',
+  ...overrides,
+});
+
+describe('POST /api/bookings/:id/cancel', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    await app.register(bookingRoutes, { prefix: '/api/bookings' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // A signed-in owner of `current`, with the database calls of a cancel
+  const mockCancel = (current: ReturnType<typeof booking>) => {
+    jest
+      .spyOn(TokenService, 'verifyAccessToken')
+      .mockReturnValue({ userId: userId.toString() } as any);
+    jest.spyOn(User, 'findById').mockReturnValue({
+      select: () =>
+        Promise.resolve({ _id: userId, email: 'asha@example.com', role: 'user', isActive: true }),
+    } as any);
+    jest.spyOn(Booking, 'findById').mockResolvedValue(current as any);
+    jest.spyOn(YogaShala, 'findById').mockReturnValue({
+      select: () => Promise.resolve({ cancellationPolicy: undefined }),
+    } as any);
+    jest
+      .spyOn(mongoose.connection, 'transaction')
+      .mockImplementation(((fn: (session: any) => Promise<unknown>) => fn({})) as any);
+    jest
+      .spyOn(Booking, 'findOneAndUpdate')
+      .mockResolvedValue({ ...current, status: 'cancelled' } as any);
+    jest.spyOn(WaitlistEntry, 'updateOne').mockResolvedValue({} as any);
+
+    return {
+      release: jest.spyOn(CapacityService, 'releaseSpots').mockResolvedValue(),
+      promote: jest.spyOn(WaitlistService, 'promoteNext').mockResolvedValue(null),
+      refund: jest.spyOn(PaymentService, 'refundBooking').mockResolvedValue(undefined as any),
+    };
+  };
+
+  const cancel = (headers: Record<string, string> = { authorization: 'Bearer token' }) =>
+    app.inject({
+      method: 'POST',
+      url: `/api/bookings/${bookingId}/cancel`,
+      headers,
+      payload: { reason: 'Travelling' },
+    });
+
+  test('requires a signed-in user', async () => {
+    const response = await cancel({});
+    expect(response.statusCode).toBe(401);
+  });
+
+  test('frees the spot and offers it to the next person on the waitlist', async () => {
+    const { release, promote } = mockCancel(booking());
+
+    const response = await cancel();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ success: true });
+    expect(release).toHaveBeenCalledWith(occurrenceId, 1, {});
+    expect(promote).toHaveBeenCalledWith(occurrenceId);
+  });
+
+  test('refunds a paid booking under the cancellation policy', async () => {
+    const { refund } = mockCancel(booking());
+
+    const response = await cancel();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().refund).toMatchObject({ refundPercent: 100, refundAmount: 500 });
+    expect(refund).toHaveBeenCalledWith(bookingId, 500);
+  });
+
+  test('refunds nothing for a cancellation too close to the class', async () => {
+    const startsAt = new Date(Date.now() + 60 * 60 * 1000);
+    const { refund } = mockCancel(booking({ startsAt, date: startsAt }));
+
+    const response = await cancel();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().refund).toMatchObject({ refundPercent: 0, refundAmount: 0 });
+    expect(refund).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Booking Series Tests
+ * Parsing recurring booking requests and picking the weekly dates
+ */
+
+import { BookingSeriesService } from '../src/services/booking/bookingSeriesService';
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+// A Monday
+const today = day('2026-10-19');
+
+describe('BookingSeriesService.parseRange', () => {
+  const base = { shalaId: 'shala', slotId: 'slot', paymentMethod: 'package' };
+
+  test('accepts a number of weeks or an end date', () => {
+    expect(BookingSeriesService.parseRange({ ...base, occurrences: 8 }, today)).toEqual({
+      from: today,
+      occurrences: 8,
+    });
+    expect(
+      BookingSeriesService.parseRange(
+        { ...base, startDate: '2026-10-21', endDate: '2026-11-30' },
+        today
+      )
+    ).toEqual({ from: day('2026-10-21'), endDate: day('2026-11-30') });
+  });
+
+  test('needs exactly one of end date and number of weeks', () => {
+    expect(BookingSeriesService.parseRange(base, today)).toMatchObject({
+      success: false,
+      code: 'INVALID_SERIES',
+    });
+    expect(
+      BookingSeriesService.parseRange({ ...base, occurrences: 4, endDate: '2026-11-30' }, today)
+    ).toMatchObject({ code: 'INVALID_SERIES' });
+  });
+
+  test('rejects pay-per-class methods, past starts and long series', () => {
+    expect(
+      BookingSeriesService.parseRange({ ...base, paymentMethod: 'drop_in', occurrences: 4 }, today)
+    ).toMatchObject({ code: 'INVALID_SERIES' });
+    expect(
+      BookingSeriesService.parseRange({ ...base, startDate: '2026-10-18', occurrences: 4 }, today)
+    ).toMatchObject({ code: 'INVALID_SERIES' });
+    expect(BookingSeriesService.parseRange({ ...base, occurrences: 13 }, today)).toMatchObject({
+      code: 'INVALID_SERIES',
+    });
+    expect(
+      BookingSeriesService.parseRange({ ...base, endDate: '2027-01-11' }, today)
+    ).toMatchObject({ code: 'INVALID_SERIES' });
+  });
+});
+
+describe('BookingSeriesService.getSeriesDates', () => {
+  test('books the next n weeks of the slot day', () => {
+    expect(BookingSeriesService.getSeriesDates('tuesday', { from: today, occurrences: 3 })).toEqual([
+      day('2026-10-20'),
+      day('2026-10-27'),
+      day('2026-11-03'),
+    ]);
+  });
+
+  test('includes the start date itself and stops at the end date', () => {
+    expect(
+      BookingSeriesService.getSeriesDates('monday', { from: today, endDate: day('2026-11-02') })
+    ).toEqual([day('2026-10-19'), day('2026-10-26'), day('2026-11-02')]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Cancellation Policy Tests
+ * Refund tiers applied to bookings at different cancellation times
+ */
+
+import mongoose from 'mongoose';
+import { CancellationPolicyService } from '../src/services/booking/cancellationPolicyService';
+
+describe('CancellationPolicyService.quote', () => {
+  // Class on 2030-01-10 at 10:00 UTC
+  const booking = {
+    date: new Date('2030-01-10T00:00:00.000Z'),
+    startTime: '10:00',
+    amountPaid: 500,
+    paymentStatus: 'completed' as const,
+  };
+  const hoursBefore = (hours: number) =>
+    new Date(new Date('2030-01-10T10:00:00.000Z').getTime() - hours * 3600000);
+
+  test('uses the default tiers when the shala has no policy', () => {
+    expect(CancellationPolicyService.quote(booking, undefined, hoursBefore(30)))
+      .toMatchObject({ refundPercent: 100, refundAmount: 500 });
+    expect(CancellationPolicyService.quote(booking, undefined, hoursBefore(10)))
+      .toMatchObject({ refundPercent: 50, refundAmount: 250 });
+    expect(CancellationPolicyService.quote(booking, undefined, hoursBefore(1)))
+      .toMatchObject({ refundPercent: 0, refundAmount: 0 });
+  });
+
+  test('applies the highest tier the cancellation qualifies for', () => {
+    const policy = {
+      tiers: [
+        { minHoursBefore: 2, refundPercent: 25 },
+        { minHoursBefore: 48, refundPercent: 90 },
+      ],
+    };
+
+    expect(CancellationPolicyService.quote(booking, policy, hoursBefore(72)).refundPercent).toBe(90);
+    expect(CancellationPolicyService.quote(booking, policy, hoursBefore(48)).refundPercent).toBe(90);
+    expect(CancellationPolicyService.quote(booking, policy, hoursBefore(24)).refundPercent).toBe(25);
+  });
+
+  test('gives nothing back once the class has started', () => {
+    const quote = CancellationPolicyService.quote(booking, undefined, hoursBefore(-1));
+    expect(quote.refundPercent).toBe(0);
+    expect(quote.hoursBeforeClass).toBe(-1);
+  });
+
+  test('does not refund money that was never collected', () => {
+    const unpaid = { ...booking, paymentStatus: 'pending' as const };
+    const quote = CancellationPolicyService.quote(unpaid, undefined, hoursBefore(30));
+    expect(quote.refundPercent).toBe(100);
+    expect(quote.refundAmount).toBe(0);
+  });
+
+  test('restores package classes only when the tier refunds', () => {
+    const packageBooking = {
+      ...booking,
+      amountPaid: 0,
+      packageUsed: { packageId: new mongoose.Types.ObjectId(), classesUsed: 1 },
+    };
+
+    expect(CancellationPolicyService.quote(packageBooking, undefined, hoursBefore(10)).restorePackageClasses).toBe(true);
+    expect(CancellationPolicyService.quote(packageBooking, undefined, hoursBefore(1)).restorePackageClasses).toBe(false);
+    expect(CancellationPolicyService.quote(booking, undefined, hoursBefore(30)).restorePackageClasses).toBe(false);
+  });
+});
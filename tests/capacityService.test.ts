@@ -0,0 +1,187 @@
+/**
+ * Capacity Service Tests
+ * Atomic spot reservation and release, full classes and remaining spots
+ */
+
+import mongoose from 'mongoose';
+import Booking from '../src/models/Booking';
+import ClassOccurrence from '../src/models/ClassOccurrence';
+import YogaShala from '../src/models/YogaShala';
+import { AttendanceService } from '../src/services/booking/attendanceService';
+import { BookingService } from '../src/services/booking/bookingService';
+import { CapacityService } from '../src/services/booking/capacityService';
+import { PricingService } from '../src/services/booking/pricingService';
+import { OccurrenceService } from '../src/services/schedule/occurrenceService';
+
+const occurrenceId = new mongoose.Types.ObjectId();
+const session = {} as mongoose.ClientSession;
+
+const occurrence = (overrides: Record<string, unknown> = {}) => ({
+  _id: occurrenceId,
+  shala: new mongoose.Types.ObjectId(),
+  status: 'scheduled',
+  className: 'Mysore',
+  instructor: 'Asha',
+  price: 500,
+  capacity: 12,
+  bookedCount: 12,
+  date: new Date('2026-10-26T00:00:00.000Z'),
+  startTime: '07:00',
+  endTime: '08:30',
+  timezone: 'Asia/Kolkata',
+  startsAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+  ...overrides,
+});
+
+// The class as stored once a reservation has been refused
+const mockCurrent = (current: ReturnType<typeof occurrence> | null) =>
+  jest.spyOn(ClassOccurrence, 'findById').mockReturnValue({
+    session: () => Promise.resolve(current),
+  } as any);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('CapacityService.reserveSpots', () => {
+  test('takes the spots only while the class has room for all of them', async () => {
+    const reserve = jest
+      .spyOn(ClassOccurrence, 'findOneAndUpdate')
+      .mockResolvedValue(occurrence({ bookedCount: 11 }) as any);
+
+    await expect(CapacityService.reserveSpots(occurrenceId, 3, session)).resolves.toEqual({
+      reserved: true,
+      capacity: 12,
+      remainingSpots: 1,
+    });
+
+    const [filter, update, options] = reserve.mock.calls[0] as any[];
+    expect(filter).toEqual({
+      _id: occurrenceId,
+      status: 'scheduled',
+      $expr: { $lte: [{ $add: ['$bookedCount', 3] }, '$capacity'] },
+    });
+    expect(update.$inc).toEqual({ bookedCount: 3 });
+    expect(options).toMatchObject({ new: true, session });
+  });
+
+  test('fails without touching the count when the class is full', async () => {
+    jest.spyOn(ClassOccurrence, 'findOneAndUpdate').mockResolvedValue(null);
+    mockCurrent(occurrence());
+
+    await expect(CapacityService.reserveSpots(occurrenceId, 1, session)).resolves.toEqual({
+      reserved: false,
+      capacity: 12,
+      remainingSpots: 0,
+    });
+  });
+
+  test('reports the spots a group did not fit into', async () => {
+    jest.spyOn(ClassOccurrence, 'findOneAndUpdate').mockResolvedValue(null);
+    mockCurrent(occurrence({ bookedCount: 10 }));
+
+    await expect(CapacityService.reserveSpots(occurrenceId, 3, session)).resolves.toEqual({
+      reserved: false,
+      capacity: 12,
+      remainingSpots: 2,
+    });
+  });
+
+  test('fails for classes that no longer exist', async () => {
+    jest.spyOn(ClassOccurrence, 'findOneAndUpdate').mockResolvedValue(null);
+    mockCurrent(null);
+
+    await expect(CapacityService.reserveSpots(occurrenceId)).resolves.toEqual({
+      reserved: false,
+      capacity: 0,
+      remainingSpots: 0,
+    });
+  });
+});
+
+describe('CapacityService.releaseSpots', () => {
+  test('never takes the booked count below zero', async () => {
+    const release = jest
+      .spyOn(ClassOccurrence, 'updateOne')
+      .mockResolvedValue({ modifiedCount: 1 } as any);
+
+    await CapacityService.releaseSpots(occurrenceId, 2, session);
+
+    const [filter, update, options] = release.mock.calls[0] as any[];
+    expect(filter).toEqual({ _id: occurrenceId, bookedCount: { $gte: 2 } });
+    expect(update.$inc).toEqual({ bookedCount: -2 });
+    expect(options).toEqual({ session });
+  });
+});
+
+describe('BookingService.createBooking capacity', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+
+  const mockBooking = (current: ReturnType<typeof occurrence>) => {
+    jest.spyOn(AttendanceService, 'getBookingBlock').mockResolvedValue(null);
+    jest.spyOn(YogaShala, 'findById').mockResolvedValue({
+      isActive: true,
+      moderationStatus: 'approved',
+      timezone: 'Asia/Kolkata',
+    } as any);
+    jest.spyOn(OccurrenceService, 'findForShala').mockResolvedValue(current as any);
+    jest.spyOn(Booking, 'findOne').mockResolvedValue(null);
+    jest
+      .spyOn(PricingService, 'priceClass')
+      .mockResolvedValue({ success: true, message: 'Priced', quote: { total: 500 } } as any);
+    jest
+      .spyOn(mongoose.connection, 'transaction')
+      .mockImplementation(((fn: (session: any) => Promise<unknown>) => fn(session)) as any);
+    jest.spyOn(ClassOccurrence, 'findOneAndUpdate').mockResolvedValue(null);
+    mockCurrent(current);
+    return jest.spyOn(Booking.prototype, 'save');
+  };
+
+  test('turns people away from a full class', async () => {
+    const save = mockBooking(occurrence());
+
+    await expect(
+      BookingService.createBooking(userId, {
+        shalaId: new mongoose.Types.ObjectId().toString(),
+        classId: occurrenceId.toString(),
+        paymentMethod: 'drop_in',
+      })
+    ).resolves.toMatchObject({
+      success: false,
+      code: 'CLASS_FULL',
+      statusCode: 409,
+      message: 'Class is full',
+      remainingSpots: 0,
+    });
+    expect(save).not.toHaveBeenCalled();
+  });
+});
+
+describe('CapacityService.getRemainingSpots', () => {
+  test('counts free places in a scheduled class', () => {
+    expect(
+      CapacityService.getRemainingSpots({ capacity: 12, bookedCount: 9, status: 'scheduled' })
+    ).toBe(3);
+  });
+
+  test('reports a full or overbooked class as having no spots', () => {
+    expect(
+      CapacityService.getRemainingSpots({ capacity: 12, bookedCount: 12, status: 'scheduled' })
+    ).toBe(0);
+    expect(
+      CapacityService.getRemainingSpots({ capacity: 10, bookedCount: 12, status: 'scheduled' })
+    ).toBe(0);
+  });
+
+  test('reports cancelled classes as having no spots', () => {
+    expect(
+      CapacityService.getRemainingSpots({ capacity: 12, bookedCount: 0, status: 'cancelled' })
+    ).toBe(0);
+  });
+});
+
+describe('CapacityService.ACTIVE_BOOKING_STATUSES', () => {
+  test('holds spots for confirmed and pending bookings only', () => {
+    expect(CapacityService.ACTIVE_BOOKING_STATUSES).toEqual(['confirmed', 'pending']);
+  });
+});
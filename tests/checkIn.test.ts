@@ -0,0 +1,84 @@
+/**
+ * Check-in Tests
+ * Check-in windows, signed QR codes and who may run the front desk
+ */
+
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { CheckInService } from '../src/services/booking/checkInService';
+import { StaffService } from '../src/services/shala/staffService';
+
+const booking = {
+  date: new Date('2026-10-26T00:00:00.000Z'),
+  startTime: '07:00',
+  endTime: '08:30',
+  timezone: 'Asia/Kolkata',
+};
+
+const bookingId = new mongoose.Types.ObjectId().toString();
+
+describe('CheckInService window', () => {
+  test('opens 30 minutes before the class and closes when it ends', () => {
+    expect(CheckInService.getWindow(booking)).toEqual({
+      opensAt: new Date('2026-10-26T01:00:00.000Z'),
+      closesAt: new Date('2026-10-26T03:00:00.000Z'),
+    });
+  });
+
+  test('uses the stored class instants when present', () => {
+    const startsAt = new Date('2026-10-26T02:00:00.000Z');
+    const endsAt = new Date('2026-10-26T03:30:00.000Z');
+
+    expect(CheckInService.getWindow({ ...booking, startsAt, endsAt })).toEqual({
+      opensAt: new Date('2026-10-26T01:30:00.000Z'),
+      closesAt: endsAt,
+    });
+  });
+});
+
+describe('CheckInService tokens', () => {
+  const window = CheckInService.getWindow(booking);
+  const now = new Date('2026-10-26T01:10:00.000Z');
+
+  test('round-trips the booking id', () => {
+    const { token, expiresAt } = CheckInService.signToken(bookingId, window, now);
+
+    expect(expiresAt).toEqual(new Date('2026-10-26T01:20:00.000Z'));
+    expect(CheckInService.verifyToken(token, now)).toEqual({ bookingId });
+  });
+
+  test('never outlives the check-in window', () => {
+    const late = new Date('2026-10-26T02:55:00.000Z');
+
+    expect(CheckInService.signToken(bookingId, window, late).expiresAt).toEqual(window.closesAt);
+  });
+
+  test('rejects expired codes', () => {
+    const { token } = CheckInService.signToken(bookingId, window, now);
+
+    expect(
+      CheckInService.verifyToken(token, new Date('2026-10-26T01:21:00.000Z'))
+    ).toMatchObject({ success: false, code: 'TOKEN_EXPIRED' });
+  });
+
+  test('rejects tampered codes and other kinds of token', () => {
+    const { token } = CheckInService.signToken(bookingId, window, now);
+    const loginToken = jwt.sign({ userId: bookingId }, process.env.JWT_SECRET || 'fallback-secret');
+
+    expect(CheckInService.verifyToken(`${token}x`, now)).toMatchObject({ code: 'INVALID_TOKEN' });
+    expect(CheckInService.verifyToken(loginToken, now)).toMatchObject({ code: 'INVALID_TOKEN' });
+  });
+});
+
+describe('StaffService front desk access', () => {
+  const owner = new mongoose.Types.ObjectId();
+  const staff = new mongoose.Types.ObjectId();
+  const shala = { owner, staff: [staff] } as any;
+
+  test('allows the owner, staff and admins', () => {
+    expect(StaffService.canRunFrontDesk({ id: owner.toString(), role: 'user' }, shala)).toBe(true);
+    expect(StaffService.canRunFrontDesk({ id: staff.toString(), role: 'user' }, shala)).toBe(true);
+    expect(StaffService.canRunFrontDesk({ id: bookingId, role: 'admin' }, shala)).toBe(true);
+    expect(StaffService.canRunFrontDesk({ id: bookingId, role: 'user' }, shala)).toBe(false);
+  });
+});
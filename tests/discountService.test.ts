@@ -0,0 +1,30 @@
+/**
+ * Discount Service Tests
+ * Amount taken off by each kind of promo code
+ */
+
+import { DiscountService } from '../src/services/discount/discountService';
+
+describe('DiscountService.computeAmount', () => {
+  test('takes a percentage off, rounded to paise', () => {
+    expect(DiscountService.computeAmount({ type: 'percentage', value: 15 }, 499)).toBe(74.85);
+    expect(DiscountService.computeAmount({ type: 'percentage', value: 150 }, 400)).toBe(400);
+  });
+
+  test('takes a flat amount off, never more than the price', () => {
+    expect(DiscountService.computeAmount({ type: 'flat', value: 100 }, 500)).toBe(100);
+    expect(DiscountService.computeAmount({ type: 'flat', value: 800 }, 500)).toBe(500);
+  });
+
+  test('makes a first class free', () => {
+    expect(DiscountService.computeAmount({ type: 'first_class_free', value: 0 }, 650)).toBe(650);
+  });
+
+  test('makes one class free when the price covers several', () => {
+    expect(DiscountService.computeAmount({ type: 'first_class_free', value: 0 }, 1950, 650)).toBe(650);
+  });
+
+  test('takes nothing off a free price', () => {
+    expect(DiscountService.computeAmount({ type: 'flat', value: 100 }, 0)).toBe(0);
+  });
+});
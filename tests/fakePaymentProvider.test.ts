@@ -0,0 +1,70 @@
+/**
+ * Fake Payment Provider Tests
+ * Intent lifecycle and webhook signing of the in-process gateway
+ */
+
+import { FakePaymentProvider } from '../src/services/payment/fakePaymentProvider';
+
+describe('FakePaymentProvider', () => {
+  const createIntent = (provider: FakePaymentProvider, amount = 500) =>
+    provider.createIntent({ amount, currency: 'INR', reference: 'payment-1' });
+
+  test('creates intents with the requested amount', async () => {
+    const provider = new FakePaymentProvider();
+    const intent = await createIntent(provider);
+
+    expect(intent.intentId).toMatch(/^fake_intent_/);
+    expect(intent.amount).toBe(500);
+    expect(intent.currency).toBe('INR');
+  });
+
+  test('signs completion webhooks that verify and parse', async () => {
+    const provider = new FakePaymentProvider('secret');
+    const intent = await createIntent(provider);
+
+    const webhook = provider.completePayment(intent.intentId);
+
+    expect(provider.verifyWebhookSignature(webhook.rawBody, webhook.signature)).toBe(true);
+    expect(provider.parseWebhookEvent(webhook.rawBody)).toMatchObject({
+      type: 'payment.captured',
+      intentId: intent.intentId,
+      amount: 500,
+    });
+  });
+
+  test('rejects tampered bodies and foreign signatures', async () => {
+    const provider = new FakePaymentProvider('secret');
+    const other = new FakePaymentProvider('other-secret');
+    const intent = await createIntent(provider);
+
+    const webhook = provider.completePayment(intent.intentId);
+    const tampered = webhook.rawBody.replace('500', '5');
+
+    expect(provider.verifyWebhookSignature(tampered, webhook.signature)).toBe(false);
+    expect(other.verifyWebhookSignature(webhook.rawBody, webhook.signature)).toBe(false);
+    expect(provider.verifyWebhookSignature(webhook.rawBody, '')).toBe(false);
+  });
+
+  test('reports failed payments with the reason', async () => {
+    const provider = new FakePaymentProvider();
+    const intent = await createIntent(provider);
+
+    const webhook = provider.failPayment(intent.intentId, 'Insufficient funds');
+
+    expect(provider.parseWebhookEvent(webhook.rawBody)).toMatchObject({
+      type: 'payment.failed',
+      failureReason: 'Insufficient funds',
+    });
+  });
+
+  test('refunds up to the captured amount', async () => {
+    const provider = new FakePaymentProvider();
+    const intent = await createIntent(provider);
+    const { paymentId } = provider.parseWebhookEvent(
+      provider.completePayment(intent.intentId).rawBody
+    )!;
+
+    await expect(provider.refund(paymentId!, 300)).resolves.toMatchObject({ amount: 300 });
+    await expect(provider.refund(paymentId!, 300)).rejects.toThrow('Refund exceeds captured amount');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Guest Booking Tests
+ * Validating guest lists, per-head pricing, each guest's share and cancelling guests
+ */
+
+import mongoose from 'mongoose';
+import Booking from '../src/models/Booking';
+import YogaShala from '../src/models/YogaShala';
+import { CapacityService } from '../src/services/booking/capacityService';
+import { GuestService } from '../src/services/booking/guestService';
+import { WaitlistService } from '../src/services/booking/waitlistService';
+import { PackageService } from '../src/services/package/packageService';
+import { PricingService } from '../src/services/booking/pricingService';
+
+describe('GuestService.validateGuests', () => {
+  test('accepts named guests with optional distinct emails', () => {
+    expect(
+      GuestService.validateGuests([
+        { name: 'Asha' },
+        { name: 'Ravi', email: 'ravi@example.com' },
+        { name: 'Meera', email: 'MEERA@example.com ' },
+      ])
+    ).toBeNull();
+  });
+
+  test('needs a name for every guest', () => {
+    expect(GuestService.validateGuests([{ name: '  ' }])).toMatchObject({
+      success: false,
+      code: 'INVALID_GUESTS',
+      message: 'Every guest needs a name',
+    });
+  });
+
+  test('rejects bad and repeated emails', () => {
+    expect(GuestService.validateGuests([{ name: 'Ravi', email: 'ravi' }])).toMatchObject({
+      code: 'INVALID_GUESTS',
+      message: 'Invalid email for guest Ravi',
+    });
+    expect(
+      GuestService.validateGuests([
+        { name: 'Ravi', email: 'ravi@example.com' },
+        { name: 'R', email: 'Ravi@Example.com' },
+      ])
+    ).toMatchObject({ message: 'Each guest needs a different email' });
+  });
+
+  test('caps the group size', () => {
+    const guests = Array.from({ length: GuestService.MAX_GUESTS + 1 }, (_, i) => ({
+      name: `Guest ${i + 1}`,
+    }));
+    expect(GuestService.validateGuests(guests)).toMatchObject({ code: 'INVALID_GUESTS' });
+    expect(GuestService.validateGuests(guests.slice(1))).toBeNull();
+  });
+});
+
+describe('GuestService.getGuestShare', () => {
+  test('splits what is left of the amount paid equally', () => {
+    expect(GuestService.getGuestShare({ amountPaid: 1500, spots: 3 })).toBe(500);
+    expect(GuestService.getGuestShare({ amountPaid: 1000, spots: 3 })).toBe(333.33);
+    expect(GuestService.getGuestShare({ amountPaid: 500, spots: 1 })).toBe(500);
+  });
+});
+
+describe('PricingService.buildQuote for groups', () => {
+  test('charges the class price per head', () => {
+    const quote = PricingService.buildQuote('Hatha Flow', 500, 'drop_in', { spots: 3 });
+
+    expect(quote.lineItems).toEqual([{ type: 'class', label: 'Hatha Flow × 3', amount: 1500 }]);
+    expect(quote).toMatchObject({ subtotal: 1500, total: 1500, spots: 3 });
+  });
+
+  test('covers every head from a package and applies promo codes to the group total', () => {
+    expect(
+      PricingService.buildQuote('Hatha Flow', 500, 'package', { spots: 2 }).total
+    ).toBe(0);
+
+    const discounted = PricingService.buildQuote('Hatha Flow', 500, 'drop_in', {
+      spots: 2,
+      discount: { code: 'FAMILY10', type: 'percentage', value: 10 },
+    });
+    expect(discounted.total).toBe(900);
+  });
+
+  test('makes only one spot free with a first class free code', () => {
+    const quote = PricingService.buildQuote('Hatha Flow', 500, 'drop_in', {
+      spots: 3,
+      discount: { code: 'FIRSTFREE', type: 'first_class_free', value: 0 },
+    });
+
+    expect(quote.lineItems[1]).toEqual({ type: 'discount', label: 'Promo code FIRSTFREE', amount: -500 });
+    expect(quote).toMatchObject({ subtotal: 1500, discount: 500, total: 1000 });
+  });
+
+  test('prices the amount due per head', () => {
+    expect(
+      PricingService.getAmountDue({ className: 'Hatha Flow', price: 400 }, { dropInRate: 500 }, 'drop_in', 4)
+    ).toBe(1600);
+  });
+});
+
+describe('GuestService.cancelGuest', () => {
+  const now = new Date('2026-10-19T09:00:00.000Z');
+  const hours = (count: number) => new Date(now.getTime() + count * 60 * 60 * 1000);
+  const userId = new mongoose.Types.ObjectId();
+  const guestId = new mongoose.Types.ObjectId();
+
+  const booking = (startsAt: Date) => ({
+    _id: new mongoose.Types.ObjectId(),
+    user: userId,
+    shala: new mongoose.Types.ObjectId(),
+    occurrence: new mongoose.Types.ObjectId(),
+    status: 'confirmed',
+    paymentStatus: 'completed',
+    amountPaid: 0,
+    spots: 2,
+    date: startsAt,
+    startTime: '07:00',
+    startsAt,
+    timezone: 'Asia/Kolkata',
+    packageUsed: { packageId: new mongoose.Types.ObjectId(), classesUsed: 2 },
+    guests: [{ _id: guestId, name: 'Ravi', status: 'confirmed', checkedIn: false }],
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockCancel = (current: ReturnType<typeof booking>) => {
+    jest.spyOn(Booking, 'findById').mockResolvedValue(current as any);
+    jest.spyOn(YogaShala, 'findById').mockReturnValue({
+      select: () => Promise.resolve({ cancellationPolicy: undefined }),
+    } as any);
+    jest
+      .spyOn(mongoose.connection, 'transaction')
+      .mockImplementation(((fn: (session: any) => Promise<unknown>) => fn({})) as any);
+    jest.spyOn(CapacityService, 'releaseSpots').mockResolvedValue();
+    jest.spyOn(WaitlistService, 'promoteNext').mockResolvedValue(null);
+    const updated = { ...current, spots: 1, populate: jest.fn().mockResolvedValue(current) };
+    return {
+      update: jest.spyOn(Booking, 'findOneAndUpdate').mockResolvedValue(updated as any),
+      restore: jest.spyOn(PackageService, 'restoreClasses').mockResolvedValue(true),
+    };
+  };
+
+  const cancel = (current: ReturnType<typeof booking>) =>
+    GuestService.cancelGuest(
+      userId.toString(),
+      current._id.toString(),
+      guestId.toString(),
+      undefined,
+      now
+    );
+
+  test('gives an early cancelled guest their class back', async () => {
+    const current = booking(hours(48));
+    const { update, restore } = mockCancel(current);
+
+    await expect(cancel(current)).resolves.toMatchObject({ success: true });
+
+    const [, change] = update.mock.calls[0] as any[];
+    expect(change.$set['packageUsed.classesUsed']).toBe(1);
+    expect(restore).toHaveBeenCalled();
+  });
+
+  test('counts the class as used when the guest cancels too late', async () => {
+    const current = booking(hours(1));
+    const { update, restore } = mockCancel(current);
+
+    await expect(cancel(current)).resolves.toMatchObject({ success: true });
+
+    const [, change] = update.mock.calls[0] as any[];
+    expect(change.$set).not.toHaveProperty(['packageUsed.classesUsed']);
+    expect(restore).not.toHaveBeenCalled();
+  });
+
+  test('rejects guests of classes that have already started', async () => {
+    const current = booking(hours(-1));
+    const { update } = mockCancel(current);
+
+    await expect(cancel(current)).resolves.toMatchObject({
+      success: false,
+      code: 'CLASS_STARTED',
+      statusCode: 400,
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
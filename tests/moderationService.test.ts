@@ -0,0 +1,103 @@
+/**
+ * Moderation Service Tests
+ * Owner edits under moderation and admin decision validation
+ */
+
+import { ModerationService } from '../src/services/shala/moderationService';
+import { isPublished } from '../src/models/YogaShala';
+
+describe('ModerationService.prepareUpdate', () => {
+  const now = new Date('2025-03-01T10:00:00Z');
+
+  test('holds content edits to a live listing and applies the rest', () => {
+    const { update, heldFields } = ModerationService.prepareUpdate(
+      { moderationStatus: 'approved' },
+      { name: 'New Name', images: ['a.jpg'], dropInRate: 600 },
+      now
+    );
+
+    expect(heldFields).toEqual(['name', 'images']);
+    expect(update.$set).toEqual({
+      'pendingChanges.name': 'New Name',
+      'pendingChanges.images': ['a.jpg'],
+      dropInRate: 600,
+      changesSubmittedAt: now,
+      updatedAt: now,
+    });
+  });
+
+  test('treats listings from before moderation as live', () => {
+    const { heldFields } = ModerationService.prepareUpdate({}, { description: 'Updated' }, now);
+    expect(heldFields).toEqual(['description']);
+  });
+
+  test('edits pending listings in place and resubmits rejected ones', () => {
+    expect(
+      ModerationService.prepareUpdate({ moderationStatus: 'pending' }, { name: 'Fixed' }, now)
+    ).toEqual({ update: { $set: { name: 'Fixed', updatedAt: now } }, heldFields: [] });
+
+    const { update } = ModerationService.prepareUpdate(
+      { moderationStatus: 'rejected' },
+      { name: 'Fixed' },
+      now
+    );
+    expect(update.$set).toMatchObject({ name: 'Fixed', moderationStatus: 'pending' });
+    expect(update.$unset).toEqual({ moderationNote: 1 });
+  });
+
+  test('ignores owners trying to set the moderation state or ownership', () => {
+    const { update } = ModerationService.prepareUpdate(
+      { moderationStatus: 'pending' },
+      { moderationStatus: 'approved', pendingChanges: {}, isActive: true, owner: 'someone' },
+      now
+    );
+    expect(update.$set).toEqual({ updatedAt: now });
+  });
+
+  test('ignores owners trying to set their own rating', () => {
+    const { update } = ModerationService.prepareUpdate(
+      { moderationStatus: 'approved' },
+      { rating: 5, reviewCount: 999, ratingSum: 4995, dropInRate: 600 },
+      now
+    );
+    expect(update.$set).toEqual({ dropInRate: 600, updatedAt: now });
+  });
+});
+
+describe('ModerationService.withoutProtectedFields', () => {
+  test('keeps owners from seeding platform fields on a new listing', () => {
+    expect(
+      ModerationService.withoutProtectedFields({
+        name: 'Ashtanga Shala',
+        ratingSum: 50,
+        photos: [{ approved: true }],
+        pendingChanges: {},
+        moderatedBy: 'admin-1',
+        moderatedAt: new Date(),
+        moderationNote: 'Looks good',
+        staff: ['user-2'],
+      })
+    ).toEqual({ name: 'Ashtanga Shala' });
+  });
+});
+
+describe('ModerationService decisions', () => {
+  test('requires a reason to reject', async () => {
+    await expect(
+      ModerationService.rejectShala({ id: 'admin-1', role: 'admin' }, 'shala-1', ' ')
+    ).resolves.toMatchObject({ success: false, code: 'REASON_REQUIRED', statusCode: 400 });
+  });
+
+  test('rejects unknown report reasons', async () => {
+    await expect(
+      ModerationService.reportShala('user-1', 'shala-1', { reason: 'boring' as any })
+    ).resolves.toMatchObject({ success: false, code: 'INVALID_REPORT' });
+  });
+
+  test('only publishes active approved listings', () => {
+    expect(isPublished({ isActive: true, moderationStatus: 'approved' })).toBe(true);
+    expect(isPublished({ isActive: true })).toBe(true);
+    expect(isPublished({ isActive: true, moderationStatus: 'pending' })).toBe(false);
+    expect(isPublished({ isActive: false, moderationStatus: 'approved' })).toBe(false);
+  });
+});
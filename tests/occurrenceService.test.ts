@@ -0,0 +1,143 @@
+/**
+ * Occurrence Service Tests
+ * Materialization windows, planned classes and schedule edits keeping slot IDs
+ */
+
+import mongoose from 'mongoose';
+import { ITimeSlot } from '../src/models/YogaShala';
+import { ExceptionRef, OccurrenceService } from '../src/services/schedule/occurrenceService';
+
+const slot = (overrides: Partial<ITimeSlot>): ITimeSlot =>
+  ({
+    day: 'monday',
+    startTime: '07:00',
+    endTime: '08:30',
+    className: 'Mysore',
+    instructor: 'Asha',
+    capacity: 12,
+    price: 500,
+    ...overrides,
+  }) as ITimeSlot;
+
+describe('OccurrenceService.matchSlots', () => {
+  const mysoreId = new mongoose.Types.ObjectId();
+  const flowId = new mongoose.Types.ObjectId();
+  const existing = [
+    slot({ _id: mysoreId }),
+    slot({ _id: flowId, day: 'monday', startTime: '18:00', endTime: '19:00', className: 'Flow' }),
+  ];
+
+  test('keeps the IDs slots were sent with', () => {
+    const [mysore] = OccurrenceService.matchSlots(existing, [
+      slot({ _id: mysoreId, startTime: '06:30' }),
+    ]);
+    expect(mysore._id).toBe(mysoreId);
+    expect(mysore.startTime).toBe('06:30');
+  });
+
+  test('matches slots sent without IDs by day and start time', () => {
+    const matched = OccurrenceService.matchSlots(existing, [
+      slot({ day: 'monday', startTime: '18:00', className: 'Evening Flow' }),
+      slot({ instructor: 'Ravi' }),
+    ]);
+    expect(matched.map((item) => item._id)).toEqual([flowId, mysoreId]);
+  });
+
+  test('matches a slot whose time was edited by its class name', () => {
+    const [mysore] = OccurrenceService.matchSlots(existing, [
+      slot({ startTime: '06:00', endTime: '07:30' }),
+    ]);
+    expect(mysore._id).toBe(mysoreId);
+  });
+
+  test('gives new and unrecognised slots no ID', () => {
+    const matched = OccurrenceService.matchSlots(existing, [
+      slot({ day: 'tuesday' }),
+      slot({ _id: new mongoose.Types.ObjectId(), day: 'friday', className: 'Yin' }),
+    ]);
+    expect(matched.every((item) => !('_id' in item))).toBe(true);
+  });
+
+  test('claims each existing slot once', () => {
+    const matched = OccurrenceService.matchSlots(existing, [
+      slot({ _id: mysoreId }),
+      slot({}),
+    ]);
+    expect(matched[0]._id).toBe(mysoreId);
+    expect('_id' in matched[1]).toBe(false);
+  });
+
+  test('leaves a renamed slot unmatched when several share its class name', () => {
+    const twoMysore = [...existing, slot({ _id: new mongoose.Types.ObjectId(), startTime: '09:00' })];
+    const [moved] = OccurrenceService.matchSlots(twoMysore, [slot({ startTime: '06:00' })]);
+    expect('_id' in moved).toBe(false);
+  });
+});
+
+describe('OccurrenceService.getWindow', () => {
+  test('starts on the shala\'s local date', () => {
+    // 01:30 on Monday in Kolkata, still Sunday in UTC
+    const { start, through } = OccurrenceService.getWindow(
+      new Date('2026-10-18T20:00:00.000Z'),
+      'Asia/Kolkata',
+      28
+    );
+    expect(start).toEqual(new Date('2026-10-19T00:00:00.000Z'));
+    expect(through).toEqual(new Date('2026-11-15T00:00:00.000Z'));
+  });
+});
+
+describe('OccurrenceService.planOccurrences', () => {
+  const slotId = new mongoose.Types.ObjectId();
+  const monday = new Date('2026-10-19T00:00:00.000Z');
+  const nextMonday = new Date('2026-10-26T00:00:00.000Z');
+  const schedule = [slot({ _id: slotId })];
+
+  test('plans each slot on its weekday for every week of the window', () => {
+    const planned = OccurrenceService.planOccurrences(schedule, monday, 14, [], 'Asia/Kolkata');
+
+    expect(planned.map((item) => item.date)).toEqual([monday, nextMonday]);
+    expect(planned[0]).toMatchObject({
+      slotId,
+      fields: {
+        day: 'monday',
+        className: 'Mysore',
+        capacity: 12,
+        status: 'scheduled',
+        startTime: '07:00',
+        startsAt: new Date('2026-10-19T01:30:00.000Z'),
+        endsAt: new Date('2026-10-19T03:00:00.000Z'),
+      },
+    });
+  });
+
+  test('stops at the end of the window', () => {
+    expect(OccurrenceService.planOccurrences(schedule, monday, 7, [], 'Asia/Kolkata')).toHaveLength(1);
+  });
+
+  test('skips slots that have not been saved yet', () => {
+    expect(OccurrenceService.planOccurrences([slot({})], monday, 7, [], 'Asia/Kolkata')).toEqual([]);
+  });
+
+  test('applies exceptions to the dates they cover', () => {
+    const exceptions = [
+      { type: 'cancellation', startDate: monday, endDate: monday, slotId, reason: 'Teacher away' },
+      { type: 'time_change', startDate: nextMonday, endDate: nextMonday, slotId, startTime: '08:00', endTime: '09:30' },
+    ] as ExceptionRef[];
+
+    const [first, second] = OccurrenceService.planOccurrences(
+      schedule,
+      monday,
+      14,
+      exceptions,
+      'Asia/Kolkata'
+    );
+
+    expect(first.fields).toMatchObject({ status: 'cancelled', cancellationReason: 'Teacher away' });
+    expect(second.fields).toMatchObject({
+      status: 'scheduled',
+      startTime: '08:00',
+      startsAt: new Date('2026-10-26T02:30:00.000Z'),
+    });
+  });
+});
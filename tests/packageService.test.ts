@@ -0,0 +1,122 @@
+/**
+ * Package Service Tests
+ * Choosing the pack that pays for a class, and debiting and restoring credits
+ */
+
+import mongoose from 'mongoose';
+import User, { IActivePackage } from '../src/models/User';
+import { PackageError, PackageService } from '../src/services/package/packageService';
+
+const shalaId = new mongoose.Types.ObjectId();
+const classStart = new Date('2026-10-26T01:30:00.000Z');
+
+const pack = (overrides: Partial<IActivePackage>): IActivePackage =>
+  ({
+    _id: new mongoose.Types.ObjectId(),
+    shala: shalaId,
+    name: '10 classes',
+    totalClasses: 10,
+    classesRemaining: 5,
+    expiryDate: new Date('2026-12-01T00:00:00.000Z'),
+    ...overrides,
+  }) as IActivePackage;
+
+const select = (packs: IActivePackage[], classes = 1, activePackageId?: string) =>
+  PackageService.selectCoveringPackage(packs, shalaId.toString(), classStart, classes, activePackageId);
+
+const errorCode = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PackageError);
+    return (error as PackageError).code;
+  }
+  return undefined;
+};
+
+describe('PackageService.selectCoveringPackage', () => {
+  test('uses the pack that expires first', () => {
+    const later = pack({ expiryDate: new Date('2027-01-01T00:00:00.000Z') });
+    const sooner = pack({ expiryDate: new Date('2026-11-01T00:00:00.000Z') });
+    expect(select([later, sooner])).toBe(sooner);
+  });
+
+  test('uses the requested pack when one is named', () => {
+    const later = pack({ expiryDate: new Date('2027-01-01T00:00:00.000Z') });
+    const sooner = pack({ expiryDate: new Date('2026-11-01T00:00:00.000Z') });
+    expect(select([later, sooner], 1, later._id!.toString())).toBe(later);
+  });
+
+  test('needs a credit for every spot of a group booking', () => {
+    const small = pack({ classesRemaining: 2, expiryDate: new Date('2026-11-01T00:00:00.000Z') });
+    const large = pack({ classesRemaining: 4 });
+    expect(select([small, large], 3)).toBe(large);
+  });
+
+  test('explains why no pack covers the class', () => {
+    const otherShala = pack({ shala: new mongoose.Types.ObjectId() });
+    expect(errorCode(() => select([otherShala]))).toBe('NO_ACTIVE_PACKAGE');
+
+    const expiresFirst = pack({ expiryDate: new Date('2026-10-25T00:00:00.000Z') });
+    expect(errorCode(() => select([expiresFirst]))).toBe('PACKAGE_EXPIRED');
+
+    const usedUp = pack({ classesRemaining: 0 });
+    expect(errorCode(() => select([usedUp]))).toBe('PACKAGE_EXHAUSTED');
+    expect(errorCode(() => select([pack({ classesRemaining: 1 })], 2))).toBe('PACKAGE_EXHAUSTED');
+  });
+});
+
+describe('PackageService credits', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  const session = {} as mongoose.ClientSession;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockPacks = (packs: IActivePackage[]) =>
+    jest.spyOn(User, 'findById').mockReturnValue({
+      select: () => ({ session: () => Promise.resolve({ activePackages: packs }) }),
+    } as any);
+
+  test('debits only while the pack still has the classes', async () => {
+    const covering = pack({});
+    mockPacks([covering]);
+    const update = jest
+      .spyOn(User, 'updateOne')
+      .mockResolvedValue({ modifiedCount: 1 } as any);
+
+    await expect(
+      PackageService.debitClasses(userId, shalaId.toString(), classStart, session, 2)
+    ).resolves.toBe(covering._id);
+
+    const [filter, change] = update.mock.calls[0] as any[];
+    expect(filter.activePackages).toEqual({
+      $elemMatch: { _id: covering._id, classesRemaining: { $gte: 2 } },
+    });
+    expect(change).toEqual({ $inc: { 'activePackages.$.classesRemaining': -2 } });
+  });
+
+  test('fails when a parallel booking spent the last class first', async () => {
+    mockPacks([pack({ classesRemaining: 1 })]);
+    jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as any);
+
+    await expect(
+      PackageService.debitClasses(userId, shalaId.toString(), classStart, session)
+    ).rejects.toMatchObject({ code: 'PACKAGE_EXHAUSTED' });
+  });
+
+  test('gives cancelled classes back to the pack they came from', async () => {
+    const packageId = new mongoose.Types.ObjectId();
+    const update = jest
+      .spyOn(User, 'updateOne')
+      .mockResolvedValue({ modifiedCount: 1 } as any);
+
+    await expect(PackageService.restoreClasses(userId, packageId, session, 3)).resolves.toBe(true);
+    expect(update).toHaveBeenCalledWith(
+      { _id: userId, 'activePackages._id': packageId },
+      { $inc: { 'activePackages.$.classesRemaining': 3 } },
+      { session }
+    );
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Pricing Service Tests
+ * Itemized quotes for each payment method
+ */
+
+import { PricingService } from '../src/services/booking/pricingService';
+
+describe('PricingService.buildQuote', () => {
+  test('charges the class price for drop-ins', () => {
+    const quote = PricingService.buildQuote('Hatha Flow', 500, 'drop_in');
+
+    expect(quote.lineItems).toEqual([{ type: 'class', label: 'Hatha Flow', amount: 500 }]);
+    expect(quote).toMatchObject({ subtotal: 500, discount: 0, total: 500 });
+  });
+
+  test('reduces trials to the trial rate, free by default', () => {
+    expect(PricingService.buildQuote('Hatha Flow', 500, 'trial')).toMatchObject({
+      discount: 500,
+      total: 0,
+    });
+
+    const paidTrial = PricingService.buildQuote('Hatha Flow', 500, 'trial', { trialRate: 150 });
+    expect(paidTrial.lineItems[1]).toEqual({
+      type: 'trial',
+      label: 'Trial class rate',
+      amount: -350,
+    });
+    expect(paidTrial.total).toBe(150);
+  });
+
+  test('never charges more than the class price for a trial', () => {
+    const quote = PricingService.buildQuote('Hatha Flow', 300, 'trial', { trialRate: 400 });
+
+    expect(quote.lineItems).toHaveLength(1);
+    expect(quote.total).toBe(300);
+  });
+
+  test('covers package classes in full', () => {
+    const quote = PricingService.buildQuote('Hatha Flow', 500, 'package', {
+      packageName: '10 Class Pack',
+      activePackageId: 'pack-1',
+    });
+
+    expect(quote.lineItems[1]).toMatchObject({ label: 'Covered by 10 Class Pack', amount: -500 });
+    expect(quote).toMatchObject({ total: 0, activePackageId: 'pack-1' });
+  });
+
+  test('applies promo codes to what is left after the payment method', () => {
+    const percentOff = PricingService.buildQuote('Hatha Flow', 500, 'drop_in', {
+      discount: { code: 'SPRING20', type: 'percentage', value: 20 },
+    });
+    expect(percentOff.lineItems[1]).toEqual({
+      type: 'discount',
+      label: 'Promo code SPRING20',
+      amount: -100,
+    });
+    expect(percentOff).toMatchObject({
+      total: 400,
+      discount: 100,
+      discountCode: { code: 'SPRING20', amount: 100 },
+    });
+
+    const onTrial = PricingService.buildQuote('Hatha Flow', 500, 'trial', {
+      trialRate: 150,
+      discount: { code: 'FLAT200', type: 'flat', value: 200 },
+    });
+    expect(onTrial.total).toBe(0);
+    expect(onTrial.discountCode).toEqual({ code: 'FLAT200', amount: 150 });
+  });
+
+  test('prices classes without a slot price at the drop-in rate', () => {
+    expect(PricingService.getClassPrice({ price: 0 }, { dropInRate: 400 })).toBe(400);
+    expect(PricingService.getClassPrice({ price: 600 }, { dropInRate: 400 })).toBe(600);
+  });
+});
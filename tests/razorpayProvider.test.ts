@@ -0,0 +1,53 @@
+/**
+ * Razorpay Provider Tests
+ * Webhook signature checks and the webhook secret requirement
+ */
+
+import crypto from 'crypto';
+import { RazorpayProvider } from '../src/services/payment/razorpayProvider';
+import {
+  getPaymentProvider,
+  setPaymentProvider,
+} from '../src/services/payment/paymentProviderFactory';
+
+describe('RazorpayProvider', () => {
+  const rawBody = JSON.stringify({ event: 'payment.captured' });
+  const sign = (secret: string) =>
+    crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+
+  test('accepts webhooks signed with the webhook secret', () => {
+    const provider = new RazorpayProvider('key', 'secret', 'whsec');
+
+    expect(provider.verifyWebhookSignature(rawBody, sign('whsec'))).toBe(true);
+    expect(provider.verifyWebhookSignature(rawBody, sign('other'))).toBe(false);
+  });
+
+  test('rejects every webhook when no secret is configured', () => {
+    const provider = new RazorpayProvider('key', 'secret', '');
+
+    expect(provider.verifyWebhookSignature(rawBody, sign(''))).toBe(false);
+  });
+});
+
+describe('getPaymentProvider', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    setPaymentProvider(null);
+  });
+
+  test('refuses to use Razorpay without a webhook secret', () => {
+    process.env.PAYMENT_PROVIDER = 'razorpay';
+    delete process.env.RAZORPAY_WEBHOOK_SECRET;
+
+    expect(() => getPaymentProvider()).toThrow('RAZORPAY_WEBHOOK_SECRET');
+  });
+
+  test('creates the Razorpay provider when the secret is set', () => {
+    process.env.PAYMENT_PROVIDER = 'razorpay';
+    process.env.RAZORPAY_WEBHOOK_SECRET = 'whsec';
+
+    expect(getPaymentProvider()).toBeInstanceOf(RazorpayProvider);
+  });
+});
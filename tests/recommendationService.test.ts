@@ -0,0 +1,128 @@
+/**
+ * Recommendation Service Tests
+ * Class scoring, explanations and location fallback
+ */
+
+import {
+  ClassCandidate,
+  RecommendationProfile,
+  RecommendationService,
+} from '../src/services/recommendation/recommendationService';
+
+const profile: RecommendationProfile = {
+  preferredStyles: ['yin', 'hot_yoga'],
+  experience: 'beginner',
+  attendance: new Map([['shala-regular', 3]]),
+  radiusKm: 10,
+};
+
+const candidate = (overrides: Partial<ClassCandidate> = {}): ClassCandidate => ({
+  shalaId: 'shala-new',
+  className: 'Morning Flow',
+  distance: 2.1,
+  rating: 0,
+  reviewCount: 0,
+  ...overrides,
+});
+
+describe('RecommendationService.scoreClass', () => {
+  test('explains a style match with the distance', () => {
+    const { reasons } = RecommendationService.scoreClass(
+      candidate({ style: 'yin', className: 'Yin Yoga' }),
+      profile
+    );
+
+    expect(reasons.join(', ')).toBe('matches your Yin preference, 2.1 km away');
+  });
+
+  test('matches preferred styles in the class name when untagged', () => {
+    const { reasons } = RecommendationService.scoreClass(
+      candidate({ className: 'Hot-Yoga Burn' }),
+      profile
+    );
+
+    expect(reasons[0]).toBe('matches your Hot Yoga preference');
+  });
+
+  test('ranks preferred styles above other classes', () => {
+    const yin = RecommendationService.scoreClass(candidate({ style: 'yin' }), profile);
+    const vinyasa = RecommendationService.scoreClass(candidate({ style: 'vinyasa' }), profile);
+
+    expect(yin.score).toBeGreaterThan(vinyasa.score);
+  });
+
+  test('prefers classes at the user level and penalises harder ones', () => {
+    const score = (level: ClassCandidate['level']) =>
+      RecommendationService.scoreClass(candidate({ level }), profile).score;
+
+    expect(score('beginner')).toBeGreaterThan(score('all_levels'));
+    expect(score('all_levels')).toBeGreaterThan(score('intermediate'));
+    expect(score('intermediate')).toBeGreaterThan(score('advanced'));
+    expect(
+      RecommendationService.scoreClass(candidate({ level: 'beginner' }), profile).reasons
+    ).toContain('suits your beginner level');
+  });
+
+  test('boosts shalas the user has practised at', () => {
+    const regular = RecommendationService.scoreClass(
+      candidate({ shalaId: 'shala-regular' }),
+      profile
+    );
+    const unknown = RecommendationService.scoreClass(candidate(), profile);
+
+    expect(regular.score).toBeGreaterThan(unknown.score);
+    expect(regular.reasons).toContain("you've practised here 3 times");
+  });
+
+  test('favours closer and better rated shalas', () => {
+    const near = RecommendationService.scoreClass(candidate({ distance: 1 }), profile);
+    const far = RecommendationService.scoreClass(candidate({ distance: 9 }), profile);
+    expect(near.score).toBeGreaterThan(far.score);
+
+    const rated = RecommendationService.scoreClass(
+      candidate({ rating: 4.8, reviewCount: 12 }),
+      profile
+    );
+    expect(rated.reasons).toContain('rated 4.8');
+  });
+
+  test('gives the same result for the same input', () => {
+    const input = candidate({ style: 'yin', level: 'beginner', rating: 4.2, reviewCount: 5 });
+    expect(RecommendationService.scoreClass(input, profile)).toEqual(
+      RecommendationService.scoreClass(input, profile)
+    );
+  });
+});
+
+describe('RecommendationService.parseQuery', () => {
+  const user = {
+    preferredLocation: { type: 'Point' as const, coordinates: [77.2, 28.6] as [number, number] },
+    maxDistance: 8,
+  };
+
+  test("falls back to the user's preferred location and max distance", () => {
+    expect(RecommendationService.parseQuery({}, user)).toMatchObject({
+      lat: 28.6,
+      lng: 77.2,
+      radiusKm: 8,
+      days: 7,
+      limit: 10,
+    });
+  });
+
+  test('requires a location when none is saved', () => {
+    expect(RecommendationService.parseQuery({}, { maxDistance: 10 })).toMatchObject({
+      success: false,
+      code: RecommendationService.ERROR_CODES.LOCATION_REQUIRED,
+    });
+  });
+
+  test('caps the look-ahead and radius', () => {
+    expect(
+      RecommendationService.parseQuery({ lat: '28.6', lng: '77.2', radius: '500', days: '60' }, user)
+    ).toMatchObject({
+      radiusKm: RecommendationService.MAX_RADIUS_KM,
+      days: RecommendationService.MAX_DAYS,
+    });
+  });
+});
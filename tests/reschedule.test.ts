@@ -0,0 +1,80 @@
+/**
+ * Reschedule Tests
+ * Per-shala reschedule limits and the price difference of a move
+ */
+
+import { RescheduleService } from '../src/services/booking/rescheduleService';
+
+const classStart = new Date('2026-10-20T08:00:00.000Z');
+const booking = (reschedules = 0) => ({
+  date: new Date('2026-10-20T00:00:00.000Z'),
+  startTime: '08:00',
+  startsAt: classStart,
+  timezone: 'UTC',
+  reschedules: Array.from({ length: reschedules }, () => ({} as any)),
+});
+const hoursBefore = (hours: number) => new Date(classStart.getTime() - hours * 60 * 60 * 1000);
+
+describe('RescheduleService.getPolicy', () => {
+  test('fills unset limits from the default', () => {
+    expect(RescheduleService.getPolicy()).toEqual({ maxReschedules: 2, minHoursBefore: 2 });
+    expect(RescheduleService.getPolicy({ maxReschedules: 0 })).toEqual({
+      maxReschedules: 0,
+      minHoursBefore: 2,
+    });
+  });
+});
+
+describe('RescheduleService.checkPolicy', () => {
+  const policy = { maxReschedules: 2, minHoursBefore: 4 };
+
+  test('allows moves within the limits', () => {
+    expect(RescheduleService.checkPolicy(booking(1), policy, hoursBefore(4))).toBeNull();
+  });
+
+  test('caps the number of moves per booking', () => {
+    expect(RescheduleService.checkPolicy(booking(2), policy, hoursBefore(24))).toMatchObject({
+      success: false,
+      code: 'RESCHEDULE_LIMIT_REACHED',
+    });
+    expect(
+      RescheduleService.checkPolicy(booking(), { ...policy, maxReschedules: 0 }, hoursBefore(24))
+    ).toMatchObject({ code: 'RESCHEDULE_LIMIT_REACHED', message: "This shala doesn't allow rescheduling" });
+  });
+
+  test('refuses moves too close to the original class', () => {
+    expect(RescheduleService.checkPolicy(booking(), policy, hoursBefore(3.5))).toMatchObject({
+      code: 'RESCHEDULE_TOO_LATE',
+    });
+  });
+});
+
+describe('RescheduleService.getPriceDifference', () => {
+  test('charges or credits the difference for paid classes', () => {
+    const paid = { paymentMethod: 'drop_in', amountPaid: 500 } as any;
+
+    expect(RescheduleService.getPriceDifference(paid, 700)).toBe(200);
+    expect(RescheduleService.getPriceDifference(paid, 350)).toBe(-150);
+    expect(RescheduleService.getPriceDifference(paid, 500)).toBe(0);
+  });
+
+  test('keeps the promo code saving and never credits more than was paid', () => {
+    const discounted = {
+      paymentMethod: 'drop_in',
+      amountPaid: 400,
+      discount: { code: 'YOGA20', amount: 100 },
+    } as any;
+
+    expect(RescheduleService.getPriceDifference(discounted, 600)).toBe(100);
+    expect(RescheduleService.getPriceDifference(discounted, 0)).toBe(-400);
+  });
+
+  test('package and free bookings move at no cost', () => {
+    expect(
+      RescheduleService.getPriceDifference({ paymentMethod: 'package', amountPaid: 0 } as any, 700)
+    ).toBe(0);
+    expect(
+      RescheduleService.getPriceDifference({ paymentMethod: 'free', amountPaid: 0 } as any, 0)
+    ).toBe(0);
+  });
+});
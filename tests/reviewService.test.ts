@@ -0,0 +1,40 @@
+/**
+ * Review Service Tests
+ * Review validation and incremental rating updates
+ */
+
+import { ReviewService } from '../src/services/review/reviewService';
+
+describe('ReviewService', () => {
+  test('rejects ratings outside 1 to 5 before touching the database', async () => {
+    for (const rating of [0, 6, 4.5]) {
+      await expect(
+        ReviewService.createReview('user-1', 'shala-1', { rating })
+      ).resolves.toMatchObject({ success: false, code: 'INVALID_REVIEW', statusCode: 400 });
+    }
+
+    await expect(ReviewService.createReview('user-1', 'shala-1', {})).resolves.toMatchObject({
+      code: 'INVALID_REVIEW',
+    });
+  });
+
+  test('requires reply text', async () => {
+    await expect(
+      ReviewService.replyToReview({ id: 'owner-1', role: 'user' }, 'shala-1', 'review-1', '  ')
+    ).resolves.toMatchObject({ success: false, code: 'INVALID_REVIEW' });
+  });
+
+  test('moves the rating sum and count by the changed review only', () => {
+    const [totals, average] = ReviewService.buildRatingUpdate(-4, -1) as any[];
+
+    expect(totals.$set.ratingSum.$add[1]).toBe(-4);
+    expect(totals.$set.ratingSum.$add[0].$ifNull[1]).toEqual({
+      $multiply: ['$rating', '$reviewCount'],
+    });
+    expect(totals.$set.reviewCount).toEqual({ $max: [0, { $add: ['$reviewCount', -1] }] });
+    expect(average.$set.rating.$cond[1]).toEqual({
+      $round: [{ $divide: ['$ratingSum', '$reviewCount'] }, 1],
+    });
+    expect(average.$set.rating.$cond[2]).toBe(0);
+  });
+});
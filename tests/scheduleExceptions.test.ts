@@ -0,0 +1,154 @@
+/**
+ * Schedule Exception Tests
+ * Applying closures and class changes to occurrences, and validating new exceptions
+ */
+
+import mongoose from 'mongoose';
+import { ITimeSlot } from '../src/models/YogaShala';
+import { ExceptionRef, OccurrenceService } from '../src/services/schedule/occurrenceService';
+import { ScheduleExceptionService } from '../src/services/schedule/scheduleExceptionService';
+
+const slotId = new mongoose.Types.ObjectId();
+const slot = {
+  _id: slotId,
+  day: 'monday',
+  startTime: '07:00',
+  endTime: '08:30',
+  className: 'Mysore',
+  instructor: 'Asha',
+  capacity: 12,
+} as ITimeSlot;
+
+const monday = new Date('2026-10-26T00:00:00.000Z');
+const now = new Date('2026-10-19T09:00:00.000Z');
+
+const exception = (overrides: Partial<ExceptionRef>): ExceptionRef =>
+  ({
+    type: 'cancellation',
+    startDate: monday,
+    endDate: monday,
+    slotId,
+    ...overrides,
+  }) as ExceptionRef;
+
+describe('OccurrenceService.applyExceptions', () => {
+  test('keeps the regular schedule without exceptions', () => {
+    expect(OccurrenceService.applyExceptions(slot, monday, [])).toEqual({
+      status: 'scheduled',
+      startTime: '07:00',
+      endTime: '08:30',
+    });
+  });
+
+  test('cancels every class inside a closure range', () => {
+    const closure = exception({
+      type: 'closure',
+      slotId: undefined,
+      startDate: new Date('2026-10-24T00:00:00.000Z'),
+      endDate: new Date('2026-11-01T00:00:00.000Z'),
+      reason: 'Diwali break',
+    });
+
+    expect(OccurrenceService.applyExceptions(slot, monday, [closure])).toMatchObject({
+      status: 'cancelled',
+      cancellationReason: 'Diwali break',
+    });
+    expect(
+      OccurrenceService.applyExceptions(slot, new Date('2026-11-02T00:00:00.000Z'), [closure]).status
+    ).toBe('scheduled');
+  });
+
+  test('ignores single-class exceptions of other slots', () => {
+    const other = exception({ slotId: new mongoose.Types.ObjectId() });
+
+    expect(OccurrenceService.applyExceptions(slot, monday, [other]).status).toBe('scheduled');
+  });
+
+  test('applies time changes and substitutes, latest first', () => {
+    const overrides = OccurrenceService.applyExceptions(slot, monday, [
+      exception({ type: 'time_change', startTime: '08:00', endTime: '09:00' }),
+      exception({ type: 'substitute', substituteInstructor: 'Ravi' }),
+      exception({ type: 'time_change', startTime: '09:00', endTime: '10:30' }),
+    ]);
+
+    expect(overrides).toEqual({
+      status: 'scheduled',
+      startTime: '09:00',
+      endTime: '10:30',
+      substituteInstructor: 'Ravi',
+    });
+  });
+});
+
+describe('ScheduleExceptionService.validate', () => {
+  const shala = { schedule: [slot] };
+  const validate = (data: any) => ScheduleExceptionService.validate(shala, data, now);
+
+  test('normalizes a closure range', () => {
+    expect(
+      validate({ type: 'closure', startDate: '2026-12-24', endDate: '2026-12-26', reason: ' Holidays ' })
+    ).toEqual({
+      type: 'closure',
+      startDate: new Date('2026-12-24T00:00:00.000Z'),
+      endDate: new Date('2026-12-26T00:00:00.000Z'),
+      reason: 'Holidays',
+    });
+  });
+
+  test('rejects closures in the past, backwards or too long', () => {
+    expect(validate({ type: 'closure', startDate: '2026-10-18' })).toMatchObject({
+      code: 'INVALID_EXCEPTION',
+    });
+    expect(validate({ type: 'closure', startDate: '2026-12-26', endDate: '2026-12-24' })).toMatchObject({
+      code: 'INVALID_EXCEPTION',
+    });
+    expect(validate({ type: 'closure', startDate: '2026-11-01', endDate: '2027-03-01' })).toMatchObject({
+      code: 'INVALID_EXCEPTION',
+    });
+  });
+
+  test('requires a weekly class on the right day for single-class exceptions', () => {
+    expect(validate({ type: 'cancellation', date: '2026-10-26' })).toMatchObject({
+      code: 'SLOT_NOT_FOUND',
+    });
+    expect(validate({ type: 'cancellation', date: '2026-10-27', slotId: slotId.toString() })).toMatchObject({
+      code: 'INVALID_EXCEPTION',
+      message: 'That class runs on mondays',
+    });
+    expect(validate({ type: 'cancellation', date: '2026-10-26', slotId: slotId.toString() })).toMatchObject({
+      type: 'cancellation',
+      startDate: monday,
+      endDate: monday,
+      slotId,
+    });
+  });
+
+  test('checks new times and substitute names', () => {
+    const base = { date: '2026-10-26', slotId: slotId.toString() };
+
+    expect(validate({ ...base, type: 'time_change', startTime: '9:00', endTime: '10:00' })).toMatchObject({
+      success: false,
+    });
+    expect(validate({ ...base, type: 'time_change', startTime: '10:00', endTime: '09:00' })).toMatchObject({
+      success: false,
+    });
+    expect(validate({ ...base, type: 'time_change', startTime: '08:00', endTime: '09:30' })).toMatchObject({
+      startTime: '08:00',
+      endTime: '09:30',
+    });
+    expect(validate({ ...base, type: 'substitute', substituteInstructor: '  ' })).toMatchObject({
+      success: false,
+    });
+  });
+});
+
+describe('ScheduleExceptionService.describeChanges', () => {
+  test('lists time and instructor changes', () => {
+    expect(
+      ScheduleExceptionService.describeChanges(
+        { startTime: '07:00', endTime: '08:30', instructor: 'Asha' },
+        { startTime: '08:00', endTime: '09:30', instructor: 'Asha', substituteInstructor: 'Ravi' }
+      )
+    ).toEqual(['now runs 08:00-09:30 instead of 07:00-08:30', 'is now taught by Ravi']);
+  });
+});
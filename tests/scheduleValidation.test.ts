@@ -0,0 +1,80 @@
+/**
+ * Schedule Validation Tests
+ * Field-level errors for the weekly schedule sent on shala create/update
+ */
+
+import { ScheduleValidationService } from '../src/services/schedule/scheduleValidationService';
+
+const slot = (overrides: Record<string, unknown> = {}) => ({
+  day: 'monday',
+  startTime: '07:00',
+  endTime: '08:30',
+  className: 'Mysore',
+  instructor: 'Asha',
+  capacity: 12,
+  price: 600,
+  ...overrides,
+});
+
+describe('ScheduleValidationService.validateSchedule', () => {
+  const validate = (schedule: unknown) => ScheduleValidationService.validateSchedule(schedule);
+
+  test('accepts a valid schedule', () => {
+    expect(
+      validate([
+        slot(),
+        slot({ startTime: '08:30', endTime: '10:00' }),
+        slot({ day: 'tuesday', price: 0, style: 'ashtanga', level: 'beginner' }),
+      ])
+    ).toEqual([]);
+  });
+
+  test('rejects anything but a list', () => {
+    expect(validate({ monday: [] })).toEqual([{ field: 'schedule', message: 'Schedule must be a list' }]);
+  });
+
+  test('reports every bad field of every slot at once', () => {
+    const errors = validate([
+      slot({ day: 'someday', startTime: '7am' }),
+      slot({ startTime: '18:00', endTime: '17:00', price: -5, capacity: 0 }),
+      slot({ className: ' ', instructor: undefined, price: undefined, capacity: 2.5 }),
+    ]);
+
+    expect(errors.map((error) => error.field)).toEqual([
+      'schedule[0].day',
+      'schedule[0].startTime',
+      'schedule[1].endTime',
+      'schedule[1].price',
+      'schedule[1].capacity',
+      'schedule[2].className',
+      'schedule[2].instructor',
+      'schedule[2].price',
+      'schedule[2].capacity',
+    ]);
+    expect(errors[1].message).toBe('Time must be in HH:MM format');
+    expect(errors[2].message).toBe('End time must be after the start time');
+    expect(errors[3].message).toBe('Price must be non-negative');
+  });
+
+  test('requires zero-padded times', () => {
+    expect(validate([slot({ startTime: '7:00' })])).toEqual([
+      { field: 'schedule[0].startTime', message: 'Time must be in HH:MM format' },
+    ]);
+  });
+
+  test('flags an instructor teaching overlapping classes', () => {
+    const errors = validate([
+      slot(),
+      slot({ startTime: '08:00', endTime: '09:00', instructor: ' asha ' }),
+      slot({ startTime: '08:00', endTime: '09:00', instructor: 'Ravi' }),
+      slot({ day: 'tuesday', startTime: '07:30', endTime: '08:00' }),
+    ]);
+
+    expect(errors).toEqual([
+      {
+        field: 'schedule[1].instructor',
+        message: 'asha already teaches monday 07:00-08:30 (schedule[0])',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Shala Image Tests
+ * Photo ordering, image processing, upload validation and local storage keys
+ */
+
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { ShalaImageService } from '../src/services/shala/shalaImageService';
+import { LocalStorageProvider } from '../src/services/storage/localStorageProvider';
+
+const owner = { id: '507f1f77bcf86cd799439011', role: 'owner' };
+
+describe('ShalaImageService.buildImageList', () => {
+  test('puts the cover first and keeps the photo order', () => {
+    const images = ShalaImageService.buildImageList([
+      { url: 'a.webp', isCover: false, approved: true },
+      { url: 'b.webp', isCover: true, approved: true },
+      { url: 'c.webp', isCover: false, approved: true },
+    ]);
+
+    expect(images).toEqual(['b.webp', 'a.webp', 'c.webp']);
+  });
+
+  test('leaves out photos awaiting approval', () => {
+    const images = ShalaImageService.buildImageList(
+      [
+        { url: 'a.webp', isCover: false, approved: true },
+        { url: 'b.webp', isCover: false, approved: false },
+      ],
+      ['a.webp', 'b.webp']
+    );
+
+    expect(images).toEqual(['a.webp']);
+  });
+
+  test('keeps linked image URLs after the uploaded photos', () => {
+    const images = ShalaImageService.buildImageList(
+      [{ url: 'a.webp', isCover: true, approved: true }],
+      ['https://example.com/hall.jpg', 'a.webp']
+    );
+
+    expect(images).toEqual(['a.webp', 'https://example.com/hall.jpg']);
+  });
+});
+
+describe('ShalaImageService.processImage', () => {
+  test('resizes to WebP and crops a thumbnail', async () => {
+    const source = await sharp({
+      create: { width: 2400, height: 1200, channels: 3, background: '#88aa66' },
+    })
+      .jpeg()
+      .toBuffer();
+
+    const processed = await ShalaImageService.processImage(source);
+
+    expect(processed).not.toBeNull();
+    expect(processed!.width).toBe(1600);
+    expect(processed!.height).toBe(800);
+
+    const full = await sharp(processed!.full).metadata();
+    const thumbnail = await sharp(processed!.thumbnail).metadata();
+    expect(full.format).toBe('webp');
+    expect(thumbnail.width).toBe(400);
+    expect(thumbnail.height).toBe(300);
+  });
+
+  test('does not enlarge small images', async () => {
+    const source = await sharp({
+      create: { width: 640, height: 480, channels: 3, background: '#ffffff' },
+    })
+      .png()
+      .toBuffer();
+
+    const processed = await ShalaImageService.processImage(source);
+    expect(processed).toMatchObject({ width: 640, height: 480 });
+  });
+
+  test('returns null for bytes that are not an image', async () => {
+    expect(await ShalaImageService.processImage(Buffer.from('not an image'))).toBeNull();
+  });
+});
+
+describe('ShalaImageService.uploadPhotos validation', () => {
+  test('requires at least one file', async () => {
+    const result = await ShalaImageService.uploadPhotos(owner, 'shala', []);
+
+    expect(result).toMatchObject({
+      success: false,
+      code: ShalaImageService.ERROR_CODES.NO_FILES,
+      statusCode: 400,
+    });
+  });
+
+  test('rejects unsupported file types', async () => {
+    const result = await ShalaImageService.uploadPhotos(owner, 'shala', [
+      { filename: 'studio.gif', mimetype: 'image/gif', buffer: Buffer.alloc(10) },
+    ]);
+
+    expect(result).toMatchObject({
+      success: false,
+      code: ShalaImageService.ERROR_CODES.UNSUPPORTED_TYPE,
+      statusCode: 415,
+    });
+    expect(result.message).toContain('studio.gif');
+  });
+});
+
+describe('LocalStorageProvider', () => {
+  const storage = new LocalStorageProvider(
+    path.join(os.tmpdir(), 'shala-uploads'),
+    'http://localhost:3000/uploads/'
+  );
+
+  test('builds public URLs under the uploads prefix', () => {
+    expect(storage.getUrl('shalas/1/photo.webp')).toBe(
+      'http://localhost:3000/uploads/shalas/1/photo.webp'
+    );
+  });
+
+  test('refuses keys outside the upload directory', async () => {
+    await expect(storage.put('../escape.webp', Buffer.from('x'))).rejects.toThrow(
+      'Invalid storage key'
+    );
+    await expect(storage.delete('../../etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+});
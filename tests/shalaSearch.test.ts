@@ -0,0 +1,149 @@
+/**
+ * Shala Search Tests
+ * Query parsing and the aggregation pipeline built for each kind of search
+ */
+
+import { ShalaSearchService, ShalaSearchParams } from '../src/services/shala/shalaSearchService';
+
+describe('ShalaSearchService', () => {
+  const parse = (query: Record<string, string>) =>
+    ShalaSearchService.parseQuery(query) as ShalaSearchParams;
+
+  test('parses defaults and lists', () => {
+    expect(parse({ amenities: 'parking, showers,' })).toMatchObject({
+      radiusKm: 10,
+      minRating: 0,
+      amenities: ['parking', 'showers'],
+      sortBy: 'distance',
+      page: 1,
+      limit: 10,
+    });
+  });
+
+  test('rejects half a location and out of range values', () => {
+    expect(ShalaSearchService.parseQuery({ lat: '12.9' })).toMatchObject({
+      success: false,
+      code: 'INVALID_QUERY',
+    });
+    expect(ShalaSearchService.parseQuery({ lat: '95', lng: '77' })).toMatchObject({ success: false });
+    expect(ShalaSearchService.parseQuery({ radius: '500' })).toMatchObject({ success: false });
+    expect(ShalaSearchService.parseQuery({ sortBy: 'popularity' })).toMatchObject({ success: false });
+  });
+
+  test('uses $geoNear with the filters for location searches', () => {
+    const pipeline = ShalaSearchService.buildPipeline(
+      parse({ lat: '12.97', lng: '77.59', radius: '5', minRating: '4' })
+    );
+    const geoNear = (pipeline[0] as any).$geoNear;
+
+    expect(geoNear.near.coordinates).toEqual([77.59, 12.97]);
+    expect(geoNear.maxDistance).toBe(5000);
+    expect(geoNear.query).toMatchObject({ isActive: true, rating: { $gte: 4 } });
+  });
+
+  test('combines text search and location with $geoWithin', () => {
+    const pipeline = ShalaSearchService.buildPipeline(
+      parse({ lat: '12.97', lng: '77.59', search: 'ashtanga' })
+    );
+    const match = (pipeline[0] as any).$match;
+
+    expect(match.$text).toEqual({ $search: 'ashtanga' });
+    expect(match.location.$geoWithin.$centerSphere[0]).toEqual([77.59, 12.97]);
+    expect(pipeline.some((stage: any) => stage.$geoNear)).toBe(false);
+  });
+
+  test('escapes the city filter and paginates inside $facet', () => {
+    const pipeline = ShalaSearchService.buildPipeline(
+      parse({ city: 'Bengaluru (East)', page: '3', limit: '5', sortBy: 'price' })
+    );
+    const match = (pipeline[0] as any).$match;
+    const facet = (pipeline[pipeline.length - 1] as any).$facet;
+
+    expect(match['address.city'].test('bengaluru (east)')).toBe(true);
+    expect(facet.shalas.slice(0, 2)).toEqual([{ $skip: 10 }, { $limit: 5 }]);
+    expect(facet.total).toEqual([{ $count: 'count' }]);
+  });
+
+  test('parses class filters and time of day windows', () => {
+    expect(
+      parse({ style: 'Vinyasa,hot_yoga', day: 'Saturday', timeOfDay: 'morning', maxPrice: '500' })
+    ).toMatchObject({
+      styles: ['vinyasa', 'hot_yoga'],
+      days: ['saturday'],
+      startAfter: '05:00',
+      startBefore: '12:00',
+      maxPrice: 500,
+    });
+    expect(ShalaSearchService.parseQuery({ style: 'power' })).toMatchObject({ success: false });
+    expect(ShalaSearchService.parseQuery({ startAfter: '7am' })).toMatchObject({ success: false });
+    expect(ShalaSearchService.parseQuery({ minPrice: '600', maxPrice: '500' })).toMatchObject({
+      success: false,
+    });
+  });
+
+  test('keeps only shalas with a matching class and returns those classes', () => {
+    const pipeline = ShalaSearchService.buildPipeline(
+      parse({ style: 'vinyasa', day: 'saturday', maxPrice: '500' })
+    ) as any[];
+
+    expect(pipeline[0].$match.schedule.$elemMatch).toMatchObject({ day: { $in: ['saturday'] } });
+    expect(pipeline[1].$addFields.matchingSlots.$filter.cond.$and).toHaveLength(3);
+    expect(pipeline[2]).toEqual({ $match: { 'matchingSlots.0': { $exists: true } } });
+  });
+
+  test('lists closures this week and drops shalas closed all week', () => {
+    const pipeline = ShalaSearchService.buildPipeline(
+      parse({}),
+      new Date('2026-10-19T15:00:00.000Z')
+    ) as any[];
+    const lookup = pipeline[1].$lookup;
+
+    expect(lookup.as).toBe('closures');
+    expect(lookup.pipeline[0].$match).toMatchObject({
+      type: 'closure',
+      endDate: { $gte: new Date('2026-10-19T00:00:00.000Z') },
+      startDate: { $lte: new Date('2026-10-25T00:00:00.000Z') },
+    });
+    expect(pipeline[2].$match.closures.$not.$elemMatch).toEqual({
+      startDate: { $lte: new Date('2026-10-19T00:00:00.000Z') },
+      endDate: { $gte: new Date('2026-10-25T00:00:00.000Z') },
+    });
+  });
+});
+
+describe('ShalaSearchService nearby', () => {
+  test('requires a location when the caller is anonymous', async () => {
+    await expect(ShalaSearchService.parseNearbyQuery({})).resolves.toMatchObject({
+      success: false,
+      code: 'LOCATION_REQUIRED',
+    });
+    await expect(ShalaSearchService.parseNearbyQuery({ lat: '12.97' })).resolves.toMatchObject({
+      success: false,
+      code: 'INVALID_QUERY',
+    });
+  });
+
+  test('caps the radius and the number of classes per shala', async () => {
+    await expect(
+      ShalaSearchService.parseNearbyQuery({ lat: '12.97', lng: '77.59', radius: '500', classes: '40' })
+    ).resolves.toEqual({ lat: 12.97, lng: 77.59, radiusKm: 50, classes: 10, limit: 20 });
+  });
+
+  test('looks up the next scheduled classes with their remaining spots', () => {
+    const now = new Date('2025-03-01T09:30:00Z');
+    const pipeline = ShalaSearchService.buildNearbyPipeline(
+      { lat: 12.97, lng: 77.59, radiusKm: 5, classes: 3, limit: 20 },
+      now
+    ) as any[];
+
+    expect(pipeline[0].$geoNear).toMatchObject({
+      near: { type: 'Point', coordinates: [77.59, 12.97] },
+      maxDistance: 5000,
+    });
+
+    const lookup = pipeline.find((stage) => stage.$lookup).$lookup;
+    expect(lookup.pipeline[0].$match.startsAt).toEqual({ $gt: now });
+    expect(lookup.pipeline[2]).toEqual({ $limit: 3 });
+    expect(lookup.pipeline[3].$project.remainingSpots).toBeDefined();
+  });
+});
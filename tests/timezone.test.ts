@@ -0,0 +1,91 @@
+/**
+ * Timezone Tests
+ * Class times read in the shala's timezone, whatever zone the server runs in
+ */
+
+import {
+  getDefaultTimezone,
+  getZonedParts,
+  isValidTimezone,
+  zonedTimeToUtc,
+} from '../src/utils/timezone';
+import { getClassStart, getStartsAt } from '../src/utils/schedule';
+import { getShalaTimezone } from '../src/models/YogaShala';
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+describe('timezone helpers', () => {
+  test('defaults from the country name or code', () => {
+    expect(getDefaultTimezone('India')).toBe('Asia/Kolkata');
+    expect(getDefaultTimezone(' GB ')).toBe('Europe/London');
+    expect(getDefaultTimezone('Atlantis')).toBe('UTC');
+    expect(getDefaultTimezone()).toBe('UTC');
+  });
+
+  test('validates IANA names', () => {
+    expect(isValidTimezone('America/New_York')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  test('converts wall-clock class times to UTC instants', () => {
+    expect(zonedTimeToUtc(day('2026-10-26'), '07:00', 'Asia/Kolkata').toISOString()).toBe(
+      '2026-10-26T01:30:00.000Z'
+    );
+    expect(zonedTimeToUtc(day('2026-07-01'), '18:00', 'America/New_York').toISOString()).toBe(
+      '2026-07-01T22:00:00.000Z'
+    );
+    expect(zonedTimeToUtc(day('2026-01-15'), '18:00', 'America/New_York').toISOString()).toBe(
+      '2026-01-15T23:00:00.000Z'
+    );
+  });
+
+  test('handles daylight saving changes', () => {
+    // 02:30 doesn't exist on the spring-forward night
+    expect(zonedTimeToUtc(day('2026-03-08'), '02:30', 'America/New_York').toISOString()).toBe(
+      '2026-03-08T07:30:00.000Z'
+    );
+    // 01:30 happens twice when clocks go back; the first one wins
+    expect(zonedTimeToUtc(day('2026-11-01'), '01:30', 'America/New_York').toISOString()).toBe(
+      '2026-11-01T05:30:00.000Z'
+    );
+    expect(zonedTimeToUtc(day('2026-10-25'), '02:30', 'Europe/Berlin').toISOString()).toBe(
+      '2026-10-25T00:30:00.000Z'
+    );
+  });
+
+  test('gives the local date and time of an instant', () => {
+    expect(getZonedParts(new Date('2026-10-19T20:00:00.000Z'), 'Asia/Kolkata')).toEqual({
+      date: day('2026-10-20'),
+      time: '01:30',
+    });
+    expect(getZonedParts(new Date('2026-10-19T02:00:00.000Z'), 'America/Los_Angeles')).toEqual({
+      date: day('2026-10-18'),
+      time: '19:00',
+    });
+  });
+});
+
+describe('class start instants', () => {
+  test('reads times in the given timezone, UTC by default', () => {
+    expect(getClassStart(day('2026-10-26'), '07:00').toISOString()).toBe('2026-10-26T07:00:00.000Z');
+    expect(getClassStart(day('2026-10-26'), '07:00', 'Asia/Kolkata').toISOString()).toBe(
+      '2026-10-26T01:30:00.000Z'
+    );
+  });
+
+  test('prefers a stored startsAt', () => {
+    const startsAt = new Date('2026-10-26T01:30:00.000Z');
+
+    expect(getStartsAt({ date: day('2026-10-26'), startTime: '07:00', startsAt })).toBe(startsAt);
+    expect(
+      getStartsAt({ date: day('2026-10-26'), startTime: '07:00', timezone: 'Asia/Kolkata' })
+    ).toEqual(startsAt);
+  });
+
+  test('falls back to the country default for shalas without a timezone', () => {
+    expect(getShalaTimezone({ address: { country: 'India' } as any })).toBe('Asia/Kolkata');
+    expect(getShalaTimezone({ timezone: 'Asia/Kathmandu', address: { country: 'India' } as any })).toBe(
+      'Asia/Kathmandu'
+    );
+  });
+});
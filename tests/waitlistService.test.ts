@@ -0,0 +1,136 @@
+/**
+ * Waitlist Service Tests
+ * Claim windows, offer expiry and promoting the queue when spots free up
+ */
+
+import mongoose from 'mongoose';
+import Booking from '../src/models/Booking';
+import ClassOccurrence from '../src/models/ClassOccurrence';
+import User from '../src/models/User';
+import WaitlistEntry from '../src/models/WaitlistEntry';
+import YogaShala from '../src/models/YogaShala';
+import { CapacityService } from '../src/services/booking/capacityService';
+import { WaitlistService } from '../src/services/booking/waitlistService';
+
+const now = new Date('2026-10-19T09:00:00.000Z');
+const minutes = (count: number) => count * 60 * 1000;
+
+describe('WaitlistService claim window', () => {
+  test('holds an offer for the claim window', () => {
+    const classStart = new Date(now.getTime() + minutes(24 * 60));
+    expect(WaitlistService.getClaimExpiry(now, classStart)).toEqual(
+      new Date(now.getTime() + minutes(WaitlistService.CLAIM_WINDOW_MINUTES))
+    );
+  });
+
+  test('stops holding an offer when the class starts', () => {
+    const classStart = new Date(now.getTime() + minutes(30));
+    expect(WaitlistService.getClaimExpiry(now, classStart)).toEqual(classStart);
+  });
+
+  test('expires offers once their claim window has passed', () => {
+    const claimExpiresAt = new Date(now.getTime() + minutes(5));
+    expect(WaitlistService.isOfferExpired({ claimExpiresAt }, now)).toBe(false);
+    expect(WaitlistService.isOfferExpired({ claimExpiresAt }, claimExpiresAt)).toBe(true);
+    expect(WaitlistService.isOfferExpired({}, now)).toBe(false);
+  });
+});
+
+describe('WaitlistService promotion', () => {
+  const occurrenceId = new mongoose.Types.ObjectId();
+  const occurrence = {
+    _id: occurrenceId,
+    shala: new mongoose.Types.ObjectId(),
+    status: 'scheduled',
+    className: 'Mysore',
+    instructor: 'Asha',
+    price: 500,
+    date: new Date('2026-10-26T00:00:00.000Z'),
+    startTime: '07:00',
+    endTime: '08:30',
+    timezone: 'Asia/Kolkata',
+    startsAt: new Date(Date.now() + minutes(7 * 24 * 60)),
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockQueue = (entry: any) => {
+    jest.spyOn(ClassOccurrence, 'findById').mockResolvedValue(occurrence as any);
+    jest.spyOn(WaitlistEntry, 'exists').mockResolvedValue(entry ? ({ _id: entry._id } as any) : null);
+    jest.spyOn(YogaShala, 'findById').mockReturnValue({
+      select: () => Promise.resolve({ dropInRate: 600 }),
+    } as any);
+    jest.spyOn(User, 'findById').mockReturnValue({
+      select: () => Promise.resolve(null),
+    } as any);
+    const reserve = jest
+      .spyOn(CapacityService, 'reserveSpots')
+      .mockResolvedValue({ reserved: true, capacity: 12, remainingSpots: 0 });
+    const release = jest.spyOn(CapacityService, 'releaseSpots').mockResolvedValue();
+    const offer = jest.spyOn(WaitlistEntry, 'findOneAndUpdate').mockResolvedValue(entry);
+    const create = jest
+      .spyOn(Booking, 'create')
+      .mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+    return { reserve, release, offer, create };
+  };
+
+  test('offers the spot to the longest waiting entry as a pending booking', async () => {
+    const entry = {
+      _id: new mongoose.Types.ObjectId(),
+      user: new mongoose.Types.ObjectId(),
+      shala: occurrence.shala,
+      paymentMethod: 'dropin',
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    const { reserve, offer, create } = mockQueue(entry);
+
+    await expect(WaitlistService.promoteNext(occurrenceId)).resolves.toBe(entry);
+
+    expect(reserve).toHaveBeenCalledWith(occurrenceId);
+    const [filter, update, options] = offer.mock.calls[0] as any[];
+    expect(filter).toEqual({ occurrence: occurrenceId, status: 'waiting' });
+    expect(options).toMatchObject({ sort: { createdAt: 1 } });
+    expect(update.$set.status).toBe('offered');
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ user: entry.user, status: 'pending', amountPaid: 500 })
+    );
+    expect(entry.save).toHaveBeenCalled();
+  });
+
+  test('gives the held spot back when nobody is left to offer it to', async () => {
+    const { release, create } = mockQueue(null);
+    jest.spyOn(WaitlistEntry, 'exists').mockResolvedValue({ _id: 'raced' } as any);
+
+    await expect(WaitlistService.promoteNext(occurrenceId)).resolves.toBeNull();
+
+    expect(release).toHaveBeenCalledWith(occurrenceId);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  test('does not promote into cancelled classes', async () => {
+    const { reserve } = mockQueue(null);
+    jest
+      .spyOn(ClassOccurrence, 'findById')
+      .mockResolvedValue({ ...occurrence, status: 'cancelled' } as any);
+
+    await expect(WaitlistService.promoteNext(occurrenceId)).resolves.toBeNull();
+    expect(reserve).not.toHaveBeenCalled();
+  });
+
+  test('offers one freed spot per waiting entry until the queue runs out', async () => {
+    const promote = jest
+      .spyOn(WaitlistService, 'promoteNext')
+      .mockResolvedValueOnce({} as any)
+      .mockResolvedValueOnce({} as any)
+      .mockResolvedValue(null);
+
+    await expect(WaitlistService.promoteMany(occurrenceId, 2)).resolves.toBe(2);
+    expect(promote).toHaveBeenCalledTimes(2);
+
+    promote.mockClear();
+    await expect(WaitlistService.promoteMany(occurrenceId, 3)).resolves.toBe(0);
+    expect(promote).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Wishlist Service Tests
+ * Wishlisted flags on shala listings and input validation
+ */
+
+import { WishlistService } from '../src/services/user/wishlistService';
+
+const userId = '507f1f77bcf86cd799439011';
+
+describe('WishlistService.markWishlisted', () => {
+  test('flags the saved shalas only', () => {
+    const shalas = [
+      { _id: '64b000000000000000000001', name: 'Saved' },
+      { _id: '64b000000000000000000002', name: 'Not saved' },
+    ];
+
+    const marked = WishlistService.markWishlisted(
+      shalas,
+      new Set(['64b000000000000000000001'])
+    );
+
+    expect(marked.map((shala) => shala.isWishlisted)).toEqual([true, false]);
+    expect(marked[0]).toMatchObject({ name: 'Saved' });
+  });
+
+  test('compares ObjectIds by their string form', () => {
+    const id = { toString: () => '64b000000000000000000003' };
+    const [marked] = WishlistService.markWishlisted(
+      [{ _id: id }],
+      new Set(['64b000000000000000000003'])
+    );
+
+    expect(marked.isWishlisted).toBe(true);
+  });
+});
+
+describe('WishlistService.getWishlistedIds', () => {
+  test('is empty for anonymous callers', async () => {
+    const ids = await WishlistService.getWishlistedIds(undefined);
+    expect(ids.size).toBe(0);
+  });
+});
+
+describe('WishlistService validation', () => {
+  test('treats malformed shala IDs as not found', async () => {
+    const added = await WishlistService.addToWishlist(userId, 'not-an-id');
+    const removed = await WishlistService.removeFromWishlist(userId, 'not-an-id');
+
+    for (const result of [added, removed]) {
+      expect(result).toMatchObject({
+        success: false,
+        code: WishlistService.ERROR_CODES.SHALA_NOT_FOUND,
+        statusCode: 404,
+      });
+    }
+  });
+});